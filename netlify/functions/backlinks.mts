@@ -0,0 +1,105 @@
+/**
+ * Backlink Notification Endpoint
+ *
+ * Tells linked pages that a source page links to them, so the link shows
+ * up on the target site (e.g. as a WordPress pingback comment). Targets
+ * advertising a Webmention endpoint get a Webmention; others get a pingback,
+ * or failing that a Trackback. Nothing is sent unless the source page is
+ * found to link to the target; each result reports that check as
+ * `verification`, with the link's anchor text and nofollow/ugc/sponsored.
+ *
+ * Endpoint: POST /api/backlinks
+ * Body: { links: { source: string, target: string, title?: string,
+ *   excerpt?: string, blogName?: string }[] }, where title, excerpt and
+ *   blogName describe the source for Trackback
+ * Response: one result per link (see BacklinkResponse), naming the protocol
+ * used, with pingback faults reported as outcomes such as 'no_link' or
+ * 'already_registered' and queued Webmentions as 'accepted' with a statusUrl
+ *
+ * Authentication and rate limiting are shared with POST /api/ping; each
+ * link counts as one URL towards an API key's limits.
+ */
+
+import type { Context, Config } from '@netlify/functions';
+import type { BacklinkResponse } from './lib/types';
+import { MAX_BODY_SIZE } from './lib/types';
+import { validateBacklinkRequest } from './lib/validation';
+import { sendBacklinks } from './lib/backlinks';
+import { getCorsHeaders, jsonResponse } from './lib/http';
+import { checkPingAccess } from './lib/access';
+import { recordKeyUsage } from './lib/usage';
+
+/**
+ * Main handler for the backlinks endpoint
+ */
+export default async (req: Request, context: Context): Promise<Response> => {
+  const startTime = Date.now();
+  const corsHeaders = getCorsHeaders(req, 'POST, OPTIONS');
+
+  // Handle preflight request
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders
+    });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405, corsHeaders);
+  }
+
+  try {
+    // Authenticate and limit each client before doing any work on its behalf
+    const access = await checkPingAccess(req, context, corsHeaders);
+    if (!access.allowed) {
+      return access.response;
+    }
+    const { apiKey, headers: responseHeaders } = access;
+
+    const contentLength = parseInt(req.headers.get('content-length') || '0', 10);
+    if (contentLength > MAX_BODY_SIZE) {
+      return jsonResponse({ error: 'Request body too large' }, 413, responseHeaders);
+    }
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return jsonResponse({ error: 'Invalid JSON body' }, 400, responseHeaders);
+    }
+
+    const validation = await validateBacklinkRequest(body, apiKey);
+    if (!validation.valid) {
+      return jsonResponse({ error: validation.error, code: validation.code }, 400, responseHeaders);
+    }
+
+    if (apiKey) {
+      await recordKeyUsage(apiKey, validation.links.length);
+    }
+
+    const results = await sendBacklinks(validation.links, { startTime });
+
+    const response: BacklinkResponse = {
+      success: results.some(result => result.success),
+      results,
+      totalTime: Date.now() - startTime
+    };
+
+    return jsonResponse(response, 200, responseHeaders);
+  } catch (error) {
+    // Log detailed error internally for debugging (not exposed to client)
+    console.error('[Backlinks API] Unhandled error:', error instanceof Error ? error.message : error);
+
+    // Return generic message to prevent information disclosure
+    return jsonResponse({
+      success: false,
+      results: [],
+      totalTime: Date.now() - startTime,
+      error: 'An error occurred while processing your request'
+    }, 500, corsHeaders);
+  }
+};
+
+export const config: Config = {
+  path: '/api/backlinks'
+};
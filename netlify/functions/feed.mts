@@ -1,98 +1,42 @@
 /**
- * Atom Feed Generator for WebSub/PubSubHubbub
+ * Atom Feed Endpoint for WebSub/PubSubHubbub
  *
- * Generates a valid Atom feed containing submitted URLs.
- * The feed includes WebSub hub discovery links so that
- * when we notify the hub, it can fetch this feed and
- * discover the URLs.
+ * Serves the feeds of submitted URLs (see lib/feeds). Each ping request
+ * publishes its URLs and notifies the hubs, which fetch the feed here to
+ * discover the URLs. The feed carries WebSub hub discovery links for every
+ * enabled hub.
  *
- * Endpoint: GET /api/feed?urls=url1,url2,url3
+ * Endpoints:
+ * - GET /api/feed/:id - a stored feed; entry IDs and times are stored with
+ *   it, so every fetch returns the same entries until the next submission.
+ *   Unknown IDs get a 404.
+ * - GET /api/feed?urls=url1,url2,url3 - lists the given URLs, for
+ *   deployments without a feed store shared between instances
+ *
+ * Up to MAX_URLS URLs are accepted anonymously. Callers with an API key
+ * (`Authorization: Bearer <key>`) get the key's URL limit; WebSub hubs
+ * fetch anonymously, so feeds built for a key request carry `key=<id>` and
+ * a signature of the URLs and key (`sig=...`), which lifts the limit to
+ * that key's maxUrls. Without a valid signature the key is ignored.
  */
 
 import type { Context, Config } from '@netlify/functions';
-import { WEBSUB_HUB, MAX_URLS, URL_PATTERN } from './lib/types';
-
-/**
- * Generates a unique ID for an Atom entry
- */
-function generateEntryId(url: string, timestamp: string): string {
-  // Create a deterministic but unique ID based on URL and timestamp
-  const hash = Array.from(url + timestamp)
-    .reduce((acc, char) => ((acc << 5) - acc + char.charCodeAt(0)) | 0, 0)
-    .toString(16);
-  return `urn:uuid:onwardseo-${Math.abs(parseInt(hash, 16)).toString(16).padStart(8, '0')}`;
-}
-
-/**
- * Escapes XML special characters
- */
-function escapeXml(str: string): string {
-  return str
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&apos;');
-}
-
-/**
- * Extracts domain from URL for display purposes
- */
-function extractDomain(url: string): string {
-  try {
-    const parsed = new URL(url);
-    return parsed.hostname;
-  } catch {
-    return url;
-  }
-}
-
-/**
- * Generates Atom feed XML
- */
-function generateAtomFeed(urls: string[], feedUrl: string): string {
-  const now = new Date().toISOString();
-  const feedId = 'urn:uuid:onwardseo-pinger-feed';
-
-  // Generate entries for each URL
-  const entries = urls.map(url => {
-    const domain = extractDomain(url);
-    const entryId = generateEntryId(url, now);
-
-    return `
-  <entry>
-    <title>URL Submission: ${escapeXml(domain)}</title>
-    <link href="${escapeXml(url)}" rel="alternate" type="text/html"/>
-    <id>${entryId}</id>
-    <updated>${now}</updated>
-    <summary>URL submitted for indexing: ${escapeXml(url)}</summary>
-    <author>
-      <name>OnwardSEO Pinger</name>
-    </author>
-  </entry>`;
-  }).join('\n');
-
-  return `<?xml version="1.0" encoding="UTF-8"?>
-<feed xmlns="http://www.w3.org/2005/Atom">
-  <title>OnwardSEO URL Submissions</title>
-  <subtitle>URLs submitted for search engine indexing</subtitle>
-  <link href="${escapeXml(feedUrl)}" rel="self" type="application/atom+xml"/>
-  <link href="${escapeXml(WEBSUB_HUB.url)}" rel="hub"/>
-  <updated>${now}</updated>
-  <id>${feedId}</id>
-  <author>
-    <name>OnwardSEO Pinger</name>
-    <uri>https://onwardseo.com/</uri>
-  </author>
-  <generator uri="https://onwardseo.com/" version="2.0">OnwardSEO Pinger</generator>
-${entries}
-</feed>`;
-}
+import type { SubmissionFeed } from './lib/feeds';
+import { MAX_URLS } from './lib/types';
+import { getEnabledHubs } from './lib/websub';
+import { createTransientFeed, getFeedStore, isValidFeedId, renderAtomFeed, verifyStatelessFeed } from './lib/feeds';
+import { authenticateRequest, getApiKeyStore } from './lib/apiKeys';
+import { unauthorizedResponse } from './lib/access';
+import { findUnsafeUrl, normalizeUrls } from './lib/validation';
+import type { UrlErrorCode } from '../../src/shared/urlValidation';
 
 /**
  * Validates URLs from query parameter
  */
-function validateUrls(urlsParam: string | null): { valid: boolean; urls: string[]; error?: string } {
+async function validateUrls(
+  urlsParam: string | null,
+  maxUrls: number
+): Promise<{ valid: boolean; urls: string[]; error?: string; code?: UrlErrorCode }> {
   if (!urlsParam) {
     return { valid: false, urls: [], error: 'Missing required parameter: urls' };
   }
@@ -103,27 +47,23 @@ function validateUrls(urlsParam: string | null): { valid: boolean; urls: string[
     return { valid: false, urls: [], error: 'No valid URLs provided' };
   }
 
-  if (urls.length > MAX_URLS) {
-    return { valid: false, urls: [], error: `Maximum ${MAX_URLS} URLs allowed` };
+  if (urls.length > maxUrls) {
+    return { valid: false, urls: [], error: `Maximum ${maxUrls} URLs allowed` };
   }
 
-  // Validate each URL
-  const invalidUrls: string[] = [];
-  for (const url of urls) {
-    if (!URL_PATTERN.test(url)) {
-      invalidUrls.push(url);
-    }
+  // Validate and normalise each URL (IDN hosts to Punycode)
+  const normalized = normalizeUrls(urls);
+  if (!normalized.valid) {
+    return { valid: false, urls: [], error: normalized.error, code: normalized.code };
   }
 
-  if (invalidUrls.length > 0) {
-    return {
-      valid: false,
-      urls: [],
-      error: `Invalid URL format: ${invalidUrls.join(', ')}`
-    };
+  // Never advertise URLs that point at private or internal addresses
+  const unsafeUrl = await findUnsafeUrl(normalized.urls);
+  if (unsafeUrl) {
+    return { valid: false, urls: [], error: `Security: ${unsafeUrl}` };
   }
 
-  return { valid: true, urls };
+  return { valid: true, urls: normalized.urls };
 }
 
 /**
@@ -139,33 +79,61 @@ export default async (req: Request, context: Context): Promise<Response> => {
       });
     }
 
-    // Parse query parameters
     const url = new URL(req.url);
-    const urlsParam = url.searchParams.get('urls');
-
-    // Validate URLs
-    const validation = validateUrls(urlsParam);
-    if (!validation.valid) {
-      return new Response(JSON.stringify({ error: validation.error }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' }
-      });
-    }
+    const feedId = context.params?.id;
+    let feed: SubmissionFeed | null;
+    let feedUrl: string;
+
+    if (feedId !== undefined) {
+      feed = isValidFeedId(feedId) ? await getFeedStore().get(feedId) : null;
+      if (!feed) {
+        return new Response(JSON.stringify({ error: 'Feed not found' }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
 
-    // Generate feed URL (the URL of this endpoint)
-    const feedUrl = `${url.origin}${url.pathname}?urls=${encodeURIComponent(urlsParam!)}`;
+      // The URL of this endpoint, advertised as the feed's self link
+      feedUrl = `${url.origin}${url.pathname}`;
+    } else {
+      const urlsParam = url.searchParams.get('urls');
+      const keyId = url.searchParams.get('key');
+      const signature = url.searchParams.get('sig');
+
+      // API keys raise the URL limit, either sent directly or named by a feed URL we signed
+      const auth = await authenticateRequest(req);
+      if (auth.status === 'invalid') {
+        return unauthorizedResponse(auth.error, {});
+      }
+      const signed = Boolean(urlsParam && keyId && signature && verifyStatelessFeed(urlsParam, keyId, signature));
+      const apiKey = auth.status === 'valid'
+        ? auth.key
+        : (signed ? await getApiKeyStore().findById(keyId!) : null);
+      const maxUrls = apiKey && !apiKey.disabled ? apiKey.maxUrls : MAX_URLS;
+
+      // Validate URLs
+      const validation = await validateUrls(urlsParam, maxUrls);
+      if (!validation.valid) {
+        return new Response(JSON.stringify({ error: validation.error, code: validation.code }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
 
-    // Generate Atom feed
-    const atomFeed = generateAtomFeed(validation.urls, feedUrl);
+      feed = createTransientFeed(validation.urls, keyId ?? undefined);
+      feedUrl = `${url.origin}${url.pathname}?urls=${encodeURIComponent(urlsParam!)}`
+        + (keyId ? `&key=${encodeURIComponent(keyId)}` : '')
+        + (signature ? `&sig=${encodeURIComponent(signature)}` : '');
+    }
 
     // Return feed with proper headers
-    return new Response(atomFeed, {
+    return new Response(renderAtomFeed(feed, feedUrl), {
       status: 200,
       headers: {
         'Content-Type': 'application/atom+xml; charset=utf-8',
         'Cache-Control': 'no-cache, no-store, must-revalidate',
         // WebSub discovery headers (redundant with in-feed links, but good practice)
-        'Link': `<${WEBSUB_HUB.url}>; rel="hub", <${feedUrl}>; rel="self"`
+        'Link': [...getEnabledHubs().map(hub => `<${hub.url}>; rel="hub"`), `<${feedUrl}>; rel="self"`].join(', ')
       }
     });
   } catch (error) {
@@ -183,5 +151,5 @@ export default async (req: Request, context: Context): Promise<Response> => {
 };
 
 export const config: Config = {
-  path: '/api/feed'
+  path: ['/api/feed', '/api/feed/:id']
 };
@@ -0,0 +1,67 @@
+/**
+ * IndexNow Key Endpoint
+ *
+ * Shows the IndexNow key and serves this site's key verification file.
+ * Site owners host a file named <key>.txt containing the key at the root
+ * of their site; IndexNow fetches it to confirm submissions are theirs.
+ *
+ * Endpoints:
+ * - GET /api/indexnow/key - { key, keyFile, keyLocation }
+ * - GET /<key>.txt - The verification file for this site (text/plain)
+ */
+
+import type { Context, Config } from '@netlify/functions';
+import { getIndexNowConfig } from './lib/indexnow';
+import { getCorsHeaders, jsonResponse } from './lib/http';
+
+/**
+ * Main handler for the IndexNow key endpoint
+ */
+export default async (req: Request, context: Context): Promise<Response> => {
+  const corsHeaders = getCorsHeaders(req, 'GET, OPTIONS');
+
+  // Handle preflight request
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders
+    });
+  }
+
+  if (req.method !== 'GET') {
+    return jsonResponse({ error: 'Method not allowed' }, 405, corsHeaders);
+  }
+
+  const { key, keyLocation } = getIndexNowConfig();
+  const requestedKey = context.params?.key;
+
+  // Verification file: only the current key exists
+  if (requestedKey !== undefined) {
+    if (requestedKey !== key) {
+      return new Response('Not found', {
+        status: 404,
+        headers: { 'Content-Type': 'text/plain; charset=utf-8' }
+      });
+    }
+
+    return new Response(key, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+        'Cache-Control': 'public, max-age=3600'
+      }
+    });
+  }
+
+  return jsonResponse({
+    key,
+    keyFile: `${key}.txt`,
+    keyLocation: keyLocation ?? null // null: https://<host>/<keyFile> on each submitted host
+  }, 200, corsHeaders);
+};
+
+export const config: Config = {
+  path: ['/api/indexnow/key', '/:key.txt'],
+  // Static files such as robots.txt take precedence over the key file route
+  preferStatic: true
+};
@@ -0,0 +1,155 @@
+/**
+ * Asynchronous Ping Jobs API
+ *
+ * Lets large submissions run outside a single request so they are not
+ * cut short by the 25s function execution guard.
+ *
+ * Endpoints:
+ * - POST /api/jobs        Body: { urls: string[], services?: string[], siteFeedUrl?: string,
+ *                         customEndpoints?: { name, url }[] } → 202 with the queued job
+ * - GET /api/jobs/:id     Job status with per-pair progress
+ * - DELETE /api/jobs/:id  Cancels a queued or running job
+ *
+ * Creating a job accepts the same API keys and counts against the same
+ * rate limits as POST /api/ping; polling and cancelling do not.
+ *
+ * Job execution (JOB_RUNNER):
+ * - background (default with a shared job store, e.g. Netlify Blobs): hands
+ *   the job to the ping-job-background function
+ * - inline (default otherwise): runs in this function instance after
+ *   responding, suitable for local development with the memory or file store
+ */
+
+import type { Context, Config } from '@netlify/functions';
+import { MAX_BODY_SIZE } from './lib/types';
+import { publishSubmission } from './lib/feeds';
+import { validatePingRequest } from './lib/validation';
+import { getCorsHeaders, jsonResponse } from './lib/http';
+import type { JobStore } from './lib/jobs';
+import { getJobStore, createPingJob, cancelPingJob, runPingJob, isValidJobId } from './lib/jobs';
+import { checkPingAccess } from './lib/access';
+import { recordKeyUsage } from './lib/usage';
+
+/**
+ * Starts processing a queued job without holding the request open
+ */
+async function dispatchJob(store: JobStore, origin: string, jobId: string): Promise<void> {
+  // The background function only sees the job through a shared store
+  const runner = process.env.JOB_RUNNER || (store.shared ? 'background' : 'inline');
+
+  if (runner === 'background') {
+    // Background functions respond with 202 immediately and keep running
+    const response = await fetch(`${origin}/.netlify/functions/ping-job-background`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jobId })
+    });
+    if (!response.ok) {
+      throw new Error(`Background runner returned HTTP ${response.status}`);
+    }
+    return;
+  }
+
+  // Inline runner: the job continues after the response has been sent
+  void runPingJob(store, jobId);
+}
+
+/**
+ * Main handler for the jobs endpoint
+ */
+export default async (req: Request, context: Context): Promise<Response> => {
+  const corsHeaders = getCorsHeaders(req, 'GET, POST, DELETE, OPTIONS');
+
+  // Handle preflight request
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders
+    });
+  }
+
+  const store = getJobStore();
+  const jobId = context.params?.id;
+
+  try {
+    // GET/DELETE /api/jobs/:id
+    if (jobId !== undefined) {
+      if (req.method !== 'GET' && req.method !== 'DELETE') {
+        return jsonResponse({ error: 'Method not allowed' }, 405, corsHeaders);
+      }
+
+      if (!isValidJobId(jobId)) {
+        return jsonResponse({ error: 'Invalid job ID' }, 400, corsHeaders);
+      }
+
+      const job = req.method === 'DELETE'
+        ? await cancelPingJob(store, jobId)
+        : await store.get(jobId);
+
+      if (!job) {
+        return jsonResponse({ error: 'Job not found' }, 404, corsHeaders);
+      }
+
+      return jsonResponse(job, 200, {
+        'Cache-Control': 'no-store',
+        ...corsHeaders
+      });
+    }
+
+    // POST /api/jobs
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405, corsHeaders);
+    }
+
+    const access = await checkPingAccess(req, context, corsHeaders);
+    if (!access.allowed) {
+      return access.response;
+    }
+    const { apiKey, headers: responseHeaders } = access;
+
+    // Validate request body size to prevent DoS attacks
+    const contentLength = req.headers.get('content-length');
+    if (contentLength && parseInt(contentLength, 10) > MAX_BODY_SIZE) {
+      return jsonResponse({ error: 'Request body too large' }, 413, responseHeaders);
+    }
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return jsonResponse({ error: 'Invalid JSON body' }, 400, responseHeaders);
+    }
+
+    const validation = await validatePingRequest(body, apiKey);
+    if (!validation.valid) {
+      return jsonResponse({ error: validation.error, code: validation.code }, 400, responseHeaders);
+    }
+
+    if (apiKey) {
+      await recordKeyUsage(apiKey, validation.urls.length);
+    }
+
+    const origin = new URL(req.url).origin;
+    const feedUrl = await publishSubmission(origin, validation.urls, apiKey?.id);
+    const job = await createPingJob(store, validation, feedUrl);
+
+    await dispatchJob(store, origin, job.id);
+
+    return jsonResponse(job, 202, {
+      'Location': `/api/jobs/${job.id}`,
+      ...responseHeaders
+    });
+
+  } catch (error) {
+    // Log detailed error internally for debugging (not exposed to client)
+    console.error('[Jobs API] Unhandled error:', error instanceof Error ? error.message : error);
+
+    return jsonResponse({
+      error: 'An error occurred while processing your request'
+    }, 500, corsHeaders);
+  }
+};
+
+export const config: Config = {
+  path: ['/api/jobs', '/api/jobs/:id']
+};
@@ -0,0 +1,117 @@
+// @vitest-environment node
+import { describe, test, expect, beforeAll, vi } from 'vitest';
+import { mkdtemp, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { ApiKey } from '../apiKeys';
+import { JsonFileApiKeyStore, MemoryApiKeyStore, authenticateRequest, hashApiKey } from '../apiKeys';
+import { validatePingRequest } from '../validation';
+import { MemoryCounterStore, consumeRateLimit, getKeyIdentity } from '../rateLimit';
+import { getKeyUsage, recordKeyUsage } from '../usage';
+import { setHostResolver } from '../ssrf';
+
+const scriptsKey: ApiKey = {
+  id: 'scripts',
+  name: 'Publishing scripts',
+  keyHash: hashApiKey('s3cret'),
+  maxUrls: 20,
+  dailyQuota: 50,
+  services: ['Ping-o-Matic']
+};
+
+const store = new MemoryApiKeyStore([
+  scriptsKey,
+  { ...scriptsKey, id: 'old', keyHash: hashApiKey('revoked'), disabled: true }
+]);
+
+function requestWith(authorization?: string): Request {
+  return new Request('https://example.com/api/ping', {
+    headers: authorization ? { Authorization: authorization } : {}
+  });
+}
+
+describe('API keys', () => {
+  beforeAll(() => {
+    setHostResolver(async () => ['93.184.215.14']);
+  });
+
+  describe('authenticateRequest', () => {
+    test('treats requests without credentials as anonymous', async () => {
+      expect(await authenticateRequest(requestWith(), store)).toEqual({ status: 'anonymous' });
+    });
+
+    test('resolves a valid Bearer key', async () => {
+      const auth = await authenticateRequest(requestWith('Bearer s3cret'), store);
+      expect(auth).toEqual({ status: 'valid', key: scriptsKey });
+    });
+
+    test('rejects unknown, disabled and malformed credentials', async () => {
+      for (const authorization of ['Bearer wrong', 'Bearer revoked', 'Basic abc', 'Bearer']) {
+        const auth = await authenticateRequest(requestWith(authorization), store);
+        expect(auth.status).toBe('invalid');
+      }
+    });
+
+    test('ignores key file entries whose flags are not booleans', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const path = join(await mkdtemp(join(tmpdir(), 'api-keys-')), 'keys.json');
+      await writeFile(path, JSON.stringify({
+        keys: [
+          scriptsKey,
+          { ...scriptsKey, id: 'string-admin', keyHash: hashApiKey('admin'), admin: 'false' },
+          { ...scriptsKey, id: 'string-disabled', keyHash: hashApiKey('revoked'), disabled: 'true' }
+        ]
+      }));
+      const fileStore = new JsonFileApiKeyStore(path);
+
+      expect((await fileStore.list()).map(key => key.id)).toEqual(['scripts']);
+      expect((await authenticateRequest(requestWith('Bearer revoked'), fileStore)).status).toBe('invalid');
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('Ignored 2 invalid entries'));
+      warn.mockRestore();
+    });
+  });
+
+  describe('per-key limits', () => {
+    const urls = Array.from({ length: 8 }, (_, i) => `https://example.com/post-${i}`);
+
+    test('applies the key URL limit instead of MAX_URLS', async () => {
+      expect((await validatePingRequest({ urls })).valid).toBe(false);
+      expect((await validatePingRequest({ urls }, scriptsKey)).valid).toBe(true);
+      expect((await validatePingRequest({ urls: [...urls, ...urls, ...urls] }, scriptsKey)).error)
+        .toBe('Maximum 20 URLs allowed, received 24');
+    });
+
+    test('restricts pings to the services the key allows', async () => {
+      const defaults = await validatePingRequest({ urls: ['https://example.com'] }, scriptsKey);
+      expect(defaults.services).toEqual(['Ping-o-Matic']);
+      expect(defaults.skippedServices).toContain('Twingly');
+
+      const forbidden = await validatePingRequest({ urls: ['https://example.com'], services: ['Twingly'] }, scriptsKey);
+      expect(forbidden.valid).toBe(false);
+      expect(forbidden.error).toBe('Service not allowed for this API key: Twingly');
+    });
+  });
+
+  test('reports requests and URLs used today', async () => {
+    const now = Date.UTC(2024, 5, 1, 12);
+    const counters = new MemoryCounterStore(() => now);
+    const config = { windowMs: 60_000, maxPerWindow: 10, maxPerDay: scriptsKey.dailyQuota };
+
+    await consumeRateLimit([getKeyIdentity(scriptsKey)], config, counters, now);
+    await recordKeyUsage(scriptsKey, 7, counters, now);
+    await consumeRateLimit([getKeyIdentity(scriptsKey)], config, counters, now);
+    await recordKeyUsage(scriptsKey, 3, counters, now);
+
+    expect(await getKeyUsage(scriptsKey, counters, now)).toEqual({
+      id: 'scripts',
+      name: 'Publishing scripts',
+      date: '2024-06-01',
+      requests: 2,
+      urls: 10,
+      dailyQuota: 50,
+      remaining: 48,
+      maxUrls: 20,
+      services: ['Ping-o-Matic']
+    });
+  });
+});
@@ -0,0 +1,117 @@
+// @vitest-environment node
+import { describe, test, expect, vi, beforeAll, afterEach } from 'vitest';
+import { MAX_CUSTOM_ENDPOINTS } from '../types';
+import { setHostResolver } from '../ssrf';
+import { validateCustomEndpoints, validatePingRequest } from '../validation';
+import { pingAllServices } from '../pinger';
+import { createPingJob, MemoryJobStore } from '../jobs';
+
+const PAGE = 'https://blog.example.com/posts/hello';
+const REGIONAL = { name: 'Regional Pinger', url: 'ping.example.net/RPC2' };
+
+const thanks = () => new Response(`<?xml version="1.0"?>
+<methodResponse><params><param><value><struct>
+<member><name>flerror</name><value><boolean>0</boolean></value></member>
+<member><name>message</name><value><string>Thanks for the ping.</string></value></member>
+</struct></value></param></params></methodResponse>`);
+
+beforeAll(() => {
+  setHostResolver(async () => ['93.184.215.14']);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('Custom XML-RPC endpoints', () => {
+  test('become XML-RPC services under the Custom category', async () => {
+    expect(await validateCustomEndpoints([{ name: ' Regional Pinger ', url: REGIONAL.url }])).toEqual({
+      valid: true,
+      endpoints: [expect.objectContaining({
+        name: 'Regional Pinger',
+        endpoint: 'https://ping.example.net/RPC2',
+        category: 'Custom',
+        custom: true
+      })]
+    });
+    expect(await validateCustomEndpoints(undefined)).toEqual({ valid: true, endpoints: [] });
+  });
+
+  test('are capped and checked for names, URLs and private addresses', async () => {
+    const tooMany = Array.from({ length: MAX_CUSTOM_ENDPOINTS + 1 }, (_, i) => ({ name: `Pinger ${i}`, url: REGIONAL.url }));
+
+    for (const [endpoints, error] of [
+      [tooMany, `Maximum ${MAX_CUSTOM_ENDPOINTS} custom endpoints allowed`],
+      [[{ name: 'Ping-o-Matic', url: REGIONAL.url }], 'Duplicate service name: Ping-o-Matic'],
+      [[REGIONAL, REGIONAL], 'Duplicate service name: Regional Pinger'],
+      [[{ name: ' ', url: REGIONAL.url }], 'Custom endpoint names must be'],
+      [[{ name: 'Internal', url: 'http://10.0.0.1/RPC2' }], 'Security:'],
+      [[{ name: 'Broken', url: 'ftp://ping.example.net/' }], 'Invalid URL format'],
+      ['ping.example.net', 'Invalid field: customEndpoints']
+    ] as const) {
+      const validation = await validateCustomEndpoints(endpoints);
+      expect(validation.valid).toBe(false);
+      expect(validation.valid || validation.error).toContain(error);
+    }
+  });
+
+  test('can be the only services selected, except for restricted API keys', async () => {
+    const validation = await validatePingRequest({ urls: [PAGE], services: [], customEndpoints: [REGIONAL] });
+    expect(validation).toMatchObject({ valid: true, services: [], customEndpoints: [{ name: 'Regional Pinger' }] });
+
+    expect((await validatePingRequest({ urls: [PAGE], services: [] })).valid).toBe(false);
+    expect(await validatePingRequest({ urls: [PAGE], customEndpoints: [REGIONAL] }, { services: ['Twingly'] }))
+      .toMatchObject({ valid: false, error: 'Custom endpoints are not allowed for this API key' });
+  });
+
+  test('are pinged with weblogUpdates.ping and reported under their names', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => thanks());
+    const validation = await validatePingRequest({ urls: [PAGE], services: [], customEndpoints: [REGIONAL] });
+
+    const results = await pingAllServices(PAGE, 'https://pinger.example.com/api/feed', {
+      startTime: Date.now(),
+      services: validation.services,
+      customEndpoints: validation.customEndpoints
+    });
+
+    expect(results).toEqual([expect.objectContaining({
+      service: 'Regional Pinger',
+      success: true,
+      method: 'xmlrpc',
+      outcome: 'accepted',
+      message: 'Thanks for the ping.'
+    })]);
+
+    const [input, init] = fetchMock.mock.calls[0];
+    expect(String(input)).toBe('https://ping.example.net/RPC2');
+    expect(String(init?.body)).toContain('<methodName>weblogUpdates.ping</methodName>');
+    expect(init?.redirect).toBe('manual');
+  });
+
+  test('are refused at request time when they move to a private address', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch');
+    const validation = await validatePingRequest({ urls: [PAGE], services: [], customEndpoints: [REGIONAL] });
+
+    setHostResolver(async () => ['10.0.0.8']);
+    try {
+      const [result] = await pingAllServices(PAGE, 'https://pinger.example.com/api/feed', {
+        startTime: Date.now(),
+        services: [],
+        customEndpoints: validation.customEndpoints
+      });
+
+      expect(result).toMatchObject({ service: 'Regional Pinger', success: false, outcome: 'unreachable', reason: 'blocked' });
+      expect(fetchMock).not.toHaveBeenCalled();
+    } finally {
+      setHostResolver(async () => ['93.184.215.14']);
+    }
+  });
+
+  test('get their own job pairs', async () => {
+    const validation = await validatePingRequest({ urls: [PAGE], services: ['Twingly'], customEndpoints: [REGIONAL] });
+    const job = await createPingJob(new MemoryJobStore(), validation, 'https://pinger.example.com/api/feed');
+
+    expect(job.pairs.map(pair => pair.service)).toEqual(['Twingly', 'Regional Pinger']);
+    expect(job.customEndpoints).toHaveLength(1);
+  });
+});
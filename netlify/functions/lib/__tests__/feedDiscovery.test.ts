@@ -0,0 +1,127 @@
+// @vitest-environment node
+import { describe, test, expect, vi, beforeAll, afterEach } from 'vitest';
+import { setHostResolver } from '../ssrf';
+import { discoverSiteFeeds, publishSiteFeeds } from '../feedDiscovery';
+import { findLinkHeaders, findRelLinks } from '../linkDiscovery';
+import { getServiceRegistry } from '../protocolRegistry';
+import { SITE_HUB_SERVICE } from '../types';
+
+const PAGE = 'https://blog.example.com/posts/hello';
+const FEED = 'https://blog.example.com/feed.xml';
+const HUB = 'https://hub.example.net/';
+
+const page = (head: string) => () => new Response(`<html><head>${head}</head></html>`);
+
+// RSS 2.0 with its hub declared through the Atom namespace
+const rssFeed = (hubs: string[], self?: string) => () => new Response(`<?xml version="1.0"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom"><channel>
+${hubs.map(hub => `<atom:link rel="hub" href="${hub}"/>`).join('\n')}
+${self ? `<atom:link rel="self" type="application/rss+xml" href="${self}"/>` : ''}
+<title>Blog</title></channel></rss>`);
+
+// Answers requests from a table of URL → response factories
+function stubFetch(routes: Record<string, () => Response>) {
+  return vi.spyOn(globalThis, 'fetch').mockImplementation(async input => {
+    const route = routes[String(input)];
+    return route ? route() : new Response('Not found', { status: 404 });
+  });
+}
+
+beforeAll(() => {
+  setHostResolver(async () => ['93.184.215.14']);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('Site feed discovery', () => {
+  test('finds every matching link and Link header entry', () => {
+    const html = '<link rel="alternate" type="application/rss+xml" href="/rss">'
+      + '<link rel="alternate" type="text/html" href="/amp">'
+      + '<link rel="alternate" type="application/atom+xml" href="/atom">';
+
+    expect(findRelLinks(html, 'alternate', PAGE, ['link'], ['application/rss+xml', 'application/atom+xml']))
+      .toEqual(['https://blog.example.com/rss', 'https://blog.example.com/atom']);
+    expect(findLinkHeaders('<https://a.example/>; rel="hub", <https://b.example/>; rel=hub', 'hub', PAGE))
+      .toEqual(['https://a.example/', 'https://b.example/']);
+  });
+
+  test('reads hubs and the self URL from the feed, then the page', async () => {
+    stubFetch({
+      [PAGE]: page(`<link rel="alternate" type="application/rss+xml" href="/feed.xml"><link rel="hub" href="https://page-hub.example.net/">`),
+      [FEED]: rssFeed([HUB], 'https://blog.example.com/feed')
+    });
+
+    expect(await discoverSiteFeeds(PAGE)).toEqual({
+      ok: true,
+      feeds: [{ topic: 'https://blog.example.com/feed', hubs: [HUB, 'https://page-hub.example.net/'] }]
+    });
+  });
+
+  test('publishes the feed to its hubs', async () => {
+    const calls: string[] = [];
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+      calls.push(`${init?.method} ${String(input)}`);
+      if (String(input) === PAGE) {
+        return page('<link rel="alternate" type="application/atom+xml" href="/feed.xml">')();
+      }
+      if (String(input) === FEED) {
+        return new Response(`<feed xmlns="http://www.w3.org/2005/Atom"><link rel="hub" href="${HUB}"/></feed>`);
+      }
+      return new Response(null, { status: 204 });
+    });
+
+    const result = await publishSiteFeeds(PAGE);
+
+    expect(result).toMatchObject({ success: true, message: 'Published 1 feed to 1 hub' });
+    expect(result.results).toMatchObject([{ hubName: 'hub.example.net', hubUrl: HUB, success: true }]);
+    expect(calls).toEqual([`GET ${PAGE}`, `GET ${FEED}`, `POST ${HUB}`]);
+  });
+
+  test('reports pages without feeds or hubs', async () => {
+    stubFetch({ [PAGE]: page('') });
+    expect(await publishSiteFeeds(PAGE))
+      .toMatchObject({ success: false, message: 'No RSS or Atom feed found on the page' });
+
+    vi.restoreAllMocks();
+    stubFetch({
+      [PAGE]: page('<link rel="alternate" type="application/rss+xml" href="/feed.xml">'),
+      [FEED]: rssFeed([])
+    });
+    expect(await publishSiteFeeds(PAGE))
+      .toMatchObject({ success: false, message: "The site's feeds declare no WebSub hub" });
+  });
+
+  test('does not publish to private hubs', async () => {
+    const fetchMock = stubFetch({
+      [PAGE]: page('<link rel="alternate" type="application/rss+xml" href="/feed.xml">'),
+      [FEED]: rssFeed(['http://127.0.0.1:8080/hub'])
+    });
+
+    const result = await publishSiteFeeds(PAGE);
+
+    expect(result.success).toBe(false);
+    expect(result.results).toMatchObject([{ success: false }]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  test('limits the feeds and hubs contacted', async () => {
+    const feeds = Array.from({ length: 5 }, (_, i) => `<link rel="alternate" type="application/rss+xml" href="/feed${i}.xml">`);
+    const hubs = Array.from({ length: 5 }, (_, i) => `https://hub${i}.example.net/`);
+    stubFetch({
+      [PAGE]: page(feeds.join('')),
+      ...Object.fromEntries(Array.from({ length: 5 }, (_, i) => [`https://blog.example.com/feed${i}.xml`, rssFeed(hubs)]))
+    });
+
+    const discovery = await discoverSiteFeeds(PAGE);
+
+    expect(discovery.ok && discovery.feeds).toHaveLength(SITE_HUB_SERVICE.maxFeeds);
+    expect(discovery.ok && discovery.feeds.every(feed => feed.hubs.length === SITE_HUB_SERVICE.maxHubs)).toBe(true);
+  });
+
+  test('is listed in the registry, off until opted in', () => {
+    expect(getServiceRegistry().find(service => service.name === SITE_HUB_SERVICE.name))
+      .toMatchObject({ method: 'websub', enabled: false });
+  });
+});
@@ -0,0 +1,138 @@
+// @vitest-environment node
+import { describe, test, expect, afterEach, vi } from 'vitest';
+import {
+  BlobFeedStore,
+  MemoryFeedStore,
+  buildFeedUrl,
+  createTransientFeed,
+  getEntryId,
+  getFeedId,
+  isValidFeedId,
+  publishSubmission,
+  recordSubmission,
+  renderAtomFeed,
+  signStatelessFeed,
+  verifyStatelessFeed
+} from '../feeds';
+import { FakeBlobStore } from './fixtures/blobStore';
+
+const PAGE = 'https://blog.example.com/posts/hello';
+const OTHER = 'https://blog.example.com/posts/other';
+
+const at = (iso: string) => new Date(iso);
+const entryIds = (xml: string) => [...xml.matchAll(/<entry>[\s\S]*?<id>([^<]*)<\/id>/g)].map(match => match[1]);
+
+describe('Submission feeds', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  test('gives each submitter and site a short feed ID', () => {
+    const id = getFeedId([PAGE]);
+
+    expect(isValidFeedId(id)).toBe(true);
+    expect(getFeedId([OTHER])).toBe(id);
+    expect(getFeedId([PAGE], 'key-1')).not.toBe(id);
+    expect(getFeedId(['https://shop.example.com/'])).not.toBe(id);
+    expect(buildFeedUrl('https://pinger.example.com', id)).toBe(`https://pinger.example.com/api/feed/${id}`);
+  });
+
+  test('serves the same entries on every fetch', async () => {
+    const feed = await recordSubmission(new MemoryFeedStore(), [PAGE, OTHER], undefined, at('2026-03-01T10:00:00Z'));
+
+    const first = renderAtomFeed(feed, 'https://pinger.example.com/api/feed/x');
+    const second = renderAtomFeed(feed, 'https://pinger.example.com/api/feed/x');
+
+    expect(second).toBe(first);
+    expect(entryIds(first)).toEqual([getEntryId(feed.id, PAGE), getEntryId(feed.id, OTHER)]);
+    expect(first).toContain('<published>2026-03-01T10:00:00.000Z</published>');
+    expect(first.match(/<updated>2026-03-01T10:00:00.000Z<\/updated>/g)).toHaveLength(3);
+  });
+
+  test('keeps entry IDs and submission times across resubmissions', async () => {
+    const store = new MemoryFeedStore();
+    await recordSubmission(store, [PAGE], undefined, at('2026-03-01T10:00:00Z'));
+    await recordSubmission(store, [OTHER], undefined, at('2026-03-02T10:00:00Z'));
+
+    const feed = await recordSubmission(store, [PAGE], undefined, at('2026-03-03T10:00:00Z'));
+
+    expect(feed.entries).toEqual([
+      { url: PAGE, submittedAt: '2026-03-01T10:00:00.000Z', updatedAt: '2026-03-03T10:00:00.000Z' },
+      { url: OTHER, submittedAt: '2026-03-02T10:00:00.000Z', updatedAt: '2026-03-02T10:00:00.000Z' }
+    ]);
+    expect(feed.updatedAt).toBe('2026-03-03T10:00:00.000Z');
+    expect(await store.get(feed.id)).toEqual(feed);
+  });
+
+  test('drops entries outside the history window', async () => {
+    const store = new MemoryFeedStore();
+    await recordSubmission(store, [OTHER], undefined, at('2026-03-01T10:00:00Z'));
+
+    const feed = await recordSubmission(store, [PAGE], undefined, at('2026-03-09T10:00:00Z'));
+    expect(feed.entries.map(entry => entry.url)).toEqual([PAGE]);
+
+    const pages = Array.from({ length: 120 }, (_, i) => `https://blog.example.com/posts/${i}`);
+    const full = await recordSubmission(store, pages, undefined, at('2026-03-09T11:00:00Z'));
+    expect(full.entries).toHaveLength(100);
+    expect(full.entries[0].url).toBe(pages[0]);
+  });
+
+  test('are shared through Netlify Blobs', async () => {
+    const blobs = new FakeBlobStore();
+    const feed = await recordSubmission(new BlobFeedStore(blobs), [PAGE], 'key-1', at('2026-03-01T10:00:00Z'));
+
+    // Another instance reads the same feed
+    expect(await new BlobFeedStore(blobs).get(feed.id)).toEqual(feed);
+    expect(await new BlobFeedStore(blobs).get('../other')).toBeNull();
+  });
+
+  test('keep every entry when instances submit to the same feed at once', async () => {
+    const blobs = new FakeBlobStore();
+
+    await Promise.all([
+      recordSubmission(new BlobFeedStore(blobs), [PAGE], undefined, at('2026-03-01T10:00:00Z')),
+      recordSubmission(new BlobFeedStore(blobs), [OTHER], undefined, at('2026-03-01T10:00:01Z'))
+    ]);
+
+    const feed = await new BlobFeedStore(blobs).get(getFeedId([PAGE]));
+    expect(feed?.entries.map(entry => entry.url).sort()).toEqual([PAGE, OTHER]);
+  });
+
+  test('publish stored feeds only when every instance can read them', async () => {
+    const shared = new BlobFeedStore(new FakeBlobStore());
+    const id = getFeedId([PAGE], 'key-1');
+
+    expect(await publishSubmission('https://pinger.example.com', [PAGE, OTHER], 'key-1', shared))
+      .toBe(`https://pinger.example.com/api/feed/${id}`);
+    expect(await shared.get(id)).not.toBeNull();
+
+    const local = new MemoryFeedStore();
+    expect(await publishSubmission('https://pinger.example.com', [PAGE, OTHER], 'key-1', local))
+      .toBe(`https://pinger.example.com/api/feed?urls=${encodeURIComponent(`${PAGE},${OTHER}`)}`
+        + `&key=key-1&sig=${signStatelessFeed(`${PAGE},${OTHER}`, 'key-1')}`);
+    expect(await local.get(id)).toBeNull();
+  });
+
+  test('sign the key of stateless feed URLs', () => {
+    vi.stubEnv('FEED_SIGNING_SECRET', 'feed-secret');
+    const signature = signStatelessFeed(PAGE, 'key-1');
+
+    expect(verifyStatelessFeed(PAGE, 'key-1', signature)).toBe(true);
+    expect(verifyStatelessFeed(PAGE, 'key-2', signature)).toBe(false);
+    expect(verifyStatelessFeed(`${PAGE},${OTHER}`, 'key-1', signature)).toBe(false);
+    expect(verifyStatelessFeed(PAGE, 'key-1', signature.slice(1))).toBe(false);
+    expect(verifyStatelessFeed(PAGE, 'key-1', '')).toBe(false);
+
+    // A different secret, as on another deployment, rejects the signature
+    vi.stubEnv('FEED_SIGNING_SECRET', 'other-secret');
+    expect(verifyStatelessFeed(PAGE, 'key-1', signature)).toBe(false);
+  });
+
+  test('give stateless feeds the entry IDs of stored ones', async () => {
+    const stored = await recordSubmission(new MemoryFeedStore(), [PAGE], undefined, at('2026-03-01T10:00:00Z'));
+    const transient = createTransientFeed([PAGE], undefined, at('2026-03-02T10:00:00Z'));
+
+    expect(entryIds(renderAtomFeed(transient, 'https://pinger.example.com/api/feed?urls=x')))
+      .toEqual(entryIds(renderAtomFeed(stored, 'https://pinger.example.com/api/feed/x')));
+  });
+});
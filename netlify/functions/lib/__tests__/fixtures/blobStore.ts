@@ -0,0 +1,32 @@
+import type { JsonBlobStore } from '../../blobs';
+
+/**
+ * A Netlify Blobs store in memory, with ETags for conditional writes
+ */
+export class FakeBlobStore implements JsonBlobStore {
+  readonly blobs = new Map<string, { data: unknown; etag: string }>();
+  private version = 0;
+
+  async getWithMetadata(key: string) {
+    const blob = this.blobs.get(key);
+    return blob ? structuredClone(blob) : null;
+  }
+
+  async setJSON(key: string, data: unknown, options: { onlyIfMatch?: string; onlyIfNew?: boolean } = {}) {
+    const current = this.blobs.get(key);
+    if ((options.onlyIfNew && current) || (options.onlyIfMatch && current?.etag !== options.onlyIfMatch)) {
+      return { modified: false };
+    }
+
+    this.blobs.set(key, { data: structuredClone(data), etag: String(++this.version) });
+    return { modified: true };
+  }
+
+  async delete(key: string) {
+    this.blobs.delete(key);
+  }
+
+  async list() {
+    return { blobs: [...this.blobs.keys()].map(key => ({ key })) };
+  }
+}
@@ -0,0 +1,81 @@
+// @vitest-environment node
+import { describe, test, expect, vi, afterEach } from 'vitest';
+import type { HttpTemplateService } from '../types';
+import { HTTP_TEMPLATE_SERVICES } from '../types';
+import { expandUrlTemplate, sendHttpTemplatePing } from '../httpTemplate';
+import { pingAllServices } from '../pinger';
+import { getServiceRegistry } from '../protocolRegistry';
+
+const PAGE = 'https://blog.example.com/posts/hello?lang=en';
+
+const service: HttpTemplateService = {
+  name: 'Legacy Ping',
+  urlTemplate: 'https://ping.example.net/ping?url={url}&name={name}',
+  method: 'GET',
+  timeout: 1000,
+  maxRetries: 0,
+  category: 'Blog Networks',
+  description: 'Test',
+  reachesServices: []
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  HTTP_TEMPLATE_SERVICES.length = 0;
+});
+
+describe('HTTP template services', () => {
+  test('substitute URL-encoded values into the template', () => {
+    expect(expandUrlTemplate('https://ping.example.net/?u={url}&n={name}&f={feed}&x={other}', {
+      url: PAGE,
+      name: 'My blog'
+    })).toBe(`https://ping.example.net/?u=${encodeURIComponent(PAGE)}&n=My%20blog&f=&x={other}`);
+  });
+
+  test('send the templated request and accept any 2xx by default', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('OK'));
+
+    const result = await sendHttpTemplatePing(service, { url: PAGE, name: 'blog.example.com' });
+
+    expect(result).toMatchObject({ success: true, statusCode: 200, message: 'Ping accepted' });
+    const [input, init] = fetchMock.mock.calls[0];
+    expect(String(input)).toBe(`https://ping.example.net/ping?url=${encodeURIComponent(PAGE)}&name=blog.example.com`);
+    expect(init?.method).toBe('GET');
+  });
+
+  test('apply the expected status and body rule', async () => {
+    const strict = { ...service, success: { statuses: [200], bodyMatch: 'thanks for( the)? ping' } };
+
+    vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(new Response('Thanks for the ping!'));
+    expect((await sendHttpTemplatePing(strict, { url: PAGE, name: 'x' })).success).toBe(true);
+
+    vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(new Response('Error: invalid URL'));
+    expect(await sendHttpTemplatePing(strict, { url: PAGE, name: 'x' }))
+      .toMatchObject({ success: false, bodyMismatch: true, message: 'Response did not match the expected body' });
+
+    vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(new Response(null, { status: 204 }));
+    expect(await sendHttpTemplatePing(strict, { url: PAGE, name: 'x' }))
+      .toMatchObject({ success: false, statusCode: 204 });
+  });
+
+  test('run like any other service', async () => {
+    HTTP_TEMPLATE_SERVICES.push({ ...service, success: { bodyMatch: 'ok' } });
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response('Rejected'));
+
+    expect(getServiceRegistry().find(s => s.name === service.name)).toMatchObject({ method: 'http-template', enabled: true });
+
+    const results = await pingAllServices(PAGE, 'https://pinger.example.com/api/feed', {
+      startTime: Date.now(),
+      services: [service.name]
+    });
+
+    expect(results).toEqual([expect.objectContaining({
+      service: service.name,
+      url: PAGE,
+      success: false,
+      method: 'http-template',
+      outcome: 'rejected',
+      reason: 'refused'
+    })]);
+  });
+});
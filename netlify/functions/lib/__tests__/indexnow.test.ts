@@ -0,0 +1,186 @@
+// @vitest-environment node
+import { describe, test, expect, vi, beforeAll, afterEach } from 'vitest';
+import { setHostResolver } from '../ssrf';
+import {
+  buildIndexNowRequest,
+  generateIndexNowKey,
+  getKeyLocation,
+  isValidIndexNowKey,
+  planIndexNowSubmissions,
+  submitToIndexNow,
+  submitUrls,
+  verifyKeyFile
+} from '../indexnow';
+import { INDEXNOW_SERVICE } from '../types';
+
+const KEY = '0123456789abcdef0123456789abcdef';
+const service = { ...INDEXNOW_SERVICE, maxRetries: 0 };
+
+beforeAll(() => {
+  setHostResolver(async () => ['93.184.215.14']);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+});
+
+describe('IndexNow', () => {
+  describe('keys', () => {
+    test('generates valid keys, stable for the same seed', () => {
+      const key = generateIndexNowKey('site-id');
+
+      expect(isValidIndexNowKey(key)).toBe(true);
+      expect(generateIndexNowKey('site-id')).toBe(key);
+      expect(generateIndexNowKey('other-site')).not.toBe(key);
+      expect(isValidIndexNowKey(generateIndexNowKey())).toBe(true);
+    });
+
+    test('accepts 8-128 characters of letters, digits and dashes', () => {
+      expect(isValidIndexNowKey('abcd-1234')).toBe(true);
+      expect(isValidIndexNowKey('short')).toBe(false);
+      expect(isValidIndexNowKey('has space in it')).toBe(false);
+      expect(isValidIndexNowKey('a'.repeat(129))).toBe(false);
+    });
+  });
+
+  describe('key locations', () => {
+    test('defaults to the key file at the root of each URL host', () => {
+      expect(getKeyLocation('https://example.com/post', { key: KEY }))
+        .toBe(`https://example.com/${KEY}.txt`);
+      expect(getKeyLocation('http://blog.example.com:8080/a', { key: KEY }))
+        .toBe(`http://blog.example.com:8080/${KEY}.txt`);
+    });
+
+    test('only covers URLs on the host and under the directory of a fixed location', () => {
+      const config = { key: KEY, keyLocation: 'https://example.com/catalog/key.txt' };
+
+      expect(getKeyLocation('https://example.com/catalog/item', config)).toBe(config.keyLocation);
+      expect(getKeyLocation('https://example.com/other', config)).toBeNull();
+      expect(getKeyLocation('https://example.org/catalog/item', config)).toBeNull();
+      expect(getKeyLocation('http://example.com/catalog/item', config)).toBeNull();
+    });
+
+    test('groups URLs into one submission per key file', () => {
+      const { submissions, outOfScope } = planIndexNowSubmissions([
+        'https://example.com/a',
+        'https://example.org/b',
+        'https://example.com/c'
+      ], { key: KEY });
+
+      expect(outOfScope).toEqual([]);
+      expect(submissions).toEqual([
+        { host: 'example.com', keyLocation: `https://example.com/${KEY}.txt`, urls: ['https://example.com/a', 'https://example.com/c'] },
+        { host: 'example.org', keyLocation: `https://example.org/${KEY}.txt`, urls: ['https://example.org/b'] }
+      ]);
+    });
+
+    test('only accepts hosts that serve the key file', async () => {
+      const keyLocation = `https://example.com/${KEY}.txt`;
+      const fetchMock = vi.spyOn(globalThis, 'fetch');
+
+      fetchMock.mockResolvedValueOnce(new Response(`${KEY}\n`));
+      expect(await verifyKeyFile(keyLocation, KEY)).toBeNull();
+
+      fetchMock.mockResolvedValueOnce(new Response('Not found', { status: 404 }));
+      expect(await verifyKeyFile(keyLocation, KEY)).toBe(`Key file not found at ${keyLocation} (HTTP 404)`);
+
+      fetchMock.mockResolvedValueOnce(new Response('<html>Welcome</html>'));
+      expect(await verifyKeyFile(keyLocation, KEY)).toBe(`Key file at ${keyLocation} does not contain the key`);
+    });
+
+    test('reports URLs outside a fixed key location', () => {
+      const { submissions, outOfScope } = planIndexNowSubmissions(
+        ['https://example.com/a', 'https://example.org/b'],
+        { key: KEY, keyLocation: `https://example.com/${KEY}.txt` }
+      );
+
+      expect(submissions.map(submission => submission.urls)).toEqual([['https://example.com/a']]);
+      expect(outOfScope).toEqual(['https://example.org/b']);
+    });
+  });
+
+  describe('requests', () => {
+    const keyLocation = `https://example.com/${KEY}.txt`;
+
+    test('submits a single URL with GET', () => {
+      const { url, init } = buildIndexNowRequest(
+        { host: 'example.com', keyLocation, urls: ['https://example.com/a?b=c'] },
+        KEY
+      );
+
+      const parsed = new URL(url);
+      expect(init.method).toBe('GET');
+      expect(parsed.origin + parsed.pathname).toBe('https://api.indexnow.org/indexnow');
+      expect(Object.fromEntries(parsed.searchParams)).toEqual({
+        url: 'https://example.com/a?b=c',
+        key: KEY,
+        keyLocation
+      });
+    });
+
+    test('submits several URLs as a JSON urlList', () => {
+      const urls = ['https://example.com/a', 'https://example.com/b'];
+      const { url, init } = buildIndexNowRequest({ host: 'example.com', keyLocation, urls }, KEY);
+
+      expect(url).toBe('https://api.indexnow.org/indexnow');
+      expect(init.method).toBe('POST');
+      expect(JSON.parse(init.body as string)).toEqual({ host: 'example.com', key: KEY, keyLocation, urlList: urls });
+    });
+
+    test.each([
+      [200, true, 'URLs submitted successfully'],
+      [202, true, 'URLs received, key validation pending'],
+      [403, false, `Key not valid: ${keyLocation} must contain the key`],
+      [422, false, 'URLs do not belong to the host or do not match the key'],
+      [429, false, 'Too many requests (potential spam)']
+    ])('maps HTTP %i to success=%s', async (status, success, message) => {
+      vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status }));
+
+      const result = await submitToIndexNow({ host: 'example.com', keyLocation, urls: ['https://example.com/a'] }, KEY, service);
+
+      expect(result).toMatchObject({ success, statusCode: status, message });
+    });
+
+    test('retries server errors', async () => {
+      const fetchMock = vi.spyOn(globalThis, 'fetch')
+        .mockResolvedValueOnce(new Response(null, { status: 503, statusText: 'Service Unavailable' }))
+        .mockResolvedValueOnce(new Response(null, { status: 200 }));
+
+      const result = await submitToIndexNow(
+        { host: 'example.com', keyLocation, urls: ['https://example.com/a'] },
+        KEY,
+        { ...service, maxRetries: 1 }
+      );
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(result.success).toBe(true);
+    });
+
+    test('only retries when the retry fits before the deadline', async () => {
+      const fetchMock = vi.spyOn(globalThis, 'fetch')
+        .mockImplementation(async () => new Response(null, { status: 503, statusText: 'Service Unavailable' }));
+
+      const result = await submitToIndexNow(
+        { host: 'example.com', keyLocation, urls: ['https://example.com/a'] },
+        KEY,
+        { ...service, timeout: 1000, maxRetries: 1 },
+        Date.now() + 2000
+      );
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(result.success).toBe(false);
+    });
+
+    test('skips hosts whose key file check and submission cannot finish before the deadline', async () => {
+      vi.stubEnv('INDEXNOW_KEY', KEY);
+      const fetchMock = vi.spyOn(globalThis, 'fetch');
+
+      // The key file check alone may take 5s
+      const results = await submitUrls(['https://example.com/a'], { ...service, timeout: 1000 }, Date.now() + 5500);
+
+      expect(results).toEqual([expect.objectContaining({ success: false, outcome: 'unreachable', reason: 'skipped' })]);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+});
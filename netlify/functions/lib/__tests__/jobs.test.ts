@@ -0,0 +1,95 @@
+// @vitest-environment node
+import { describe, test, expect, vi, afterEach } from 'vitest';
+import type { PingJob } from '../jobs';
+import { BlobJobStore, MemoryJobStore, cancelPingJob, createPingJob, runPingJob } from '../jobs';
+import { pingUrls } from '../pinger';
+import { clearMulticallSupport } from '../xmlrpc';
+import { FakeBlobStore } from './fixtures/blobStore';
+
+const URLS = ['https://blog.example.com/posts/one', 'https://blog.example.com/posts/two'];
+const FEED_URL = 'https://pinger.example.com/api/feed/0123456789abcdef';
+
+const thanks = () => new Response(`<?xml version="1.0"?>
+<methodResponse><params><param><value><struct>
+<member><name>flerror</name><value><boolean>0</boolean></value></member>
+<member><name>message</name><value><string>Thanks for the ping.</string></value></member>
+</struct></value></param></params></methodResponse>`);
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  clearMulticallSupport();
+});
+
+describe('Ping runs', () => {
+  test('report pairs left when the budget runs out as skipped', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch');
+    const onResult = vi.fn();
+
+    const results = await pingUrls(URLS, FEED_URL, {
+      startTime: Date.now() - 30000,
+      maxExecutionMs: 25000,
+      services: ['Ping-o-Matic'],
+      onResult
+    });
+
+    expect(results.map(result => [result.url, result.service, result.reason])).toEqual([
+      [URLS[0], 'Ping-o-Matic', 'skipped'],
+      [URLS[1], 'Ping-o-Matic', 'skipped']
+    ]);
+    expect(onResult).toHaveBeenCalledTimes(2);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  test('jobs keep recording results after a failed write', async () => {
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async () => thanks());
+
+    // Fails the first write after the job is claimed
+    const store = new MemoryJobStore();
+    const set = store.set.bind(store);
+    let writes = 0;
+    vi.spyOn(store, 'set').mockImplementation(async (job: PingJob) => {
+      if (++writes === 3) throw new Error('Store unavailable');
+      return set(job);
+    });
+
+    const job = await createPingJob(store, { urls: URLS, services: ['Ping-o-Matic'], skippedServices: [] }, FEED_URL);
+    await runPingJob(store, job.id);
+
+    const finished = await store.get(job.id);
+    expect(finished).toMatchObject({ status: 'completed', completed: 1 });
+    expect(finished?.pairs.map(pair => pair.status).sort()).toEqual(['completed', 'skipped']);
+  });
+
+  test('jobs without time left for a URL mark its pairs as skipped', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchMock = vi.spyOn(globalThis, 'fetch');
+
+    const store = new MemoryJobStore();
+    const job = await createPingJob(store, { urls: URLS, services: ['Ping-o-Matic'], skippedServices: [] }, FEED_URL);
+    await runPingJob(store, job.id, 5000);
+
+    const finished = await store.get(job.id);
+    expect(finished).toMatchObject({ status: 'completed', completed: 0 });
+    expect(finished?.pairs.map(pair => [pair.url, pair.service, pair.status, pair.result?.reason])).toEqual([
+      [URLS[0], 'Ping-o-Matic', 'skipped', 'skipped'],
+      [URLS[1], 'Ping-o-Matic', 'skipped', 'skipped']
+    ]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  test('jobs in Netlify Blobs are shared between function instances', async () => {
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async () => thanks());
+    const blobs = new FakeBlobStore();
+
+    // The jobs endpoint creates the job, the background function runs it
+    const created = await createPingJob(new BlobJobStore(blobs), { urls: URLS, services: ['Ping-o-Matic'], skippedServices: [] }, FEED_URL);
+    await runPingJob(new BlobJobStore(blobs), created.id);
+
+    const endpoint = new BlobJobStore(blobs);
+    expect(await endpoint.get(created.id)).toMatchObject({ status: 'completed', completed: 2 });
+
+    // Finished jobs are left as they are
+    expect(await cancelPingJob(endpoint, created.id)).toMatchObject({ status: 'completed' });
+    expect(await endpoint.get('not-a-job-id')).toBeNull();
+  });
+});
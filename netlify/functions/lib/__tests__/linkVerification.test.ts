@@ -0,0 +1,126 @@
+// @vitest-environment node
+import { describe, test, expect, vi, beforeAll, afterEach } from 'vitest';
+import { setHostResolver } from '../ssrf';
+import { findLinkToTarget, verifySourceLink } from '../linkVerification';
+import { notifyBacklink } from '../backlinks';
+
+const SOURCE = 'https://source.example.com/blog/post';
+const TARGET = 'https://target.example.com/article';
+
+// Answers requests from a table of URL → response factories
+function stubFetch(routes: Record<string, () => Response>) {
+  return vi.spyOn(globalThis, 'fetch').mockImplementation(async input => {
+    const route = routes[String(input)];
+    return route ? route() : new Response('Not found', { status: 404 });
+  });
+}
+
+beforeAll(() => {
+  setHostResolver(async () => ['93.184.215.14']);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('Source link verification', () => {
+  describe('findLinkToTarget', () => {
+    test('matches links after normalising both URLs', () => {
+      for (const href of [
+        TARGET,
+        'HTTPS://TARGET.example.com/article',
+        'https://target.example.com:443/article',
+        'https://target.example.com/article#comments',
+        '//target.example.com/article'
+      ]) {
+        expect(findLinkToTarget(`<a href="${href}">Read</a>`, TARGET, SOURCE)).toMatchObject({ verified: true });
+      }
+    });
+
+    test('resolves relative hrefs against the page or its <base>', () => {
+      const sameSite = 'https://source.example.com/other';
+      expect(findLinkToTarget('<a href="../other">x</a>', sameSite, SOURCE)).toMatchObject({ verified: true });
+      expect(findLinkToTarget('<base href="https://target.example.com/"><a href="article">x</a>', TARGET, SOURCE))
+        .toMatchObject({ verified: true });
+    });
+
+    test('ignores other pages, commented-out links and non-anchor elements', () => {
+      const html = `<!-- <a href="${TARGET}">old</a> --><link rel="canonical" href="${TARGET}">`
+        + '<a href="https://target.example.com/article/other">x</a><a href="https://target.example.com/Article">x</a>';
+      expect(findLinkToTarget(html, TARGET, SOURCE)).toBeNull();
+    });
+
+    test('reports the anchor text and rel values', () => {
+      const html = `<a rel="nofollow ugc" href="${TARGET}">  A <b>great</b>&nbsp;read &amp; more </a>`;
+
+      expect(findLinkToTarget(html, TARGET, SOURCE)).toEqual({
+        verified: true,
+        message: 'The source page links to the target',
+        anchorText: 'A great read & more',
+        nofollow: true,
+        ugc: true,
+        sponsored: false
+      });
+    });
+
+    test('uses alt text for image links and prefers followed links', () => {
+      const html = `<a href="${TARGET}" rel="sponsored">Ad</a><p><a href="${TARGET}"><img src="x.png" alt="Target logo"></a>`;
+
+      expect(findLinkToTarget(html, TARGET, SOURCE))
+        .toMatchObject({ anchorText: 'Target logo', nofollow: false, sponsored: false });
+    });
+
+    test('does not mistake other elements for closing tags', () => {
+      const html = `<a href="${TARGET}"><abbr>TA</abbr> article</a  ><abbr title="x">y</abbr>`;
+
+      expect(findLinkToTarget(html, TARGET, SOURCE)).toMatchObject({ anchorText: 'TA article' });
+    });
+
+    test('scans pages full of unclosed anchors and comments in linear time', () => {
+      const hostile = '<a href="x">'.repeat(40000) + '<!--'.repeat(40000);
+      const startTime = Date.now();
+
+      expect(findLinkToTarget(hostile, TARGET, SOURCE)).toBeNull();
+      expect(findLinkToTarget(`<a href="${TARGET}">Read</a>${hostile}`, TARGET, SOURCE)).toMatchObject({ anchorText: 'Read' });
+      expect(Date.now() - startTime).toBeLessThan(2000);
+    });
+  });
+
+  describe('verifySourceLink', () => {
+    test('follows redirects on the source', async () => {
+      stubFetch({
+        [SOURCE]: () => new Response(null, { status: 301, headers: { Location: '/blog/post/' } }),
+        [`${SOURCE}/`]: () => new Response(`<a href="${TARGET}">Article</a>`)
+      });
+
+      expect(await verifySourceLink(SOURCE, TARGET))
+        .toMatchObject({ verified: true, verification: { anchorText: 'Article' } });
+    });
+
+    test('reports missing sources and missing links', async () => {
+      stubFetch({ [SOURCE]: () => new Response('<p>No links here</p>') });
+      expect(await verifySourceLink(SOURCE, TARGET)).toMatchObject({ verified: false, outcome: 'no_link' });
+
+      vi.restoreAllMocks();
+      stubFetch({});
+      expect(await verifySourceLink(SOURCE, TARGET)).toMatchObject({ verified: false, outcome: 'source_not_found' });
+    });
+  });
+
+  test('no notification is sent when the source does not link to the target', async () => {
+    const fetchMock = stubFetch({
+      [SOURCE]: () => new Response('<p>No links here</p>'),
+      [TARGET]: () => new Response('<link rel="webmention" href="/webmention">')
+    });
+
+    const result = await notifyBacklink({ source: SOURCE, target: TARGET });
+
+    expect(result).toMatchObject({
+      success: false,
+      outcome: 'no_link',
+      verification: { verified: false }
+    });
+    expect(result.protocol).toBeUndefined();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,93 @@
+// @vitest-environment node
+import { describe, test, expect, vi, afterEach } from 'vitest';
+import type { WebSubHub } from '../types';
+import { classifyResponse, summarizeClassifications } from '../outcomes';
+import { notifyWebSubHub } from '../websub';
+import { pingAllServices } from '../pinger';
+
+const hub: WebSubHub = {
+  name: 'Test Hub',
+  url: 'https://hub.example.net/',
+  timeout: 1000,
+  maxRetries: 0,
+  category: 'Feed Readers',
+  description: 'Test',
+  reachesServices: []
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('Ping outcomes', () => {
+  test('tells processed and queued acceptances apart', () => {
+    expect(classifyResponse({ statusCode: 204, message: 'Hub notified successfully' }))
+      .toEqual({ outcome: 'accepted', reason: 'processed' });
+    expect(classifyResponse({ statusCode: 202, message: 'Hub notified successfully' }))
+      .toEqual({ outcome: 'accepted', reason: 'queued' });
+    expect(classifyResponse({ statusCode: 200, message: 'Thanks for the ping.', flerror: false }))
+      .toEqual({ outcome: 'accepted', reason: 'processed' });
+  });
+
+  test('recognises throttling by status or message', () => {
+    expect(classifyResponse({ statusCode: 429, message: 'Rate limited. Retry after 60s' }).outcome).toBe('throttled');
+
+    for (const message of [
+      'Slow down cowboy! You have pinged too many times',
+      'Sorry, pings are limited to one every 30 minutes.',
+      'Please try again later'
+    ]) {
+      expect(classifyResponse({ statusCode: 200, message, flerror: true }))
+        .toEqual({ outcome: 'throttled', reason: 'rate_limited' });
+    }
+
+    // Successful pings are never throttled, whatever they say
+    expect(classifyResponse({ statusCode: 200, message: 'Thanks! Please do not ping too often', flerror: false }).outcome)
+      .toBe('accepted');
+  });
+
+  test('separates rejections from unreachable services', () => {
+    expect(classifyResponse({ statusCode: 200, message: 'Blog not found', flerror: true }))
+      .toEqual({ outcome: 'rejected', reason: 'refused' });
+    expect(classifyResponse({ statusCode: 200, message: 'Already registered', faultCode: 48 }))
+      .toEqual({ outcome: 'rejected', reason: 'fault' });
+    expect(classifyResponse({ statusCode: 403, message: 'Forbidden' }))
+      .toEqual({ outcome: 'rejected', reason: 'auth_required' });
+    expect(classifyResponse({ statusCode: 400, message: 'Bad request' }))
+      .toEqual({ outcome: 'rejected', reason: 'http_error' });
+
+    expect(classifyResponse({ statusCode: 502, message: 'HTTP 502: Bad Gateway' }))
+      .toEqual({ outcome: 'unreachable', reason: 'server_error' });
+    expect(classifyResponse({ statusCode: 200, message: 'Invalid XML-RPC response: Empty response', flerror: true, invalidResponse: true }))
+      .toEqual({ outcome: 'unreachable', reason: 'invalid_response' });
+    expect(classifyResponse({ statusCode: 0, message: 'Request timed out after 10000ms' }))
+      .toEqual({ outcome: 'unreachable', reason: 'timeout' });
+    expect(classifyResponse({ statusCode: 0, message: 'http://10.0.0.1/: Private or reserved IP addresses are not allowed' }))
+      .toEqual({ outcome: 'unreachable', reason: 'blocked' });
+    expect(classifyResponse({ statusCode: 0, message: 'Hub credentials not configured (HUB_TOKEN)' }))
+      .toEqual({ outcome: 'unreachable', reason: 'not_configured' });
+    expect(classifyResponse({ statusCode: 0, message: 'Network error: ECONNRESET' }))
+      .toEqual({ outcome: 'unreachable', reason: 'network_error' });
+  });
+
+  test('sums up several results by their best outcome', () => {
+    expect(summarizeClassifications([
+      { outcome: 'unreachable', reason: 'timeout' },
+      { outcome: 'accepted', reason: 'queued' },
+      { outcome: 'accepted', reason: 'processed' }
+    ])).toEqual({ outcome: 'accepted', reason: 'processed' });
+    expect(summarizeClassifications([])).toBeNull();
+  });
+
+  test('reports throttled WebSub results with the wait', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('', { status: 429, headers: { 'Retry-After': '120' } }));
+
+    expect(await notifyWebSubHub('https://example.com/feed', hub)).toMatchObject({ statusCode: 429, retryAfter: 120 });
+
+    const [result] = await pingAllServices('https://example.com/', 'https://example.com/feed', {
+      startTime: Date.now(),
+      services: ['Google PubSubHubbub']
+    });
+    expect(result).toMatchObject({ success: false, outcome: 'throttled', reason: 'rate_limited', retryAfter: 120 });
+  });
+});
@@ -0,0 +1,89 @@
+// @vitest-environment node
+import { describe, test, expect, vi, afterEach } from 'vitest';
+import type { PingResult, PingStreamEvent } from '../types';
+import type { PingRequestValidation } from '../validation';
+import { pingUrls } from '../pinger';
+import { streamPingResponse } from '../pingStream';
+
+vi.mock('../pinger', () => ({ pingUrls: vi.fn() }));
+
+const PAGES = ['https://blog.example.com/a', 'https://blog.example.com/b'];
+const FEED_URL = 'https://pinger.example.com/api/feed/abc';
+
+const request: PingRequestValidation = {
+  valid: true,
+  urls: PAGES,
+  services: ['Google WebSub', 'Ping-o-Matic'],
+  skippedServices: ['Bing IndexNow'],
+  customEndpoints: []
+};
+
+const result = (url: string, service: string): PingResult => ({
+  service,
+  url,
+  success: true,
+  message: 'Ping accepted',
+  method: service === 'Ping-o-Matic' ? 'xmlrpc' : 'websub',
+  outcome: 'accepted',
+  reason: 'processed',
+  responseTime: 10
+});
+
+const readEvents = async (response: Response): Promise<PingStreamEvent[]> =>
+  (await response.text()).split('\n').filter(line => line).map(line => JSON.parse(line) as PingStreamEvent);
+
+describe('Streaming ping responses', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('emits one result line per URL and service, then a summary', async () => {
+    vi.mocked(pingUrls).mockImplementation(async (urls, _feedUrl, options) => {
+      const results: PingResult[] = [];
+      for (const url of urls) {
+        for (const service of options.services ?? []) {
+          const pinged = result(url, service);
+          results.push(pinged);
+          await options.onResult?.(pinged);
+        }
+      }
+      return results;
+    });
+
+    const response = streamPingResponse(request, FEED_URL, Date.now(), { 'X-Test': '1' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('application/x-ndjson; charset=utf-8');
+    expect(response.headers.get('X-Test')).toBe('1');
+
+    const events = await readEvents(response);
+    expect(events.map(event => event.type)).toEqual(['result', 'result', 'result', 'result', 'summary']);
+    expect(events.slice(0, 4).map(event => event.type === 'result' && `${event.result.url} ${event.result.service}`)).toEqual([
+      `${PAGES[0]} Google WebSub`,
+      `${PAGES[0]} Ping-o-Matic`,
+      `${PAGES[1]} Google WebSub`,
+      `${PAGES[1]} Ping-o-Matic`
+    ]);
+    expect(events[4]).toMatchObject({
+      type: 'summary',
+      success: true,
+      total: 4,
+      feedUrl: FEED_URL,
+      skippedServices: ['Bing IndexNow']
+    });
+  });
+
+  test('ends with an error line when the run fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(pingUrls).mockImplementation(async (urls, _feedUrl, options) => {
+      await options.onResult?.(result(urls[0], 'Google WebSub'));
+      throw new Error('blob store unavailable');
+    });
+
+    const events = await readEvents(streamPingResponse(request, FEED_URL, Date.now(), {}));
+
+    expect(events.map(event => event.type)).toEqual(['result', 'error']);
+    // Internal details stay in the logs
+    expect(events[1]).toEqual({ type: 'error', error: 'An error occurred while processing your request' });
+  });
+});
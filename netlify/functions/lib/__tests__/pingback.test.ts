@@ -0,0 +1,171 @@
+// @vitest-environment node
+import { describe, test, expect, vi, beforeAll, afterEach } from 'vitest';
+import { setHostResolver } from '../ssrf';
+import { findRelLink } from '../linkDiscovery';
+import { discoverPingbackServer, sendPingback } from '../pingback';
+
+const SOURCE = 'https://source.example.com/post';
+const TARGET = 'https://target.example.com/article';
+const SERVER = 'https://target.example.com/xmlrpc.php';
+
+// Answers requests from a table of URL → response factories
+function stubFetch(routes: Record<string, () => Response>) {
+  return vi.spyOn(globalThis, 'fetch').mockImplementation(async input => {
+    const route = routes[String(input)];
+    return route ? route() : new Response('Not found', { status: 404 });
+  });
+}
+
+function xmlRpcFault(code: number, message: string): Response {
+  return new Response(`<?xml version="1.0"?>
+<methodResponse>
+  <fault>
+    <value>
+      <struct>
+        <member><name>faultCode</name><value><int>${code}</int></value></member>
+        <member><name>faultString</name><value><string>${message}</string></value></member>
+      </struct>
+    </value>
+  </fault>
+</methodResponse>`, { status: 200 });
+}
+
+beforeAll(() => {
+  setHostResolver(async () => ['93.184.215.14']);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('Pingback', () => {
+  describe('findRelLink', () => {
+    test('finds rel links in any attribute order and quote style', () => {
+      expect(findRelLink('<link rel="pingback" href="https://a.example/xmlrpc.php">', 'pingback', TARGET))
+        .toBe('https://a.example/xmlrpc.php');
+      expect(findRelLink("<LINK HREF='/xmlrpc.php?a=1&amp;b=2' REL='Pingback' />", 'pingback', TARGET))
+        .toBe('https://target.example.com/xmlrpc.php?a=1&b=2');
+      expect(findRelLink('<link rel="stylesheet pingback" href=rpc>', 'pingback', TARGET))
+        .toBe('https://target.example.com/rpc');
+    });
+
+    test('ignores other rels, commented-out markup and other elements', () => {
+      const html = '<!-- <link rel="pingback" href="/old"> --><link rel="pingbacks" href="/x"><a rel="pingback" href="/a">';
+      expect(findRelLink(html, 'pingback', TARGET)).toBeNull();
+      expect(findRelLink(html, 'pingback', TARGET, ['link', 'a'])).toBe('https://target.example.com/a');
+    });
+  });
+
+  describe('discovery', () => {
+    test('prefers the X-Pingback header', async () => {
+      stubFetch({
+        [TARGET]: () => new Response('<link rel="pingback" href="/other">', {
+          headers: { 'X-Pingback': SERVER }
+        })
+      });
+
+      expect(await discoverPingbackServer(TARGET)).toEqual({ found: true, endpoint: SERVER });
+    });
+
+    test('falls back to the link element, after redirects', async () => {
+      stubFetch({
+        [TARGET]: () => new Response(null, { status: 301, headers: { Location: '/article/' } }),
+        [`${TARGET}/`]: () => new Response('<html><head><link rel="pingback" href="/xmlrpc.php"></head></html>')
+      });
+
+      expect(await discoverPingbackServer(TARGET)).toEqual({ found: true, endpoint: SERVER });
+    });
+
+    test('reports targets without a pingback server', async () => {
+      stubFetch({ [TARGET]: () => new Response('<html></html>') });
+
+      expect(await discoverPingbackServer(TARGET)).toMatchObject({ found: false, outcome: 'not_supported' });
+    });
+
+    test('does not follow redirects to private addresses', async () => {
+      const fetchMock = stubFetch({
+        [TARGET]: () => new Response(null, { status: 302, headers: { Location: 'http://169.254.169.254/' } })
+      });
+
+      expect(await discoverPingbackServer(TARGET)).toMatchObject({ found: false, outcome: 'error' });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('sendPingback', () => {
+    test('sends pingback.ping with the source and target', async () => {
+      const fetchMock = stubFetch({
+        [TARGET]: () => new Response('', { headers: { 'X-Pingback': SERVER } }),
+        [SERVER]: () => new Response(
+          '<methodResponse><params><param><value><string>Pingback registered</string></value></param></params></methodResponse>'
+        )
+      });
+
+      const result = await sendPingback({ source: SOURCE, target: TARGET });
+
+      expect(result).toMatchObject({
+        source: SOURCE,
+        target: TARGET,
+        protocol: 'pingback',
+        success: true,
+        outcome: 'registered',
+        message: 'Pingback registered',
+        endpoint: SERVER
+      });
+
+      const [, init] = fetchMock.mock.calls[1];
+      expect(init?.method).toBe('POST');
+      expect(init?.body).toContain('<methodName>pingback.ping</methodName>');
+      expect(init?.body).toContain(`<string>${SOURCE}</string>`);
+    });
+
+    test.each([
+      [0x0010, 'source_not_found'],
+      [0x0011, 'no_link'],
+      [0x0020, 'target_not_found'],
+      [0x0021, 'target_not_allowed'],
+      [0x0030, 'already_registered'],
+      [0x0031, 'access_denied'],
+      [0x0032, 'upstream_error'],
+      [0, 'fault']
+    ])('reports fault code %i as %s', async (code, outcome) => {
+      stubFetch({
+        [TARGET]: () => new Response('', { headers: { 'X-Pingback': SERVER } }),
+        [SERVER]: () => xmlRpcFault(code, 'Fault')
+      });
+
+      const result = await sendPingback({ source: SOURCE, target: TARGET });
+
+      expect(result).toMatchObject({ success: false, outcome, faultCode: code, message: 'Fault' });
+    });
+
+    test.each([
+      ['a malformed response', '<html><body>Server error</body></html>', 'Invalid XML-RPC response'],
+      [
+        'an flerror struct',
+        '<methodResponse><params><param><value><struct><member><name>flerror</name><value><boolean>1</boolean></value></member>'
+          + '<member><name>message</name><value><string>Try later</string></value></member></struct></value></param></params></methodResponse>',
+        'Try later'
+      ]
+    ])('reports %s as an error, not a fault', async (_label, body, message) => {
+      stubFetch({
+        [TARGET]: () => new Response('', { headers: { 'X-Pingback': SERVER } }),
+        [SERVER]: () => new Response(body)
+      });
+
+      const result = await sendPingback({ source: SOURCE, target: TARGET });
+
+      expect(result).toMatchObject({ success: false, outcome: 'error', endpoint: SERVER });
+      expect(result.message).toContain(message);
+      expect(result.faultCode).toBeUndefined();
+    });
+
+    test('reports missing targets', async () => {
+      stubFetch({});
+
+      const result = await sendPingback({ source: SOURCE, target: TARGET });
+
+      expect(result).toMatchObject({ success: false, outcome: 'target_not_found' });
+    });
+  });
+});
@@ -0,0 +1,250 @@
+// @vitest-environment node
+import { describe, test, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import type { PingResult } from '../types';
+import { HTTP_TEMPLATE_SERVICES, INDEXNOW_SERVICE, SITE_HUB_SERVICE, WEBSUB_HUBS, XMLRPC_SERVICES } from '../types';
+import type { PingProtocol, ProtocolServiceConfig } from '../protocol';
+import { bindProtocol, validateServiceConfig } from '../protocol';
+import { getProtocolServices, getServiceRegistry, registerProtocol } from '../protocolRegistry';
+import { BUILT_IN_SERVICE_GROUPS, describeService } from '../services';
+import { validatePingRequest } from '../validation';
+import { setHostResolver } from '../ssrf';
+import { websubProtocol } from '../websub';
+import { clearMulticallSupport, xmlrpcProtocol } from '../xmlrpc';
+import { httpTemplateProtocol } from '../httpTemplate';
+import { siteHubProtocol } from '../feedDiscovery';
+import { indexNowProtocol } from '../indexnow';
+import { pingUrls } from '../pinger';
+
+const PAGES = ['https://blog.example.com/posts/hello', 'https://blog.example.com/posts/again'];
+const FEED = 'https://blog.example.com/feed.xml';
+const HUB = 'https://hub.example.net/';
+const FEED_URL = 'https://pinger.example.com/api/feed/0123456789abcdef';
+
+const metadata = { category: 'Blog Networks', description: 'Test', reachesServices: [] };
+
+// Answers every request with the same kind of response
+function stubFetch(answer: (url: string) => Response | Promise<Response>) {
+  return vi.spyOn(globalThis, 'fetch').mockImplementation(async input => answer(String(input)));
+}
+
+interface ConformanceCase<S extends ProtocolServiceConfig, R> {
+  protocol: PingProtocol<S, R>;
+  configured: S[];                      // The services shipped in the registry
+  service: S;                           // A working, enabled service without retries, under its own name
+  invalid: S;                           // A broken configuration
+  accept: (url: string) => Response;    // How cooperative servers answer each request
+}
+
+/**
+ * The behaviour every ping protocol must show
+ *
+ * The test service is registered like any other, so each ping is selected
+ * through request validation and sent by the pinger.
+ */
+function describeProtocol<S extends ProtocolServiceConfig, R>(name: string, conformance: ConformanceCase<S, R>) {
+  const { protocol, configured, service, invalid, accept } = conformance;
+
+  const ping = async (urls: string[] = PAGES.slice(0, 1)): Promise<PingResult[]> => {
+    const validation = await validatePingRequest({ urls, services: [service.name] });
+    expect(validation).toMatchObject({ valid: true, services: [service.name] });
+
+    const results = await pingUrls(validation.urls, FEED_URL, {
+      startTime: Date.now(),
+      services: validation.services,
+      siteFeedUrl: FEED
+    });
+
+    expect(results.map(result => [result.url, result.service, result.method]))
+      .toEqual(urls.map(url => [url, service.name, protocol.method]));
+    for (const result of results) {
+      // success and outcome never disagree
+      expect(result.success).toBe(result.outcome === 'accepted');
+      expect(result.message).toEqual(expect.any(String));
+      expect(result.responseTime).toBeGreaterThanOrEqual(0);
+    }
+    return results;
+  };
+
+  describe(`${name} protocol conformance`, () => {
+    let unregister: () => void;
+
+    beforeAll(() => {
+      unregister = registerProtocol(() => bindProtocol(protocol, [service]));
+    });
+
+    afterAll(() => {
+      unregister();
+    });
+
+    test('accepts the configured services and rejects broken ones', () => {
+      for (const configuredService of [...configured, service]) {
+        expect(protocol.validateConfig(configuredService)).toEqual([]);
+      }
+      expect(protocol.validateConfig(invalid).length).toBeGreaterThan(0);
+    });
+
+    test('classifies an accepted ping', async () => {
+      stubFetch(accept);
+      expect(await ping()).toEqual([expect.objectContaining({ success: true, outcome: 'accepted' })]);
+    });
+
+    test('classifies every URL of a run', async () => {
+      stubFetch(accept);
+      expect(await ping(PAGES)).toEqual(PAGES.map(() => expect.objectContaining({ success: true, outcome: 'accepted' })));
+    });
+
+    test('classifies server errors as unreachable', async () => {
+      stubFetch(() => new Response('Down for maintenance', { status: 503 }));
+      expect(await ping()).toEqual([expect.objectContaining({ success: false, outcome: 'unreachable' })]);
+    });
+
+    test('classifies rate limiting as throttled', async () => {
+      stubFetch(() => new Response('Too many requests', { status: 429, headers: { 'Retry-After': '30' } }));
+      expect(await ping()).toEqual([expect.objectContaining({ success: false, outcome: 'throttled' })]);
+    });
+
+    test('reports network failures instead of throwing', async () => {
+      stubFetch(() => Promise.reject(new TypeError('fetch failed')));
+      expect(await ping()).toEqual([expect.objectContaining({ success: false, outcome: 'unreachable' })]);
+    });
+  });
+}
+
+beforeAll(() => {
+  setHostResolver(async () => ['93.184.215.14']);
+  // A fixed key location, so IndexNow submits without fetching key files
+  vi.stubEnv('INDEXNOW_KEY', '0123456789abcdef0123456789abcdef');
+  vi.stubEnv('INDEXNOW_KEY_LOCATION', 'https://blog.example.com/indexnow-key.txt');
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  clearMulticallSupport();
+});
+
+describeProtocol('WebSub', {
+  protocol: websubProtocol,
+  configured: WEBSUB_HUBS,
+  service: { ...WEBSUB_HUBS[0], name: 'Conformance Hub', url: HUB, maxRetries: 0, enabled: true },
+  invalid: { ...WEBSUB_HUBS[0], url: 'hub.example.net', timeout: 0 },
+  accept: () => new Response(null, { status: 202 })
+});
+
+describeProtocol('XML-RPC', {
+  protocol: xmlrpcProtocol,
+  configured: XMLRPC_SERVICES,
+  service: { ...XMLRPC_SERVICES[0], name: 'Conformance XML-RPC', endpoint: 'https://rpc.example.net/RPC2', maxRetries: 0, enabled: true },
+  invalid: { ...XMLRPC_SERVICES[0], endpoint: 'ftp://rpc.example.net/' },
+  accept: () => new Response(`<?xml version="1.0"?>
+<methodResponse><params><param><value><struct>
+<member><name>flerror</name><value><boolean>0</boolean></value></member>
+<member><name>message</name><value><string>Thanks for the ping.</string></value></member>
+</struct></value></param></params></methodResponse>`)
+});
+
+describeProtocol('HTTP template', {
+  protocol: httpTemplateProtocol,
+  configured: HTTP_TEMPLATE_SERVICES,
+  service: {
+    name: 'Conformance Template',
+    urlTemplate: 'https://ping.example.net/ping?url={url}&feed={feed}',
+    method: 'GET',
+    timeout: 1000,
+    maxRetries: 0,
+    success: { statuses: [200], bodyMatch: 'ok' },
+    ...metadata
+  },
+  invalid: {
+    name: 'Broken',
+    urlTemplate: '{url}',
+    method: 'GET',
+    timeout: 1000,
+    success: { bodyMatch: '(' },
+    ...metadata
+  },
+  accept: () => new Response('OK')
+});
+
+describeProtocol('Site hubs', {
+  protocol: siteHubProtocol,
+  configured: [SITE_HUB_SERVICE],
+  service: { ...SITE_HUB_SERVICE, name: 'Conformance Site Hubs', enabled: true },
+  invalid: { ...SITE_HUB_SERVICE, maxHubs: 0 },
+  accept: url => {
+    if (PAGES.includes(url)) return new Response('<link rel="alternate" type="application/atom+xml" href="/feed.xml">');
+    if (url === FEED) return new Response(`<feed xmlns="http://www.w3.org/2005/Atom"><link rel="hub" href="${HUB}"/></feed>`);
+    return new Response(null, { status: 204 });
+  }
+});
+
+describeProtocol('IndexNow', {
+  protocol: indexNowProtocol,
+  configured: [INDEXNOW_SERVICE],
+  service: { ...INDEXNOW_SERVICE, name: 'Conformance IndexNow', endpoint: 'https://indexnow.example.net/', maxRetries: 0, enabled: true },
+  invalid: { ...INDEXNOW_SERVICE, endpoint: 'indexnow.example.net' },
+  accept: () => new Response(null, { status: 202 })
+});
+
+describe('Protocol registry', () => {
+  test('lists every configured service with its protocol', () => {
+    const services = getProtocolServices();
+
+    expect(services.map(service => service.name)).toEqual([
+      ...WEBSUB_HUBS.map(hub => hub.name),
+      ...XMLRPC_SERVICES.map(service => service.name),
+      ...HTTP_TEMPLATE_SERVICES.map(service => service.name),
+      SITE_HUB_SERVICE.name,
+      INDEXNOW_SERVICE.name
+    ]);
+    expect(services.every(service => service.problems.length === 0)).toBe(true);
+    // Development mode lists the built-in groups without loading any protocol
+    expect(getServiceRegistry()).toEqual(BUILT_IN_SERVICE_GROUPS.flatMap(({ method, services }) =>
+      services.map(service => describeService(service, method))
+    ));
+  });
+
+  test('pings services of newly registered protocols without touching the handler', async () => {
+    const send = vi.fn(async () => ({ ok: true }));
+    const echo: PingProtocol<ProtocolServiceConfig, { ok: boolean }> = {
+      method: 'echo',
+      validateConfig: validateServiceConfig,
+      send,
+      classify: result => ({ success: result.ok, message: 'Echoed', outcome: 'accepted', reason: 'processed', responseTime: 1 })
+    };
+    const unregister = registerProtocol(() => bindProtocol(echo, [
+      { name: 'Echo', timeout: 1000, ...metadata },
+      { name: 'Broken Echo', timeout: -1, ...metadata }
+    ]));
+
+    try {
+      expect(getServiceRegistry().find(service => service.name === 'Echo')).toMatchObject({ method: 'echo', enabled: true });
+
+      const validation = await validatePingRequest({ urls: [PAGES[0]], services: ['Echo', 'Broken Echo'] });
+      expect(validation).toMatchObject({ valid: true, services: ['Echo', 'Broken Echo'] });
+
+      const results = await pingUrls(validation.urls, FEED_URL, {
+        startTime: Date.now(),
+        services: validation.services
+      });
+
+      expect(results).toEqual([
+        expect.objectContaining<Partial<PingResult>>({ service: 'Echo', url: PAGES[0], success: true, message: 'Echoed', method: 'echo' }),
+        expect.objectContaining<Partial<PingResult>>({ service: 'Broken Echo', success: false, outcome: 'unreachable', reason: 'not_configured' })
+      ]);
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(send).toHaveBeenCalledWith(
+        { name: 'Echo', timeout: 1000, ...metadata },
+        expect.objectContaining({ url: PAGES[0], siteName: 'blog.example.com' }),
+        expect.any(Number)
+      );
+    } finally {
+      unregister();
+    }
+
+    expect(getProtocolServices().some(service => service.name === 'Echo')).toBe(false);
+  });
+});
@@ -0,0 +1,170 @@
+// @vitest-environment node
+import { describe, test, expect } from 'vitest';
+import {
+  BlobCounterStore,
+  MemoryCounterStore,
+  consumeRateLimit,
+  getRateLimitConfig,
+  getRateLimitHeaders,
+  getRateLimitIdentities
+} from '../rateLimit';
+import { getKeyUsage, recordKeyUsage } from '../usage';
+import { FakeBlobStore } from './fixtures/blobStore';
+
+const config = { windowMs: 60_000, maxPerWindow: 3, maxPerDay: 5 };
+
+// Midnight UTC plus an offset, so windows and days line up predictably
+const DAY_START = Date.UTC(2024, 0, 1);
+
+describe('Rate limiting', () => {
+  describe('sliding window', () => {
+    test('rejects requests over the window limit without counting them', async () => {
+      const store = new MemoryCounterStore(() => DAY_START);
+
+      for (let i = 0; i < 3; i++) {
+        expect((await consumeRateLimit(['ip:1'], config, store, DAY_START)).allowed).toBe(true);
+      }
+
+      const limited = await consumeRateLimit(['ip:1'], config, store, DAY_START);
+      expect(limited.allowed).toBe(false);
+      expect(limited.remaining).toBe(0);
+      expect(limited.retryAfterMs).toBeGreaterThan(0);
+
+      // Another client is unaffected
+      expect((await consumeRateLimit(['ip:2'], config, store, DAY_START)).allowed).toBe(true);
+    });
+
+    test('weights the previous window by how much of it still overlaps', async () => {
+      let now = DAY_START;
+      const store = new MemoryCounterStore(() => now);
+
+      for (let i = 0; i < 3; i++) {
+        await consumeRateLimit(['ip:1'], config, store, now);
+      }
+
+      // A quarter into the next window, 3 × 0.75 = 2.25 requests still count
+      now = DAY_START + 75_000;
+      expect((await consumeRateLimit(['ip:1'], config, store, now)).allowed).toBe(false);
+
+      // Two thirds in, the estimate has dropped to 1
+      now = DAY_START + 100_000;
+      expect((await consumeRateLimit(['ip:1'], config, store, now)).allowed).toBe(true);
+    });
+
+    test('retry time is when the next request would be allowed', async () => {
+      let now = DAY_START;
+      const store = new MemoryCounterStore(() => now);
+
+      for (let i = 0; i < 3; i++) {
+        await consumeRateLimit(['ip:1'], config, store, now);
+      }
+
+      const limited = await consumeRateLimit(['ip:1'], config, store, now);
+      now += limited.retryAfterMs;
+      expect((await consumeRateLimit(['ip:1'], config, store, now)).allowed).toBe(true);
+    });
+  });
+
+  describe('daily quota', () => {
+    test('rejects requests once the daily quota is used until the next UTC day', async () => {
+      let now = DAY_START;
+      const store = new MemoryCounterStore(() => now);
+
+      for (let i = 0; i < 5; i++) {
+        now = DAY_START + i * 10 * 60_000;
+        expect((await consumeRateLimit(['ip:1'], config, store, now)).allowed).toBe(true);
+      }
+
+      now = DAY_START + 60 * 60_000;
+      const limited = await consumeRateLimit(['ip:1'], config, store, now);
+      expect(limited.allowed).toBe(false);
+      expect(limited.limit).toBe(5);
+      expect(limited.resetAt).toBe(DAY_START + 24 * 60 * 60_000);
+      expect(limited.retryAfterMs).toBe(limited.resetAt - now);
+
+      now = limited.resetAt;
+      expect((await consumeRateLimit(['ip:1'], config, store, now)).allowed).toBe(true);
+    });
+  });
+
+  describe('identities', () => {
+    test('limits anonymous callers by IP', () => {
+      const req = new Request('https://example.com/api/ping', {
+        headers: { 'X-Forwarded-For': '198.51.100.1, 10.0.0.1' }
+      });
+
+      expect(getRateLimitIdentities(req, { ip: '203.0.113.7' })).toEqual(['ip:203.0.113.7']);
+      expect(getRateLimitIdentities(req)).toEqual(['ip:198.51.100.1']);
+    });
+
+    test('limits API key callers by key, whatever their IP', async () => {
+      const req = new Request('https://example.com/api/ping');
+      const store = new MemoryCounterStore(() => DAY_START);
+
+      for (let i = 0; i < 3; i++) {
+        const identities = getRateLimitIdentities(req, { ip: `203.0.113.${i}` }, { id: 'scripts' });
+        expect(identities).toEqual(['key:scripts']);
+        await consumeRateLimit(identities, config, store, DAY_START);
+      }
+
+      const identities = getRateLimitIdentities(req, { ip: '203.0.113.9' }, { id: 'scripts' });
+      expect((await consumeRateLimit(identities, config, store, DAY_START)).allowed).toBe(false);
+    });
+
+    test('uses the API key daily quota', () => {
+      expect(getRateLimitConfig({ dailyQuota: 1000 }).maxPerDay).toBe(1000);
+    });
+  });
+
+  describe('shared counters', () => {
+    const apiKey = { id: 'scripts', name: 'Scripts', keyHash: '', maxUrls: 20, dailyQuota: 100 };
+
+    test('are seen by every function instance', async () => {
+      const blobs = new FakeBlobStore();
+      const pingFunction = new BlobCounterStore(blobs, () => DAY_START);
+      const usageFunction = new BlobCounterStore(blobs, () => DAY_START);
+
+      await consumeRateLimit(['key:scripts'], config, pingFunction, DAY_START);
+      await recordKeyUsage(apiKey, 4, pingFunction, DAY_START);
+
+      expect(await getKeyUsage(apiKey, usageFunction, DAY_START)).toMatchObject({ requests: 1, urls: 4 });
+    });
+
+    test('count concurrent increments', async () => {
+      const blobs = new FakeBlobStore();
+      const stores = [1, 2, 3].map(() => new BlobCounterStore(blobs, () => DAY_START));
+
+      await Promise.all(stores.map(store => store.increment('ip:1:d:0', 60_000)));
+
+      expect(await stores[0].get('ip:1:d:0')).toBe(3);
+    });
+
+    test('sweep deletes expired counters', async () => {
+      const blobs = new FakeBlobStore();
+      const store = new BlobCounterStore(blobs, () => DAY_START);
+      await store.increment('short', 1_000);
+      await store.increment('long', 60_000);
+
+      await store.sweep(DAY_START + 1_000);
+
+      expect([...blobs.blobs.keys()]).toEqual(['long']);
+    });
+  });
+
+  test('builds X-RateLimit-* and Retry-After headers', () => {
+    const headers = getRateLimitHeaders({
+      allowed: false,
+      limit: 3,
+      remaining: 0,
+      resetAt: DAY_START + 60_000,
+      retryAfterMs: 1_500
+    });
+
+    expect(headers).toEqual({
+      'X-RateLimit-Limit': '3',
+      'X-RateLimit-Remaining': '0',
+      'X-RateLimit-Reset': String((DAY_START + 60_000) / 1000),
+      'Retry-After': '2'
+    });
+  });
+});
@@ -0,0 +1,155 @@
+// @vitest-environment node
+import { describe, test, expect, vi, beforeAll, afterEach } from 'vitest';
+import { setHostResolver } from '../ssrf';
+import { findTrackbackUrl, parseTrackbackResponse, sendTrackback } from '../trackback';
+import { notifyBacklink } from '../backlinks';
+import { validateBacklinkRequest } from '../validation';
+
+const SOURCE = 'https://source.example.com/post';
+const TARGET = 'https://target.example.com/archives/2008/05/entry.html';
+const TRACKBACK = 'https://target.example.com/cgi-bin/mt-tb.cgi/123';
+
+// Answers requests from a table of URL → response factories
+function stubFetch(routes: Record<string, () => Response>) {
+  return vi.spyOn(globalThis, 'fetch').mockImplementation(async input => {
+    const route = routes[String(input)];
+    return route ? route() : new Response('Not found', { status: 404 });
+  });
+}
+
+// Movable Type style RDF, wrapped in a comment
+function rdfBlock(identifier: string, ping: string): string {
+  return `<!--
+<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#"
+         xmlns:trackback="http://madskills.com/public/xml/rss/module/trackback/"
+         xmlns:dc="http://purl.org/dc/elements/1.1/">
+<rdf:Description
+    rdf:about="${identifier}"
+    dc:identifier="${identifier}"
+    dc:title="Entry"
+    trackback:ping="${ping}" />
+</rdf:RDF>
+-->`;
+}
+
+function trackbackResponse(error: number, message?: string): Response {
+  return new Response(`<?xml version="1.0" encoding="utf-8"?>
+<response>
+<error>${error}</error>${message ? `\n<message>${message}</message>` : ''}
+</response>`);
+}
+
+beforeAll(() => {
+  setHostResolver(async () => ['93.184.215.14']);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('Trackback', () => {
+  describe('findTrackbackUrl', () => {
+    test('reads trackback:ping from commented-out RDF', () => {
+      expect(findTrackbackUrl(`<html>${rdfBlock(TARGET, TRACKBACK)}</html>`, TARGET, TARGET)).toBe(TRACKBACK);
+    });
+
+    test('picks the block whose identifier matches the target', () => {
+      const html = rdfBlock('https://target.example.com/archives/other.html', '/tb/1')
+        + rdfBlock(`${TARGET}#more`, '/tb/2');
+
+      expect(findTrackbackUrl(html, TARGET, 'https://target.example.com/'))
+        .toBe('https://target.example.com/tb/2');
+    });
+
+    test('gives up when several blocks match none', () => {
+      const html = rdfBlock('https://target.example.com/a', '/tb/1') + rdfBlock('https://target.example.com/b', '/tb/2');
+
+      expect(findTrackbackUrl(html, TARGET, TARGET)).toBeNull();
+      expect(findTrackbackUrl('<html></html>', TARGET, TARGET)).toBeNull();
+    });
+  });
+
+  describe('parseTrackbackResponse', () => {
+    test('reads success, errors and their messages', () => {
+      expect(parseTrackbackResponse('<response><error>0</error></response>'))
+        .toEqual({ flerror: false, message: 'Trackback accepted' });
+      expect(parseTrackbackResponse('<response><error>1</error><message><![CDATA[Duplicate & spam]]></message></response>'))
+        .toEqual({ flerror: true, message: 'Duplicate & spam' });
+      expect(parseTrackbackResponse('<html>Thanks!</html>')).toBeNull();
+    });
+  });
+
+  describe('sendTrackback', () => {
+    test('discovers the Trackback URL and posts the source details', async () => {
+      const fetchMock = stubFetch({
+        [TARGET]: () => new Response(`<html>${rdfBlock(TARGET, TRACKBACK)}</html>`),
+        [TRACKBACK]: () => trackbackResponse(0)
+      });
+
+      const result = await sendTrackback({
+        source: SOURCE,
+        target: TARGET,
+        title: 'My post',
+        excerpt: 'x'.repeat(300),
+        blogName: 'My blog'
+      });
+
+      expect(result).toMatchObject({
+        service: 'Trackback',
+        url: SOURCE,
+        success: true,
+        method: 'trackback',
+        message: 'Trackback accepted'
+      });
+
+      const [, init] = fetchMock.mock.calls[1];
+      const params = new URLSearchParams(String(init?.body));
+      expect(init?.method).toBe('POST');
+      expect(params.get('url')).toBe(SOURCE);
+      expect(params.get('title')).toBe('My post');
+      expect(params.get('blog_name')).toBe('My blog');
+      expect(params.get('excerpt')).toHaveLength(255);
+    });
+
+    test('reports errors from the receiver', async () => {
+      stubFetch({ [TRACKBACK]: () => trackbackResponse(1, 'Trackbacks are closed') });
+
+      const result = await sendTrackback({ source: SOURCE, target: TARGET }, 1000, TRACKBACK);
+
+      expect(result).toMatchObject({ success: false, message: 'Trackbacks are closed', error: 'Trackbacks are closed' });
+    });
+
+    test('reports targets without a Trackback URL', async () => {
+      stubFetch({ [TARGET]: () => new Response('<html></html>') });
+
+      expect(await sendTrackback({ source: SOURCE, target: TARGET }))
+        .toMatchObject({ success: false, message: 'The target does not advertise a Trackback URL' });
+    });
+  });
+
+  test('is the last backlink fallback', async () => {
+    stubFetch({
+      [SOURCE]: () => new Response(`<a href="${TARGET}">entry</a>`),
+      [TARGET]: () => new Response(`<html>${rdfBlock(TARGET, TRACKBACK)}</html>`),
+      [TRACKBACK]: () => trackbackResponse(1, 'Spam')
+    });
+
+    expect(await notifyBacklink({ source: SOURCE, target: TARGET })).toMatchObject({
+      protocol: 'trackback',
+      success: false,
+      outcome: 'fault',
+      message: 'Spam',
+      endpoint: TRACKBACK
+    });
+  });
+
+  test('backlink requests accept the source details', async () => {
+    const validation = await validateBacklinkRequest({
+      links: [{ source: SOURCE, target: TARGET, title: ' My post ', blogName: '' }]
+    });
+    expect(validation).toEqual({ valid: true, links: [{ source: SOURCE, target: TARGET, title: 'My post' }] });
+
+    expect((await validateBacklinkRequest({ links: [{ source: SOURCE, target: TARGET, excerpt: 42 }] })).valid)
+      .toBe(false);
+  });
+});
@@ -0,0 +1,279 @@
+// @vitest-environment node
+import { describe, test, expect, vi, beforeAll, afterEach } from 'vitest';
+import { setHostResolver } from '../ssrf';
+import { findLinkHeader } from '../linkDiscovery';
+import { BACKLINK_TIMEOUT_MS } from '../types';
+import { parseRetryAfter } from '../retry';
+import { discoverWebmentionEndpoint, sendWebmention } from '../webmention';
+import { notifyBacklink, sendBacklinks } from '../backlinks';
+
+const SOURCE = 'https://source.example.com/post';
+const TARGET = 'https://target.example.com/article';
+const ENDPOINT = 'https://target.example.com/webmention';
+
+// A source page that really links to the target
+const linkingSource = () => new Response(`<p>See <a href="${TARGET}">this article</a></p>`);
+
+// Answers requests from a table of URL → response factories
+function stubFetch(routes: Record<string, () => Response>) {
+  return vi.spyOn(globalThis, 'fetch').mockImplementation(async input => {
+    const route = routes[String(input)];
+    return route ? route() : new Response('Not found', { status: 404 });
+  });
+}
+
+beforeAll(() => {
+  setHostResolver(async () => ['93.184.215.14']);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('Webmention', () => {
+  describe('findLinkHeader', () => {
+    test('finds the rel among several links and resolves relative URIs', () => {
+      const header = '<https://target.example.com/feed>; rel="alternate", </wm?x=1>; rel="webmention other"';
+      expect(findLinkHeader(header, 'webmention', TARGET)).toBe('https://target.example.com/wm?x=1');
+      expect(findLinkHeader('<https://a.example/wm>; rel=webmention', 'webmention', TARGET))
+        .toBe('https://a.example/wm');
+    });
+
+    test('ignores other rels and missing headers', () => {
+      expect(findLinkHeader('<https://a.example/wm>; rel="webmentions"', 'webmention', TARGET)).toBeNull();
+      expect(findLinkHeader(null, 'webmention', TARGET)).toBeNull();
+    });
+  });
+
+  describe('discovery', () => {
+    test('prefers the Link header over the page', async () => {
+      stubFetch({
+        [TARGET]: () => new Response('<link rel="webmention" href="/other">', {
+          headers: { Link: '</webmention>; rel="webmention"' }
+        })
+      });
+
+      expect(await discoverWebmentionEndpoint(TARGET)).toEqual({ found: true, endpoint: ENDPOINT });
+    });
+
+    test('finds <a> elements and resolves against the final URL', async () => {
+      stubFetch({
+        [TARGET]: () => new Response(null, { status: 301, headers: { Location: 'https://www.target.example.com/article' } }),
+        'https://www.target.example.com/article': () => new Response('<p><a href="wm" rel="webmention">mentions</a></p>')
+      });
+
+      expect(await discoverWebmentionEndpoint(TARGET))
+        .toEqual({ found: true, endpoint: 'https://www.target.example.com/wm' });
+    });
+
+    test('treats an empty href as the page itself', async () => {
+      stubFetch({ [TARGET]: () => new Response('<link rel="webmention" href="">') });
+
+      expect(await discoverWebmentionEndpoint(TARGET)).toEqual({ found: true, endpoint: TARGET });
+    });
+
+    test('reports targets without an endpoint', async () => {
+      stubFetch({ [TARGET]: () => new Response('<html></html>') });
+
+      expect(await discoverWebmentionEndpoint(TARGET)).toMatchObject({ found: false, outcome: 'not_supported' });
+    });
+  });
+
+  describe('sendWebmention', () => {
+    test('posts source and target as form data', async () => {
+      const fetchMock = stubFetch({
+        [TARGET]: () => new Response('', { headers: { Link: `<${ENDPOINT}>; rel="webmention"` } }),
+        [ENDPOINT]: () => new Response('', { status: 200 })
+      });
+
+      const result = await sendWebmention({ source: SOURCE, target: TARGET });
+
+      expect(result).toMatchObject({
+        protocol: 'webmention',
+        success: true,
+        outcome: 'registered',
+        endpoint: ENDPOINT
+      });
+
+      const [, init] = fetchMock.mock.calls[1];
+      expect(init?.method).toBe('POST');
+      expect(init?.headers).toMatchObject({ 'Content-Type': 'application/x-www-form-urlencoded' });
+      expect(Object.fromEntries(new URLSearchParams(String(init?.body)))).toEqual({ source: SOURCE, target: TARGET });
+    });
+
+    test('reports the status page of a created Webmention', async () => {
+      stubFetch({
+        [ENDPOINT]: () => new Response(null, { status: 201, headers: { Location: '/webmention/status/42' } })
+      });
+
+      const result = await sendWebmention({ source: SOURCE, target: TARGET }, 1000, ENDPOINT);
+
+      expect(result).toMatchObject({
+        success: true,
+        outcome: 'accepted',
+        message: 'Webmention created',
+        statusUrl: 'https://target.example.com/webmention/status/42'
+      });
+    });
+
+    test('drops status pages that are not web pages', async () => {
+      for (const location of ['javascript:alert(document.cookie)', 'data:text/html,<script>alert(1)</script>']) {
+        stubFetch({ [ENDPOINT]: () => new Response(null, { status: 201, headers: { Location: location } }) });
+
+        const result = await sendWebmention({ source: SOURCE, target: TARGET }, 1000, ENDPOINT);
+
+        expect(result).toMatchObject({ success: true, outcome: 'accepted' });
+        expect(result.statusUrl).toBeUndefined();
+        vi.restoreAllMocks();
+      }
+    });
+
+    test('reports queued Webmentions', async () => {
+      stubFetch({ [ENDPOINT]: () => new Response('Accepted', { status: 202 }) });
+
+      const result = await sendWebmention({ source: SOURCE, target: TARGET }, 1000, ENDPOINT);
+
+      expect(result).toMatchObject({ success: true, outcome: 'accepted', message: 'Webmention queued for processing' });
+      expect(result.statusUrl).toBeUndefined();
+    });
+
+    test('reports rejections with the receiver\'s explanation, without retrying', async () => {
+      const fetchMock = stubFetch({
+        [ENDPOINT]: () => new Response('Source does not link to target', { status: 400 })
+      });
+
+      const result = await sendWebmention({ source: SOURCE, target: TARGET }, 1000, ENDPOINT);
+
+      expect(result).toMatchObject({ success: false, outcome: 'fault', message: 'Source does not link to target' });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    test('retries server errors', async () => {
+      let calls = 0;
+      stubFetch({
+        [ENDPOINT]: () => (++calls === 1 ? new Response('', { status: 502 }) : new Response(null, { status: 202 }))
+      });
+
+      const result = await sendWebmention({ source: SOURCE, target: TARGET }, 1000, ENDPOINT);
+
+      expect(result).toMatchObject({ success: true, outcome: 'accepted' });
+      expect(calls).toBe(2);
+    });
+
+    test('does not send to private endpoints', async () => {
+      const fetchMock = stubFetch({
+        [TARGET]: () => new Response('<link rel="webmention" href="http://127.0.0.1/wm">')
+      });
+
+      const result = await sendWebmention({ source: SOURCE, target: TARGET });
+
+      expect(result).toMatchObject({ success: false, outcome: 'error', endpoint: 'http://127.0.0.1/wm' });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('notifyBacklink', () => {
+    test('prefers Webmention when the target supports both', async () => {
+      stubFetch({
+        [SOURCE]: linkingSource,
+        [TARGET]: () => new Response('<link rel="pingback" href="/xmlrpc.php"><link rel="webmention" href="/webmention">'),
+        [ENDPOINT]: () => new Response(null, { status: 202 })
+      });
+
+      expect(await notifyBacklink({ source: SOURCE, target: TARGET }))
+        .toMatchObject({ protocol: 'webmention', outcome: 'accepted' });
+    });
+
+    test('falls back to pingback', async () => {
+      stubFetch({
+        [SOURCE]: linkingSource,
+        [TARGET]: () => new Response('', { headers: { 'X-Pingback': 'https://target.example.com/xmlrpc.php' } }),
+        'https://target.example.com/xmlrpc.php': () => new Response(
+          '<methodResponse><params><param><value><string>OK</string></value></param></params></methodResponse>'
+        )
+      });
+
+      expect(await notifyBacklink({ source: SOURCE, target: TARGET }))
+        .toMatchObject({ protocol: 'pingback', outcome: 'registered' });
+    });
+
+    test('reports targets supporting neither protocol', async () => {
+      stubFetch({ [SOURCE]: linkingSource, [TARGET]: () => new Response('<html></html>') });
+
+      const result = await notifyBacklink({ source: SOURCE, target: TARGET });
+
+      expect(result).toMatchObject({ success: false, outcome: 'not_supported', verification: { verified: true } });
+      expect(result.protocol).toBeUndefined();
+    });
+
+    test('skips retries the deadline cannot cover', async () => {
+      let calls = 0;
+      stubFetch({
+        [SOURCE]: linkingSource,
+        [TARGET]: () => new Response('<link rel="webmention" href="/webmention">'),
+        [ENDPOINT]: () => { calls++; return new Response('', { status: 502 }); }
+      });
+
+      const result = await notifyBacklink({ source: SOURCE, target: TARGET }, Date.now() + 10000);
+
+      expect(result).toMatchObject({ protocol: 'webmention', success: false });
+      expect(calls).toBe(1);
+    });
+  });
+
+  describe('sendBacklinks', () => {
+    test('sends links within the default execution budget', async () => {
+      stubFetch({
+        [SOURCE]: linkingSource,
+        [TARGET]: () => new Response('<link rel="webmention" href="/webmention">'),
+        [ENDPOINT]: () => new Response(null, { status: 202 })
+      });
+
+      const results = await sendBacklinks([{ source: SOURCE, target: TARGET }], { startTime: Date.now() });
+
+      expect(results).toEqual([expect.objectContaining({ protocol: 'webmention', success: true, outcome: 'accepted' })]);
+    });
+
+    test('starts every link that still has time for its requests', async () => {
+      stubFetch({
+        [SOURCE]: linkingSource,
+        [TARGET]: () => new Response('<link rel="webmention" href="/webmention">'),
+        [ENDPOINT]: () => new Response(null, { status: 202 })
+      });
+
+      // Far less than three full request timeouts per link
+      const links = Array.from({ length: 5 }, () => ({ source: SOURCE, target: TARGET }));
+      const results = await sendBacklinks(links, { startTime: Date.now(), maxExecutionMs: 5000 });
+
+      expect(results.map(result => result.outcome)).toEqual(Array(5).fill('accepted'));
+    });
+
+    test('cuts requests short at the deadline', async () => {
+      vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+        if (String(input) === SOURCE) return linkingSource();
+        if (String(input) === TARGET) return new Response('<link rel="webmention" href="/webmention">');
+        // The endpoint never answers
+        return new Promise<Response>((_resolve, reject) => {
+          init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+        });
+      });
+
+      const startTime = Date.now();
+      const [result] = await sendBacklinks([{ source: SOURCE, target: TARGET }], { startTime, maxExecutionMs: 1500 });
+
+      expect(result).toMatchObject({ protocol: 'webmention', success: false, outcome: 'error' });
+      expect(Date.now() - startTime).toBeLessThan(BACKLINK_TIMEOUT_MS);
+
+      const [skipped] = await sendBacklinks([{ source: SOURCE, target: TARGET }], { startTime, maxExecutionMs: 1500 });
+      expect(skipped).toMatchObject({ success: false, message: 'Function timeout approaching, link skipped' });
+    });
+  });
+
+  test('parses Retry-After as seconds or an HTTP date', () => {
+    const now = Date.UTC(2024, 0, 1);
+    expect(parseRetryAfter('120', now)).toBe(120);
+    expect(parseRetryAfter(new Date(now + 30_000).toUTCString(), now)).toBe(30);
+    expect(parseRetryAfter(null, now)).toBe(60);
+    expect(parseRetryAfter('soon', now)).toBe(60);
+  });
+});
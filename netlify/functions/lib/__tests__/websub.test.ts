@@ -0,0 +1,89 @@
+// @vitest-environment node
+import { describe, test, expect, vi, afterEach } from 'vitest';
+import type { WebSubHub } from '../types';
+import { SITE_HUB_SERVICE, WEBSUB_HUBS } from '../types';
+import { getEnabledHubs, notifyHub, notifyWebSubHub } from '../websub';
+import { getServiceRegistry } from '../protocolRegistry';
+
+const FEED_URL = 'https://pinger.example.com/api/feed?urls=https%3A%2F%2Fexample.com%2F';
+
+function hub(name: string, overrides: Partial<WebSubHub> = {}): WebSubHub {
+  return {
+    name,
+    url: `https://${name.toLowerCase()}.example.com/`,
+    timeout: 1000,
+    maxRetries: 0,
+    category: 'Feed Readers',
+    description: name,
+    reachesServices: [],
+    ...overrides
+  };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+});
+
+describe('WebSub', () => {
+  test('notifies every hub with a separate result', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async input =>
+      String(input).startsWith('https://down.')
+        ? new Response('Hub misconfigured', { status: 400 })
+        : new Response(null, { status: 204 })
+    );
+
+    const results = await notifyHub(FEED_URL, [hub('Up'), hub('Down')]);
+
+    expect(results).toMatchObject([
+      { hubName: 'Up', hubUrl: 'https://up.example.com/', success: true },
+      { hubName: 'Down', success: false, statusCode: 400, message: 'Hub misconfigured' }
+    ]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    const [, init] = fetchMock.mock.calls[0];
+    expect(String(init?.body)).toBe(`hub.mode=publish&hub.url=${encodeURIComponent(FEED_URL)}`);
+  });
+
+  test('uses each hub\'s own retry count', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('', { status: 500 }));
+
+    const result = await notifyWebSubHub(FEED_URL, hub('Flaky', { maxRetries: 0 }));
+
+    expect(result.success).toBe(false);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test('sends credentials from the environment', async () => {
+    vi.stubEnv('TEST_HUB_BASIC', 'publisher:secret');
+    vi.stubEnv('TEST_HUB_TOKEN', 'abc123');
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response(null, { status: 204 }));
+
+    await notifyHub(FEED_URL, [
+      hub('Basic', { auth: { type: 'basic', credentialsEnv: 'TEST_HUB_BASIC' } }),
+      hub('Bearer', { auth: { type: 'bearer', credentialsEnv: 'TEST_HUB_TOKEN' } }),
+      hub('Open')
+    ]);
+
+    const authorization = fetchMock.mock.calls.map(([, init]) => (init?.headers as Record<string, string>).Authorization);
+    expect(authorization).toEqual([`Basic ${btoa('publisher:secret')}`, 'Bearer abc123', undefined]);
+  });
+
+  test('does not contact hubs whose credentials are missing', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch');
+
+    const result = await notifyWebSubHub(FEED_URL, hub('Private', {
+      auth: { type: 'bearer', credentialsEnv: 'TEST_HUB_MISSING' }
+    }));
+
+    expect(result).toMatchObject({ success: false, message: 'Hub credentials not configured (TEST_HUB_MISSING)' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  test('lists every hub in the registry and only enabled hubs for notification', () => {
+    const registry = getServiceRegistry().filter(service => service.method === 'websub');
+
+    expect(registry.map(service => service.name)).toEqual([...WEBSUB_HUBS.map(h => h.name), SITE_HUB_SERVICE.name]);
+    expect(getEnabledHubs().every(h => h.enabled !== false)).toBe(true);
+  });
+});
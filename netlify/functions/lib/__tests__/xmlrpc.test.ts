@@ -0,0 +1,300 @@
+// @vitest-environment node
+import { describe, test, expect, vi, beforeAll, afterEach } from 'vitest';
+import type { XmlRpcService } from '../types';
+import { setHostResolver } from '../ssrf';
+import { buildExtendedPingRequest, clearMulticallSupport, sendMulticallPings, sendXmlRpcPing, setMethodListStore } from '../xmlrpc';
+import { pingAllServices, pingUrls } from '../pinger';
+import { validatePingRequest } from '../validation';
+import { FakeBlobStore } from './fixtures/blobStore';
+
+const PAGE = 'https://blog.example.com/posts/hello';
+const FEED = 'https://blog.example.com/feed.xml';
+
+const service: XmlRpcService = {
+  name: 'Test Pinger',
+  endpoint: 'https://rpc.example.net/RPC2',
+  timeout: 1000,
+  maxRetries: 0,
+  pingMethod: 'weblogUpdates.extendedPing',
+  category: 'Blog Networks',
+  description: 'Test',
+  reachesServices: []
+};
+
+const thanks = () => new Response(`<?xml version="1.0"?>
+<methodResponse><params><param><value><struct>
+<member><name>flerror</name><value><boolean>0</boolean></value></member>
+<member><name>message</name><value><string>Thanks for the ping.</string></value></member>
+</struct></value></param></params></methodResponse>`);
+
+const fault = (code: number, message: string) => () => new Response(`<?xml version="1.0"?>
+<methodResponse><fault><value><struct>
+<member><name>faultCode</name><value><int>${code}</int></value></member>
+<member><name>faultString</name><value><string>${message}</string></value></member>
+</struct></value></fault></methodResponse>`);
+
+const methodList = (...methods: string[]) => () => new Response(`<?xml version="1.0"?>
+<methodResponse><params><param><value><array><data>
+${methods.map(method => `<value><string>${method}</string></value>`).join('')}
+</data></array></value></param></params></methodResponse>`);
+
+// Answers each call of a system.multicall request in turn
+const multicall = (answer: (call: string, index: number) => string) => (body: string) => {
+  const calls = [...body.matchAll(/<name>methodName<\/name><value><string>([^<]*)/g)].map(match => match[1]);
+  return new Response(`<?xml version="1.0"?>
+<methodResponse><params><param><value><array><data>
+${calls.map((call, index) => `<value>${answer(call, index)}</value>`).join('')}
+</data></array></value></param></params></methodResponse>`);
+};
+
+const accepted = '<array><data><value><struct><member><name>flerror</name><value><boolean>0</boolean></value></member></struct></value></data></array>';
+const faultEntry = (code: number, message: string) =>
+  `<struct><member><name>faultCode</name><value><int>${code}</int></value></member><member><name>faultString</name><value><string>${message}</string></value></member></struct>`;
+
+// Answers XML-RPC calls by method name
+function stubRpc(methods: Record<string, (body: string) => Response>) {
+  return vi.spyOn(globalThis, 'fetch').mockImplementation(async (_input, init) => {
+    const method = String(init?.body).match(/<methodName>([^<]*)<\/methodName>/)?.[1] ?? '';
+    const answer = methods[method];
+    return answer ? answer(String(init?.body)) : fault(-32601, `Method ${method} not found`)();
+  });
+}
+
+const methodsCalled = (fetchMock: ReturnType<typeof stubRpc>) =>
+  fetchMock.mock.calls.map(([, init]) => String(init?.body).match(/<methodName>([^<]*)/)?.[1]);
+
+beforeAll(() => {
+  setHostResolver(async () => ['93.184.215.14']);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  clearMulticallSupport();
+  setMethodListStore(null);
+});
+
+describe('XML-RPC pings', () => {
+  test('builds extendedPing with the changed page and the feed', () => {
+    const xml = buildExtendedPingRequest('Blog & Co', 'https://blog.example.com/', PAGE, FEED);
+    const params = [...xml.matchAll(/<string>([^<]*)<\/string>/g)].map(match => match[1]);
+
+    expect(xml).toContain('<methodName>weblogUpdates.extendedPing</methodName>');
+    expect(params).toEqual(['Blog &amp; Co', 'https://blog.example.com/', PAGE, FEED]);
+  });
+
+  test('sends an extended ping when the feed is known', async () => {
+    const fetchMock = stubRpc({ 'weblogUpdates.extendedPing': thanks });
+
+    const result = await sendXmlRpcPing(service, 'Blog', PAGE, FEED);
+
+    expect(result).toMatchObject({ success: true, method: 'weblogUpdates.extendedPing', message: 'Thanks for the ping.' });
+    expect(methodsCalled(fetchMock)).toEqual(['weblogUpdates.extendedPing']);
+  });
+
+  test('falls back to the basic ping when extendedPing is not implemented', async () => {
+    for (const notFound of [fault(-32601, 'server error. requested method not found'), fault(0, 'Unknown method')]) {
+      const fetchMock = stubRpc({ 'weblogUpdates.extendedPing': notFound, 'weblogUpdates.ping': thanks });
+
+      const result = await sendXmlRpcPing(service, 'Blog', PAGE, FEED);
+
+      expect(result).toMatchObject({ success: true, method: 'weblogUpdates.ping' });
+      expect(methodsCalled(fetchMock)).toEqual(['weblogUpdates.extendedPing', 'weblogUpdates.ping']);
+      vi.restoreAllMocks();
+    }
+  });
+
+  test('only retries or falls back when the deadline leaves time for it', async () => {
+    const notFound = stubRpc({ 'weblogUpdates.extendedPing': fault(-32601, 'Method not found'), 'weblogUpdates.ping': thanks });
+
+    const result = await sendXmlRpcPing(service, 'Blog', PAGE, FEED, Date.now() + 500);
+    expect(result).toMatchObject({ success: false, method: 'weblogUpdates.extendedPing' });
+    expect(methodsCalled(notFound)).toEqual(['weblogUpdates.extendedPing']);
+    vi.restoreAllMocks();
+
+    const failing = vi.spyOn(globalThis, 'fetch')
+      .mockImplementation(async () => new Response('Bad gateway', { status: 502, statusText: 'Bad Gateway' }));
+    const retrying = { ...service, maxRetries: 1 };
+
+    await sendXmlRpcPing(retrying, 'Blog', PAGE, FEED, Date.now() + 2000);
+    expect(failing).toHaveBeenCalledTimes(1);
+
+    failing.mockClear();
+    await sendXmlRpcPing(retrying, 'Blog', PAGE, FEED);
+    expect(failing).toHaveBeenCalledTimes(2);
+  });
+
+  test('reports other faults without falling back', async () => {
+    const fetchMock = stubRpc({ 'weblogUpdates.extendedPing': fault(1, 'Ping rejected as spam') });
+
+    const result = await sendXmlRpcPing(service, 'Blog', PAGE, FEED);
+
+    expect(result).toMatchObject({ success: false, faultCode: 1, message: 'Ping rejected as spam' });
+    expect(methodsCalled(fetchMock)).toEqual(['weblogUpdates.extendedPing']);
+  });
+
+  test('sends the basic ping without a feed or to basic-only services', async () => {
+    const fetchMock = stubRpc({ 'weblogUpdates.ping': thanks });
+
+    await sendXmlRpcPing(service, 'Blog', PAGE);
+    await sendXmlRpcPing({ ...service, pingMethod: undefined }, 'Blog', PAGE, FEED);
+
+    expect(methodsCalled(fetchMock)).toEqual(['weblogUpdates.ping', 'weblogUpdates.ping']);
+  });
+
+  test('uses the feed the page advertises unless one is supplied', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async input =>
+      String(input) === PAGE
+        ? new Response('<link rel="alternate" type="application/atom+xml" href="/feed.xml">')
+        : thanks()
+    );
+    const rssUrls = () => fetchMock.mock.calls
+      .filter(([input]) => String(input) !== PAGE)
+      .map(([, init]) => [...String(init?.body).matchAll(/<string>([^<]*)<\/string>/g)][3]?.[1]);
+
+    await pingAllServices(PAGE, FEED, { startTime: Date.now(), services: ['Ping-o-Matic'] });
+    expect(rssUrls()).toEqual([FEED]);
+
+    fetchMock.mockClear();
+    await pingAllServices(PAGE, FEED, {
+      startTime: Date.now(),
+      services: ['Ping-o-Matic'],
+      siteFeedUrl: 'https://feeds.example.com/blog'
+    });
+    expect(rssUrls()).toEqual(['https://feeds.example.com/blog']);
+    expect(fetchMock.mock.calls.some(([input]) => String(input) === PAGE)).toBe(false);
+  });
+
+  test('ping requests accept the site\'s feed', async () => {
+    expect(await validatePingRequest({ urls: [PAGE], siteFeedUrl: ' blog.example.com/feed ' }))
+      .toMatchObject({ valid: true, siteFeedUrl: 'https://blog.example.com/feed' });
+    expect((await validatePingRequest({ urls: [PAGE], siteFeedUrl: 'ftp://blog.example.com/feed' })).valid)
+      .toBe(false);
+  });
+});
+
+describe('system.multicall batching', () => {
+  const PAGES = [PAGE, 'https://blog.example.com/posts/two', 'https://blog.example.com/posts/three'];
+  const run = () => pingUrls(PAGES, FEED, { startTime: Date.now(), services: ['Ping-o-Matic'], siteFeedUrl: FEED });
+
+  test('pings every URL in one request to services that support it', async () => {
+    const fetchMock = stubRpc({
+      'system.listMethods': methodList('system.multicall', 'weblogUpdates.extendedPing'),
+      'system.multicall': multicall((_call, index) => index === 1 ? faultEntry(1, 'Ping rejected as spam') : accepted)
+    });
+
+    const results = await run();
+
+    expect(methodsCalled(fetchMock)).toEqual(['system.listMethods', 'system.multicall']);
+    expect(String(fetchMock.mock.calls[1][1]?.body).match(/weblogUpdates\.extendedPing/g)).toHaveLength(3);
+    expect(results.map(result => [result.url, result.success, result.outcome])).toEqual([
+      [PAGES[0], true, 'accepted'],
+      [PAGES[1], false, 'rejected'],
+      [PAGES[2], true, 'accepted']
+    ]);
+
+    // The method list is cached
+    fetchMock.mockClear();
+    await run();
+    expect(methodsCalled(fetchMock)).toEqual(['system.multicall']);
+  });
+
+  test('pings URL by URL when the service does not advertise multicall', async () => {
+    const fetchMock = stubRpc({
+      'system.listMethods': methodList('weblogUpdates.ping', 'weblogUpdates.extendedPing'),
+      'weblogUpdates.extendedPing': thanks
+    });
+
+    const results = await run();
+
+    expect(methodsCalled(fetchMock)).toEqual(['system.listMethods', ...PAGES.map(() => 'weblogUpdates.extendedPing')]);
+    expect(results.every(result => result.success)).toBe(true);
+  });
+
+  test('pings URL by URL when the service rejects the multicall', async () => {
+    const fetchMock = stubRpc({
+      'system.listMethods': methodList('system.multicall'),
+      'system.multicall': fault(-32601, 'multicall is disabled'),
+      'weblogUpdates.extendedPing': thanks
+    });
+
+    const results = await run();
+
+    expect(methodsCalled(fetchMock)).toEqual(['system.listMethods', 'system.multicall', ...PAGES.map(() => 'weblogUpdates.extendedPing')]);
+    expect(results.map(result => result.url)).toEqual(PAGES);
+    expect(results.every(result => result.success)).toBe(true);
+
+    fetchMock.mockClear();
+    await run();
+    expect(methodsCalled(fetchMock)).not.toContain('system.multicall');
+  });
+
+  test('shares method lists between instances', async () => {
+    setMethodListStore(new FakeBlobStore());
+    const fetchMock = stubRpc({
+      'system.listMethods': methodList('system.multicall'),
+      'system.multicall': multicall(() => accepted)
+    });
+
+    await run();
+    clearMulticallSupport();
+    fetchMock.mockClear();
+    await run();
+
+    expect(methodsCalled(fetchMock)).toEqual(['system.multicall']);
+  });
+
+  test('skips the method list probe when too little time is left for it', async () => {
+    const fetchMock = stubRpc({
+      'system.listMethods': methodList('system.multicall'),
+      'system.multicall': multicall(() => accepted),
+      'weblogUpdates.extendedPing': thanks
+    });
+
+    const results = await pingUrls(PAGES, FEED, {
+      startTime: Date.now() - 10000,
+      services: ['Ping-o-Matic'],
+      siteFeedUrl: FEED
+    });
+
+    expect(methodsCalled(fetchMock)).toEqual(PAGES.map(() => 'weblogUpdates.extendedPing'));
+    expect(results.every(result => result.success)).toBe(true);
+  });
+
+  test('only retries a multicall when the retry fits before the deadline', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch')
+      .mockImplementation(async () => new Response('Bad gateway', { status: 502, statusText: 'Bad Gateway' }));
+    const pings = PAGES.map(siteUrl => ({ siteName: 'Blog', siteUrl }));
+    const retrying = { ...service, maxRetries: 1 };
+
+    await sendMulticallPings(retrying, pings, Date.now() + 2000);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockClear();
+    await sendMulticallPings(retrying, pings);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  test('resends unimplemented extended pings as basic pings', async () => {
+    const fetchMock = stubRpc({
+      'system.multicall': multicall(call => call === 'weblogUpdates.ping' ? accepted : faultEntry(-32601, 'Unknown method'))
+    });
+    const pings = PAGES.slice(0, 2).map(siteUrl => ({ siteName: 'Blog', siteUrl, rssUrl: FEED }));
+
+    const results = await sendMulticallPings(service, pings);
+
+    expect(methodsCalled(fetchMock)).toEqual(['system.multicall', 'system.multicall']);
+    expect(results?.map(result => [result.success, result.method])).toEqual([
+      [true, 'weblogUpdates.ping'],
+      [true, 'weblogUpdates.ping']
+    ]);
+  });
+
+  test('reports a failed multicall request for every URL', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('Bad gateway', { status: 502, statusText: 'Bad Gateway' }));
+
+    const results = await sendMulticallPings(service, PAGES.map(siteUrl => ({ siteName: 'Blog', siteUrl })));
+
+    expect(results).toHaveLength(3);
+    expect(results?.every(result => !result.success && result.statusCode === 502)).toBe(true);
+  });
+});
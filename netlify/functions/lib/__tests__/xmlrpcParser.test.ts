@@ -0,0 +1,139 @@
+// @vitest-environment node
+import { readFileSync } from 'node:fs';
+import { describe, test, expect } from 'vitest';
+import type { MethodResponse } from '../xmlrpcParser';
+import { parseMethodResponse } from '../xmlrpcParser';
+import { parseXmlRpcResponse } from '../xmlrpc';
+
+// Responses captured from (or modelled on) real ping and pingback servers
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/xmlrpc/${name}`, import.meta.url), 'utf8');
+
+// Well-formed responses and the values they hold
+const VALID: Record<string, MethodResponse> = {
+  'pingomatic-success.xml': {
+    type: 'success',
+    value: { flerror: false, message: 'Pinging complete!' }
+  },
+  'weblogs-flerror.xml': {
+    type: 'success',
+    value: { flerror: true, message: 'Sorry, pings are limited to one every 30 minutes.' }
+  },
+  'twingly-untyped-message.xml': {
+    type: 'success',
+    value: { flerror: false, message: 'Thanks for the ping.' }
+  },
+  'pingback-string.xml': {
+    type: 'success',
+    value: 'Pingback from https://source.example.com/post to https://target.example.com/article registered. Keep the web talking! :-)'
+  },
+  'wordpress-fault-48.xml': {
+    type: 'fault',
+    fault: { faultCode: 48, faultString: 'The pingback has already been registered.' }
+  },
+  'fault-method-not-found.xml': {
+    type: 'fault',
+    fault: { faultCode: -32601, faultString: 'server error. requested method weblogUpdates.extendedPing does not exist.' }
+  },
+  'cdata-and-entities.xml': {
+    type: 'success',
+    value: { flerror: false, message: 'Thanks <b>&</b> bye & café ☃ <3' }
+  }
+};
+
+// Bodies that must be rejected, and the reason given
+const INVALID: Record<string, string> = {
+  'html-error-page.html': 'DOCTYPE declarations are not allowed',
+  'html-without-doctype.html': 'Expected <methodResponse>, found <html>',
+  'empty.xml': 'Empty response',
+  'truncated.xml': 'Unclosed <string>',
+  'mismatched-tags.xml': 'Expected </string>, found </value>',
+  'method-call.xml': 'Expected <methodResponse>, found <methodCall>',
+  'invalid-int.xml': 'Invalid <int> value "12a"',
+  'invalid-boolean.xml': 'Invalid <boolean> value "false"',
+  'fault-without-code.xml': 'Fault has no integer faultCode',
+  'two-params.xml': '<params> must hold exactly one <param>',
+  'unknown-type.xml': 'Unknown value type <float>',
+  'unknown-entity.xml': 'Unknown entity &eacute;',
+  'trailing-garbage.xml': 'Content after the root element'
+};
+
+describe('XML-RPC response parser', () => {
+  test.each(Object.entries(VALID))('parses %s', (name, expected) => {
+    expect(parseMethodResponse(fixture(name))).toEqual(expected);
+  });
+
+  test.each(Object.entries(INVALID))('rejects %s', (name, reason) => {
+    expect(parseMethodResponse(fixture(name))).toEqual({ type: 'invalid', reason });
+  });
+
+  test('converts every value type', () => {
+    const response = parseMethodResponse(fixture('all-types.xml'));
+
+    expect(response.type).toBe('success');
+    const value = response.type === 'success' ? response.value : null;
+
+    expect(value).toEqual({
+      int: -42,
+      i4: 7,
+      i8: Number.MAX_SAFE_INTEGER,
+      double: -1500,
+      true: true,
+      date: new Date(Date.UTC(1998, 6, 17, 14, 8, 55)),
+      zonedDate: new Date(Date.UTC(2024, 2, 1, 8, 0, 0)),
+      base64: new TextEncoder().encode('hello'),
+      emptyString: '',
+      bare: '  spaced  ',
+      nil: null,
+      exNil: null,
+      array: [1, 'two', [], { nested: false }],
+      ['__proto__']: 'kept'
+    });
+    expect(Object.getPrototypeOf(value)).toBe(Object.prototype);
+  });
+
+  test('rejects out-of-range values', () => {
+    const wrap = (value: string) =>
+      `<methodResponse><params><param><value>${value}</value></param></params></methodResponse>`;
+
+    for (const value of [
+      '<int>2147483648</int>',
+      '<double>1.2.3</double>',
+      '<dateTime.iso8601>20240231T00:00:00</dateTime.iso8601>',
+      '<dateTime.iso8601>20241301T00:00:00</dateTime.iso8601>',
+      '<base64>abc</base64>',
+      '<struct><member><value>1</value></member></struct>',
+      '<string>a<b/></string>'
+    ]) {
+      expect(parseMethodResponse(wrap(value)).type).toBe('invalid');
+    }
+  });
+
+  test('limits nesting depth', () => {
+    const nested = '<value><array><data>'.repeat(100) + '</data></array></value>'.repeat(100);
+
+    expect(parseMethodResponse(`<methodResponse><params><param>${nested}</param></params></methodResponse>`))
+      .toMatchObject({ type: 'invalid' });
+  });
+
+  describe('parseXmlRpcResponse', () => {
+    test('reports ping results, strings and faults', () => {
+      expect(parseXmlRpcResponse(fixture('pingomatic-success.xml')))
+        .toEqual({ flerror: false, message: 'Pinging complete!' });
+      expect(parseXmlRpcResponse(fixture('weblogs-flerror.xml')))
+        .toEqual({ flerror: true, message: 'Sorry, pings are limited to one every 30 minutes.' });
+      expect(parseXmlRpcResponse(fixture('pingback-string.xml')).flerror).toBe(false);
+      expect(parseXmlRpcResponse(fixture('wordpress-fault-48.xml')))
+        .toEqual({ flerror: true, message: 'The pingback has already been registered.', faultCode: 48 });
+    });
+
+    test('never reports invalid bodies as success', () => {
+      for (const name of Object.keys(INVALID)) {
+        expect(parseXmlRpcResponse(fixture(name))).toEqual({
+          flerror: true,
+          message: `Invalid XML-RPC response: ${INVALID[name]}`,
+          invalid: true
+        });
+      }
+    });
+  });
+});
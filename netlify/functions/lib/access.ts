@@ -0,0 +1,65 @@
+/**
+ * Access control for the endpoints that ping on a caller's behalf
+ *
+ * Resolves the optional API key, then applies the rate limits of the
+ * resulting identity (the key, or the client IP for anonymous callers).
+ */
+
+import type { Context } from '@netlify/functions';
+import type { ApiKey } from './apiKeys';
+import { authenticateRequest } from './apiKeys';
+import { jsonResponse } from './http';
+import {
+  consumeRateLimit,
+  getRateLimitConfig,
+  getRateLimitIdentities,
+  getRateLimitHeaders,
+  rateLimitExceededResponse
+} from './rateLimit';
+
+export type PingAccess =
+  | { allowed: true; apiKey?: ApiKey; headers: Record<string, string> }
+  | { allowed: false; response: Response };
+
+/**
+ * 401 response for a request with a missing or unknown API key
+ */
+export function unauthorizedResponse(error: string, headers: Record<string, string>): Response {
+  return jsonResponse({ error }, 401, {
+    'WWW-Authenticate': 'Bearer',
+    ...headers
+  });
+}
+
+/**
+ * Authenticates and rate limits a request
+ *
+ * @returns The caller's API key (if any) and the headers to send with the
+ * response, or the error response to return instead
+ */
+export async function checkPingAccess(
+  req: Request,
+  context: Pick<Context, 'ip'> | undefined,
+  corsHeaders: Record<string, string>
+): Promise<PingAccess> {
+  const auth = await authenticateRequest(req);
+  if (auth.status === 'invalid') {
+    return { allowed: false, response: unauthorizedResponse(auth.error, corsHeaders) };
+  }
+
+  const apiKey = auth.status === 'valid' ? auth.key : undefined;
+  const rateLimit = await consumeRateLimit(
+    getRateLimitIdentities(req, context, apiKey),
+    getRateLimitConfig(apiKey)
+  );
+
+  if (!rateLimit.allowed) {
+    return { allowed: false, response: rateLimitExceededResponse(rateLimit, corsHeaders) };
+  }
+
+  return {
+    allowed: true,
+    apiKey,
+    headers: { ...corsHeaders, ...getRateLimitHeaders(rateLimit) }
+  };
+}
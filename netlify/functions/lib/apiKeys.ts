@@ -0,0 +1,184 @@
+/**
+ * API keys for authenticated access
+ *
+ * Scripts send a key as `Authorization: Bearer <key>`. Each key carries its
+ * own limits instead of the anonymous defaults:
+ * - maxUrls: URLs per request (anonymous callers get MAX_URLS)
+ * - dailyQuota: requests per UTC day (replaces RATE_LIMIT_DAILY)
+ * - services: the services the key may ping (all when omitted)
+ *
+ * Keys live in a pluggable ApiKeyStore:
+ * - JsonFileApiKeyStore: a local JSON file (API_KEYS_FILE=<path>)
+ * - MemoryApiKeyStore: default (no keys), and for tests
+ *
+ * Only SHA-256 hashes of keys are stored. The key file holds either an array
+ * of ApiKey records or { "keys": [...] }; a hash can be generated with
+ *   node -e "console.log(require('crypto').createHash('sha256').update(process.argv[1]).digest('hex'))" <key>
+ */
+
+import { createHash } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+
+// A configured API key
+export interface ApiKey {
+  id: string;           // Public identifier, used in usage reports and feed URLs
+  name: string;
+  keyHash: string;      // SHA-256 hex digest of the secret key
+  maxUrls: number;      // URLs per request
+  dailyQuota: number;   // Requests per UTC day
+  services?: string[];  // Services the key may ping (all when omitted)
+  admin?: boolean;      // May read the usage of every key
+  disabled?: boolean;
+}
+
+// Storage adapter for API keys
+export interface ApiKeyStore {
+  findByHash(keyHash: string): Promise<ApiKey | null>;
+  findById(id: string): Promise<ApiKey | null>;
+  list(): Promise<ApiKey[]>;
+}
+
+// Outcome of authenticating a request
+export type ApiKeyAuth =
+  | { status: 'anonymous' }
+  | { status: 'valid'; key: ApiKey }
+  | { status: 'invalid'; error: string };
+
+// Upper bound on a key's URLs per request, whatever the key file says
+export const MAX_KEY_URLS = 100;
+
+/**
+ * In-memory key store
+ */
+export class MemoryApiKeyStore implements ApiKeyStore {
+  constructor(private readonly keys: ApiKey[] = []) {}
+
+  async findByHash(keyHash: string): Promise<ApiKey | null> {
+    return this.keys.find(key => key.keyHash === keyHash) ?? null;
+  }
+
+  async findById(id: string): Promise<ApiKey | null> {
+    return this.keys.find(key => key.id === id) ?? null;
+  }
+
+  async list(): Promise<ApiKey[]> {
+    return [...this.keys];
+  }
+}
+
+/**
+ * Checks that a parsed key file entry has the fields an ApiKey needs
+ * Flags must be real booleans: a string such as "false" is truthy.
+ */
+function isApiKey(value: unknown): value is ApiKey {
+  if (!value || typeof value !== 'object') return false;
+  const key = value as Record<string, unknown>;
+
+  return typeof key.id === 'string'
+    && typeof key.name === 'string'
+    && typeof key.keyHash === 'string' && /^[0-9a-f]{64}$/.test(key.keyHash)
+    && Number.isInteger(key.maxUrls) && (key.maxUrls as number) > 0
+    && Number.isInteger(key.dailyQuota) && (key.dailyQuota as number) > 0
+    && (key.services === undefined || (Array.isArray(key.services) && key.services.every(s => typeof s === 'string')))
+    && (key.admin === undefined || typeof key.admin === 'boolean')
+    && (key.disabled === undefined || typeof key.disabled === 'boolean');
+}
+
+/**
+ * Key store backed by a local JSON file
+ * The file is read once per function instance; invalid entries are ignored.
+ */
+export class JsonFileApiKeyStore implements ApiKeyStore {
+  private keys: Promise<MemoryApiKeyStore> | null = null;
+
+  constructor(private readonly path: string) {}
+
+  private load(): Promise<MemoryApiKeyStore> {
+    if (!this.keys) {
+      this.keys = readFile(this.path, 'utf8').then(contents => {
+        const parsed: unknown = JSON.parse(contents);
+        const entries: unknown[] = Array.isArray(parsed)
+          ? parsed
+          : ((parsed as { keys?: unknown[] })?.keys ?? []);
+
+        const keys = entries.filter(isApiKey).map(key => ({
+          ...key,
+          maxUrls: Math.min(key.maxUrls, MAX_KEY_URLS)
+        }));
+
+        if (keys.length < entries.length) {
+          console.warn(`[API Keys] Ignored ${entries.length - keys.length} invalid entries in ${this.path}`);
+        }
+
+        return new MemoryApiKeyStore(keys);
+      });
+    }
+    return this.keys;
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKey | null> {
+    return (await this.load()).findByHash(keyHash);
+  }
+
+  async findById(id: string): Promise<ApiKey | null> {
+    return (await this.load()).findById(id);
+  }
+
+  async list(): Promise<ApiKey[]> {
+    return (await this.load()).list();
+  }
+}
+
+let apiKeyStore: ApiKeyStore | null = null;
+
+/**
+ * Returns the configured key store (created on first use from API_KEYS_FILE)
+ */
+export function getApiKeyStore(): ApiKeyStore {
+  if (!apiKeyStore) {
+    apiKeyStore = process.env.API_KEYS_FILE
+      ? new JsonFileApiKeyStore(process.env.API_KEYS_FILE)
+      : new MemoryApiKeyStore();
+  }
+  return apiKeyStore;
+}
+
+/**
+ * Replaces the key store, e.g. with a shared adapter or a test double
+ */
+export function setApiKeyStore(store: ApiKeyStore): void {
+  apiKeyStore = store;
+}
+
+/**
+ * Hashes a secret key the way it is stored
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Resolves the API key sent with a request, if any
+ * Requests without an Authorization header are anonymous.
+ */
+export async function authenticateRequest(
+  req: Request,
+  store: ApiKeyStore = getApiKeyStore()
+): Promise<ApiKeyAuth> {
+  const authorization = req.headers.get('authorization');
+  if (!authorization) {
+    return { status: 'anonymous' };
+  }
+
+  const match = authorization.match(/^Bearer\s+(\S+)$/i);
+  if (!match) {
+    return { status: 'invalid', error: 'Invalid Authorization header, expected: Bearer <key>' };
+  }
+
+  const key = await store.findByHash(hashApiKey(match[1]));
+  if (!key || key.disabled) {
+    return { status: 'invalid', error: 'Invalid API key' };
+  }
+
+  return { status: 'valid', key };
+}
@@ -0,0 +1,185 @@
+/**
+ * Backlink notification orchestration
+ *
+ * Notifies each target page that its source links to it. The source is
+ * fetched first to confirm that it really links to the target; nothing is
+ * sent for a link that does not exist. The target is then fetched once and
+ * checked for every protocol: a Webmention endpoint is
+ * preferred, then a pingback server for sites (mostly WordPress) that only
+ * speak XML-RPC, then a Trackback URL for older blog platforms.
+ *
+ * Links are processed a few at a time, each against the end of the
+ * execution budget as its deadline. Every request gets BACKLINK_TIMEOUT_MS
+ * or whatever is left before the deadline, if less; a link is cut short
+ * (and reported as skipped) only once too little time is left to make
+ * another request. A Webmention that fails for a retryable reason is only
+ * retried while the deadline still covers the retries.
+ */
+
+import type { Backlink, BacklinkResult } from './types';
+import { MAX_FUNCTION_EXECUTION_MS, BACKLINK_TIMEOUT_MS, WEBMENTION_MAX_RETRIES } from './types';
+import { getRetriesWithin } from './retry';
+import { fetchTargetPage } from './linkDiscovery';
+import { verifySourceLink } from './linkVerification';
+import { findPingbackServer, sendPingback } from './pingback';
+import { findWebmentionEndpoint, sendWebmention } from './webmention';
+import { findTrackbackUrl, pingTrackback } from './trackback';
+
+// Links notified at the same time
+export const BACKLINK_CONCURRENCY = 3;
+
+// Shortest time worth giving a request; with less left, the link is not taken further
+const MIN_REQUEST_TIME_MS = 1000;
+
+
+/**
+ * Options controlling a backlink run
+ */
+export interface BacklinkRunOptions {
+  /** When execution started (for timeout calculation) */
+  startTime: number;
+  /** Execution budget in milliseconds (defaults to MAX_FUNCTION_EXECUTION_MS) */
+  maxExecutionMs?: number;
+  /** Invoked as soon as each link's result lands */
+  onResult?: (result: BacklinkResult) => void;
+}
+
+/**
+ * Time the next request of a link may take, or null when too little is left
+ */
+function requestTimeout(deadline: number): number | null {
+  const timeout = Math.min(BACKLINK_TIMEOUT_MS, deadline - Date.now());
+  return timeout >= MIN_REQUEST_TIME_MS ? timeout : null;
+}
+
+/**
+ * Verifies that the source links to the target, then notifies the target
+ * with whichever protocol it advertises
+ *
+ * @param deadline - Time by which the link must be done; every request is cut to fit it,
+ *   and Webmention retries are skipped when they would overrun it
+ * @returns The outcome, with the verification, never throwing
+ */
+export async function notifyBacklink(link: Backlink, deadline: number = Infinity): Promise<BacklinkResult> {
+  const startTime = Date.now();
+  const outOfTime = (message: string, verification?: BacklinkResult['verification']): BacklinkResult => ({
+    source: link.source,
+    target: link.target,
+    ...(verification && { verification }),
+    success: false,
+    outcome: 'error',
+    message,
+    responseTime: Date.now() - startTime
+  });
+
+  const verifyTimeout = requestTimeout(deadline);
+  if (verifyTimeout === null) {
+    return outOfTime('Function timeout approaching, link skipped');
+  }
+
+  const checked = await verifySourceLink(link.source, link.target, verifyTimeout);
+  const { verification } = checked;
+  if (!checked.verified) {
+    return {
+      source: link.source,
+      target: link.target,
+      verification,
+      success: false,
+      outcome: checked.outcome,
+      message: verification.message,
+      responseTime: Date.now() - startTime
+    };
+  }
+
+  const discoveryTimeout = requestTimeout(deadline);
+  if (discoveryTimeout === null) {
+    return outOfTime('Function timeout approaching, target not contacted', verification);
+  }
+
+  const fetched = await fetchTargetPage(link.target, discoveryTimeout);
+
+  if (!fetched.ok) {
+    return {
+      source: link.source,
+      target: link.target,
+      verification,
+      success: false,
+      outcome: fetched.outcome,
+      message: fetched.message,
+      responseTime: Date.now() - startTime
+    };
+  }
+
+  const webmentionEndpoint = findWebmentionEndpoint(fetched.page);
+  const pingbackServer = webmentionEndpoint === null ? findPingbackServer(fetched.page) : null;
+  const trackbackUrl = webmentionEndpoint === null && pingbackServer === null
+    ? findTrackbackUrl(fetched.page.html, link.target, fetched.page.url)
+    : null;
+
+  if (webmentionEndpoint === null && pingbackServer === null && trackbackUrl === null) {
+    return {
+      source: link.source,
+      target: link.target,
+      verification,
+      success: false,
+      outcome: 'not_supported',
+      message: 'The target advertises no Webmention endpoint, pingback server or Trackback URL',
+      responseTime: Date.now() - startTime
+    };
+  }
+
+  const timeout = requestTimeout(deadline);
+  if (timeout === null) {
+    return outOfTime('Function timeout approaching, target not notified', verification);
+  }
+
+  if (webmentionEndpoint !== null) {
+    const retries = getRetriesWithin(WEBMENTION_MAX_RETRIES, timeout, deadline);
+    const result = await sendWebmention(link, timeout, webmentionEndpoint, retries);
+    return { ...result, verification, responseTime: Date.now() - startTime };
+  }
+
+  if (pingbackServer !== null) {
+    const result = await sendPingback(link, timeout, pingbackServer);
+    return { ...result, verification, responseTime: Date.now() - startTime };
+  }
+
+  // Neither of the others was found, so the target advertises a Trackback URL
+  const ping = await pingTrackback(trackbackUrl as string, link, timeout);
+  return {
+    source: link.source,
+    target: link.target,
+    protocol: 'trackback',
+    verification,
+    success: ping.success,
+    outcome: ping.success ? 'registered' : ping.flerror ? 'fault' : 'error',
+    message: ping.message,
+    endpoint: trackbackUrl as string,
+    responseTime: Date.now() - startTime
+  };
+}
+
+/**
+ * Notifies the target of every link
+ *
+ * @returns One result per link, in submission order
+ */
+export async function sendBacklinks(links: Backlink[], options: BacklinkRunOptions): Promise<BacklinkResult[]> {
+  const { startTime, maxExecutionMs = MAX_FUNCTION_EXECUTION_MS, onResult } = options;
+  const deadline = startTime + maxExecutionMs;
+  const results: BacklinkResult[] = new Array(links.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < links.length) {
+      const index = next++;
+      const result = await notifyBacklink(links[index], deadline);
+
+      results[index] = result;
+      onResult?.(result);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(BACKLINK_CONCURRENCY, links.length) }, worker));
+  return results;
+}
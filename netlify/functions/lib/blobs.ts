@@ -0,0 +1,80 @@
+/**
+ * Netlify Blobs access for state shared between functions
+ *
+ * Every Netlify function runs in its own instances, so state one function
+ * writes and another reads (rate limit and usage counters, stored feeds,
+ * ping jobs) has to live outside them. On Netlify, Blobs stores are shared
+ * by every function of the site. Elsewhere (tests, plain Vite dev) there is
+ * no Blobs environment, and openBlobStore returns null so callers fall back
+ * to their per-instance stores.
+ */
+
+import { getStore } from '@netlify/blobs';
+
+// The part of a Blobs store the shared adapters use
+export interface JsonBlobStore {
+  getWithMetadata(key: string, options: { type: 'json' }): Promise<{ data: unknown; etag?: string } | null>;
+  setJSON(key: string, data: unknown, options?: { onlyIfMatch?: string; onlyIfNew?: boolean }): Promise<{ modified: boolean }>;
+  delete(key: string): Promise<void>;
+  list(): Promise<{ blobs: { key: string }[] }>;
+}
+
+// Conditional writes attempted before giving up on a contended blob
+const MAX_WRITE_ATTEMPTS = 5;
+
+/**
+ * Opens a site-wide Blobs store
+ *
+ * @returns The store, or null outside a Netlify Blobs environment
+ */
+export function openBlobStore(name: string): JsonBlobStore | null {
+  try {
+    return getStore({ name, consistency: 'strong' });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'MissingBlobsEnvironmentError') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Reads a JSON blob, applies a change and writes it back
+ *
+ * The write only succeeds if nobody wrote the blob in between; otherwise
+ * the change is applied again to the newer value.
+ *
+ * @param update - Returns the new value from the current one (null if there
+ *   is none), or null to leave the blob as it is
+ * @returns The value written, or null if nothing was written
+ */
+export async function updateJsonBlob<T>(
+  store: JsonBlobStore,
+  key: string,
+  update: (current: T | null) => T
+): Promise<T>;
+export async function updateJsonBlob<T>(
+  store: JsonBlobStore,
+  key: string,
+  update: (current: T | null) => T | null
+): Promise<T | null>;
+export async function updateJsonBlob<T>(
+  store: JsonBlobStore,
+  key: string,
+  update: (current: T | null) => T | null
+): Promise<T | null> {
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const current = await store.getWithMetadata(key, { type: 'json' });
+    const next = update(current ? current.data as T : null);
+    if (next === null) return null;
+
+    const { modified } = await store.setJSON(
+      key,
+      next,
+      current?.etag ? { onlyIfMatch: current.etag } : { onlyIfNew: true }
+    );
+    if (modified) return next;
+  }
+
+  throw new Error(`Blob ${key} kept changing, update abandoned`);
+}
@@ -0,0 +1,285 @@
+/**
+ * Discovery of a site's own feeds and WebSub hubs
+ *
+ * The generated /api/feed/:id only lists the submitted URLs. Sites that publish
+ * through WebSub already have real feeds with subscribers, so each
+ * submitted page is fetched and searched for:
+ * - feeds: <link rel="alternate" type="application/rss+xml|atom+xml">
+ * - hubs: rel="hub" in the page's Link header or <link> elements
+ * Each feed is then fetched for its own hubs (Link header, Atom <link> or
+ * RSS <atom:link>) and its rel="self" topic URL, and hub.mode=publish is
+ * sent for that topic to every hub the site declares, via notifyHub.
+ * The page's feeds are also sent with extended XML-RPC pings, so the page
+ * fetch can be shared (see findPageFeeds).
+ *
+ * Pages, feeds and hubs are all user-supplied, so every request goes
+ * through the SSRF guard.
+ */
+
+import type { PingClassification, SiteHubService, WebSubHub, WebSubResult } from './types';
+import { SITE_HUB_SERVICE } from './types';
+import { fetchPublicUrl, readLimitedText } from './safeFetch';
+import { findLinkHeaders, findRelLink, findRelLinks, MAX_DISCOVERY_BYTES } from './linkDiscovery';
+import { notifyHub } from './websub';
+import { classifyResponse, summarizeClassifications } from './outcomes';
+import type { PingProtocol } from './protocol';
+import { validateServiceConfig } from './protocol';
+
+// Feed types advertised with rel="alternate"
+export const FEED_TYPES = ['application/rss+xml', 'application/atom+xml'];
+
+// Most of a feed read; hub and self links come before the entries
+const MAX_FEED_BYTES = 64 * 1024;
+
+const USER_AGENT = 'OnwardSEO-Pinger/2.0';
+
+// A feed of the submitted site and the hubs it is published to
+export interface SiteFeed {
+  topic: string;   // The feed's rel="self" URL, or the URL it was fetched from
+  hubs: string[];
+}
+
+// The feeds and hubs a page advertises
+export type PageFeeds =
+  | { ok: true; feedUrls: string[]; hubs: string[] }
+  | DocumentFailure;
+
+export type SiteFeedDiscovery =
+  | { ok: true; feeds: SiteFeed[] }
+  | DocumentFailure;
+
+// A page or feed that could not be read
+interface DocumentFailure {
+  ok: false;
+  reason: string;
+  statusCode: number;  // HTTP status, 0 when no response arrived
+}
+
+// Outcome of publishing one page's feeds, classified by its best hub result
+export interface SiteHubResult extends PingClassification {
+  success: boolean;
+  message: string;
+  feeds: SiteFeed[];
+  results: WebSubResult[];  // One per feed × hub
+  responseTime: number;
+}
+
+type FetchedDocument =
+  | { ok: true; url: string; headers: Headers; body: string }
+  | DocumentFailure;
+
+/**
+ * Fetches a page or feed through the SSRF guard, up to maxBytes
+ */
+async function fetchDocument(url: string, accept: string, maxBytes: number, timeout: number): Promise<FetchedDocument> {
+  const fetched = await fetchPublicUrl(url, {
+    method: 'GET',
+    headers: { 'Accept': accept, 'User-Agent': USER_AGENT }
+  }, { timeout });
+
+  if (!fetched.ok) {
+    return { ok: false, reason: fetched.reason, statusCode: 0 };
+  }
+
+  const { status } = fetched.response;
+  if (!fetched.response.ok) {
+    await fetched.response.body?.cancel();
+    return { ok: false, reason: `${url} returned HTTP ${status}`, statusCode: status };
+  }
+
+  try {
+    const body = await readLimitedText(fetched.response, maxBytes);
+    return { ok: true, url: fetched.url, headers: fetched.response.headers, body };
+  } catch {
+    return { ok: false, reason: `Reading ${url} timed out after ${timeout}ms`, statusCode: 0 };
+  }
+}
+
+/**
+ * Fetches a page for the feeds and hubs it advertises, in document order
+ */
+export async function findPageFeeds(
+  pageUrl: string,
+  service: SiteHubService = SITE_HUB_SERVICE
+): Promise<PageFeeds> {
+  const page = await fetchDocument(pageUrl, 'text/html,application/xhtml+xml', MAX_DISCOVERY_BYTES, service.timeout);
+  if (!page.ok) {
+    return page;
+  }
+
+  return {
+    ok: true,
+    feedUrls: [...new Set(findRelLinks(page.body, 'alternate', page.url, ['link'], FEED_TYPES))],
+    hubs: [
+      ...findLinkHeaders(page.headers.get('link'), 'hub', page.url),
+      ...findRelLinks(page.body, 'hub', page.url)
+    ]
+  };
+}
+
+/**
+ * Finds the feeds a page advertises and the hubs each is published to
+ *
+ * Hubs declared by a feed come first, followed by those declared by the page.
+ *
+ * @param pageFeeds - The page's feeds, when it has already been fetched
+ */
+export async function discoverSiteFeeds(
+  pageUrl: string,
+  service: SiteHubService = SITE_HUB_SERVICE,
+  pageFeeds: Promise<PageFeeds> = findPageFeeds(pageUrl, service)
+): Promise<SiteFeedDiscovery> {
+  const page = await pageFeeds;
+  if (!page.ok) {
+    return page;
+  }
+
+  const pageHubs = page.hubs;
+  const feedUrls = page.feedUrls.slice(0, service.maxFeeds);
+
+  const feeds = await Promise.all(feedUrls.map(async (feedUrl): Promise<SiteFeed | null> => {
+    const feed = await fetchDocument(
+      feedUrl,
+      'application/atom+xml, application/rss+xml, application/xml;q=0.9',
+      MAX_FEED_BYTES,
+      service.timeout
+    );
+    // A feed the hubs could not fetch either is not worth publishing
+    if (!feed.ok) return null;
+
+    const topic = findLinkHeaders(feed.headers.get('link'), 'self', feed.url)[0]
+      ?? findRelLink(feed.body, 'self', feed.url, ['link', 'atom:link'])
+      ?? feed.url;
+
+    const hubs = [...new Set([
+      ...findLinkHeaders(feed.headers.get('link'), 'hub', feed.url),
+      ...findRelLinks(feed.body, 'hub', feed.url, ['link', 'atom:link']),
+      ...pageHubs
+    ])].slice(0, service.maxHubs);
+
+    return { topic, hubs };
+  }));
+
+  return { ok: true, feeds: feeds.filter((feed): feed is SiteFeed => feed !== null) };
+}
+
+/**
+ * Describes a hub declared by a site, so notifyHub treats it as untrusted
+ */
+function toDiscoveredHub(url: string, service: SiteHubService): WebSubHub {
+  return {
+    name: new URL(url).host,
+    url,
+    timeout: service.timeout,
+    maxRetries: 0,
+    discovered: true,
+    category: service.category,
+    description: 'Hub declared by the site',
+    reachesServices: []
+  };
+}
+
+/**
+ * Publishes a page's own feeds to the hubs the site declares
+ *
+ * @param pageUrl - The submitted page
+ * @param service - Limits and timeout (defaults to SITE_HUB_SERVICE)
+ * @param pageFeeds - The page's feeds, when it has already been fetched
+ * @returns A summary with one WebSub result per feed × hub, never throwing
+ */
+export async function publishSiteFeeds(
+  pageUrl: string,
+  service: SiteHubService = SITE_HUB_SERVICE,
+  pageFeeds?: Promise<PageFeeds>
+): Promise<SiteHubResult> {
+  const startTime = Date.now();
+  const notSupported: PingClassification = { outcome: 'rejected', reason: 'not_supported' };
+  const result = (
+    success: boolean,
+    message: string,
+    classification: PingClassification,
+    feeds: SiteFeed[] = [],
+    results: WebSubResult[] = []
+  ): SiteHubResult => ({
+    success,
+    message,
+    ...classification,
+    feeds,
+    results,
+    responseTime: Date.now() - startTime
+  });
+
+  try {
+    const discovery = await discoverSiteFeeds(pageUrl, service, pageFeeds);
+    if (!discovery.ok) {
+      return result(false, discovery.reason, classifyResponse({ statusCode: discovery.statusCode, message: discovery.reason }));
+    }
+
+    const { feeds } = discovery;
+    if (feeds.length === 0) {
+      return result(false, 'No RSS or Atom feed found on the page', notSupported);
+    }
+
+    const published = feeds.filter(feed => feed.hubs.length > 0);
+    if (published.length === 0) {
+      return result(false, "The site's feeds declare no WebSub hub", notSupported, feeds);
+    }
+
+    const results = (await Promise.all(
+      published.map(feed => notifyHub(feed.topic, feed.hubs.map(hub => toDiscoveredHub(hub, service))))
+    )).flat();
+
+    const classification = summarizeClassifications(results.map(hubResult => classifyResponse(hubResult))) ?? notSupported;
+    const failed = results.filter(hubResult => !hubResult.success);
+    const feedCount = `${published.length} feed${published.length === 1 ? '' : 's'}`;
+
+    if (failed.length === 0) {
+      return result(
+        true,
+        `Published ${feedCount} to ${results.length} hub${results.length === 1 ? '' : 's'}`,
+        classification,
+        feeds,
+        results
+      );
+    }
+
+    const firstFailure = `${failed[0].hubName}: ${failed[0].message}`;
+    return failed.length === results.length
+      ? result(false, `No hub accepted the update (${firstFailure})`, classification, feeds, results)
+      : result(
+        true,
+        `Published ${feedCount} to ${results.length - failed.length} of ${results.length} hubs (${firstFailure})`,
+        classification,
+        feeds,
+        results
+      );
+  } catch (error) {
+    // Log detailed error internally for debugging (not exposed to client)
+    console.error('[Site hubs] Unexpected error:', error instanceof Error ? error.message : error);
+    return result(false, 'Feed discovery failed', { outcome: 'unreachable', reason: 'network_error' });
+  }
+}
+
+/**
+ * Site hubs as a ping protocol: the page's own feeds go to the hubs they declare
+ */
+export const siteHubProtocol: PingProtocol<SiteHubService, SiteHubResult> = {
+  method: 'websub',
+
+  validateConfig(service) {
+    const problems = validateServiceConfig(service);
+    if (!Number.isInteger(service.maxFeeds) || service.maxFeeds < 1) problems.push('maxFeeds must be at least 1');
+    if (!Number.isInteger(service.maxHubs) || service.maxHubs < 1) problems.push('maxHubs must be at least 1');
+    return problems;
+  },
+
+  send: (service, context) => publishSiteFeeds(context.url, service, context.getPageFeeds()),
+
+  classify: result => ({
+    success: result.success,
+    message: result.message,
+    outcome: result.outcome,
+    reason: result.reason,
+    responseTime: result.responseTime
+  })
+};
@@ -0,0 +1,412 @@
+/**
+ * Stored submission feeds for WebSub
+ *
+ * Every ping request records its URLs in a feed that WebSub hubs fetch from
+ * /api/feed/:id. A feed belongs to one submitter (API key, or anonymous
+ * callers) and site (the first URL's host), so repeated submissions land
+ * in the same feed under the same short ID. Entries keep their ID and
+ * original submission time when a URL is submitted again, and only a
+ * bounded window of recent entries is kept. Feed state lives in a
+ * pluggable FeedStore:
+ * - BlobFeedStore: default on Netlify, shared by every function through Netlify Blobs
+ * - FileFeedStore: JSON files on disk (FEED_STORE=file, FEED_STORE_DIR=<dir>)
+ * - MemoryFeedStore: without a Blobs environment, for local development and tests
+ * Hubs may fetch the feed from another function instance, so without a
+ * shared store nothing is stored: the feed URL carries the URLs instead
+ * (/api/feed?urls=..., see publishSubmission). Those URLs are signed with
+ * FEED_SIGNING_SECRET, so the API key they name only lifts the URL limit
+ * for feeds this service built; without the variable each instance signs
+ * with its own random secret.
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { getEnabledHubs } from './websub';
+import type { JsonBlobStore } from './blobs';
+import { openBlobStore, updateJsonBlob } from './blobs';
+
+// A submitted URL as listed in its feed
+export interface FeedEntry {
+  url: string;
+  submittedAt: string;   // First submission, the entry's <published>
+  updatedAt: string;     // Latest submission, the entry's <updated>
+}
+
+// Persisted feed state
+export interface SubmissionFeed {
+  id: string;
+  entries: FeedEntry[];  // Most recently submitted first
+  updatedAt: string;
+}
+
+// Storage adapter for feeds
+export interface FeedStore {
+  readonly shared: boolean;  // Whether every function instance sees the same feeds
+  get(id: string): Promise<SubmissionFeed | null>;
+  // Replaces a feed with a change of its current state (null if there is none)
+  update(id: string, change: (feed: SubmissionFeed | null) => SubmissionFeed): Promise<SubmissionFeed>;
+}
+
+// Feed IDs are 16 hex characters; anything else is rejected before touching the store
+const FEED_ID_PATTERN = /^[0-9a-f]{16}$/;
+
+// Entries last submitted longer ago than this are dropped
+const FEED_HISTORY_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Most entries a feed lists
+const MAX_FEED_ENTRIES = 100;
+
+// Upper bound on feeds kept by the in-memory adapter (oldest are evicted first)
+const MAX_MEMORY_FEEDS = 500;
+
+/**
+ * In-memory feed store
+ * State only lives as long as the function instance
+ */
+export class MemoryFeedStore implements FeedStore {
+  readonly shared = false;
+  private feeds = new Map<string, SubmissionFeed>();
+
+  async get(id: string): Promise<SubmissionFeed | null> {
+    const feed = this.feeds.get(id);
+    return feed ? structuredClone(feed) : null;
+  }
+
+  private async set(feed: SubmissionFeed): Promise<void> {
+    // Re-insert so Map order reflects recency, then evict the oldest
+    this.feeds.delete(feed.id);
+    this.feeds.set(feed.id, structuredClone(feed));
+
+    while (this.feeds.size > MAX_MEMORY_FEEDS) {
+      const oldestId = this.feeds.keys().next().value;
+      if (oldestId === undefined) break;
+      this.feeds.delete(oldestId);
+    }
+  }
+
+  async update(id: string, change: (feed: SubmissionFeed | null) => SubmissionFeed): Promise<SubmissionFeed> {
+    const feed = change(await this.get(id));
+    await this.set(feed);
+    return feed;
+  }
+}
+
+/**
+ * File-based feed store
+ * Writes one JSON file per feed into the given directory, which every
+ * instance reading the feeds must share
+ */
+export class FileFeedStore implements FeedStore {
+  readonly shared = true;
+
+  constructor(private readonly directory: string) {}
+
+  private pathFor(id: string): string {
+    return join(this.directory, `${id}.json`);
+  }
+
+  async get(id: string): Promise<SubmissionFeed | null> {
+    if (!isValidFeedId(id)) return null;
+
+    try {
+      return JSON.parse(await readFile(this.pathFor(id), 'utf8')) as SubmissionFeed;
+    } catch {
+      return null;
+    }
+  }
+
+  private async set(feed: SubmissionFeed): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(this.pathFor(feed.id), JSON.stringify(feed), 'utf8');
+  }
+
+  async update(id: string, change: (feed: SubmissionFeed | null) => SubmissionFeed): Promise<SubmissionFeed> {
+    const feed = change(await this.get(id));
+    await this.set(feed);
+    return feed;
+  }
+}
+
+/**
+ * Netlify Blobs feed store
+ * One JSON blob per feed, keyed by feed ID; updates are conditional writes,
+ * so concurrent submissions to the same feed never drop each other's entries
+ */
+export class BlobFeedStore implements FeedStore {
+  readonly shared = true;
+
+  constructor(private readonly store: JsonBlobStore) {}
+
+  async get(id: string): Promise<SubmissionFeed | null> {
+    if (!isValidFeedId(id)) return null;
+
+    const blob = await this.store.getWithMetadata(id, { type: 'json' });
+    return blob ? blob.data as SubmissionFeed : null;
+  }
+
+  async update(id: string, change: (feed: SubmissionFeed | null) => SubmissionFeed): Promise<SubmissionFeed> {
+    return updateJsonBlob<SubmissionFeed>(this.store, id, change);
+  }
+}
+
+let feedStore: FeedStore | null = null;
+
+/**
+ * Returns the configured feed store (created on first use: FEED_STORE=file,
+ * else Netlify Blobs where available, else memory)
+ */
+export function getFeedStore(): FeedStore {
+  if (!feedStore) {
+    if (process.env.FEED_STORE === 'file') {
+      feedStore = new FileFeedStore(process.env.FEED_STORE_DIR || join(tmpdir(), 'onwardseo-feeds'));
+    } else {
+      const blobs = openBlobStore('feeds');
+      feedStore = blobs ? new BlobFeedStore(blobs) : new MemoryFeedStore();
+    }
+  }
+  return feedStore;
+}
+
+/**
+ * Replaces the feed store, e.g. with a shared adapter or a test double
+ */
+export function setFeedStore(store: FeedStore): void {
+  feedStore = store;
+}
+
+/**
+ * Builds the URL of a stored feed, advertised to WebSub hubs
+ * The feed endpoint is on the same origin as the API.
+ */
+export function buildFeedUrl(origin: string, feedId: string): string {
+  return `${origin}/api/feed/${feedId}`;
+}
+
+/**
+ * Builds the URL of a feed that lists the URLs it carries, for deployments
+ * without a shared feed store
+ * Hubs fetch the feed anonymously, so feeds built from an API key request
+ * carry the key ID and a signature, which lifts the URL limit to the key's.
+ */
+export function buildStatelessFeedUrl(origin: string, urls: string[], keyId?: string): string {
+  const urlsParam = urls.join(',');
+  const feedUrl = `${origin}/api/feed?urls=${encodeURIComponent(urlsParam)}`;
+  return keyId
+    ? `${feedUrl}&key=${encodeURIComponent(keyId)}&sig=${signStatelessFeed(urlsParam, keyId)}`
+    : feedUrl;
+}
+
+let generatedSecret: Buffer | null = null;
+
+/**
+ * Returns the secret stateless feed URLs are signed with
+ * FEED_SIGNING_SECRET keeps signatures valid on every instance; without it
+ * a random secret is generated per instance.
+ */
+function getSigningSecret(): string | Buffer {
+  const configuredSecret = process.env.FEED_SIGNING_SECRET?.trim();
+  if (configuredSecret) return configuredSecret;
+
+  if (!generatedSecret) {
+    generatedSecret = randomBytes(32);
+  }
+  return generatedSecret;
+}
+
+/**
+ * Signs the URLs and API key ID of a stateless feed URL
+ *
+ * @param urlsParam - The comma-separated URLs, as carried by the feed URL
+ * @param keyId - The submitting API key's ID
+ */
+export function signStatelessFeed(urlsParam: string, keyId: string): string {
+  return createHmac('sha256', getSigningSecret()).update(`${keyId}\n${urlsParam}`).digest('base64url');
+}
+
+/**
+ * Checks the signature of a stateless feed URL
+ */
+export function verifyStatelessFeed(urlsParam: string, keyId: string, signature: string): boolean {
+  const expected = Buffer.from(signStatelessFeed(urlsParam, keyId));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Checks that a feed ID has the expected format
+ */
+export function isValidFeedId(id: string): boolean {
+  return FEED_ID_PATTERN.test(id);
+}
+
+/**
+ * Hashes a value into a UUID-shaped string for Atom IDs
+ */
+function toUuid(value: string): string {
+  const hex = createHash('sha256').update(value).digest('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+}
+
+/**
+ * Returns the ID of the feed a submission belongs to
+ *
+ * @param urls - Validated URLs; the first one's host names the site
+ * @param keyId - The submitting API key, if any
+ */
+export function getFeedId(urls: string[], keyId?: string): string {
+  const site = new URL(urls[0]).host;
+  return createHash('sha256').update(`${keyId ?? ''}\n${site}`).digest('hex').slice(0, 16);
+}
+
+/**
+ * Returns a URL's Atom entry ID, the same every time the feed is fetched
+ */
+export function getEntryId(feedId: string, url: string): string {
+  return `urn:uuid:${toUuid(`${feedId}\n${url}`)}`;
+}
+
+/**
+ * Records submitted URLs in their feed
+ *
+ * Resubmitted URLs move to the top with a new update time but keep their
+ * first submission time. Entries outside the history window are dropped.
+ *
+ * @param urls - Validated URLs, in submission order
+ * @param keyId - The submitting API key, if any
+ * @returns The saved feed
+ */
+export async function recordSubmission(
+  store: FeedStore,
+  urls: string[],
+  keyId?: string,
+  now: Date = new Date()
+): Promise<SubmissionFeed> {
+  const id = getFeedId(urls, keyId);
+  const updatedAt = now.toISOString();
+  const oldest = now.getTime() - FEED_HISTORY_MS;
+
+  return store.update(id, existing => {
+    const previous = new Map(existing?.entries.map(entry => [entry.url, entry]));
+    const submitted = [...new Set(urls)].map(url => ({
+      url,
+      submittedAt: previous.get(url)?.submittedAt ?? updatedAt,
+      updatedAt
+    }));
+    const earlier = (existing?.entries ?? []).filter(entry => !urls.includes(entry.url));
+
+    return {
+      id,
+      entries: [...submitted, ...earlier]
+        .filter(entry => Date.parse(entry.updatedAt) >= oldest)
+        .slice(0, MAX_FEED_ENTRIES),
+      updatedAt
+    };
+  });
+}
+
+/**
+ * Makes submitted URLs available to WebSub hubs
+ *
+ * With a shared store the URLs are recorded in their feed. Otherwise a hub
+ * could reach an instance that never saw them, so nothing is stored and
+ * the feed URL carries the URLs.
+ *
+ * @param origin - The origin the feed endpoint is served from
+ * @param urls - Validated URLs, in submission order
+ * @param keyId - The submitting API key, if any
+ * @returns The feed URL to advertise
+ */
+export async function publishSubmission(
+  origin: string,
+  urls: string[],
+  keyId?: string,
+  store: FeedStore = getFeedStore()
+): Promise<string> {
+  if (!store.shared) {
+    return buildStatelessFeedUrl(origin, urls, keyId);
+  }
+
+  const feed = await recordSubmission(store, urls, keyId);
+  return buildFeedUrl(origin, feed.id);
+}
+
+/**
+ * Lists URLs as a feed that is never stored, e.g. for a stateless feed URL
+ * Entry IDs depend only on the submitter, site and URL, like stored entries.
+ */
+export function createTransientFeed(urls: string[], keyId?: string, now: Date = new Date()): SubmissionFeed {
+  const updatedAt = now.toISOString();
+  return {
+    id: getFeedId(urls, keyId),
+    entries: [...new Set(urls)].map(url => ({ url, submittedAt: updatedAt, updatedAt })),
+    updatedAt
+  };
+}
+
+/**
+ * Escapes XML special characters
+ */
+function escapeXml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Extracts domain from URL for display purposes
+ */
+function extractDomain(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return parsed.hostname;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Renders a stored feed as Atom, advertising every enabled WebSub hub
+ *
+ * @param feed - The stored feed
+ * @param selfUrl - The URL the feed is served at
+ */
+export function renderAtomFeed(feed: SubmissionFeed, selfUrl: string): string {
+  const entries = feed.entries.map(entry => `
+  <entry>
+    <title>URL Submission: ${escapeXml(extractDomain(entry.url))}</title>
+    <link href="${escapeXml(entry.url)}" rel="alternate" type="text/html"/>
+    <id>${getEntryId(feed.id, entry.url)}</id>
+    <published>${entry.submittedAt}</published>
+    <updated>${entry.updatedAt}</updated>
+    <summary>URL submitted for indexing: ${escapeXml(entry.url)}</summary>
+    <author>
+      <name>OnwardSEO Pinger</name>
+    </author>
+  </entry>`).join('\n');
+
+  // Subscribers may use any of the hubs, so every enabled hub is advertised
+  const hubLinks = getEnabledHubs()
+    .map(hub => `  <link href="${escapeXml(hub.url)}" rel="hub"/>`)
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>OnwardSEO URL Submissions</title>
+  <subtitle>URLs submitted for search engine indexing</subtitle>
+  <link href="${escapeXml(selfUrl)}" rel="self" type="application/atom+xml"/>
+${hubLinks}
+  <updated>${feed.updatedAt}</updated>
+  <id>urn:uuid:${toUuid(feed.id)}</id>
+  <author>
+    <name>OnwardSEO Pinger</name>
+    <uri>https://onwardseo.com/</uri>
+  </author>
+  <generator uri="https://onwardseo.com/" version="2.0">OnwardSEO Pinger</generator>
+${entries}
+</feed>`;
+}
@@ -0,0 +1,43 @@
+/**
+ * HTTP helpers shared by the API endpoints
+ */
+
+/**
+ * Builds CORS headers for frontend access
+ *
+ * In development (localhost), allow all origins.
+ * In production, restrict to specific origin for security.
+ * App is hosted at tools.onwardseo.com (embedded via iframe on onwardseo.com)
+ *
+ * @param req - The incoming request
+ * @param methods - Allowed methods, e.g. 'POST, OPTIONS'
+ */
+export function getCorsHeaders(req: Request, methods: string): Record<string, string> {
+  const requestOrigin = req.headers.get('origin') || '';
+  const isLocalhost = requestOrigin.includes('localhost') || requestOrigin.includes('127.0.0.1');
+  const allowedOrigin = isLocalhost
+    ? requestOrigin
+    : (process.env.ALLOWED_ORIGIN || 'https://tools.onwardseo.com');
+
+  return {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Methods': methods,
+    'Access-Control-Allow-Headers': 'Content-Type, Accept, Authorization',
+    // Lets the frontend read rate limit state on cross-origin embeds
+    'Access-Control-Expose-Headers': 'Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset'
+  };
+}
+
+/**
+ * Builds a JSON response with the given status and extra headers
+ */
+export function jsonResponse(
+  data: unknown,
+  status: number,
+  headers: Record<string, string> = {}
+): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers }
+  });
+}
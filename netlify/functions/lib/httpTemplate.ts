@@ -0,0 +1,181 @@
+/**
+ * Declarative HTTP ping client
+ *
+ * Many legacy ping and sitemap endpoints take a plain GET with the page in
+ * the query string. Services in HTTP_TEMPLATE_SERVICES describe such an
+ * endpoint with a URL template, a method and a success rule, so adding one
+ * needs no protocol client of its own.
+ */
+
+import type { HttpTemplateResult, HttpTemplateService } from './types';
+import { DEFAULT_RETRY_COUNT } from './types';
+import { withRetries } from './retry';
+import { readLimitedText } from './safeFetch';
+import type { PingProtocol } from './protocol';
+import { checkEndpointUrl, validateServiceConfig } from './protocol';
+import { classifyResponse } from './outcomes';
+
+// Values substituted into URL templates
+export interface HttpTemplateValues {
+  url: string;
+  name: string;
+  feed?: string;
+}
+
+// Most of a response body checked against a success rule's bodyMatch
+const MAX_BODY_BYTES = 16 * 1024;
+
+const PLACEHOLDER_PATTERN = /\{(url|name|feed)\}/g;
+
+/**
+ * Expands a URL template, URL-encoding every substituted value
+ * Unknown placeholders are left as they are.
+ */
+export function expandUrlTemplate(template: string, values: HttpTemplateValues): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_, key: keyof HttpTemplateValues) => encodeURIComponent(values[key] ?? ''));
+}
+
+/**
+ * Checks whether a template refers to the site's feed
+ */
+export function usesFeed(template: string): boolean {
+  return template.includes('{feed}');
+}
+
+/**
+ * Sends a single templated ping attempt (no retry)
+ */
+async function sendAttempt(service: HttpTemplateService, endpoint: string): Promise<HttpTemplateResult> {
+  const startTime = Date.now();
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), service.timeout);
+
+  try {
+    const response = await fetch(endpoint, {
+      method: service.method,
+      headers: { 'User-Agent': 'OnwardSEO-Pinger/2.0' },
+      signal: controller.signal
+    });
+
+    const statusAccepted = service.success?.statuses
+      ? service.success.statuses.includes(response.status)
+      : response.status >= 200 && response.status < 300;
+
+    if (!statusAccepted) {
+      return {
+        success: false,
+        statusCode: response.status,
+        message: `HTTP ${response.status}: ${response.statusText}`,
+        endpoint,
+        responseTime: Date.now() - startTime
+      };
+    }
+
+    const bodyMatch = service.success?.bodyMatch;
+    if (bodyMatch && !new RegExp(bodyMatch, 'i').test(await readLimitedText(response, MAX_BODY_BYTES))) {
+      return {
+        success: false,
+        statusCode: response.status,
+        message: 'Response did not match the expected body',
+        endpoint,
+        responseTime: Date.now() - startTime,
+        bodyMismatch: true
+      };
+    }
+
+    return {
+      success: true,
+      statusCode: response.status,
+      message: 'Ping accepted',
+      endpoint,
+      responseTime: Date.now() - startTime
+    };
+  } catch (error) {
+    const responseTime = Date.now() - startTime;
+
+    if (error instanceof Error && error.name === 'AbortError') {
+      return {
+        success: false,
+        statusCode: 0,
+        message: `Request timed out after ${service.timeout}ms`,
+        endpoint,
+        responseTime
+      };
+    }
+
+    return {
+      success: false,
+      statusCode: 0,
+      message: `Network error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      endpoint,
+      responseTime
+    };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Pings a templated HTTP service with retry logic
+ *
+ * @param service - The service, with its template, method and success rule
+ * @param values - The page, site name and (optionally) feed to substitute
+ * @returns Promise resolving to ping result
+ */
+export async function sendHttpTemplatePing(
+  service: HttpTemplateService,
+  values: HttpTemplateValues
+): Promise<HttpTemplateResult> {
+  const endpoint = expandUrlTemplate(service.urlTemplate, values);
+
+  return withRetries(
+    () => sendAttempt(service, endpoint),
+    service.maxRetries ?? DEFAULT_RETRY_COUNT,
+    `[HTTP template] ${service.name}`
+  );
+}
+
+/**
+ * Templated HTTP requests as a ping protocol
+ * The site's feed is only looked up for templates that use {feed}.
+ */
+export const httpTemplateProtocol: PingProtocol<HttpTemplateService, HttpTemplateResult> = {
+  method: 'http-template',
+
+  validateConfig(service) {
+    const problems = validateServiceConfig(service);
+    const urlProblem = checkEndpointUrl('urlTemplate', expandUrlTemplate(service.urlTemplate, { url: '', name: '' }));
+    if (urlProblem) problems.push(urlProblem);
+    if (service.method !== 'GET' && service.method !== 'POST') {
+      problems.push('method must be GET or POST');
+    }
+
+    const statuses = service.success?.statuses;
+    if (statuses && (statuses.length === 0 || !statuses.every(status => Number.isInteger(status) && status >= 100 && status <= 599))) {
+      problems.push('success.statuses must list HTTP status codes');
+    }
+
+    const bodyMatch = service.success?.bodyMatch;
+    if (bodyMatch !== undefined) {
+      try {
+        new RegExp(bodyMatch, 'i');
+      } catch {
+        problems.push('success.bodyMatch must be a valid regular expression');
+      }
+    }
+    return problems;
+  },
+
+  async send(service, context) {
+    const feed = usesFeed(service.urlTemplate) ? await context.getSiteFeedUrl() : undefined;
+    return sendHttpTemplatePing(service, { url: context.url, name: context.siteName, feed });
+  },
+
+  // A body that does not match is the service saying no
+  classify: result => ({
+    success: result.success,
+    message: result.message,
+    ...classifyResponse({ ...result, flerror: result.bodyMismatch }),
+    responseTime: result.responseTime
+  })
+};
@@ -0,0 +1,385 @@
+/**
+ * IndexNow client for URL change notifications
+ *
+ * IndexNow tells participating search engines (Bing, Yandex, Seznam, Naver,
+ * Yep) that URLs have changed. Engines share submissions, so one request to
+ * api.indexnow.org reaches all of them. A single URL is submitted with GET;
+ * several URLs on the same host are sent together as a JSON urlList, which
+ * is how the ping protocol (indexNowProtocol) submits the URLs of a run.
+ *
+ * Ownership is proven with a key: a text file containing the key must be
+ * hosted on the same host as the submitted URLs, by default at
+ * https://<host>/<key>.txt. Without a fixed key location, that file is
+ * fetched and checked before anything is submitted for the host, so hosts
+ * that do not serve the key are never submitted under it.
+ * - INDEXNOW_KEY sets the key; otherwise one is generated from the Netlify
+ *   site ID, so it stays the same across deploys and function instances
+ * - INDEXNOW_KEY_LOCATION pins the key file to one URL; only URLs on that
+ *   host, under the file's directory, are submitted
+ * - GET /api/indexnow/key shows the key; /<key>.txt serves this site's file
+ *
+ * @see https://www.indexnow.org/documentation
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import type { IndexNowResult, IndexNowService, PingClassification } from './types';
+import { INDEXNOW_SERVICE, DEFAULT_RETRY_COUNT } from './types';
+import { getRetriesWithin, withRetries } from './retry';
+import { fetchPublicUrl, readLimitedText } from './safeFetch';
+import type { PingProtocol } from './protocol';
+import { checkEndpointUrl, validateServiceConfig } from './protocol';
+import { classifyResponse } from './outcomes';
+
+// The key used for submissions and where its file is hosted
+export interface IndexNowConfig {
+  key: string;
+  keyLocation?: string; // Fixed key file URL (default: https://<host>/<key>.txt)
+}
+
+// URLs submitted together, all covered by one key file
+export interface IndexNowSubmission {
+  host: string;
+  keyLocation: string;
+  urls: string[];
+}
+
+// Outcome of submitting one URL, shared by every URL of its submission
+export interface IndexNowUrlResult extends PingClassification {
+  success: boolean;
+  message: string;
+  responseTime: number;
+}
+
+// Keys are 8-128 characters of a-z, A-Z, 0-9 and '-'
+const KEY_PATTERN = /^[a-zA-Z0-9-]{8,128}$/;
+
+// Response codes documented by IndexNow
+const STATUS_MESSAGES: Record<number, string> = {
+  200: 'URLs submitted successfully',
+  202: 'URLs received, key validation pending',
+  400: 'Bad request: invalid format',
+  422: 'URLs do not belong to the host or do not match the key',
+  429: 'Too many requests (potential spam)'
+};
+
+// Key file fetch timeout, and the most of the file that is read
+const KEY_FILE_TIMEOUT_MS = 5000;
+const MAX_KEY_FILE_BYTES = 1024;
+
+/**
+ * Checks that a key has the format IndexNow accepts
+ */
+export function isValidIndexNowKey(key: string): boolean {
+  return KEY_PATTERN.test(key);
+}
+
+/**
+ * Generates an IndexNow key (32 hex characters)
+ * The same seed always gives the same key; without one the key is random.
+ */
+export function generateIndexNowKey(seed?: string): string {
+  return seed
+    ? createHash('sha256').update(`indexnow:${seed}`).digest('hex').slice(0, 32)
+    : randomBytes(16).toString('hex');
+}
+
+let generatedKey: string | null = null;
+
+/**
+ * Returns the configured IndexNow key, generating one when INDEXNOW_KEY is unset
+ */
+export function getIndexNowConfig(): IndexNowConfig {
+  const configuredKey = process.env.INDEXNOW_KEY?.trim();
+
+  if (configuredKey && isValidIndexNowKey(configuredKey)) {
+    return { key: configuredKey, keyLocation: process.env.INDEXNOW_KEY_LOCATION?.trim() || undefined };
+  }
+
+  if (configuredKey) {
+    console.warn('[IndexNow] INDEXNOW_KEY is not a valid key, using a generated key');
+  }
+
+  if (!generatedKey) {
+    // SITE_ID and URL are set by Netlify; local runs get a random key per instance
+    generatedKey = generateIndexNowKey(process.env.SITE_ID || process.env.URL);
+  }
+  return { key: generatedKey };
+}
+
+/**
+ * Returns the key file that covers a URL, or null if the URL is outside
+ * the configured key location
+ *
+ * A key file only covers URLs on its own host, under its own directory.
+ */
+export function getKeyLocation(url: string, config: IndexNowConfig): string | null {
+  const parsed = new URL(url);
+
+  if (!config.keyLocation) {
+    return `${parsed.origin}/${config.key}.txt`;
+  }
+
+  const location = new URL(config.keyLocation);
+  const scope = location.href.slice(0, location.href.lastIndexOf('/') + 1);
+  return parsed.href.startsWith(scope) ? location.href : null;
+}
+
+/**
+ * Checks that a key file is served and contains the key
+ *
+ * @returns null if it does, otherwise why the host cannot be submitted
+ */
+export async function verifyKeyFile(keyLocation: string, key: string): Promise<string | null> {
+  const fetched = await fetchPublicUrl(
+    keyLocation,
+    { method: 'GET', headers: { 'User-Agent': 'OnwardSEO-Pinger/2.0' } },
+    { timeout: KEY_FILE_TIMEOUT_MS }
+  );
+  if (!fetched.ok) {
+    return `Key file could not be fetched: ${fetched.reason}`;
+  }
+
+  const { response } = fetched;
+  if (!response.ok) {
+    return `Key file not found at ${keyLocation} (HTTP ${response.status})`;
+  }
+
+  const body = await readLimitedText(response, MAX_KEY_FILE_BYTES);
+  return body.trim() === key ? null : `Key file at ${keyLocation} does not contain the key`;
+}
+
+/**
+ * Groups URLs into one submission per key file
+ *
+ * @returns The submissions, and the URLs no key file covers
+ */
+export function planIndexNowSubmissions(
+  urls: string[],
+  config: IndexNowConfig
+): { submissions: IndexNowSubmission[]; outOfScope: string[] } {
+  const submissions = new Map<string, IndexNowSubmission>();
+  const outOfScope: string[] = [];
+
+  for (const url of urls) {
+    const keyLocation = getKeyLocation(url, config);
+    if (!keyLocation) {
+      outOfScope.push(url);
+      continue;
+    }
+
+    const submission = submissions.get(keyLocation);
+    if (submission) {
+      submission.urls.push(url);
+    } else {
+      submissions.set(keyLocation, { host: new URL(keyLocation).hostname, keyLocation, urls: [url] });
+    }
+  }
+
+  return { submissions: [...submissions.values()], outOfScope };
+}
+
+/**
+ * Builds the request for a submission: GET for a single URL, a JSON urlList otherwise
+ */
+export function buildIndexNowRequest(
+  submission: IndexNowSubmission,
+  key: string,
+  endpoint: string = INDEXNOW_SERVICE.endpoint
+): { url: string; init: RequestInit } {
+  const headers = { 'User-Agent': 'OnwardSEO-Pinger/2.0' };
+
+  if (submission.urls.length === 1) {
+    const params = new URLSearchParams({ url: submission.urls[0], key, keyLocation: submission.keyLocation });
+    return { url: `${endpoint}?${params}`, init: { method: 'GET', headers } };
+  }
+
+  return {
+    url: endpoint,
+    init: {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json; charset=utf-8' },
+      body: JSON.stringify({
+        host: submission.host,
+        key,
+        keyLocation: submission.keyLocation,
+        urlList: submission.urls
+      })
+    }
+  };
+}
+
+/**
+ * Sends a single IndexNow submission attempt (no retry)
+ */
+async function submitAttempt(
+  submission: IndexNowSubmission,
+  key: string,
+  service: IndexNowService
+): Promise<IndexNowResult> {
+  const startTime = Date.now();
+  const { url, init } = buildIndexNowRequest(submission, key, service.endpoint);
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), service.timeout);
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    const responseTime = Date.now() - startTime;
+
+    // 200 OK and 202 Accepted both mean the URLs were received
+    const success = response.status === 200 || response.status === 202;
+    const message = response.status === 403
+      ? `Key not valid: ${submission.keyLocation} must contain the key`
+      : (STATUS_MESSAGES[response.status] ?? `HTTP ${response.status}: ${response.statusText}`);
+
+    return { success, statusCode: response.status, message, endpoint: service.endpoint, responseTime };
+  } catch (error) {
+    const responseTime = Date.now() - startTime;
+
+    if (error instanceof Error && error.name === 'AbortError') {
+      return {
+        success: false,
+        statusCode: 0,
+        message: `Request timed out after ${service.timeout}ms`,
+        endpoint: service.endpoint,
+        responseTime
+      };
+    }
+
+    return {
+      success: false,
+      statusCode: 0,
+      message: `Network error: ${error instanceof Error ? error.message : 'Unknown error occurred'}`,
+      endpoint: service.endpoint,
+      responseTime
+    };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Submits URLs covered by one key file to IndexNow with retry logic
+ * The request is only retried if the retries fit before the deadline.
+ *
+ * @param submission - URLs on one host and the key file covering them
+ * @param key - The IndexNow key
+ * @param service - Endpoint configuration (defaults to api.indexnow.org)
+ * @param deadline - When the submission must be done
+ * @returns Promise resolving to the submission result
+ */
+export async function submitToIndexNow(
+  submission: IndexNowSubmission,
+  key: string = getIndexNowConfig().key,
+  service: IndexNowService = INDEXNOW_SERVICE,
+  deadline: number = Infinity
+): Promise<IndexNowResult> {
+  return withRetries(
+    () => submitAttempt(submission, key, service),
+    getRetriesWithin(service.maxRetries ?? DEFAULT_RETRY_COUNT, service.timeout, deadline),
+    `[IndexNow] ${submission.host}`
+  );
+}
+
+/**
+ * Submits URLs to IndexNow, one request per key file host
+ *
+ * URLs no key file covers are never sent, as IndexNow would reject them,
+ * and hosts are only submitted once they serve the key file. A host is
+ * skipped when its key file check and one submission cannot both finish
+ * by the deadline.
+ *
+ * @param deadline - When every submission must be done
+ * @returns One result per URL, in order, never throwing
+ */
+export async function submitUrls(
+  urls: string[],
+  service: IndexNowService = INDEXNOW_SERVICE,
+  deadline: number = Infinity
+): Promise<IndexNowUrlResult[]> {
+  const config = getIndexNowConfig();
+  const { submissions, outOfScope } = planIndexNowSubmissions(urls, config);
+  const results = new Map<string, IndexNowUrlResult>();
+
+  for (const url of outOfScope) {
+    results.set(url, {
+      success: false,
+      message: `URL is outside the IndexNow key location (${config.keyLocation})`,
+      outcome: 'rejected',
+      reason: 'not_supported',
+      responseTime: 0
+    });
+  }
+
+  await Promise.all(submissions.map(async submission => {
+    let result: IndexNowUrlResult;
+    try {
+      // The key file check, when needed, and at least one submission attempt must fit
+      const checkTime = config.keyLocation ? 0 : KEY_FILE_TIMEOUT_MS;
+      if (deadline - Date.now() < checkTime + service.timeout) {
+        result = {
+          success: false,
+          message: 'Function timeout approaching, submission skipped',
+          outcome: 'unreachable',
+          reason: 'skipped',
+          responseTime: 0
+        };
+      } else {
+        const keyProblem = config.keyLocation ? null : await verifyKeyFile(submission.keyLocation, config.key);
+        if (keyProblem) {
+          result = { success: false, message: keyProblem, outcome: 'rejected', reason: 'auth_required', responseTime: 0 };
+        } else {
+          const submitted = await submitToIndexNow(submission, config.key, service, deadline);
+          result = {
+            success: submitted.success,
+            message: submitted.message,
+            ...classifyResponse(submitted),
+            responseTime: submitted.responseTime
+          };
+        }
+      }
+    } catch (error) {
+      console.error('[IndexNow] Unexpected error:', error instanceof Error ? error.message : error);
+      result = {
+        success: false,
+        message: 'Failed to submit to IndexNow',
+        outcome: 'unreachable',
+        reason: 'network_error',
+        responseTime: 0
+      };
+    }
+
+    for (const url of submission.urls) {
+      results.set(url, result);
+    }
+  }));
+
+  // Every URL is either out of scope or part of a submission
+  return urls.map(url => results.get(url) as IndexNowUrlResult);
+}
+
+/**
+ * IndexNow as a ping protocol: the URLs of a run are submitted together
+ */
+export const indexNowProtocol: PingProtocol<IndexNowService, IndexNowUrlResult> = {
+  method: 'indexnow',
+
+  validateConfig(service) {
+    const problems = validateServiceConfig(service);
+    const endpointProblem = checkEndpointUrl('endpoint', service.endpoint);
+    if (endpointProblem) problems.push(endpointProblem);
+    return problems;
+  },
+
+  send: async (service, context, deadline) => (await submitUrls([context.url], service, deadline))[0],
+
+  sendBatch: (service, contexts, deadline) => submitUrls(contexts.map(context => context.url), service, deadline),
+
+  classify: result => ({
+    success: result.success,
+    message: result.message,
+    outcome: result.outcome,
+    reason: result.reason,
+    responseTime: result.responseTime
+  })
+};
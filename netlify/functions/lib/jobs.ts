@@ -0,0 +1,368 @@
+/**
+ * Asynchronous ping jobs
+ *
+ * A job records the submitted URLs and the progress of every URL × service
+ * pair so that large submissions can run outside the request that created
+ * them. Job state lives in a pluggable JobStore:
+ * - BlobJobStore: default on Netlify, shared by every function through Netlify Blobs
+ * - FileJobStore: JSON files on disk (JOB_STORE=file, JOB_STORE_DIR=<dir>)
+ * - MemoryJobStore: without a Blobs environment, for local development and tests
+ * Only a shared store lets the background function run jobs that the jobs
+ * endpoint created (see jobs.mts).
+ */
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { PingResult, XmlRpcService } from './types';
+import type { JsonBlobStore } from './blobs';
+import { openBlobStore, updateJsonBlob } from './blobs';
+import { MAX_BACKGROUND_EXECUTION_MS } from './types';
+import { pingUrls } from './pinger';
+
+export type PingJobStatus = 'queued' | 'running' | 'completed' | 'cancelled' | 'failed';
+
+// 'skipped' pairs were never pinged (job cancelled or out of time)
+export type PingJobPairStatus = 'pending' | 'completed' | 'skipped';
+
+// Progress of a single URL × service pair
+export interface PingJobPair {
+  url: string;
+  service: string;
+  status: PingJobPairStatus;
+  result?: PingResult;
+}
+
+// Persisted job state, also the body of GET /api/jobs/:id
+export interface PingJob {
+  id: string;
+  status: PingJobStatus;
+  urls: string[];
+  services: string[];
+  skippedServices: string[];
+  siteFeedUrl?: string;
+  customEndpoints?: XmlRpcService[]; // The user's own XML-RPC endpoints, paired after the services
+  feedUrl: string;
+  pairs: PingJobPair[];
+  total: number;
+  completed: number;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  error?: string;
+}
+
+// Storage adapter for job state
+export interface JobStore {
+  readonly shared: boolean;  // Whether every function instance sees the same jobs
+  get(id: string): Promise<PingJob | null>;
+  set(job: PingJob): Promise<void>;
+  // Applies a change to a stored job; null from the change leaves the job as it is
+  update(id: string, change: (job: PingJob) => PingJob | null): Promise<PingJob | null>;
+}
+
+// Job IDs are UUIDs; anything else is rejected before touching the store
+const JOB_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// Upper bound on jobs kept by the in-memory adapter (oldest are evicted first)
+const MAX_MEMORY_JOBS = 500;
+
+/**
+ * In-memory job store
+ * State only lives as long as the function instance
+ */
+export class MemoryJobStore implements JobStore {
+  readonly shared = false;
+  private jobs = new Map<string, PingJob>();
+
+  async get(id: string): Promise<PingJob | null> {
+    const job = this.jobs.get(id);
+    return job ? structuredClone(job) : null;
+  }
+
+  async set(job: PingJob): Promise<void> {
+    // Re-insert so Map order reflects recency, then evict the oldest
+    this.jobs.delete(job.id);
+    this.jobs.set(job.id, structuredClone(job));
+
+    while (this.jobs.size > MAX_MEMORY_JOBS) {
+      const oldestId = this.jobs.keys().next().value;
+      if (oldestId === undefined) break;
+      this.jobs.delete(oldestId);
+    }
+  }
+
+  async update(id: string, change: (job: PingJob) => PingJob | null): Promise<PingJob | null> {
+    const job = await this.get(id);
+    const next = job && change(job);
+    if (next) await this.set(next);
+    return next;
+  }
+}
+
+/**
+ * File-based job store
+ * Writes one JSON file per job into the given directory
+ */
+export class FileJobStore implements JobStore {
+  readonly shared = false;
+
+  constructor(private readonly directory: string) {}
+
+  private pathFor(id: string): string {
+    return join(this.directory, `${id}.json`);
+  }
+
+  async get(id: string): Promise<PingJob | null> {
+    if (!isValidJobId(id)) return null;
+
+    try {
+      return JSON.parse(await readFile(this.pathFor(id), 'utf8')) as PingJob;
+    } catch {
+      return null;
+    }
+  }
+
+  async set(job: PingJob): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(this.pathFor(job.id), JSON.stringify(job), 'utf8');
+  }
+
+  async update(id: string, change: (job: PingJob) => PingJob | null): Promise<PingJob | null> {
+    const job = await this.get(id);
+    const next = job && change(job);
+    if (next) await this.set(next);
+    return next;
+  }
+}
+
+/**
+ * Netlify Blobs job store
+ * One JSON blob per job, keyed by job ID; updates are conditional writes,
+ * so results recorded by the runner and a cancellation never overwrite
+ * each other
+ */
+export class BlobJobStore implements JobStore {
+  readonly shared = true;
+
+  constructor(private readonly store: JsonBlobStore) {}
+
+  async get(id: string): Promise<PingJob | null> {
+    if (!isValidJobId(id)) return null;
+
+    const blob = await this.store.getWithMetadata(id, { type: 'json' });
+    return blob ? blob.data as PingJob : null;
+  }
+
+  async set(job: PingJob): Promise<void> {
+    await updateJsonBlob<PingJob>(this.store, job.id, () => job);
+  }
+
+  async update(id: string, change: (job: PingJob) => PingJob | null): Promise<PingJob | null> {
+    if (!isValidJobId(id)) return null;
+
+    return updateJsonBlob<PingJob>(this.store, id, current => current && change(current));
+  }
+}
+
+let jobStore: JobStore | null = null;
+
+/**
+ * Returns the configured job store (created on first use: JOB_STORE=file,
+ * otherwise Netlify Blobs where available, otherwise memory)
+ */
+export function getJobStore(): JobStore {
+  if (!jobStore) {
+    if (process.env.JOB_STORE === 'file') {
+      jobStore = new FileJobStore(process.env.JOB_STORE_DIR || join(tmpdir(), 'onwardseo-ping-jobs'));
+    } else {
+      const blobs = openBlobStore('jobs');
+      jobStore = blobs ? new BlobJobStore(blobs) : new MemoryJobStore();
+    }
+  }
+  return jobStore;
+}
+
+/**
+ * Replaces the job store, e.g. with a shared adapter or a test double
+ */
+export function setJobStore(store: JobStore): void {
+  jobStore = store;
+}
+
+/**
+ * Checks that a job ID has the expected format
+ */
+export function isValidJobId(id: string): boolean {
+  return JOB_ID_PATTERN.test(id);
+}
+
+/**
+ * Loads a job, applies a change and saves it back
+ *
+ * @param updater - Mutates the job in place; returning false discards the change
+ * @returns The saved job, or null if it does not exist or the change was discarded
+ */
+async function updateJob(
+  store: JobStore,
+  id: string,
+  updater: (job: PingJob) => boolean | void
+): Promise<PingJob | null> {
+  return store.update(id, job => {
+    if (updater(job) === false) return null;
+
+    job.updatedAt = new Date().toISOString();
+    return job;
+  });
+}
+
+/**
+ * Marks every pending pair as skipped and finishes the job with the given status
+ */
+function finishJob(job: PingJob, status: PingJobStatus): void {
+  for (const pair of job.pairs) {
+    if (pair.status === 'pending') {
+      pair.status = 'skipped';
+    }
+  }
+  job.status = status;
+  job.finishedAt = new Date().toISOString();
+}
+
+/**
+ * Creates a queued job with one pending pair per URL × selected service
+ * and custom endpoint
+ *
+ * @param selection - Validated URLs and service selection (see validatePingRequest)
+ */
+export async function createPingJob(
+  store: JobStore,
+  selection: Pick<PingJob, 'urls' | 'services' | 'skippedServices' | 'siteFeedUrl' | 'customEndpoints'>,
+  feedUrl: string
+): Promise<PingJob> {
+  const now = new Date().toISOString();
+  const { urls, services, skippedServices, siteFeedUrl, customEndpoints = [] } = selection;
+  const serviceNames = [...services, ...customEndpoints.map(endpoint => endpoint.name)];
+
+  const pairs: PingJobPair[] = urls.flatMap(url =>
+    serviceNames.map(service => ({ url, service, status: 'pending' as const }))
+  );
+
+  const job: PingJob = {
+    id: randomUUID(),
+    status: 'queued',
+    urls,
+    services,
+    skippedServices,
+    ...(siteFeedUrl && { siteFeedUrl }),
+    ...(customEndpoints.length > 0 && { customEndpoints }),
+    feedUrl,
+    pairs,
+    total: pairs.length,
+    completed: 0,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await store.set(job);
+  return job;
+}
+
+/**
+ * Cancels a queued or running job
+ * Pairs that have not completed yet are marked as skipped
+ *
+ * @returns The job after cancellation (unchanged if already finished), or null if not found
+ */
+export async function cancelPingJob(store: JobStore, id: string): Promise<PingJob | null> {
+  const cancelled = await updateJob(store, id, job => {
+    if (job.status !== 'queued' && job.status !== 'running') return false;
+    finishJob(job, 'cancelled');
+  });
+
+  return cancelled ?? store.get(id);
+}
+
+/**
+ * Records one ping result against its pair
+ * Skipped results (never pinged) mark their pair as skipped.
+ */
+function recordResult(job: PingJob, result: PingResult): void {
+  const pair = job.pairs.find(candidate =>
+    candidate.url === result.url && candidate.service === result.service && candidate.status === 'pending'
+  );
+  if (!pair) return;
+
+  pair.result = result;
+  if (result.reason === 'skipped') {
+    pair.status = 'skipped';
+  } else {
+    pair.status = 'completed';
+    job.completed++;
+  }
+}
+
+/**
+ * Runs a queued job to completion, persisting each result as it lands
+ *
+ * Cancellation is checked before each batch of URLs; results from a batch
+ * already in flight are still recorded for pairs that were not skipped.
+ *
+ * @param store - Job store holding the job
+ * @param id - ID of a queued job
+ * @param maxExecutionMs - Execution budget for the whole job
+ */
+export async function runPingJob(
+  store: JobStore,
+  id: string,
+  maxExecutionMs: number = MAX_BACKGROUND_EXECUTION_MS
+): Promise<void> {
+  const startTime = Date.now();
+
+  // Claim the job; anything not queued is already running or finished
+  const job = await updateJob(store, id, current => {
+    if (current.status !== 'queued') return false;
+    current.status = 'running';
+  });
+  if (!job) return;
+
+  // Serialise writes so concurrent results don't overwrite each other
+  let writes: Promise<unknown> = Promise.resolve();
+
+  try {
+    await pingUrls(job.urls, job.feedUrl, {
+      startTime,
+      maxExecutionMs,
+      services: job.services,
+      siteFeedUrl: job.siteFeedUrl,
+      customEndpoints: job.customEndpoints,
+      onResult: result => {
+        // A failed write is logged so the results after it are still recorded
+        writes = writes
+          .then(() => updateJob(store, id, current => recordResult(current, result)))
+          .catch(error => {
+            console.error(`[Jobs] Job ${id} result not saved:`, error instanceof Error ? error.message : error);
+          });
+      },
+      isCancelled: async () => (await store.get(id))?.status === 'cancelled'
+    });
+
+    await writes;
+
+    await updateJob(store, id, current => {
+      if (current.status !== 'running') return false;
+      finishJob(current, 'completed');
+    });
+  } catch (error) {
+    // Log detailed error internally for debugging (not exposed to client)
+    console.error(`[Jobs] Job ${id} failed:`, error instanceof Error ? error.message : error);
+
+    await writes.catch(() => undefined);
+    await updateJob(store, id, current => {
+      if (current.status !== 'running') return false;
+      finishJob(current, 'failed');
+      current.error = 'An error occurred while processing the job';
+    });
+  }
+}
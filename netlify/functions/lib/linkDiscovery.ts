@@ -0,0 +1,184 @@
+/**
+ * Endpoint discovery from HTML documents
+ *
+ * Notification protocols advertise their endpoints with rel-tagged
+ * elements, e.g. <link rel="pingback" href="...">, or with an HTTP Link
+ * header. Pages are matched with tolerant regular expressions rather than a
+ * full HTML parser: attributes may come in any order, with either quote
+ * style or none.
+ */
+
+import type { BacklinkOutcome } from './types';
+import { fetchPublicUrl, readLimitedText } from './safeFetch';
+
+// A fetched target page, ready for endpoint discovery
+export interface TargetPage {
+  url: string;       // The final URL after redirects, for resolving relative links
+  headers: Headers;
+  html: string;      // The first MAX_DISCOVERY_BYTES of the page
+}
+
+export type TargetPageResult =
+  | { ok: true; page: TargetPage }
+  | { ok: false; outcome: BacklinkOutcome; message: string };
+
+const USER_AGENT = 'OnwardSEO-Pinger/2.0';
+
+// Most of a page read when looking for endpoints; they belong in <head>
+export const MAX_DISCOVERY_BYTES = 128 * 1024;
+
+/**
+ * Reads an attribute from a single HTML (or XML) start tag
+ */
+export function getAttribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'>]+))`, 'i'));
+  if (!match) return null;
+  return decodeHtmlAttribute(match[1] ?? match[2] ?? match[3] ?? '');
+}
+
+/**
+ * Decodes the character references that commonly appear in URLs
+ */
+export function decodeHtmlAttribute(value: string): string {
+  return value
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCharCode(parseInt(dec, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Finds every element with the given rel value and returns their hrefs,
+ * resolved against the page URL, in document order
+ *
+ * @param html - The page, or its first MAX_DISCOVERY_BYTES
+ * @param rel - The rel value to look for (matched case-insensitively within a space-separated list)
+ * @param baseUrl - The page URL, for resolving relative hrefs
+ * @param elements - Element names to consider (default: link only)
+ * @param types - MIME types the element's type attribute must have, if given
+ */
+export function findRelLinks(
+  html: string,
+  rel: string,
+  baseUrl: string,
+  elements: string[] = ['link'],
+  types?: string[]
+): string[] {
+  // Comments often hold disabled markup
+  const content = html.replace(/<!--[\s\S]*?-->/g, '');
+  const tagPattern = new RegExp(`<(?:${elements.join('|')})\\b[^>]*>`, 'gi');
+  const hrefs: string[] = [];
+
+  for (const match of content.matchAll(tagPattern)) {
+    const rels = getAttribute(match[0], 'rel');
+    if (!rels || !rels.toLowerCase().split(/\s+/).includes(rel.toLowerCase())) {
+      continue;
+    }
+
+    if (types && !types.includes((getAttribute(match[0], 'type') ?? '').trim().toLowerCase())) {
+      continue;
+    }
+
+    const href = getAttribute(match[0], 'href');
+    if (href === null) {
+      continue;
+    }
+
+    try {
+      hrefs.push(new URL(href.trim(), baseUrl).href);
+    } catch {
+      // Unusable href; keep looking
+    }
+  }
+
+  return hrefs;
+}
+
+/**
+ * Finds the first element with the given rel value and returns its href,
+ * resolved against the page URL
+ *
+ * @see findRelLinks
+ */
+export function findRelLink(
+  html: string,
+  rel: string,
+  baseUrl: string,
+  elements: string[] = ['link']
+): string | null {
+  return findRelLinks(html, rel, baseUrl, elements)[0] ?? null;
+}
+
+/**
+ * Finds every URI in an HTTP Link header with the given rel value,
+ * resolved against the page URL
+ *
+ * @example findLinkHeaders('<https://hub.example/>; rel="hub"', 'hub', pageUrl)
+ */
+export function findLinkHeaders(header: string | null, rel: string, baseUrl: string): string[] {
+  if (!header) return [];
+  const uris: string[] = [];
+
+  // Each link is "<uri>" followed by its ;-separated parameters
+  for (const match of header.matchAll(/<([^>]*)>([^<]*)/g)) {
+    const relParam = match[2].match(/;\s*rel\s*=\s*(?:"([^"]*)"|([^\s";,]+))/i);
+    const rels = relParam?.[1] ?? relParam?.[2];
+    if (!rels || !rels.toLowerCase().split(/\s+/).includes(rel.toLowerCase())) {
+      continue;
+    }
+
+    try {
+      uris.push(new URL(match[1].trim(), baseUrl).href);
+    } catch {
+      // Unusable URI; keep looking
+    }
+  }
+
+  return uris;
+}
+
+/**
+ * Finds the first URI in an HTTP Link header with the given rel value,
+ * resolved against the page URL
+ *
+ * @example findLinkHeader('<https://example.com/wm>; rel="webmention"', 'webmention', pageUrl)
+ */
+export function findLinkHeader(header: string | null, rel: string, baseUrl: string): string | null {
+  return findLinkHeaders(header, rel, baseUrl)[0] ?? null;
+}
+
+/**
+ * Fetches a backlink target for endpoint discovery, following redirects
+ * through fetchPublicUrl
+ */
+export async function fetchTargetPage(target: string, timeout: number): Promise<TargetPageResult> {
+  const fetched = await fetchPublicUrl(target, {
+    method: 'GET',
+    headers: { 'Accept': 'text/html,application/xhtml+xml', 'User-Agent': USER_AGENT }
+  }, { timeout });
+
+  if (!fetched.ok) {
+    return { ok: false, outcome: 'error', message: fetched.reason };
+  }
+
+  const { response, url } = fetched;
+
+  if (response.status === 404 || response.status === 410) {
+    await response.body?.cancel();
+    return { ok: false, outcome: 'target_not_found', message: `Target page returned HTTP ${response.status}` };
+  }
+
+  if (!response.ok) {
+    await response.body?.cancel();
+    return { ok: false, outcome: 'error', message: `Target page returned HTTP ${response.status}` };
+  }
+
+  try {
+    const html = await readLimitedText(response, MAX_DISCOVERY_BYTES);
+    return { ok: true, page: { url, headers: response.headers, html } };
+  } catch {
+    return { ok: false, outcome: 'error', message: `Reading the target page timed out after ${timeout}ms` };
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Source link verification for backlink notifications
+ *
+ * Receivers check that the source really links to the target and reject
+ * (and remember) senders that notify them about links that do not exist.
+ * The source page is therefore fetched first, through fetchPublicUrl and
+ * up to MAX_SOURCE_BYTES, and searched for an <a href> that points at the
+ * target once both URLs are normalised with the shared URL rules. The
+ * matching link's anchor text and nofollow/ugc/sponsored rel values are
+ * reported back.
+ */
+
+import type { BacklinkOutcome, SourceVerification } from './types';
+import { BACKLINK_TIMEOUT_MS } from './types';
+import { fetchPublicUrl, readLimitedText } from './safeFetch';
+import { decodeHtmlAttribute, getAttribute } from './linkDiscovery';
+import { checkUrl } from '../../../src/shared/urlValidation';
+
+// Most of a source page searched for the link; articles can be long
+export const MAX_SOURCE_BYTES = 512 * 1024;
+
+// Longest anchor text reported
+const MAX_ANCHOR_TEXT_LENGTH = 200;
+
+const USER_AGENT = 'OnwardSEO-Pinger/2.0';
+
+export type SourceVerificationResult =
+  | { verified: true; verification: SourceVerification }
+  | { verified: false; outcome: BacklinkOutcome; verification: SourceVerification };
+
+/**
+ * Normalises a URL for comparison: the shared URL rules, without the fragment
+ */
+function comparableUrl(url: string): string | null {
+  const result = checkUrl(url);
+  if (!result.valid) return null;
+  return result.url.replace(/#.*$/, '');
+}
+
+/**
+ * Reduces an anchor's content to its visible text, using alt text for images
+ */
+function getAnchorText(content: string): string {
+  const text = decodeHtmlAttribute(
+    content
+      .replace(/<img\b[^>]*>/gi, tag => ` ${getAttribute(tag, 'alt') ?? ''} `)
+      .replace(/<[^>]*>/g, ' ')
+      .replace(/&nbsp;/g, ' ')
+  ).replace(/\s+/g, ' ').trim();
+
+  return text.length > MAX_ANCHOR_TEXT_LENGTH ? `${text.slice(0, MAX_ANCHOR_TEXT_LENGTH - 3)}...` : text;
+}
+
+/**
+ * Removes HTML comments; an unterminated comment is left as it is
+ */
+function stripComments(html: string): string {
+  let stripped = '';
+  let position = 0;
+
+  for (;;) {
+    const start = html.indexOf('<!--', position);
+    const end = start === -1 ? -1 : html.indexOf('-->', start + 4);
+    if (end === -1) break;
+
+    stripped += html.slice(position, start);
+    position = end + 3;
+  }
+
+  return stripped + html.slice(position);
+}
+
+/**
+ * Lists the <a> elements of a page, with their content
+ *
+ * The page is scanned once, from each anchor to its closing tag. A lazy
+ * regex spanning the whole element would instead search the rest of the
+ * page again for every unclosed anchor, which is quadratic on a large page.
+ */
+function findAnchors(html: string): { tag: string; content: string }[] {
+  const anchors: { tag: string; content: string }[] = [];
+  const openTag = /<a(?!\w)/gi;
+  const closeTag = /<\/a\s*>/gi;
+  let position = 0;
+
+  for (;;) {
+    openTag.lastIndex = position;
+    const open = openTag.exec(html);
+    if (!open) break;
+
+    // Without a later '>' or closing tag, no anchor after this one is complete either
+    const tagEnd = html.indexOf('>', open.index);
+    if (tagEnd === -1) break;
+
+    closeTag.lastIndex = tagEnd + 1;
+    const close = closeTag.exec(html);
+    if (!close) break;
+
+    anchors.push({ tag: html.slice(open.index, tagEnd + 1), content: html.slice(tagEnd + 1, close.index) });
+    position = close.index + close[0].length;
+  }
+
+  return anchors;
+}
+
+/**
+ * Finds a link to the target in a source page
+ *
+ * Links that pass ranking signals (no nofollow, ugc or sponsored) are
+ * preferred when the page links to the target more than once.
+ *
+ * @param html - The source page, or its first MAX_SOURCE_BYTES
+ * @param target - The target URL
+ * @param baseUrl - The source URL, for resolving relative hrefs
+ */
+export function findLinkToTarget(html: string, target: string, baseUrl: string): SourceVerification | null {
+  const wanted = comparableUrl(target);
+  if (!wanted) return null;
+
+  // Commented-out links are not links
+  const content = stripComments(html);
+
+  // Relative hrefs resolve against <base href> when the page has one
+  let base = baseUrl;
+  const baseTag = content.match(/<base\b[^>]*>/i);
+  const baseHref = baseTag ? getAttribute(baseTag[0], 'href') : null;
+  if (baseHref) {
+    try {
+      base = new URL(baseHref.trim(), baseUrl).href;
+    } catch {
+      // Keep the page URL
+    }
+  }
+
+  const found: SourceVerification[] = [];
+
+  for (const anchor of findAnchors(content)) {
+    const href = getAttribute(anchor.tag, 'href');
+    if (href === null) continue;
+
+    let resolved: string;
+    try {
+      resolved = new URL(href.trim(), base).href;
+    } catch {
+      continue;
+    }
+
+    if (comparableUrl(resolved) !== wanted) continue;
+
+    const rels = (getAttribute(anchor.tag, 'rel') ?? '').toLowerCase().split(/\s+/);
+    found.push({
+      verified: true,
+      message: 'The source page links to the target',
+      anchorText: getAnchorText(anchor.content),
+      nofollow: rels.includes('nofollow'),
+      ugc: rels.includes('ugc'),
+      sponsored: rels.includes('sponsored')
+    });
+  }
+
+  return found.find(link => !link.nofollow && !link.ugc && !link.sponsored) ?? found[0] ?? null;
+}
+
+/**
+ * Fetches the source page and checks that it links to the target
+ *
+ * @returns The verification, with the outcome to report when it fails; never throws
+ */
+export async function verifySourceLink(
+  source: string,
+  target: string,
+  timeout: number = BACKLINK_TIMEOUT_MS
+): Promise<SourceVerificationResult> {
+  const failed = (outcome: BacklinkOutcome, message: string): SourceVerificationResult => ({
+    verified: false,
+    outcome,
+    verification: { verified: false, message }
+  });
+
+  const fetched = await fetchPublicUrl(source, {
+    method: 'GET',
+    headers: { 'Accept': 'text/html,application/xhtml+xml', 'User-Agent': USER_AGENT }
+  }, { timeout });
+
+  if (!fetched.ok) {
+    return failed('error', `Source page could not be fetched: ${fetched.reason}`);
+  }
+
+  const { response, url } = fetched;
+
+  if (response.status === 404 || response.status === 410) {
+    await response.body?.cancel();
+    return failed('source_not_found', `Source page returned HTTP ${response.status}`);
+  }
+
+  if (!response.ok) {
+    await response.body?.cancel();
+    return failed('error', `Source page returned HTTP ${response.status}`);
+  }
+
+  let html: string;
+  try {
+    html = await readLimitedText(response, MAX_SOURCE_BYTES);
+  } catch {
+    return failed('error', `Reading the source page timed out after ${timeout}ms`);
+  }
+
+  const link = findLinkToTarget(html, target, url);
+
+  return link
+    ? { verified: true, verification: link }
+    : failed('no_link', 'The source page does not link to the target');
+}
@@ -0,0 +1,71 @@
+/**
+ * Classification of service responses into ping outcomes
+ *
+ * `success` alone cannot tell a queued WebSub publish from a processed one,
+ * or a "slow down" from a rejection. Every PingResult therefore carries an
+ * outcome (accepted, throttled, rejected, unreachable) and a reason code,
+ * derived from the HTTP status, XML-RPC fault and flerror data, and the
+ * message when nothing else distinguishes the cases.
+ */
+
+import type { PingClassification } from './types';
+
+// What a service's answer is made of
+export interface ResponseSignals {
+  statusCode: number;        // HTTP status, 0 when no response arrived
+  message: string;
+  faultCode?: number;        // XML-RPC fault
+  flerror?: boolean;         // weblogUpdates error flag
+  invalidResponse?: boolean; // The body was not the expected format
+}
+
+// Messages services use to ask for fewer pings ("Slow down cowboy!",
+// "pings are limited to one every 30 minutes", ...)
+const THROTTLE_PATTERN = /slow(?:ing)? down|too (?:many|often|frequent)|rate.?limit|limited to one|try again (?:later|in)|throttl|pinged (?:too )?recently/i;
+
+// Requests the SSRF guard refused to send
+const BLOCKED_PATTERN = /not allowed|private or reserved|too many redirects/i;
+
+/**
+ * Classifies a service's response
+ */
+export function classifyResponse({ statusCode, message, faultCode, flerror, invalidResponse }: ResponseSignals): PingClassification {
+  if (statusCode === 0) {
+    if (/timed out/i.test(message)) return { outcome: 'unreachable', reason: 'timeout' };
+    if (/credentials not configured/i.test(message)) return { outcome: 'unreachable', reason: 'not_configured' };
+    if (BLOCKED_PATTERN.test(message)) return { outcome: 'unreachable', reason: 'blocked' };
+    return { outcome: 'unreachable', reason: 'network_error' };
+  }
+
+  const failed = statusCode >= 300 || faultCode !== undefined || flerror === true || invalidResponse === true;
+
+  if (statusCode === 429 || (failed && THROTTLE_PATTERN.test(message))) {
+    return { outcome: 'throttled', reason: 'rate_limited' };
+  }
+  if (statusCode >= 500) return { outcome: 'unreachable', reason: 'server_error' };
+  if (statusCode === 401 || statusCode === 403) return { outcome: 'rejected', reason: 'auth_required' };
+  if (statusCode >= 300) return { outcome: 'rejected', reason: 'http_error' };
+  if (invalidResponse) return { outcome: 'unreachable', reason: 'invalid_response' };
+  if (faultCode !== undefined) return { outcome: 'rejected', reason: 'fault' };
+  if (flerror) return { outcome: 'rejected', reason: 'refused' };
+  if (statusCode === 202) return { outcome: 'accepted', reason: 'queued' };
+  return { outcome: 'accepted', reason: 'processed' };
+}
+
+/**
+ * Picks the classification that best sums up several results for one URL
+ *
+ * Any acceptance wins (queued only if nothing was processed outright),
+ * then throttling, rejection and unreachability, in that order.
+ */
+export function summarizeClassifications(results: PingClassification[]): PingClassification | null {
+  const order: PingClassification['outcome'][] = ['accepted', 'throttled', 'rejected', 'unreachable'];
+
+  for (const outcome of order) {
+    const matching = results.filter(result => result.outcome === outcome);
+    if (matching.length > 0) {
+      return matching.find(result => result.reason === 'processed') ?? matching[0];
+    }
+  }
+  return null;
+}
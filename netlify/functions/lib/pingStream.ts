@@ -0,0 +1,67 @@
+/**
+ * Streaming ping responses
+ *
+ * Ping requests sent with `Accept: application/x-ndjson` get one
+ * PingStreamEvent per line: a `result` for each URL × service pair as soon
+ * as it completes, then a `summary`, or an `error` if the run fails.
+ */
+
+import type { PingStreamEvent } from './types';
+import { NDJSON_CONTENT_TYPE } from './types';
+import type { PingRequestValidation } from './validation';
+import { pingUrls } from './pinger';
+
+/**
+ * Builds a streaming NDJSON response that emits each result as it completes
+ */
+export function streamPingResponse(
+  { urls, services, skippedServices, siteFeedUrl, customEndpoints }: PingRequestValidation,
+  feedUrl: string,
+  startTime: number,
+  headers: Record<string, string>
+): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: PingStreamEvent) => {
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      };
+
+      try {
+        const results = await pingUrls(urls, feedUrl, {
+          startTime,
+          services,
+          siteFeedUrl,
+          customEndpoints,
+          onResult: result => send({ type: 'result', result })
+        });
+
+        send({
+          type: 'summary',
+          success: results.some(r => r.success),
+          total: results.length,
+          totalTime: Date.now() - startTime,
+          feedUrl,
+          skippedServices
+        });
+      } catch (error) {
+        // Log detailed error internally for debugging (not exposed to client)
+        console.error('[Ping API] Stream error:', error instanceof Error ? error.message : error);
+        send({ type: 'error', error: 'An error occurred while processing your request' });
+      } finally {
+        controller.close();
+      }
+    }
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      'Content-Type': `${NDJSON_CONTENT_TYPE}; charset=utf-8`,
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Content-Type-Options': 'nosniff',
+      ...headers
+    }
+  });
+}
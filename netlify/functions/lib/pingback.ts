@@ -0,0 +1,159 @@
+/**
+ * Pingback client for backlink notifications
+ *
+ * Tells a linked page (the target) that another page (the source) links
+ * to it, following the Pingback 1.0 specification:
+ * 1. The target's pingback server is discovered from its X-Pingback
+ *    header, or failing that a <link rel="pingback"> element in its HTML
+ * 2. pingback.ping(source, target) is sent to that server over XML-RPC
+ *
+ * Fault codes are reported as BacklinkOutcome values. The target and the
+ * discovered server are both fetched through fetchPublicUrl, so neither
+ * can be used to reach internal addresses. Pingbacks are not retried: a
+ * repeated ping would only be rejected as already registered.
+ *
+ * @see http://www.hixie.ch/specs/pingback/pingback
+ */
+
+import type { Backlink, BacklinkOutcome, BacklinkResult } from './types';
+import { BACKLINK_TIMEOUT_MS } from './types';
+import { buildMethodCall, parseXmlRpcResponse } from './xmlrpc';
+import type { TargetPage } from './linkDiscovery';
+import { fetchPublicUrl, readLimitedText } from './safeFetch';
+import { fetchTargetPage, findRelLink } from './linkDiscovery';
+
+// Largest pingback server response read
+const MAX_RESPONSE_BYTES = 64 * 1024;
+
+const USER_AGENT = 'OnwardSEO-Pinger/2.0';
+
+// Fault codes defined by the Pingback specification
+export const PINGBACK_FAULTS: Record<number, BacklinkOutcome> = {
+  0x0010: 'source_not_found',
+  0x0011: 'no_link',
+  0x0020: 'target_not_found',
+  0x0021: 'target_not_allowed',
+  0x0030: 'already_registered',
+  0x0031: 'access_denied',
+  0x0032: 'upstream_error'
+};
+
+export type PingbackDiscovery =
+  | { found: true; endpoint: string }
+  | { found: false; outcome: BacklinkOutcome; message: string };
+
+/**
+ * Maps a pingback fault code to an outcome
+ */
+export function getPingbackOutcome(faultCode?: number): BacklinkOutcome {
+  return (faultCode !== undefined && PINGBACK_FAULTS[faultCode]) || 'fault';
+}
+
+/**
+ * Finds the pingback server advertised by a fetched target page
+ */
+export function findPingbackServer(page: TargetPage): string | null {
+  // The header takes precedence over the page
+  const header = page.headers.get('x-pingback');
+  if (header) {
+    try {
+      return new URL(header.trim(), page.url).href;
+    } catch {
+      // Invalid header; fall back to the page
+    }
+  }
+
+  return findRelLink(page.html, 'pingback', page.url);
+}
+
+/**
+ * Discovers the pingback server advertised by a target page
+ */
+export async function discoverPingbackServer(
+  target: string,
+  timeout: number = BACKLINK_TIMEOUT_MS
+): Promise<PingbackDiscovery> {
+  const fetched = await fetchTargetPage(target, timeout);
+  if (!fetched.ok) {
+    return { found: false, outcome: fetched.outcome, message: fetched.message };
+  }
+
+  const endpoint = findPingbackServer(fetched.page);
+
+  return endpoint
+    ? { found: true, endpoint }
+    : { found: false, outcome: 'not_supported', message: 'The target does not advertise a pingback server' };
+}
+
+/**
+ * Sends a pingback for one source → target link
+ *
+ * @param link - The linking (source) and linked (target) pages
+ * @param timeout - Timeout for discovery and for the ping, each
+ * @param server - The target's pingback server, when already discovered
+ * @returns The outcome, never throwing
+ */
+export async function sendPingback(
+  link: Backlink,
+  timeout: number = BACKLINK_TIMEOUT_MS,
+  server?: string
+): Promise<BacklinkResult> {
+  const startTime = Date.now();
+  const result = (
+    outcome: BacklinkOutcome,
+    message: string,
+    extra: Partial<BacklinkResult> = {}
+  ): BacklinkResult => ({
+    source: link.source,
+    target: link.target,
+    protocol: 'pingback',
+    success: outcome === 'registered',
+    outcome,
+    message,
+    ...extra,
+    responseTime: Date.now() - startTime
+  });
+
+  try {
+    let endpoint = server;
+    if (!endpoint) {
+      const discovery = await discoverPingbackServer(link.target, timeout);
+      if (!discovery.found) {
+        return result(discovery.outcome, discovery.message);
+      }
+      endpoint = discovery.endpoint;
+    }
+
+    const fetched = await fetchPublicUrl(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/xml; charset=utf-8', 'User-Agent': USER_AGENT },
+      body: buildMethodCall('pingback.ping', [link.source, link.target])
+    }, { timeout });
+
+    if (!fetched.ok) {
+      return result('error', fetched.reason, { endpoint });
+    }
+
+    if (!fetched.response.ok) {
+      await fetched.response.body?.cancel();
+      return result('error', `HTTP ${fetched.response.status}: ${fetched.response.statusText}`, { endpoint });
+    }
+
+    const parsed = parseXmlRpcResponse(await readLimitedText(fetched.response, MAX_RESPONSE_BYTES));
+
+    // Only a <fault> reply carries a pingback fault code; anything else the
+    // server got wrong (malformed XML, an flerror struct) is an error
+    if (parsed.flerror && parsed.faultCode === undefined) {
+      return result('error', parsed.message, { endpoint });
+    }
+    if (parsed.flerror) {
+      return result(getPingbackOutcome(parsed.faultCode), parsed.message, { endpoint, faultCode: parsed.faultCode });
+    }
+
+    return result('registered', parsed.message, { endpoint });
+  } catch (error) {
+    // Log detailed error internally for debugging (not exposed to client)
+    console.error('[Pingback] Unexpected error:', error instanceof Error ? error.message : error);
+    return result('error', 'Pingback request failed');
+  }
+}
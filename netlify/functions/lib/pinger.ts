@@ -0,0 +1,305 @@
+/**
+ * Ping orchestration shared by the ping and job endpoints
+ *
+ * Fans each URL out to every service registered with a ping protocol
+ * (WebSub hubs, XML-RPC and HTTP template services, the user's own XML-RPC
+ * endpoints, the hubs the page's own feeds declare and IndexNow, see
+ * ./protocolRegistry), processing URLs in batches to limit concurrent
+ * requests. Services whose protocol can batch (XML-RPC system.multicall,
+ * IndexNow) get every URL of a run in one request instead.
+ */
+
+import type { PingResult, XmlRpcService } from './types';
+import { BATCH_SIZE, MAX_FUNCTION_EXECUTION_MS } from './types';
+import type { PageFeeds } from './feedDiscovery';
+import { findPageFeeds } from './feedDiscovery';
+import type { PingContext, ProtocolResult, ProtocolService } from './protocol';
+import { getProtocolServices } from './protocolRegistry';
+import { isServiceEnabled } from './services';
+
+/**
+ * Options controlling a ping run
+ */
+export interface PingRunOptions {
+  /** When execution started (for timeout calculation) */
+  startTime: number;
+  /** Execution budget in milliseconds (defaults to MAX_FUNCTION_EXECUTION_MS) */
+  maxExecutionMs?: number;
+  /** Names of the services to ping (defaults to every enabled service) */
+  services?: string[];
+  /** The site's own feed for extended pings (defaults to the one each page advertises) */
+  siteFeedUrl?: string;
+  /** The user's own XML-RPC endpoints, pinged alongside the registry services */
+  customEndpoints?: XmlRpcService[];
+  /** Invoked as soon as each URL × service result lands */
+  onResult?: (result: PingResult) => void;
+  /** Checked before each batch; resolving to true stops the run */
+  isCancelled?: () => Promise<boolean>;
+  /** Shared by every URL of a run (set by pingUrls) */
+  batch?: RunBatch;
+}
+
+/**
+ * What the URLs of one run share
+ */
+interface RunBatch {
+  /** Each page's context, so its feeds are looked up once per run */
+  contexts: Map<string, PingContext>;
+  /** Batched requests by service name, resolving to the results by URL (null to ping one by one) */
+  results: Map<string, Promise<Map<string, ProtocolResult> | null>>;
+}
+
+// Pings need at least this much of the execution budget left to start
+const MIN_REMAINING_MS = 10000;
+
+/**
+ * Checks whether a service is enabled and part of the selection (if any)
+ */
+function shouldPingService(service: { name: string; enabled?: boolean }, services?: string[]): boolean {
+  return isServiceEnabled(service) && (!services || services.includes(service.name));
+}
+
+/**
+ * Lists the registered services a run pings: the selected ones plus the
+ * user's own endpoints
+ */
+function selectServices({ services, customEndpoints = [] }: PingRunOptions): ProtocolService[] {
+  const customNames = new Set(customEndpoints.map(endpoint => endpoint.name));
+  return getProtocolServices({ customEndpoints })
+    .filter(service => customNames.has(service.name) || shouldPingService(service, services));
+}
+
+/**
+ * Extracts site name from URL for XML-RPC ping
+ */
+export function extractSiteName(url: string): string {
+  try {
+    const parsed = new URL(url);
+    // Use hostname without www. prefix
+    return parsed.hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Builds what protocols know about a page
+ * The page is fetched at most once for its feeds, shared by extended pings and site hubs.
+ */
+function createPingContext(url: string, feedUrl: string, siteFeedUrl?: string): PingContext {
+  let pageFeeds: Promise<PageFeeds> | undefined;
+  const getPageFeeds = () => (pageFeeds ??= findPageFeeds(url));
+
+  return {
+    url,
+    feedUrl,
+    siteName: extractSiteName(url),
+    getPageFeeds,
+    getSiteFeedUrl: async () => {
+      if (siteFeedUrl) return siteFeedUrl;
+      const page = await getPageFeeds();
+      return page.ok ? page.feedUrls[0] : undefined;
+    }
+  };
+}
+
+/**
+ * Pings one service through its protocol
+ * Misconfigured services are never contacted, and anything the protocol
+ * throws is reported as a failed result. URLs a batched request has no
+ * result for are pinged on their own, by the run's deadline.
+ */
+async function pingService(
+  service: ProtocolService,
+  context: PingContext,
+  deadline: number,
+  batched?: Promise<Map<string, ProtocolResult> | null>
+): Promise<PingResult> {
+  const { url } = context;
+
+  if (service.problems.length > 0) {
+    return {
+      service: service.name,
+      url,
+      success: false,
+      message: `Invalid service configuration: ${service.problems.join('; ')}`,
+      method: service.method,
+      outcome: 'unreachable',
+      reason: 'not_configured',
+      responseTime: 0,
+      error: 'Invalid service configuration'
+    };
+  }
+
+  try {
+    const result = (await batched)?.get(url) ?? await service.ping(context, deadline);
+    return {
+      service: service.name,
+      url,
+      success: result.success,
+      message: result.message,
+      method: service.method,
+      outcome: result.outcome,
+      reason: result.reason,
+      responseTime: result.responseTime,
+      ...(result.retryAfter !== undefined && { retryAfter: result.retryAfter }),
+      error: result.success ? undefined : result.message
+    };
+  } catch (error) {
+    console.error(`[Ping] ${service.name} unexpected error:`, error instanceof Error ? error.message : error);
+    return {
+      service: service.name,
+      url,
+      success: false,
+      message: 'Service request failed',
+      method: service.method,
+      outcome: 'unreachable',
+      reason: 'network_error',
+      responseTime: 0,
+      error: 'Request failed'
+    };
+  }
+}
+
+/**
+ * Pings all services for a single URL with timeout protection
+ *
+ * Results are returned in protocol registration order and each one carries
+ * the URL it belongs to.
+ *
+ * @param url - The URL to ping
+ * @param feedUrl - The feed URL for WebSub
+ * @param options - Execution budget and result callback
+ */
+export async function pingAllServices(
+  url: string,
+  feedUrl: string,
+  options: PingRunOptions
+): Promise<PingResult[]> {
+  const { startTime, maxExecutionMs = MAX_FUNCTION_EXECUTION_MS, siteFeedUrl, onResult, batch } = options;
+
+  // Check if we have enough time remaining (need at least 10s for safe execution)
+  const elapsedTime = Date.now() - startTime;
+  const remainingTime = maxExecutionMs - elapsedTime;
+
+  if (remainingTime < MIN_REMAINING_MS) {
+    console.warn(`[Ping API] Insufficient time remaining (${remainingTime}ms), skipping pings`);
+    const skipped = skippedResults([url], options);
+    skipped.forEach(result => onResult?.(result));
+    return skipped;
+  }
+
+  const context = batch?.contexts.get(url) ?? createPingContext(url, feedUrl, siteFeedUrl);
+  const promises = selectServices(options)
+    .map(service => pingService(service, context, startTime + maxExecutionMs, batch?.results.get(service.name)));
+
+  // Report each result as it lands, then wait for all pings to complete
+  // (each promise handles its own errors)
+  return Promise.all(
+    onResult
+      ? promises.map(promise => promise.then(result => {
+          onResult(result);
+          return result;
+        }))
+      : promises
+  );
+}
+
+/**
+ * Reports every URL × service pair of URLs the run has no time left for as skipped
+ */
+function skippedResults(urls: string[], options: PingRunOptions): PingResult[] {
+  const services = selectServices(options);
+
+  return urls.flatMap(url => services.map(service => ({
+    service: service.name,
+    url,
+    success: false,
+    message: 'Function timeout reached, request skipped',
+    method: service.method,
+    outcome: 'unreachable' as const,
+    reason: 'skipped' as const,
+    responseTime: 0,
+    error: 'Timeout protection triggered'
+  })));
+}
+
+/**
+ * Starts one request per batching service covering every URL of a run
+ * A batch that fails outright leaves its URLs to be pinged one by one.
+ * Batches get the end of the execution budget as their deadline.
+ */
+function startRunBatch(urls: string[], feedUrl: string, options: PingRunOptions): RunBatch {
+  const { startTime, maxExecutionMs = MAX_FUNCTION_EXECUTION_MS } = options;
+  const deadline = startTime + maxExecutionMs;
+  const contexts = new Map(urls.map(url => [url, createPingContext(url, feedUrl, options.siteFeedUrl)]));
+  const pages = [...contexts.values()];
+  const results: RunBatch['results'] = new Map();
+
+  for (const service of selectServices(options)) {
+    if (!service.pingBatch || service.problems.length > 0) continue;
+
+    results.set(service.name, service.pingBatch(pages, deadline)
+      .then(batchResults => batchResults && new Map(batchResults.map((result, index) => [pages[index].url, result])))
+      .catch(error => {
+        console.error(`[Ping] ${service.name} batch failed:`, error instanceof Error ? error.message : error);
+        return null;
+      }));
+  }
+
+  return { contexts, results };
+}
+
+/**
+ * Pings every URL in batches of BATCH_SIZE, stopping early if the
+ * execution budget runs out or the run is cancelled
+ *
+ * Pairs left over when the budget runs out are returned as skipped results;
+ * a cancelled run just stops (the job marks its pending pairs).
+ *
+ * @param urls - Validated URLs to ping
+ * @param feedUrl - The feed URL for WebSub
+ * @param options - Execution budget, result callback and cancellation check
+ * @returns One result per URL × service pair, in submission order
+ */
+export async function pingUrls(
+  urls: string[],
+  feedUrl: string,
+  options: PingRunOptions
+): Promise<PingResult[]> {
+  const { startTime, maxExecutionMs = MAX_FUNCTION_EXECUTION_MS, isCancelled } = options;
+
+  // Services that batch get every URL at once; the other pings go URL by URL
+  const runOptions = urls.length > 1 && maxExecutionMs - (Date.now() - startTime) >= MIN_REMAINING_MS
+    ? { ...options, batch: startRunBatch(urls, feedUrl, options) }
+    : options;
+
+  // This limits concurrent requests to prevent rate limiting and resource exhaustion
+  const allResults: PingResult[] = [];
+
+  for (let i = 0; i < urls.length; i += BATCH_SIZE) {
+    // Check timeout before processing each batch
+    const elapsedTime = Date.now() - startTime;
+    if (elapsedTime > maxExecutionMs) {
+      console.warn(`[Ping API] Function timeout reached after ${elapsedTime}ms, stopping batch processing`);
+      for (const result of skippedResults(urls.slice(i), runOptions)) {
+        runOptions.onResult?.(result);
+        allResults.push(result);
+      }
+      break;
+    }
+
+    if (isCancelled && await isCancelled()) {
+      console.log('[Ping API] Run cancelled, stopping batch processing');
+      break;
+    }
+
+    const batch = urls.slice(i, i + BATCH_SIZE);
+
+    // Process this batch in parallel
+    const batchResults = await Promise.all(batch.map(url => pingAllServices(url, feedUrl, runOptions)));
+    allResults.push(...batchResults.flat());
+  }
+
+  return allResults;
+}
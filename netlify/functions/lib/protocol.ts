@@ -0,0 +1,112 @@
+/**
+ * Pluggable ping protocols
+ *
+ * A PingProtocol knows how to check a service's configuration, send one
+ * ping for a URL (or, optionally, one request for several URLs) and
+ * classify what came back. Protocols are bound to their
+ * configured services in ./protocolRegistry, and the pinger iterates over
+ * whatever services are registered, so a new protocol plugs in without
+ * touching the ping handler. Every protocol must pass the conformance suite
+ * in __tests__/protocols.test.ts.
+ */
+
+import type { PingResult, ServiceDescriptor, ServiceMetadata } from './types';
+import type { PageFeeds } from './feedDiscovery';
+import { describeService } from './services';
+
+// What a protocol needs to know about the URL being pinged
+export interface PingContext {
+  url: string;        // The submitted page
+  feedUrl: string;    // The generated feed advertised to WebSub hubs
+  siteName: string;
+  getPageFeeds(): Promise<PageFeeds>;                // The page's own feeds, fetched at most once
+  getSiteFeedUrl(): Promise<string | undefined>;     // The site's feed, supplied or discovered
+}
+
+// A protocol's verdict on one ping, before the URL and service name are added
+export type ProtocolResult = Pick<PingResult, 'success' | 'message' | 'outcome' | 'reason' | 'responseTime' | 'retryAfter'>;
+
+// The configuration every pinged service has, including how GET /api/services lists it
+export interface ProtocolServiceConfig extends ServiceMetadata {
+  name: string;
+  timeout: number;
+}
+
+export interface PingProtocol<S extends ProtocolServiceConfig, R> {
+  /** Reported as the method of every result */
+  method: PingResult['method'];
+  /** Lists problems with a service's configuration (empty when valid) */
+  validateConfig(service: S): string[];
+  /**
+   * Sends one ping; failures are reported in the result, never thrown.
+   * Retries and fallback requests that cannot finish by the deadline (a
+   * timestamp) are skipped.
+   */
+  send(service: S, context: PingContext, deadline: number): Promise<R>;
+  /**
+   * Optionally pings several URLs in one request, one result per context in
+   * order; null when the service cannot batch them and each URL is sent alone.
+   * Nothing that cannot finish by the deadline (a timestamp) is started.
+   */
+  sendBatch?(service: S, contexts: PingContext[], deadline: number): Promise<R[] | null>;
+  /** Turns the protocol's own result into a classified ping result */
+  classify(result: R): ProtocolResult;
+}
+
+// A configured service bound to the protocol that pings it
+export interface ProtocolService extends ServiceDescriptor {
+  problems: string[];   // Configuration problems; such services are never contacted
+  ping(context: PingContext, deadline: number): Promise<ProtocolResult>;
+  pingBatch?(contexts: PingContext[], deadline: number): Promise<ProtocolResult[] | null>;   // Set when the protocol batches
+}
+
+/**
+ * Binds each service to its protocol, checking its configuration
+ */
+export function bindProtocol<S extends ProtocolServiceConfig, R>(
+  protocol: PingProtocol<S, R>,
+  services: S[]
+): ProtocolService[] {
+  const { sendBatch } = protocol;
+
+  return services.map(service => ({
+    ...describeService(service, protocol.method),
+    problems: protocol.validateConfig(service),
+    ping: async (context, deadline) => protocol.classify(await protocol.send(service, context, deadline)),
+    ...(sendBatch && {
+      pingBatch: async (contexts: PingContext[], deadline: number) => {
+        const results = await sendBatch(service, contexts, deadline);
+        return results && results.map(result => protocol.classify(result));
+      }
+    })
+  }));
+}
+
+/**
+ * Checks the configuration every service shares
+ */
+export function validateServiceConfig(service: ProtocolServiceConfig): string[] {
+  const problems: string[] = [];
+
+  if (typeof service.name !== 'string' || !service.name.trim()) {
+    problems.push('name is required');
+  }
+  if (!Number.isFinite(service.timeout) || service.timeout <= 0) {
+    problems.push('timeout must be a positive number of milliseconds');
+  }
+  return problems;
+}
+
+/**
+ * Checks that a configured endpoint is an absolute http(s) URL
+ *
+ * @returns A problem description, or null if the URL is usable
+ */
+export function checkEndpointUrl(field: string, value: unknown): string | null {
+  try {
+    const url = new URL(String(value));
+    return url.protocol === 'http:' || url.protocol === 'https:' ? null : `${field} must use http or https`;
+  } catch {
+    return `${field} must be an absolute URL`;
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Ping protocols and the services they ping
+ *
+ * Each registration binds a protocol (see ./protocol) to its configured
+ * services; the built-in ones come from the service groups in ./services. The pinger pings every registered service it is asked for, in
+ * registration order, so adding a protocol means implementing PingProtocol
+ * and registering it here (or with registerProtocol), never editing the
+ * handler. The service registry served by GET /api/services and checked by
+ * request validation is built from the same registrations.
+ */
+
+import type { ServiceDescriptor, XmlRpcService } from './types';
+import type { ServiceGroup } from './services';
+import { BUILT_IN_SERVICE_GROUPS } from './services';
+import type { PingProtocol, ProtocolService, ProtocolServiceConfig } from './protocol';
+import { bindProtocol } from './protocol';
+import { websubProtocol } from './websub';
+import { xmlrpcProtocol } from './xmlrpc';
+import { httpTemplateProtocol } from './httpTemplate';
+import { siteHubProtocol } from './feedDiscovery';
+import { indexNowProtocol } from './indexnow';
+
+// What a registration may depend on besides static configuration
+export interface ProtocolRunOptions {
+  customEndpoints: XmlRpcService[];   // The user's own XML-RPC endpoints
+}
+
+// Lists a protocol's services, bound to it, for one run
+export type ProtocolRegistration = (options: ProtocolRunOptions) => ProtocolService[];
+
+// The implementation behind each built-in service group
+const BUILT_IN_PROTOCOLS: Record<ServiceGroup['protocol'], PingProtocol<ProtocolServiceConfig, unknown>> = {
+  'websub': websubProtocol,
+  'xmlrpc': xmlrpcProtocol,
+  'http-template': httpTemplateProtocol,
+  'site-hub': siteHubProtocol,
+  'indexnow': indexNowProtocol
+};
+
+// The user's own endpoints are pinged over XML-RPC, after its built-in services
+const registrations: ProtocolRegistration[] = BUILT_IN_SERVICE_GROUPS.map(({ protocol, services }) =>
+  ({ customEndpoints }) => bindProtocol(
+    BUILT_IN_PROTOCOLS[protocol],
+    protocol === 'xmlrpc' ? [...services, ...customEndpoints] : services
+  )
+);
+
+/**
+ * Registers another protocol's services after the built-in ones
+ *
+ * @returns A function that removes the registration again
+ */
+export function registerProtocol(registration: ProtocolRegistration): () => void {
+  registrations.push(registration);
+  return () => {
+    const index = registrations.indexOf(registration);
+    if (index !== -1) registrations.splice(index, 1);
+  };
+}
+
+/**
+ * Returns every registered service, bound to its protocol
+ */
+export function getProtocolServices(options: ProtocolRunOptions = { customEndpoints: [] }): ProtocolService[] {
+  return registrations.flatMap(registration => registration(options));
+}
+
+/**
+ * Describes every registered service, in the order results are produced
+ * The user's own endpoints are not part of the registry.
+ */
+export function getServiceRegistry(): ServiceDescriptor[] {
+  return getProtocolServices().map(({ name, method, category, description, reachesServices, timeout, enabled }) => ({
+    name,
+    method,
+    category,
+    description,
+    reachesServices,
+    timeout,
+    enabled
+  }));
+}
@@ -0,0 +1,393 @@
+/**
+ * Server-side rate limiting
+ *
+ * Anonymous clients are limited by IP address; requests with a valid API
+ * key are limited by that key instead. Two policies apply to each identity:
+ * - a sliding window (RATE_LIMIT_MAX requests per RATE_LIMIT_WINDOW_MS)
+ * - a daily quota (RATE_LIMIT_DAILY requests per UTC day, or the key's
+ *   dailyQuota)
+ *
+ * Counters live in a pluggable CounterStore. On Netlify the default is
+ * BlobCounterStore, shared by every function of the site, so limits are
+ * global and GET /api/usage sees what the ping functions counted. Without
+ * a Blobs environment MemoryCounterStore counts per function instance;
+ * other shared stores plug in via setCounterStore().
+ */
+
+import type { Context } from '@netlify/functions';
+import type { ApiKey } from './apiKeys';
+import { jsonResponse } from './http';
+import type { JsonBlobStore } from './blobs';
+import { openBlobStore, updateJsonBlob } from './blobs';
+
+// Counter storage adapter; counters expire ttlMs after they are created
+export interface CounterStore {
+  get(key: string): Promise<number>;
+  increment(key: string, ttlMs: number, amount?: number): Promise<number>;
+}
+
+// Outcome of a rate limit check, for the most restrictive policy
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number;      // Epoch ms when the limiting counter resets
+  retryAfterMs: number; // 0 when allowed
+}
+
+export interface RateLimitConfig {
+  windowMs: number;
+  maxPerWindow: number;
+  maxPerDay: number;
+}
+
+// A policy's verdict plus the write that records the request against it
+interface PolicyCheck {
+  result: RateLimitResult;
+  commit: () => Promise<unknown>;
+}
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Defaults keep a single client well below what upstream ping services tolerate
+const DEFAULT_WINDOW_MS = 60_000;
+const DEFAULT_MAX_PER_WINDOW = 10;
+const DEFAULT_MAX_PER_DAY = 200;
+
+// Upper bound on counters kept by the in-memory adapter (oldest are evicted first)
+const MAX_MEMORY_COUNTERS = 10_000;
+
+/**
+ * In-memory counter store
+ * Counters only live as long as the function instance
+ */
+export class MemoryCounterStore implements CounterStore {
+  private counters = new Map<string, { count: number; expiresAt: number }>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  async get(key: string): Promise<number> {
+    const counter = this.counters.get(key);
+    if (!counter || counter.expiresAt <= this.now()) return 0;
+    return counter.count;
+  }
+
+  async increment(key: string, ttlMs: number, amount = 1): Promise<number> {
+    const now = this.now();
+    const existing = this.counters.get(key);
+    const counter = existing && existing.expiresAt > now
+      ? existing
+      : { count: 0, expiresAt: now + ttlMs };
+
+    counter.count += amount;
+    this.counters.delete(key);
+    this.counters.set(key, counter);
+
+    while (this.counters.size > MAX_MEMORY_COUNTERS) {
+      const oldestKey = this.counters.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.counters.delete(oldestKey);
+    }
+
+    return counter.count;
+  }
+}
+
+// A counter as stored in Netlify Blobs
+interface StoredCounter {
+  count: number;
+  expiresAt: number;
+}
+
+// Expired counters are swept at most this often per instance
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Counter store backed by Netlify Blobs, shared by every function of the site
+ *
+ * Increments are conditional writes, so concurrent increments are all
+ * counted. Blobs never expire by themselves: counter keys are not reused
+ * once they expire, and an hourly sweep deletes them.
+ */
+export class BlobCounterStore implements CounterStore {
+  private lastSweep: number;
+
+  constructor(
+    private readonly store: JsonBlobStore,
+    private readonly now: () => number = Date.now
+  ) {
+    this.lastSweep = now();
+  }
+
+  private async read(key: string): Promise<StoredCounter | null> {
+    const blob = await this.store.getWithMetadata(key, { type: 'json' });
+    return blob ? blob.data as StoredCounter : null;
+  }
+
+  async get(key: string): Promise<number> {
+    const counter = await this.read(key);
+    return counter && counter.expiresAt > this.now() ? counter.count : 0;
+  }
+
+  async increment(key: string, ttlMs: number, amount = 1): Promise<number> {
+    const now = this.now();
+    const counter = await updateJsonBlob<StoredCounter>(this.store, key, current =>
+      current && current.expiresAt > now
+        ? { count: current.count + amount, expiresAt: current.expiresAt }
+        : { count: amount, expiresAt: now + ttlMs }
+    );
+
+    if (now - this.lastSweep >= SWEEP_INTERVAL_MS) {
+      this.lastSweep = now;
+      this.sweep(now).catch(error => {
+        console.error('[RateLimit] Counter sweep failed:', error instanceof Error ? error.message : error);
+      });
+    }
+
+    return counter.count;
+  }
+
+  /**
+   * Deletes every expired counter
+   */
+  async sweep(now: number = this.now()): Promise<void> {
+    const { blobs } = await this.store.list();
+    for (const { key } of blobs) {
+      const counter = await this.read(key);
+      if (counter && counter.expiresAt <= now) {
+        await this.store.delete(key);
+      }
+    }
+  }
+}
+
+let counterStore: CounterStore | null = null;
+
+/**
+ * Returns the configured counter store (created on first use: Netlify Blobs
+ * where available, otherwise in-memory)
+ */
+export function getCounterStore(): CounterStore {
+  if (!counterStore) {
+    const blobs = openBlobStore('counters');
+    counterStore = blobs ? new BlobCounterStore(blobs) : new MemoryCounterStore();
+  }
+  return counterStore;
+}
+
+/**
+ * Overrides the counter store, e.g. with a shared store or a fresh one in tests
+ */
+export function setCounterStore(store: CounterStore): void {
+  counterStore = store;
+}
+
+/**
+ * Reads a positive integer from the environment, falling back to a default
+ */
+function readLimit(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Rate limit configuration from RATE_LIMIT_WINDOW_MS, RATE_LIMIT_MAX and RATE_LIMIT_DAILY
+ * An API key's own daily quota replaces RATE_LIMIT_DAILY.
+ */
+export function getRateLimitConfig(apiKey?: Pick<ApiKey, 'dailyQuota'>): RateLimitConfig {
+  return {
+    windowMs: readLimit('RATE_LIMIT_WINDOW_MS', DEFAULT_WINDOW_MS),
+    maxPerWindow: readLimit('RATE_LIMIT_MAX', DEFAULT_MAX_PER_WINDOW),
+    maxPerDay: apiKey?.dailyQuota ?? readLimit('RATE_LIMIT_DAILY', DEFAULT_MAX_PER_DAY)
+  };
+}
+
+/**
+ * Counter identity of an API key
+ */
+export function getKeyIdentity(apiKey: Pick<ApiKey, 'id'>): string {
+  return `key:${apiKey.id}`;
+}
+
+/**
+ * Identities a request is limited by: the API key when one was verified,
+ * otherwise the client IP
+ */
+export function getRateLimitIdentities(
+  req: Request,
+  context?: Pick<Context, 'ip'>,
+  apiKey?: Pick<ApiKey, 'id'>
+): string[] {
+  if (apiKey) {
+    return [getKeyIdentity(apiKey)];
+  }
+
+  const ip = context?.ip
+    || req.headers.get('x-nf-client-connection-ip')
+    || req.headers.get('x-forwarded-for')?.split(',')[0].trim()
+    || 'unknown';
+
+  return [`ip:${ip}`];
+}
+
+/**
+ * Sliding window check using the weighted sum of the current and previous fixed windows
+ */
+async function checkWindow(
+  store: CounterStore,
+  identity: string,
+  limit: number,
+  windowMs: number,
+  now: number
+): Promise<PolicyCheck> {
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  const currentKey = `${identity}:w:${windowMs}:${windowStart}`;
+  const previousKey = `${identity}:w:${windowMs}:${windowStart - windowMs}`;
+
+  const [current, previous] = await Promise.all([store.get(currentKey), store.get(previousKey)]);
+  const elapsed = now - windowStart;
+  const estimate = previous * (windowMs - elapsed) / windowMs + current;
+  const allowed = estimate + 1 <= limit;
+
+  let retryAfterMs = 0;
+  if (!allowed) {
+    if (current + 1 <= limit && previous > 0) {
+      // The previous window's weight decays enough within this window
+      const fraction = 1 - (limit - current - 1) / previous;
+      retryAfterMs = fraction * windowMs - elapsed;
+    } else {
+      // Wait for this window to become the previous one and decay
+      const fraction = current > 0 ? Math.max(0, 1 - (limit - 1) / current) : 0;
+      retryAfterMs = windowMs - elapsed + fraction * windowMs;
+    }
+  }
+
+  return {
+    result: {
+      allowed,
+      limit,
+      remaining: Math.max(0, Math.floor(limit - estimate - (allowed ? 1 : 0))),
+      resetAt: windowStart + windowMs,
+      retryAfterMs: Math.max(0, Math.ceil(retryAfterMs))
+    },
+    // Window counters must outlive the following window to weight it
+    commit: () => store.increment(currentKey, windowMs * 2)
+  };
+}
+
+/**
+ * Start of the UTC day containing the given time (epoch ms)
+ */
+export function getDayStart(now: number): number {
+  return Math.floor(now / DAY_MS) * DAY_MS;
+}
+
+/**
+ * Key of an identity's request counter for a UTC day
+ */
+function dailyCounterKey(identity: string, dayStart: number): string {
+  return `${identity}:d:${dayStart}`;
+}
+
+/**
+ * Requests an identity has made so far today
+ */
+export function getDailyUsage(
+  identity: string,
+  store: CounterStore = getCounterStore(),
+  now: number = Date.now()
+): Promise<number> {
+  return store.get(dailyCounterKey(identity, getDayStart(now)));
+}
+
+/**
+ * Daily quota check using a counter per UTC day
+ */
+async function checkDaily(
+  store: CounterStore,
+  identity: string,
+  limit: number,
+  now: number
+): Promise<PolicyCheck> {
+  const dayStart = getDayStart(now);
+  const key = dailyCounterKey(identity, dayStart);
+  const used = await store.get(key);
+  const allowed = used + 1 <= limit;
+  const resetAt = dayStart + DAY_MS;
+
+  return {
+    result: {
+      allowed,
+      limit,
+      remaining: Math.max(0, limit - used - (allowed ? 1 : 0)),
+      resetAt,
+      retryAfterMs: allowed ? 0 : resetAt - now
+    },
+    commit: () => store.increment(key, resetAt - now)
+  };
+}
+
+/**
+ * Checks every policy for every identity and records the request when all allow it
+ *
+ * Rejected requests are not counted, so a client that keeps retrying while
+ * limited is let through as soon as its window frees up. Counting is not
+ * atomic across instances; stores shared between instances may over-admit
+ * slightly under concurrent bursts.
+ */
+export async function consumeRateLimit(
+  identities: string[],
+  config: RateLimitConfig = getRateLimitConfig(),
+  store: CounterStore = getCounterStore(),
+  now: number = Date.now()
+): Promise<RateLimitResult> {
+  const checks = await Promise.all(identities.flatMap(identity => [
+    checkWindow(store, identity, config.maxPerWindow, config.windowMs, now),
+    checkDaily(store, identity, config.maxPerDay, now)
+  ]));
+
+  const results = checks.map(check => check.result);
+
+  const denied = results.filter(result => !result.allowed);
+  if (denied.length > 0) {
+    // Report the policy the client has to wait longest for
+    return denied.reduce((a, b) => (b.retryAfterMs > a.retryAfterMs ? b : a));
+  }
+
+  await Promise.all(checks.map(check => check.commit()));
+
+  return results.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+}
+
+/**
+ * X-RateLimit-* headers (plus Retry-After when limited) describing a check result
+ */
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(result.resetAt / 1000))
+  };
+
+  if (!result.allowed) {
+    headers['Retry-After'] = String(Math.max(1, Math.ceil(result.retryAfterMs / 1000)));
+  }
+
+  return headers;
+}
+
+/**
+ * 429 response for a request rejected by consumeRateLimit
+ */
+export function rateLimitExceededResponse(
+  result: RateLimitResult,
+  headers: Record<string, string>
+): Response {
+  const rateLimitHeaders = getRateLimitHeaders(result);
+  const retryAfter = Number(rateLimitHeaders['Retry-After']);
+
+  return jsonResponse({
+    error: `Rate limit exceeded. Please try again in ${retryAfter} seconds.`,
+    retryAfter
+  }, 429, { ...headers, ...rateLimitHeaders });
+}
@@ -0,0 +1,115 @@
+/**
+ * Retry handling for HTTP notifications
+ *
+ * Attempts that time out, fail at the network level or get a 5xx response
+ * are retried with exponential backoff. Anything else, including 429 rate
+ * limiting, is returned as it is.
+ */
+
+import { DEFAULT_RETRY_COUNT, RETRY_DELAY_MS } from './types';
+
+// The parts of a notification result that retry decisions look at
+export interface RetryableResult {
+  success: boolean;
+  statusCode: number;
+  message: string;
+  responseTime: number;
+}
+
+// Used when a 429/503 response has no usable Retry-After header
+const DEFAULT_RETRY_AFTER_SECONDS = 60;
+
+/**
+ * Delays execution for a specified time
+ */
+export function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Determines if a failed attempt is worth retrying
+ */
+export function isRetryableError(result: RetryableResult): boolean {
+  // Retry on timeout or 5xx errors
+  return result.message.includes('timed out') ||
+         result.message.includes('Network error') ||
+         (result.statusCode >= 500 && result.statusCode < 600);
+}
+
+/**
+ * Reads a Retry-After header as a number of seconds
+ *
+ * Retry-After can be either seconds (integer) or an HTTP-date.
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number {
+  if (!header) {
+    return DEFAULT_RETRY_AFTER_SECONDS;
+  }
+
+  if (/^\d+$/.test(header.trim())) {
+    return parseInt(header, 10);
+  }
+
+  const retryDate = new Date(header);
+  return isNaN(retryDate.getTime())
+    ? DEFAULT_RETRY_AFTER_SECONDS
+    : Math.max(0, Math.ceil((retryDate.getTime() - now) / 1000));
+}
+
+/**
+ * Retries that fit before a deadline
+ *
+ * @param timeout - Longest a single attempt can take
+ * @returns maxRetries if every attempt and backoff delay can finish by the deadline, otherwise 0
+ */
+export function getRetriesWithin(maxRetries: number, timeout: number, deadline: number): number {
+  const worstCaseTime = (1 + maxRetries) * timeout + RETRY_DELAY_MS * (2 ** maxRetries - 1);
+  return deadline - Date.now() >= worstCaseTime ? maxRetries : 0;
+}
+
+/**
+ * Runs an attempt until it succeeds, fails for a non-retryable reason or
+ * runs out of retries
+ *
+ * @param attempt - Sends one request; must not throw
+ * @param maxRetries - Retries after the first attempt
+ * @param label - Log prefix, e.g. "[WebSub] Google PubSubHubbub"
+ * @returns The last result, with the total response time of all attempts
+ */
+export async function withRetries<T extends RetryableResult>(
+  attempt: () => Promise<T>,
+  maxRetries: number = DEFAULT_RETRY_COUNT,
+  label: string = '[Retry]'
+): Promise<T> {
+  let result = await attempt();
+  let totalResponseTime = result.responseTime;
+  let retries = 0;
+
+  while (!result.success && isRetryableError(result) && retries < maxRetries) {
+    retries++;
+    console.log(`${label} failed (retryable): ${result.message}`);
+
+    // Exponential backoff delay
+    const backoffDelay = RETRY_DELAY_MS * Math.pow(2, retries - 1);
+    console.log(`${label} retry ${retries}/${maxRetries} after ${backoffDelay}ms`);
+    await delay(backoffDelay);
+
+    result = await attempt();
+    totalResponseTime += result.responseTime;
+  }
+
+  if (result.success) {
+    if (retries > 0) {
+      console.log(`${label} succeeded on retry ${retries}`);
+    }
+    return { ...result, responseTime: totalResponseTime };
+  }
+
+  if (!isRetryableError(result)) {
+    // Non-retryable error (e.g., 4xx HTTP error, rate limited)
+    console.log(`${label} non-retryable error: ${result.message}`);
+  }
+
+  const retriedMsg = retries > 0 ? ` (after ${retries + 1} attempts)` : '';
+  return { ...result, message: `${result.message}${retriedMsg}`, responseTime: totalResponseTime };
+}
@@ -0,0 +1,112 @@
+/**
+ * Fetching user-supplied URLs without SSRF exposure
+ *
+ * Pages named by users (backlink targets, discovered endpoints) are fetched
+ * with redirects followed by hand, so every hop is checked with
+ * checkUrlSafety before it is requested. Response bodies are read up to a
+ * size limit.
+ */
+
+import type { HostResolver } from './ssrf';
+import { checkUrlSafety } from './ssrf';
+
+export interface SafeFetchOptions {
+  /** Timeout in milliseconds, covering every redirect and reading the body */
+  timeout: number;
+  /** Redirects followed before giving up (default: 5) */
+  maxRedirects?: number;
+  /** Resolver for host names (defaults to the configured resolver) */
+  resolver?: HostResolver;
+}
+
+export type SafeFetchResult =
+  | { ok: true; response: Response; url: string }  // url: the final URL after redirects
+  | { ok: false; reason: string; timedOut?: boolean };
+
+const DEFAULT_MAX_REDIRECTS = 5;
+
+/**
+ * Fetches a URL, checking it and every redirect target for SSRF
+ */
+export async function fetchPublicUrl(
+  url: string,
+  init: RequestInit,
+  options: SafeFetchOptions
+): Promise<SafeFetchResult> {
+  const { timeout, maxRedirects = DEFAULT_MAX_REDIRECTS, resolver } = options;
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  let responded = false;
+
+  try {
+    let currentUrl = url;
+    let currentInit = init;
+
+    for (let redirects = 0; ; redirects++) {
+      const safety = await checkUrlSafety(currentUrl, { resolver });
+      if (!safety.safe) {
+        return { ok: false, reason: `${currentUrl}: ${safety.reason}` };
+      }
+
+      const response = await fetch(currentUrl, {
+        ...currentInit,
+        redirect: 'manual',
+        signal: controller.signal
+      });
+
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) {
+        // The timer keeps running so a stalled body is aborted too
+        responded = true;
+        return { ok: true, response, url: currentUrl };
+      }
+
+      if (redirects >= maxRedirects) {
+        return { ok: false, reason: `Too many redirects (more than ${maxRedirects})` };
+      }
+
+      currentUrl = new URL(location, currentUrl).href;
+      // 303 (and 301/302 for POST, as browsers do) switch to GET without a body
+      if (response.status === 303 || ((response.status === 301 || response.status === 302) && currentInit.method === 'POST')) {
+        currentInit = { ...currentInit, method: 'GET', body: undefined };
+      }
+    }
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      return { ok: false, reason: `Request timed out after ${timeout}ms`, timedOut: true };
+    }
+    return { ok: false, reason: `Network error: ${error instanceof Error ? error.message : 'Unknown error'}` };
+  } finally {
+    if (!responded) {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+/**
+ * Reads a response body as text, stopping after maxBytes
+ */
+export async function readLimitedText(response: Response, maxBytes: number): Promise<string> {
+  if (!response.body) {
+    return '';
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  let received = 0;
+
+  try {
+    while (received < maxBytes) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const chunk = value.subarray(0, maxBytes - received);
+      received += chunk.byteLength;
+      text += decoder.decode(chunk, { stream: true });
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+
+  return text + decoder.decode();
+}
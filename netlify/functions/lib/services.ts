@@ -0,0 +1,52 @@
+/**
+ * Ping service metadata
+ *
+ * The backend owns the list of ping services: the registry served by
+ * GET /api/services is built from the services registered with each ping
+ * protocol (see ./protocolRegistry), starting with the built-in groups
+ * below. This module only depends on the configuration in ./types, so the
+ * frontend can list the built-in services in development mode, where no
+ * functions run.
+ */
+
+import type { PingResult, ServiceDescriptor, ServiceMetadata } from './types';
+import type { ProtocolServiceConfig } from './protocol';
+import { WEBSUB_HUBS, XMLRPC_SERVICES, HTTP_TEMPLATE_SERVICES, SITE_HUB_SERVICE, INDEXNOW_SERVICE } from './types';
+
+/**
+ * Checks whether a service should be pinged (services are enabled unless configured otherwise)
+ */
+export function isServiceEnabled(service: Pick<ServiceMetadata, 'enabled'>): boolean {
+  return service.enabled !== false;
+}
+
+// The built-in services pinged by one protocol (see ./protocolRegistry)
+export interface ServiceGroup {
+  protocol: 'websub' | 'xmlrpc' | 'http-template' | 'site-hub' | 'indexnow';   // The protocol implementation
+  method: PingResult['method'];   // The method that protocol reports
+  services: ProtocolServiceConfig[];
+}
+
+// Every built-in service, grouped by protocol in registration order
+export const BUILT_IN_SERVICE_GROUPS: ServiceGroup[] = [
+  { protocol: 'websub', method: 'websub', services: WEBSUB_HUBS },
+  { protocol: 'xmlrpc', method: 'xmlrpc', services: XMLRPC_SERVICES },
+  { protocol: 'http-template', method: 'http-template', services: HTTP_TEMPLATE_SERVICES },
+  { protocol: 'site-hub', method: 'websub', services: [SITE_HUB_SERVICE] },
+  { protocol: 'indexnow', method: 'indexnow', services: [INDEXNOW_SERVICE] }
+];
+
+/**
+ * Describes a service as GET /api/services lists it
+ */
+export function describeService(service: ProtocolServiceConfig, method: PingResult['method']): ServiceDescriptor {
+  return {
+    name: service.name,
+    method,
+    category: service.category,
+    description: service.description,
+    reachesServices: service.reachesServices,
+    timeout: service.timeout,
+    enabled: isServiceEnabled(service)
+  };
+}
@@ -0,0 +1,227 @@
+/**
+ * SSRF protection for user-supplied URLs
+ *
+ * A URL is only accepted when every address it can reach is public:
+ * - IP literals are canonicalised by the WHATWG URL parser, so decimal, hex,
+ *   octal and shortened IPv4 forms (2130706433, 0x7f.1, 0177.1) are checked
+ *   as the address they really are
+ * - private, loopback, link-local, CGNAT, multicast, documentation and other
+ *   reserved IPv4/IPv6 ranges are rejected, including IPv4-mapped, NAT64 and
+ *   6to4 IPv6 addresses
+ * - internal host names (localhost, single-label names, *.internal,
+ *   *.local, cloud metadata hosts) are rejected without a lookup
+ * - other host names are resolved and rejected if any address is not public
+ * - ports can be restricted (ALLOWED_URL_PORTS=80,443)
+ *
+ * Resolution happens at validation time; a host that changes its records
+ * between the check and a later fetch is not caught here.
+ */
+
+import { BlockList, isIP } from 'node:net';
+import { lookup } from 'node:dns/promises';
+
+// Resolves a host name to its IP addresses
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+export type UrlSafetyResult =
+  | { safe: true }
+  | { safe: false; reason: string };
+
+export interface UrlSafetyOptions {
+  /** Resolver for host names (defaults to the system resolver) */
+  resolver?: HostResolver;
+  /** Ports the URL may use; any port when omitted (defaults to ALLOWED_URL_PORTS) */
+  allowedPorts?: number[];
+}
+
+// Give up on slow lookups rather than holding the request open
+const DNS_TIMEOUT_MS = 3000;
+
+// Kept apart because BlockList matches IPv4 addresses against IPv4-mapped IPv6 rules
+const BLOCKED_IPV4 = new BlockList();
+const BLOCKED_IPV6 = new BlockList();
+
+// IPv4 special-purpose ranges (RFC 6890 and successors)
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],        // "This" network
+  ['10.0.0.0', 8],       // Private
+  ['100.64.0.0', 10],    // Carrier-grade NAT
+  ['127.0.0.0', 8],      // Loopback
+  ['169.254.0.0', 16],   // Link-local (cloud metadata)
+  ['172.16.0.0', 12],    // Private
+  ['192.0.0.0', 24],     // IETF protocol assignments
+  ['192.0.2.0', 24],     // Documentation
+  ['192.88.99.0', 24],   // 6to4 relay anycast
+  ['192.168.0.0', 16],   // Private
+  ['198.18.0.0', 15],    // Benchmarking
+  ['198.51.100.0', 24],  // Documentation
+  ['203.0.113.0', 24],   // Documentation
+  ['224.0.0.0', 4],      // Multicast
+  ['240.0.0.0', 4]       // Reserved and broadcast
+] as const) {
+  BLOCKED_IPV4.addSubnet(network, prefix, 'ipv4');
+}
+
+// IPv6 special-purpose ranges; those embedding an IPv4 address are blocked
+// outright, since a public site never needs them
+for (const [network, prefix] of [
+  ['::', 96],            // Unspecified, loopback and IPv4-compatible
+  ['::ffff:0:0', 96],    // IPv4-mapped
+  ['64:ff9b::', 96],     // NAT64
+  ['64:ff9b:1::', 48],   // Local-use NAT64
+  ['100::', 64],         // Discard-only
+  ['2001::', 23],        // IETF protocol assignments (incl. Teredo)
+  ['2001:db8::', 32],    // Documentation
+  ['2002::', 16],        // 6to4
+  ['fc00::', 7],         // Unique local
+  ['fe80::', 10],        // Link-local
+  ['fec0::', 10],        // Site-local (deprecated)
+  ['ff00::', 8]          // Multicast
+] as const) {
+  BLOCKED_IPV6.addSubnet(network, prefix, 'ipv6');
+}
+
+// Cloud metadata and other internal names that must never be contacted
+const BLOCKED_HOSTNAMES = new Set([
+  'localhost',
+  'metadata',
+  'metadata.google.internal',
+  'metadata.azure.com',
+  'instance-data',
+  'instance-data.ec2.internal'
+]);
+
+const BLOCKED_HOSTNAME_SUFFIXES = ['.localhost', '.local', '.internal', '.localdomain', '.home.arpa', '.lan'];
+
+/**
+ * Checks whether an IP address is in a private, loopback or reserved range
+ */
+export function isBlockedAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 0) return true;
+  return version === 4
+    ? BLOCKED_IPV4.check(address, 'ipv4')
+    : BLOCKED_IPV6.check(address, 'ipv6');
+}
+
+/**
+ * Resolves a host name with the system resolver, returning every address
+ */
+async function systemResolver(hostname: string): Promise<string[]> {
+  const records = await lookup(hostname, { all: true, verbatim: true });
+  return records.map(record => record.address);
+}
+
+let hostResolver: HostResolver = systemResolver;
+
+/**
+ * Replaces the default host resolver, e.g. with a stub in tests
+ */
+export function setHostResolver(resolver: HostResolver): void {
+  hostResolver = resolver;
+}
+
+/**
+ * Ports allowed by ALLOWED_URL_PORTS, or undefined when any port is allowed
+ */
+function getAllowedPorts(): number[] | undefined {
+  const ports = (process.env.ALLOWED_URL_PORTS || '')
+    .split(',')
+    .map(port => parseInt(port.trim(), 10))
+    .filter(port => Number.isInteger(port) && port > 0);
+  return ports.length > 0 ? ports : undefined;
+}
+
+/**
+ * Checks a URL without resolving its host name
+ *
+ * @returns The canonical host (IP literals without brackets) to resolve next,
+ * or the reason the URL is rejected
+ */
+export function checkUrlTarget(
+  url: string,
+  allowedPorts: number[] | undefined = getAllowedPorts()
+): { safe: true; host: string; isIpLiteral: boolean } | { safe: false; reason: string } {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return { safe: false, reason: 'Invalid URL format' };
+  }
+
+  if (!['http:', 'https:'].includes(parsed.protocol)) {
+    return { safe: false, reason: 'Only HTTP/HTTPS URLs are allowed' };
+  }
+
+  if (parsed.username || parsed.password) {
+    return { safe: false, reason: 'URLs with credentials are not allowed' };
+  }
+
+  const port = parsed.port ? Number(parsed.port) : (parsed.protocol === 'https:' ? 443 : 80);
+  if (allowedPorts && !allowedPorts.includes(port)) {
+    return { safe: false, reason: `Port ${port} is not allowed` };
+  }
+
+  // The URL parser has already normalised numeric IPv4 forms and IPv6 literals
+  const host = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+
+  if (isIP(host) !== 0) {
+    return isBlockedAddress(host)
+      ? { safe: false, reason: 'Private or reserved IP addresses are not allowed' }
+      : { safe: true, host, isIpLiteral: true };
+  }
+
+  if (
+    BLOCKED_HOSTNAMES.has(host)
+    || BLOCKED_HOSTNAME_SUFFIXES.some(suffix => host.endsWith(suffix))
+    || !host.includes('.')
+  ) {
+    return { safe: false, reason: 'Internal host names are not allowed' };
+  }
+
+  return { safe: true, host, isIpLiteral: false };
+}
+
+/**
+ * Checks that a URL only reaches public addresses, resolving its host name
+ */
+export async function checkUrlSafety(
+  url: string,
+  options: UrlSafetyOptions = {}
+): Promise<UrlSafetyResult> {
+  const target = checkUrlTarget(url, options.allowedPorts ?? getAllowedPorts());
+  if (!target.safe) {
+    return target;
+  }
+
+  if (target.isIpLiteral) {
+    return { safe: true };
+  }
+
+  const resolver = options.resolver ?? hostResolver;
+  let addresses: string[];
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    addresses = await Promise.race([
+      resolver(target.host),
+      new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(() => reject(new Error('DNS lookup timed out')), DNS_TIMEOUT_MS);
+      })
+    ]);
+  } catch {
+    return { safe: false, reason: 'Host name could not be resolved' };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  if (addresses.length === 0) {
+    return { safe: false, reason: 'Host name could not be resolved' };
+  }
+
+  if (addresses.some(isBlockedAddress)) {
+    return { safe: false, reason: 'Host name resolves to a private or reserved IP address' };
+  }
+
+  return { safe: true };
+}
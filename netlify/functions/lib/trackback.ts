@@ -0,0 +1,217 @@
+/**
+ * Trackback client for legacy blog backlinks
+ *
+ * Older blog platforms (Movable Type, early WordPress, Serendipity)
+ * advertise a Trackback URL in an RDF block embedded in each entry:
+ *
+ *   <rdf:RDF ...>
+ *     <rdf:Description rdf:about="..." dc:identifier="<entry permalink>"
+ *       trackback:ping="<trackback URL>" />
+ *   </rdf:RDF>
+ *
+ * The block is usually wrapped in an HTML comment, and index pages carry
+ * one per entry, so the description whose dc:identifier matches the target
+ * is preferred. The ping is a form-encoded POST of url, title, excerpt and
+ * blog_name, answered with <response><error>0|1</error></response>.
+ * Pings are not retried: a repeated ping can show up as a second comment.
+ *
+ * @see https://www.movabletype.org/documentation/trackback/specification.html
+ */
+
+import type { Backlink, PingClassification, PingResult, TrackbackResult } from './types';
+import { BACKLINK_TIMEOUT_MS } from './types';
+import { fetchPublicUrl, readLimitedText } from './safeFetch';
+import { decodeHtmlAttribute, fetchTargetPage, getAttribute } from './linkDiscovery';
+import { classifyResponse } from './outcomes';
+
+// Largest Trackback response read
+const MAX_RESPONSE_BYTES = 16 * 1024;
+
+// Receivers conventionally keep the first 255 characters of an excerpt
+const MAX_EXCERPT_LENGTH = 255;
+
+const USER_AGENT = 'OnwardSEO-Pinger/2.0';
+
+/**
+ * Compares page URLs, ignoring fragments and a trailing slash
+ */
+function isSamePage(a: string, b: string): boolean {
+  const canonical = (url: string) => {
+    try {
+      const parsed = new URL(url);
+      parsed.hash = '';
+      return parsed.href.replace(/\/$/, '');
+    } catch {
+      return url;
+    }
+  };
+  return canonical(a) === canonical(b);
+}
+
+/**
+ * Finds the Trackback URL for a target in a page's embedded RDF
+ *
+ * @param html - The target page, or its first MAX_DISCOVERY_BYTES
+ * @param target - The target URL, matched against dc:identifier
+ * @param baseUrl - The page URL, for resolving relative Trackback URLs
+ */
+export function findTrackbackUrl(html: string, target: string, baseUrl: string): string | null {
+  const candidates: { pingUrl: string; identifier: string | null }[] = [];
+
+  for (const match of html.matchAll(/<rdf:Description\b[^>]*>/gi)) {
+    const ping = getAttribute(match[0], 'trackback:ping');
+    if (!ping) continue;
+
+    try {
+      candidates.push({
+        pingUrl: new URL(ping.trim(), baseUrl).href,
+        identifier: getAttribute(match[0], 'dc:identifier') ?? getAttribute(match[0], 'rdf:about')
+      });
+    } catch {
+      // Unusable URL; keep looking
+    }
+  }
+
+  const matching = candidates.find(candidate => candidate.identifier && (
+    isSamePage(candidate.identifier, target) || isSamePage(candidate.identifier, baseUrl)
+  ));
+  if (matching) {
+    return matching.pingUrl;
+  }
+
+  // A single block belongs to the page, whatever it calls itself
+  return candidates.length === 1 ? candidates[0].pingUrl : null;
+}
+
+/**
+ * Parses a Trackback response
+ *
+ * @returns Whether the receiver reported an error, and its message
+ */
+export function parseTrackbackResponse(xml: string): { flerror: boolean; message: string } | null {
+  const error = xml.match(/<error>\s*(\d+)\s*<\/error>/i);
+  if (!error) {
+    return null;
+  }
+
+  const flerror = error[1] !== '0';
+  const messageMatch = xml.match(/<message>([\s\S]*?)<\/message>/i);
+  const message = messageMatch
+    ? decodeHtmlAttribute(messageMatch[1].replace(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/, '$1')).trim()
+    : '';
+
+  return { flerror, message: message || (flerror ? 'Trackback rejected' : 'Trackback accepted') };
+}
+
+/**
+ * Sends a Trackback ping to a known Trackback URL
+ *
+ * @param endpoint - The target's Trackback URL
+ * @param link - The source (sent as url, with its title, excerpt and blog name) and target
+ * @param timeout - Request timeout in milliseconds
+ */
+export async function pingTrackback(
+  endpoint: string,
+  link: Backlink,
+  timeout: number = BACKLINK_TIMEOUT_MS
+): Promise<TrackbackResult> {
+  const startTime = Date.now();
+  const result = (success: boolean, flerror: boolean, message: string, statusCode = 0): TrackbackResult => ({
+    success,
+    flerror,
+    message,
+    endpoint,
+    responseTime: Date.now() - startTime,
+    statusCode
+  });
+
+  const body = new URLSearchParams({ url: link.source });
+  if (link.title) body.set('title', link.title);
+  if (link.excerpt) {
+    body.set('excerpt', link.excerpt.length > MAX_EXCERPT_LENGTH
+      ? `${link.excerpt.slice(0, MAX_EXCERPT_LENGTH - 3)}...`
+      : link.excerpt);
+  }
+  if (link.blogName) body.set('blog_name', link.blogName);
+
+  const fetched = await fetchPublicUrl(endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded; charset=utf-8',
+      'User-Agent': USER_AGENT
+    },
+    body: body.toString()
+  }, { timeout });
+
+  if (!fetched.ok) {
+    return result(false, false, fetched.reason);
+  }
+
+  if (!fetched.response.ok) {
+    await fetched.response.body?.cancel();
+    return result(false, false, `HTTP ${fetched.response.status}: ${fetched.response.statusText}`, fetched.response.status);
+  }
+
+  const parsed = parseTrackbackResponse(await readLimitedText(fetched.response, MAX_RESPONSE_BYTES));
+  if (!parsed) {
+    return result(false, false, 'Invalid Trackback response', fetched.response.status);
+  }
+
+  return result(!parsed.flerror, parsed.flerror, parsed.message, fetched.response.status);
+}
+
+/**
+ * Sends a Trackback for one source → target link
+ *
+ * @param link - The linking (source) and linked (target) pages
+ * @param timeout - Timeout for discovery and for the ping, each
+ * @param endpoint - The target's Trackback URL, when already discovered
+ * @returns A ping result for the source URL, never throwing
+ */
+export async function sendTrackback(
+  link: Backlink,
+  timeout: number = BACKLINK_TIMEOUT_MS,
+  endpoint?: string
+): Promise<PingResult> {
+  const startTime = Date.now();
+  const result = (success: boolean, message: string, classification: PingClassification): PingResult => ({
+    service: 'Trackback',
+    url: link.source,
+    success,
+    message,
+    method: 'trackback',
+    ...classification,
+    responseTime: Date.now() - startTime,
+    error: success ? undefined : message
+  });
+
+  try {
+    let trackbackUrl = endpoint;
+    if (trackbackUrl === undefined) {
+      const fetched = await fetchTargetPage(link.target, timeout);
+      if (!fetched.ok) {
+        return result(false, fetched.message, fetched.outcome === 'target_not_found'
+          ? { outcome: 'rejected', reason: 'http_error' }
+          : { outcome: 'unreachable', reason: 'network_error' });
+      }
+
+      const found = findTrackbackUrl(fetched.page.html, link.target, fetched.page.url);
+      if (!found) {
+        return result(false, 'The target does not advertise a Trackback URL', { outcome: 'rejected', reason: 'not_supported' });
+      }
+      trackbackUrl = found;
+    }
+
+    const ping = await pingTrackback(trackbackUrl, link, timeout);
+    return result(ping.success, ping.message, classifyResponse({
+      statusCode: ping.statusCode,
+      message: ping.message,
+      flerror: ping.flerror,
+      invalidResponse: ping.statusCode >= 200 && ping.statusCode < 300 && !ping.success && !ping.flerror
+    }));
+  } catch (error) {
+    // Log detailed error internally for debugging (not exposed to client)
+    console.error('[Trackback] Unexpected error:', error instanceof Error ? error.message : error);
+    return result(false, 'Trackback request failed', { outcome: 'unreachable', reason: 'network_error' });
+  }
+}
@@ -9,31 +9,170 @@ export interface XmlRpcPingResult {
   message: string;
   endpoint: string;
   responseTime: number;
+  statusCode: number;        // HTTP status, 0 when no response arrived
+  method?: XmlRpcPingMethod; // The method the result answers
+  faultCode?: number;        // Set when the service returned an XML-RPC fault
+  invalidResponse?: boolean; // Set when the body was not a methodResponse
 }
 
-// WebSub notification result
+// WebSub notification result (one per hub)
 export interface WebSubResult {
   success: boolean;
   statusCode: number;
   message: string;
+  hubName: string;
   hubUrl: string;
   responseTime: number;
   retryAfter?: number; // Seconds to wait before retrying (from Retry-After header)
 }
 
+// Trackback ping result
+export interface TrackbackResult {
+  success: boolean;
+  flerror: boolean; // The receiver answered with <error>1</error>
+  message: string;
+  endpoint: string;
+  responseTime: number;
+  statusCode: number; // HTTP status, 0 when no response arrived
+}
+
+// IndexNow submission result (one per key file host)
+export interface IndexNowResult {
+  success: boolean;
+  statusCode: number;
+  message: string;
+  endpoint: string;
+  responseTime: number;
+}
+
+// HTTP template ping result
+export interface HttpTemplateResult {
+  success: boolean;
+  statusCode: number;
+  message: string;
+  endpoint: string;          // The expanded request URL
+  responseTime: number;
+  bodyMismatch?: boolean;    // The status was accepted but the body did not match
+}
+
+// How a service answered a ping (see lib/outcomes)
+export type PingOutcome =
+  | 'accepted'            // Processed or queued by the service
+  | 'throttled'           // Asked to slow down; retry later
+  | 'rejected'            // The service refused the ping
+  | 'unreachable';        // No usable answer (or never contacted)
+
+// Reason code behind an outcome
+export type PingReason =
+  | 'processed'           // accepted: handled right away (HTTP 200/204, flerror 0)
+  | 'queued'              // accepted: HTTP 202, processed asynchronously
+  | 'rate_limited'        // throttled: HTTP 429 or a "slow down" message
+  | 'refused'             // rejected: flerror set
+  | 'fault'               // rejected: XML-RPC fault
+  | 'auth_required'       // rejected: HTTP 401/403
+  | 'http_error'          // rejected: other 3xx/4xx
+  | 'not_supported'       // rejected: the page offers nothing to notify
+  | 'server_error'        // unreachable: HTTP 5xx
+  | 'invalid_response'    // unreachable: body was not the expected format
+  | 'timeout'             // unreachable: no answer in time
+  | 'network_error'       // unreachable: DNS or connection failure
+  | 'blocked'             // unreachable: the SSRF guard refused the address
+  | 'not_configured'      // unreachable: missing credentials
+  | 'skipped';            // unreachable: not attempted (execution budget)
+
+export interface PingClassification {
+  outcome: PingOutcome;
+  reason: PingReason;
+}
+
 // Individual ping result for API response
-export interface PingResult {
+export interface PingResult extends PingClassification {
   service: string;
+  url: string; // The submitted URL this result belongs to
   success: boolean;
   message: string;
-  method: 'xmlrpc' | 'websub';
+  method: string; // The protocol that sent the ping, e.g. 'websub' or 'xmlrpc' (see ./protocol)
   responseTime: number;
+  retryAfter?: number; // Seconds the service asked to wait (throttled results)
   error?: string;
 }
 
+// Outcome of notifying a backlink target, with pingback faults mapped to names
+export type BacklinkOutcome =
+  | 'registered'          // The target accepted the notification
+  | 'accepted'            // Webmention 201/202: queued for processing (see statusUrl)
+  | 'source_not_found'    // 0x0010: the source URI does not exist
+  | 'no_link'             // 0x0011: the source does not link to the target
+  | 'target_not_found'    // 0x0020: the target URI does not exist
+  | 'target_not_allowed'  // 0x0021: the target cannot receive pingbacks
+  | 'already_registered'  // 0x0030: the pingback has already been registered
+  | 'access_denied'       // 0x0031: the server refused the request
+  | 'upstream_error'      // 0x0032: the server could not reach an upstream server
+  | 'fault'               // Any other fault, a Webmention rejected with a 4xx response or a Trackback error
+  | 'not_supported'       // The target advertises no Webmention, pingback or Trackback endpoint
+  | 'error';              // HTTP, network or timeout error, or an invalid response
+
+// Protocols used to notify backlink targets
+export type BacklinkProtocol = 'pingback' | 'webmention' | 'trackback';
+
+// Result of checking that a backlink's source page links to its target
+export interface SourceVerification {
+  verified: boolean;
+  message: string;
+  anchorText?: string;  // Visible text of the link (image alt text included)
+  nofollow?: boolean;   // rel values of the link, when found
+  ugc?: boolean;
+  sponsored?: boolean;
+}
+
+// Result of notifying one backlink target
+export interface BacklinkResult {
+  source: string;
+  target: string;
+  protocol?: BacklinkProtocol;  // Set once the target's endpoint is known
+  verification?: SourceVerification;
+  success: boolean;
+  outcome: BacklinkOutcome;
+  message: string;
+  faultCode?: number;  // Fault code returned by a pingback server
+  endpoint?: string;   // The discovered pingback server, Webmention endpoint or Trackback URL
+  statusUrl?: string;  // Webmention status page (Location of a 201/202 response)
+  responseTime: number;
+}
+
+// A source page that links to a target page
+export interface Backlink {
+  source: string;
+  target: string;
+  title?: string;      // title, excerpt and blogName describe the source to Trackback receivers
+  excerpt?: string;
+  blogName?: string;
+}
+
+// Request body for /api/backlinks endpoint
+export interface BacklinkRequest {
+  links: Backlink[];
+}
+
+// Response body for /api/backlinks endpoint
+export interface BacklinkResponse {
+  success: boolean;
+  results: BacklinkResult[];
+  totalTime: number;
+}
+
 // Request body for /api/ping endpoint
 export interface PingRequest {
   urls: string[];
+  services?: string[]; // Service names to ping (default: every enabled service)
+  siteFeedUrl?: string; // The site's RSS/Atom feed, for extended pings (default: discovered from each page)
+  customEndpoints?: CustomEndpoint[]; // The user's own weblogUpdates.ping endpoints, pinged in addition to the services
+}
+
+// A weblogUpdates.ping endpoint registered by the user (stored in their browser)
+export interface CustomEndpoint {
+  name: string;
+  url: string;
 }
 
 // Response body for /api/ping endpoint
@@ -42,14 +181,103 @@ export interface PingResponse {
   results: PingResult[];
   totalTime: number;
   feedUrl?: string;
+  skippedServices?: string[]; // Registry services not pinged for this request
+}
+
+// Event written by the streaming /api/ping variant (one JSON object per NDJSON line)
+// A 'result' event is sent for each URL × service pair as soon as it completes,
+// followed by exactly one 'summary' (or 'error') event before the stream closes
+export type PingStreamEvent =
+  | { type: 'result'; result: PingResult }
+  | { type: 'summary'; success: boolean; total: number; totalTime: number; feedUrl?: string; skippedServices?: string[] }
+  | { type: 'error'; error: string };
+
+// Content type used to request and serve the streaming variant
+export const NDJSON_CONTENT_TYPE = 'application/x-ndjson';
+
+// Catalogue metadata shown to users for every ping service
+export interface ServiceMetadata {
+  category: string;           // Category used for filtering in the UI
+  description: string;        // Human-readable description
+  reachesServices: string[];  // Downstream services this ping reaches
+  enabled?: boolean;          // Disabled services are listed but never pinged (default: true)
 }
 
 // XML-RPC service configuration
-export interface XmlRpcService {
+// weblogUpdates.ping(name, url) or
+// weblogUpdates.extendedPing(name, url, changesUrl, rssUrl)
+export type XmlRpcPingMethod = 'weblogUpdates.ping' | 'weblogUpdates.extendedPing';
+
+export interface XmlRpcService extends ServiceMetadata {
   name: string;
   endpoint: string;
   timeout: number;
   maxRetries?: number; // Optional retry count (default: 2)
+  pingMethod?: XmlRpcPingMethod; // Richest method the endpoint accepts (default: weblogUpdates.ping)
+  custom?: boolean; // Registered by the user: requests go through the SSRF guard
+}
+
+// Credentials for hubs that only accept authenticated publish requests
+// Secrets stay out of the source: credentialsEnv names the environment
+// variable holding "user:password" (basic) or the token (bearer)
+export interface WebSubHubAuth {
+  type: 'basic' | 'bearer';
+  credentialsEnv: string;
+}
+
+// WebSub hub configuration
+export interface WebSubHub extends ServiceMetadata {
+  name: string;
+  url: string;
+  timeout: number;
+  maxRetries?: number; // Optional retry count (default: 1)
+  auth?: WebSubHubAuth;
+  discovered?: boolean; // Declared by a user-supplied page or feed: requests go through the SSRF guard
+}
+
+// Discovery of a page's own feeds and the WebSub hubs they declare
+export interface SiteHubService extends ServiceMetadata {
+  name: string;
+  timeout: number;   // For each request: the page, each feed and each hub
+  maxFeeds: number;  // Feeds published per page
+  maxHubs: number;   // Hubs notified per feed
+}
+
+// IndexNow endpoint configuration
+export interface IndexNowService extends ServiceMetadata {
+  name: string;
+  endpoint: string;
+  timeout: number;
+  maxRetries?: number; // Optional retry count (default: 1)
+}
+
+// When an HTTP template ping counts as accepted
+export interface HttpTemplateSuccessRule {
+  statuses?: number[];  // Accepted HTTP statuses (default: any 2xx)
+  bodyMatch?: string;   // Pattern the response body must also match (case-insensitive)
+}
+
+// Ping endpoint that takes the page in its URL, e.g. https://example/ping?url={url}&name={name}
+// {url} (the page), {name} (the site name) and {feed} (the site's feed, empty
+// when unknown) are replaced with URL-encoded values; nothing is sent in the body
+export interface HttpTemplateService extends ServiceMetadata {
+  name: string;
+  urlTemplate: string;
+  method: 'GET' | 'POST';
+  timeout: number;
+  maxRetries?: number; // Optional retry count (default: 1)
+  success?: HttpTemplateSuccessRule;
+}
+
+// Public description of a ping service, served by GET /api/services
+export interface ServiceDescriptor {
+  name: string;
+  method: PingResult['method'];
+  category: string;
+  description: string;
+  reachesServices: string[];
+  timeout: number;
+  enabled: boolean;
 }
 
 // Retry configuration
@@ -62,6 +290,10 @@ export const RETRY_DELAY_MS = 500; // Reduced base delay for exponential backoff
 // Netlify limit is 30s, we use 25s to ensure graceful completion
 export const MAX_FUNCTION_EXECUTION_MS = 25000;
 
+// Background function execution budget
+// Netlify background functions run for up to 15 minutes, we use 14
+export const MAX_BACKGROUND_EXECUTION_MS = 14 * 60 * 1000;
+
 // List of XML-RPC ping services
 // Verified working as of December 2025
 // REMOVED: Yandex Blogs (deprecated/blocking automated requests)
@@ -71,79 +303,113 @@ export const XMLRPC_SERVICES: XmlRpcService[] = [
     name: 'Ping-o-Matic',           // WordPress Foundation service - most reliable
     endpoint: 'http://rpc.pingomatic.com/RPC2',
     timeout: 10000,                  // 10s timeout (reduced from 15s)
-    maxRetries: 1                    // Reduced from 2
+    maxRetries: 1,                   // Reduced from 2
+    pingMethod: 'weblogUpdates.extendedPing',
+    category: 'Blog Networks',
+    description: 'Pings 10+ blog aggregators and services',
+    reachesServices: [
+      'Feedburner',
+      'Superfeedr',
+      'Spinn3r',
+      'Blo.gs',
+      'Moreover',
+      'Syndic8',
+      'NewsGator',
+      'Audio.weblogs.com'
+    ]
   },
   {
     name: 'Twingly',                // Swedish blog search engine
     endpoint: 'https://rpc.twingly.com/',  // HTTPS required per Twingly docs
     timeout: 10000,                  // 10s timeout (reduced from 15s)
-    maxRetries: 1                    // Reduced from 2
+    maxRetries: 1,                   // Reduced from 2
+    pingMethod: 'weblogUpdates.extendedPing',
+    category: 'Blog Networks',
+    description: 'Swedish blog search and aggregator',
+    reachesServices: ['Twingly Blog Search']
   }
 ];
 
-// WebSub hub configuration
-// Google's hub still uses the PubSubHubbub name (protocol is now WebSub per W3C)
-export const WEBSUB_HUB = {
-  name: 'Google PubSubHubbub',       // Official Google hub name
-  url: 'https://pubsubhubbub.appspot.com/',
-  timeout: 10000,                    // 10s timeout (reduced from 15s)
-  maxRetries: 1                      // Reduced from 2
+// Legacy ping and sitemap endpoints driven by a URL template (see HttpTemplateService)
+// Add one without writing a protocol client, e.g.
+// { name: 'Regional Ping', urlTemplate: 'https://ping.example.com/ping?url={url}&name={name}',
+//   method: 'GET', timeout: 5000, success: { statuses: [200], bodyMatch: 'thanks' },
+//   category, description, reachesServices }
+export const HTTP_TEMPLATE_SERVICES: HttpTemplateService[] = [];
+
+// WebSub hubs notified about the generated feed, all advertised by /api/feed/:id
+// Add a self-hosted or private hub with its own timeout, retries and auth, e.g.
+// { name: 'Our Hub', url: 'https://hub.example.com/', timeout: 5000, maxRetries: 0,
+//   auth: { type: 'bearer', credentialsEnv: 'OUR_HUB_TOKEN' }, category, description, reachesServices }
+export const WEBSUB_HUBS: WebSubHub[] = [
+  {
+    // Google's hub still uses the PubSubHubbub name (protocol is now WebSub per W3C)
+    name: 'Google PubSubHubbub',     // Official Google hub name
+    url: 'https://pubsubhubbub.appspot.com/',
+    timeout: 10000,                  // 10s timeout (reduced from 15s)
+    maxRetries: 1,                   // Reduced from 2
+    category: 'Search Engines',
+    description: 'Notifies Google via PubSubHubbub protocol',
+    reachesServices: ['Google Search', 'Google News']
+  },
+  {
+    name: 'Superfeedr',              // Open hub, accepts publish pings for any feed
+    url: 'https://pubsubhubbub.superfeedr.com/',
+    timeout: 10000,
+    maxRetries: 1,
+    category: 'Feed Readers',
+    description: 'Notifies feed readers subscribed through the Superfeedr hub',
+    reachesServices: ['Superfeedr subscribers'],
+    enabled: false                   // Opt in once feeds are meant for readers
+  }
+];
+
+// The submitted page's own feeds, published to the hubs the site declares
+// Unlike WEBSUB_HUBS, which receive the generated /api/feed, subscribers
+// of the site's real feeds get a genuine update signal
+export const SITE_HUB_SERVICE: SiteHubService = {
+  name: 'Site WebSub Hubs',
+  timeout: 5000,                     // Page, feeds and hubs run one after another
+  maxFeeds: 3,
+  maxHubs: 3,
+  category: 'Feed Readers',
+  description: "Publishes the page's own RSS/Atom feeds to the WebSub hubs they declare",
+  reachesServices: ['Feed subscribers'],
+  enabled: false                     // Opt in: fetches every submitted page and publishes to hubs the site chooses
 };
 
+// IndexNow endpoint
+// Participating engines share submissions, so the shared endpoint reaches all of them.
+// Off by default: enable it once the submitted sites serve this site's key file
+// (each host's file is checked before submitting, see ./indexnow).
+export const INDEXNOW_SERVICE: IndexNowService = {
+  name: 'IndexNow',
+  endpoint: 'https://api.indexnow.org/indexnow',
+  timeout: 10000,
+  maxRetries: 1,
+  enabled: false,
+  category: 'Search Engines',
+  description: 'Notifies Bing, Yandex and other engines via IndexNow',
+  reachesServices: ['Bing', 'Yandex', 'Seznam', 'Naver', 'Yep']
+};
+
+// Backlink discovery and request timeouts (each; discovery may follow redirects)
+export const BACKLINK_TIMEOUT_MS = 8000;
+export const WEBMENTION_MAX_RETRIES = 1;
+export const MAX_BACKLINK_TEXT_LENGTH = 1000; // Trackback title, excerpt and blog name
+
+// User-registered XML-RPC endpoints, listed under their own category
+export const CUSTOM_ENDPOINT_CATEGORY = 'Custom';
+export const CUSTOM_ENDPOINT_TIMEOUT_MS = 8000;
+export const MAX_CUSTOM_ENDPOINTS = 5;
+export const MAX_CUSTOM_ENDPOINT_NAME_LENGTH = 60;
+
 // Validation constants
 export const MAX_URLS = 5;
 export const MAX_BODY_SIZE = 50 * 1024; // 50KB - sufficient for 5 URLs with metadata
-export const URL_PATTERN = /^https?:\/\/[^\s/$.?#].[^\s]*$/i;
 
 // Batch processing - limits concurrent requests to prevent rate limiting
-// 2 URLs × 3 services (Google, Ping-o-Matic, Twingly) = 6 concurrent requests max
+// 2 URLs × (enabled WebSub hubs + XML-RPC services) + 1 IndexNow submission
+// = 7 concurrent requests with the default services (Google, Ping-o-Matic, Twingly)
 export const BATCH_SIZE = 2;
 
-// SSRF prevention - block private/internal IP ranges
-const BLOCKED_HOSTS = [
-  'localhost',
-  '127.0.0.1',
-  '0.0.0.0',
-  '::1',
-  '[::1]'
-];
-
-const PRIVATE_IP_PATTERNS = [
-  /^10\.\d{1,3}\.\d{1,3}\.\d{1,3}$/,      // 10.0.0.0/8
-  /^172\.(1[6-9]|2\d|3[01])\.\d{1,3}\.\d{1,3}$/, // 172.16.0.0/12
-  /^192\.168\.\d{1,3}\.\d{1,3}$/,          // 192.168.0.0/16
-  /^169\.254\.\d{1,3}\.\d{1,3}$/,          // Link-local
-  /^fc[0-9a-f]{2}:/i,                       // IPv6 unique local
-  /^fe80:/i                                  // IPv6 link-local
-];
-
-/**
- * Validates that a URL doesn't target internal/private networks (SSRF prevention)
- */
-export function isUrlSafe(url: string): { safe: boolean; reason?: string } {
-  try {
-    const parsed = new URL(url);
-    const hostname = parsed.hostname.toLowerCase();
-
-    // Block localhost and known dangerous hosts
-    if (BLOCKED_HOSTS.includes(hostname)) {
-      return { safe: false, reason: 'Localhost URLs are not allowed' };
-    }
-
-    // Block private IP ranges
-    for (const pattern of PRIVATE_IP_PATTERNS) {
-      if (pattern.test(hostname)) {
-        return { safe: false, reason: 'Private IP addresses are not allowed' };
-      }
-    }
-
-    // Block file:// and other non-http schemes (shouldn't pass URL_PATTERN but double-check)
-    if (!['http:', 'https:'].includes(parsed.protocol)) {
-      return { safe: false, reason: 'Only HTTP/HTTPS URLs are allowed' };
-    }
-
-    return { safe: true };
-  } catch {
-    return { safe: false, reason: 'Invalid URL format' };
-  }
-}
@@ -0,0 +1,71 @@
+/**
+ * Usage accounting for API keys
+ *
+ * Requests are counted by the rate limiter's daily quota counter; the URLs
+ * submitted with each request are counted here. Both live in the rate
+ * limiter's CounterStore and reset at midnight UTC.
+ */
+
+import type { ApiKey } from './apiKeys';
+import type { CounterStore } from './rateLimit';
+import { DAY_MS, getCounterStore, getDailyUsage, getDayStart, getKeyIdentity } from './rateLimit';
+
+// A key's consumption for the current UTC day, as reported by GET /api/usage
+export interface ApiKeyUsage {
+  id: string;
+  name: string;
+  date: string;        // UTC day (YYYY-MM-DD)
+  requests: number;
+  urls: number;
+  dailyQuota: number;
+  remaining: number;
+  maxUrls: number;
+  services?: string[];
+}
+
+/**
+ * Key of a key's URL counter for a UTC day
+ */
+function urlCounterKey(apiKey: Pick<ApiKey, 'id'>, dayStart: number): string {
+  return `${getKeyIdentity(apiKey)}:urls:${dayStart}`;
+}
+
+/**
+ * Records the URLs submitted with an accepted request
+ */
+export async function recordKeyUsage(
+  apiKey: Pick<ApiKey, 'id'>,
+  urlCount: number,
+  store: CounterStore = getCounterStore(),
+  now: number = Date.now()
+): Promise<void> {
+  const dayStart = getDayStart(now);
+  await store.increment(urlCounterKey(apiKey, dayStart), dayStart + DAY_MS - now, urlCount);
+}
+
+/**
+ * Reports a key's consumption so far today
+ */
+export async function getKeyUsage(
+  apiKey: ApiKey,
+  store: CounterStore = getCounterStore(),
+  now: number = Date.now()
+): Promise<ApiKeyUsage> {
+  const dayStart = getDayStart(now);
+  const [requests, urls] = await Promise.all([
+    getDailyUsage(getKeyIdentity(apiKey), store, now),
+    store.get(urlCounterKey(apiKey, dayStart))
+  ]);
+
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    date: new Date(dayStart).toISOString().slice(0, 10),
+    requests,
+    urls,
+    dailyQuota: apiKey.dailyQuota,
+    remaining: Math.max(0, apiKey.dailyQuota - requests),
+    maxUrls: apiKey.maxUrls,
+    services: apiKey.services
+  };
+}
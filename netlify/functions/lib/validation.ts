@@ -0,0 +1,413 @@
+/**
+ * Request validation shared by the ping endpoints
+ */
+
+import type { Backlink, CustomEndpoint, PingRequest, XmlRpcService } from './types';
+import {
+  CUSTOM_ENDPOINT_CATEGORY,
+  CUSTOM_ENDPOINT_TIMEOUT_MS,
+  MAX_BACKLINK_TEXT_LENGTH,
+  MAX_CUSTOM_ENDPOINT_NAME_LENGTH,
+  MAX_CUSTOM_ENDPOINTS,
+  MAX_URLS
+} from './types';
+import type { ApiKey } from './apiKeys';
+import { getServiceRegistry } from './protocolRegistry';
+import { checkUrlSafety } from './ssrf';
+import type { UrlErrorCode } from '../../../src/shared/urlValidation';
+import { checkUrl } from '../../../src/shared/urlValidation';
+
+/**
+ * Result of validating a ping request
+ */
+export interface PingRequestValidation {
+  valid: boolean;
+  urls: string[];
+  services: string[];         // Services to ping, in registry order
+  skippedServices: string[];  // Registry services that will not be pinged
+  siteFeedUrl?: string;       // The site's feed for extended pings, if supplied
+  customEndpoints: XmlRpcService[]; // The user's own XML-RPC endpoints, pinged after the services
+  error?: string;
+  code?: UrlErrorCode;        // Set when a URL is invalid
+}
+
+/**
+ * Result of validating a backlink request
+ */
+export interface BacklinkRequestValidation {
+  valid: boolean;
+  links: Backlink[];
+  error?: string;
+  code?: UrlErrorCode;        // Set when a URL is invalid
+}
+
+// Per-caller limits; API keys override the anonymous defaults
+export type PingRequestLimits = Partial<Pick<ApiKey, 'maxUrls' | 'services'>>;
+
+/**
+ * Validates the optional service selection against the registry
+ *
+ * Omitting the selection means every enabled service the caller may use.
+ * Unknown names and services outside `allowed` are rejected; disabled
+ * services are accepted but reported as skipped. An empty selection is
+ * only valid with `allowEmpty` (when custom endpoints are pinged instead).
+ */
+export function validateServiceSelection(
+  requested: unknown,
+  allowed?: string[],
+  allowEmpty = false
+): { valid: boolean; services: string[]; skippedServices: string[]; error?: string } {
+  const registry = getServiceRegistry();
+  const enabled = registry.filter(service => service.enabled && (!allowed || allowed.includes(service.name)));
+
+  if (requested === undefined) {
+    const services = enabled.map(service => service.name);
+    if (services.length === 0 && !allowEmpty) {
+      return { valid: false, services: [], skippedServices: [], error: 'No enabled services selected' };
+    }
+
+    return {
+      valid: true,
+      services,
+      skippedServices: registry
+        .filter(service => !services.includes(service.name))
+        .map(service => service.name)
+    };
+  }
+
+  if (!Array.isArray(requested) || !requested.every(name => typeof name === 'string')) {
+    return { valid: false, services: [], skippedServices: [], error: 'Invalid field: services (array of service names)' };
+  }
+
+  const knownNames = new Set(registry.map(service => service.name));
+  const unknown = requested.filter(name => !knownNames.has(name));
+  if (unknown.length > 0) {
+    return { valid: false, services: [], skippedServices: [], error: `Unknown service: ${unknown.slice(0, 3).join(', ')}` };
+  }
+
+  const forbidden = allowed ? requested.filter(name => !allowed.includes(name)) : [];
+  if (forbidden.length > 0) {
+    return { valid: false, services: [], skippedServices: [], error: `Service not allowed for this API key: ${forbidden.slice(0, 3).join(', ')}` };
+  }
+
+  const selected = new Set<string>(requested);
+  const services = enabled
+    .filter(service => selected.has(service.name))
+    .map(service => service.name);
+
+  if (services.length === 0 && !allowEmpty) {
+    return { valid: false, services: [], skippedServices: [], error: 'No enabled services selected' };
+  }
+
+  return {
+    valid: true,
+    services,
+    skippedServices: registry
+      .filter(service => !services.includes(service.name))
+      .map(service => service.name)
+  };
+}
+
+/**
+ * Validates the user's own XML-RPC endpoints
+ *
+ * At most MAX_CUSTOM_ENDPOINTS are accepted. Names must be unique and must
+ * not clash with registry services, as results are reported under them.
+ * Endpoint URLs get the same rules as ping URLs and must reach public
+ * addresses; every request to them goes through the SSRF guard again.
+ *
+ * @returns The endpoints as XML-RPC service configurations, or an error
+ */
+export async function validateCustomEndpoints(
+  requested: unknown
+): Promise<{ valid: true; endpoints: XmlRpcService[] } | { valid: false; error: string; code?: UrlErrorCode }> {
+  if (requested === undefined) {
+    return { valid: true, endpoints: [] };
+  }
+
+  const isEndpoint = (endpoint: unknown): endpoint is CustomEndpoint => Boolean(endpoint)
+    && typeof (endpoint as CustomEndpoint).name === 'string'
+    && typeof (endpoint as CustomEndpoint).url === 'string';
+
+  if (!Array.isArray(requested) || !requested.every(isEndpoint)) {
+    return { valid: false, error: 'Invalid field: customEndpoints (array of { name, url })' };
+  }
+
+  if (requested.length > MAX_CUSTOM_ENDPOINTS) {
+    return { valid: false, error: `Maximum ${MAX_CUSTOM_ENDPOINTS} custom endpoints allowed, received ${requested.length}` };
+  }
+
+  const names = requested.map(endpoint => endpoint.name.trim());
+  const invalidName = names.find(name => name.length === 0 || name.length > MAX_CUSTOM_ENDPOINT_NAME_LENGTH);
+  if (invalidName !== undefined) {
+    return { valid: false, error: `Custom endpoint names must be 1 to ${MAX_CUSTOM_ENDPOINT_NAME_LENGTH} characters` };
+  }
+
+  const reserved = new Set(getServiceRegistry().map(service => service.name));
+  const clash = names.find((name, index) => reserved.has(name) || names.indexOf(name) !== index);
+  if (clash !== undefined) {
+    return { valid: false, error: `Duplicate service name: ${clash}` };
+  }
+
+  const normalized = normalizeUrls(requested.map(endpoint => endpoint.url.trim()));
+  if (!normalized.valid) {
+    return normalized;
+  }
+
+  const unsafeUrl = await findUnsafeUrl(normalized.urls);
+  if (unsafeUrl) {
+    return { valid: false, error: `Security: ${unsafeUrl}` };
+  }
+
+  return {
+    valid: true,
+    endpoints: names.map((name, index): XmlRpcService => ({
+      name,
+      endpoint: normalized.urls[index],
+      timeout: CUSTOM_ENDPOINT_TIMEOUT_MS,
+      maxRetries: 0,
+      custom: true,
+      category: CUSTOM_ENDPOINT_CATEGORY,
+      description: `Custom endpoint (${new URL(normalized.urls[index]).host})`,
+      reachesServices: []
+    }))
+  };
+}
+
+/**
+ * Validates and normalises URLs with the rules the frontend applies
+ *
+ * Internationalised host names become Punycode and non-ASCII characters are
+ * percent-encoded (see src/shared/urlValidation), so results are reported
+ * under the same URLs the frontend submits.
+ *
+ * @returns The normalised URLs, or an error naming the invalid ones with
+ * the error code of the first
+ */
+export function normalizeUrls(
+  urls: string[]
+): { valid: true; urls: string[] } | { valid: false; error: string; code: UrlErrorCode } {
+  const normalizedUrls: string[] = [];
+  const invalidUrls: string[] = [];
+  let code: UrlErrorCode | undefined;
+
+  for (const url of urls) {
+    const check = checkUrl(url);
+    if (check.valid) {
+      normalizedUrls.push(check.url);
+    } else {
+      invalidUrls.push(url);
+      code = code ?? check.errors[0].code;
+    }
+  }
+
+  if (code) {
+    return {
+      valid: false,
+      error: `Invalid URL format: ${invalidUrls.slice(0, 3).join(', ')}${invalidUrls.length > 3 ? '...' : ''}`,
+      code
+    };
+  }
+
+  return { valid: true, urls: normalizedUrls };
+}
+
+/**
+ * Finds the first URL that targets a private or internal address (SSRF prevention)
+ * Host names are resolved concurrently.
+ *
+ * @returns A description of the unsafe URL, or null if all are safe
+ */
+export async function findUnsafeUrl(urls: string[]): Promise<string | null> {
+  const checks = await Promise.all(urls.map(url => checkUrlSafety(url)));
+
+  for (const [index, check] of checks.entries()) {
+    if (!check.safe) {
+      return `${urls[index]}: ${check.reason}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Validates a ping request body (shared by /api/ping and /api/jobs)
+ *
+ * @param limits - The caller's API key limits, if authenticated
+ */
+export async function validatePingRequest(
+  body: unknown,
+  limits: PingRequestLimits = {}
+): Promise<PingRequestValidation> {
+  const maxUrls = limits.maxUrls ?? MAX_URLS;
+
+  const invalid = (error: string): PingRequestValidation => ({
+    valid: false,
+    urls: [],
+    services: [],
+    skippedServices: [],
+    customEndpoints: [],
+    error
+  });
+
+  // Check if body exists and has urls property
+  if (!body || typeof body !== 'object') {
+    return invalid('Invalid request body');
+  }
+
+  const request = body as PingRequest;
+
+  if (!request.urls || !Array.isArray(request.urls)) {
+    return invalid('Missing required field: urls (array)');
+  }
+
+  // Filter and validate URLs
+  const urls = request.urls
+    .filter((url): url is string => typeof url === 'string')
+    .map(url => url.trim())
+    .filter(url => url.length > 0);
+
+  if (urls.length === 0) {
+    return invalid('No valid URLs provided');
+  }
+
+  if (urls.length > maxUrls) {
+    return invalid(`Maximum ${maxUrls} URLs allowed, received ${urls.length}`);
+  }
+
+  // Validate and normalise each URL (IDN hosts to Punycode)
+  const normalized = normalizeUrls(urls);
+  if (!normalized.valid) {
+    return { ...invalid(normalized.error), code: normalized.code };
+  }
+
+  // SSRF prevention - block URLs that reach private/internal addresses
+  const unsafeUrl = await findUnsafeUrl(normalized.urls);
+  if (unsafeUrl) {
+    return invalid(`Security: ${unsafeUrl}`);
+  }
+
+  // API keys limited to some services cannot reach arbitrary endpoints
+  if (request.customEndpoints !== undefined && limits.services) {
+    return invalid('Custom endpoints are not allowed for this API key');
+  }
+
+  const custom = await validateCustomEndpoints(request.customEndpoints);
+  if (!custom.valid) {
+    return custom.code ? { ...invalid(custom.error), code: custom.code } : invalid(custom.error);
+  }
+
+  const selection = validateServiceSelection(request.services, limits.services, custom.endpoints.length > 0);
+  if (!selection.valid) {
+    return invalid(selection.error ?? 'Invalid service selection');
+  }
+
+  // The feed is only passed on to ping services, but gets the same URL rules
+  let siteFeedUrl: string | undefined;
+  if (request.siteFeedUrl !== undefined) {
+    if (typeof request.siteFeedUrl !== 'string') {
+      return invalid('Invalid field: siteFeedUrl (string)');
+    }
+
+    const feed = normalizeUrls([request.siteFeedUrl.trim()]);
+    if (!feed.valid) {
+      return { ...invalid(feed.error), code: feed.code };
+    }
+    siteFeedUrl = feed.urls[0];
+  }
+
+  return {
+    valid: true,
+    urls: normalized.urls,
+    services: selection.services,
+    skippedServices: selection.skippedServices,
+    ...(siteFeedUrl && { siteFeedUrl }),
+    customEndpoints: custom.endpoints
+  };
+}
+
+/**
+ * Validates a backlink request body (/api/backlinks)
+ *
+ * Each link is a source page and the target page it links to. Both URLs
+ * are normalised like ping URLs and must reach public addresses. The
+ * optional title, excerpt and blog name describe the source for Trackback.
+ *
+ * @param limits - The caller's API key limits, if authenticated
+ */
+export async function validateBacklinkRequest(
+  body: unknown,
+  limits: PingRequestLimits = {}
+): Promise<BacklinkRequestValidation> {
+  const maxLinks = limits.maxUrls ?? MAX_URLS;
+
+  const invalid = (error: string, code?: UrlErrorCode): BacklinkRequestValidation => (
+    code ? { valid: false, links: [], error, code } : { valid: false, links: [], error }
+  );
+
+  if (!body || typeof body !== 'object') {
+    return invalid('Invalid request body');
+  }
+
+  const { links } = body as { links?: unknown };
+  if (!Array.isArray(links)) {
+    return invalid('Missing required field: links (array of { source, target })');
+  }
+
+  const isOptionalText = (value: unknown) => value === undefined
+    || (typeof value === 'string' && value.length <= MAX_BACKLINK_TEXT_LENGTH);
+
+  const isLink = (link: unknown): link is Backlink => Boolean(link)
+    && typeof (link as Backlink).source === 'string'
+    && typeof (link as Backlink).target === 'string'
+    && isOptionalText((link as Backlink).title)
+    && isOptionalText((link as Backlink).excerpt)
+    && isOptionalText((link as Backlink).blogName);
+
+  if (!links.every(isLink)) {
+    return invalid(
+      `Invalid field: links (array of { source, target, title?, excerpt?, blogName? }, text up to ${MAX_BACKLINK_TEXT_LENGTH} characters)`
+    );
+  }
+
+  if (links.length === 0) {
+    return invalid('No links provided');
+  }
+
+  if (links.length > maxLinks) {
+    return invalid(`Maximum ${maxLinks} links allowed, received ${links.length}`);
+  }
+
+  const sources = normalizeUrls(links.map(link => link.source.trim()));
+  if (!sources.valid) {
+    return invalid(sources.error, sources.code);
+  }
+
+  const targets = normalizeUrls(links.map(link => link.target.trim()));
+  if (!targets.valid) {
+    return invalid(targets.error, targets.code);
+  }
+
+  const normalized = sources.urls.map((source, index): Backlink => {
+    const { title, excerpt, blogName } = links[index];
+    return {
+      source,
+      target: targets.urls[index],
+      ...(title?.trim() && { title: title.trim() }),
+      ...(excerpt?.trim() && { excerpt: excerpt.trim() }),
+      ...(blogName?.trim() && { blogName: blogName.trim() })
+    };
+  });
+
+  const selfLink = normalized.find(link => link.source === link.target);
+  if (selfLink) {
+    return invalid(`Source and target must differ: ${selfLink.source}`);
+  }
+
+  // Targets are fetched to discover their endpoints; sources only passed on
+  const unsafeUrl = await findUnsafeUrl([...new Set([...targets.urls, ...sources.urls])]);
+  if (unsafeUrl) {
+    return invalid(`Security: ${unsafeUrl}`);
+  }
+
+  return { valid: true, links: normalized };
+}
@@ -0,0 +1,230 @@
+/**
+ * Webmention client for backlink notifications
+ *
+ * Tells a linked page (the target) that another page (the source) links
+ * to it, following the W3C Webmention recommendation:
+ * 1. The target's endpoint is discovered from its HTTP Link header, or
+ *    failing that the first <link> or <a> element with rel="webmention",
+ *    resolved against the target's final URL
+ * 2. source and target are POSTed to the endpoint as form data
+ *
+ * Receivers answer 200 when the mention was processed straight away, or
+ * 201/202 when it was queued; a 201 (and sometimes a 202) carries a status
+ * page in its Location header. Requests go through fetchPublicUrl, and
+ * timeouts, network errors and 5xx responses are retried like WebSub
+ * notifications. Resending a Webmention is safe: receivers treat it as an
+ * update.
+ *
+ * @see https://www.w3.org/TR/webmention/
+ */
+
+import type { Backlink, BacklinkOutcome, BacklinkResult } from './types';
+import { BACKLINK_TIMEOUT_MS, WEBMENTION_MAX_RETRIES } from './types';
+import type { TargetPage } from './linkDiscovery';
+import { fetchPublicUrl, readLimitedText } from './safeFetch';
+import { fetchTargetPage, findLinkHeader, findRelLink } from './linkDiscovery';
+import { parseRetryAfter, withRetries } from './retry';
+
+// Most of an error response kept as the message
+const MAX_ERROR_MESSAGE_LENGTH = 200;
+
+const USER_AGENT = 'OnwardSEO-Pinger/2.0';
+
+export type WebmentionDiscovery =
+  | { found: true; endpoint: string }
+  | { found: false; outcome: BacklinkOutcome; message: string };
+
+// One request to a Webmention endpoint
+interface WebmentionAttempt {
+  success: boolean;
+  statusCode: number;
+  outcome: BacklinkOutcome;
+  message: string;
+  statusUrl?: string;
+  responseTime: number;
+}
+
+/**
+ * Finds the Webmention endpoint advertised by a fetched target page
+ */
+export function findWebmentionEndpoint(page: TargetPage): string | null {
+  return findLinkHeader(page.headers.get('link'), 'webmention', page.url)
+    ?? findRelLink(page.html, 'webmention', page.url, ['link', 'a']);
+}
+
+/**
+ * Discovers the Webmention endpoint advertised by a target page
+ */
+export async function discoverWebmentionEndpoint(
+  target: string,
+  timeout: number = BACKLINK_TIMEOUT_MS
+): Promise<WebmentionDiscovery> {
+  const fetched = await fetchTargetPage(target, timeout);
+  if (!fetched.ok) {
+    return { found: false, outcome: fetched.outcome, message: fetched.message };
+  }
+
+  const endpoint = findWebmentionEndpoint(fetched.page);
+
+  return endpoint
+    ? { found: true, endpoint }
+    : { found: false, outcome: 'not_supported', message: 'The target does not advertise a Webmention endpoint' };
+}
+
+/**
+ * Sends a single Webmention request (no retry)
+ */
+async function sendWebmentionAttempt(
+  link: Backlink,
+  endpoint: string,
+  timeout: number
+): Promise<WebmentionAttempt> {
+  const startTime = Date.now();
+
+  const fetched = await fetchPublicUrl(endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'User-Agent': USER_AGENT
+    },
+    body: new URLSearchParams({ source: link.source, target: link.target }).toString()
+  }, { timeout });
+
+  if (!fetched.ok) {
+    return {
+      success: false,
+      statusCode: 0,
+      outcome: 'error',
+      message: fetched.reason,
+      responseTime: Date.now() - startTime
+    };
+  }
+
+  const { response } = fetched;
+  const responseTime = Date.now() - startTime;
+
+  if (response.status === 201 || response.status === 202) {
+    await response.body?.cancel();
+    const location = response.headers.get('location');
+    let statusUrl: string | undefined;
+    try {
+      const status = location ? new URL(location, fetched.url) : null;
+      // The link is shown to users, so only web pages are passed on (never javascript: or data:)
+      if (status && (status.protocol === 'http:' || status.protocol === 'https:')) {
+        statusUrl = status.href;
+      }
+    } catch {
+      // Ignore an unusable Location
+    }
+
+    return {
+      success: true,
+      statusCode: response.status,
+      outcome: 'accepted',
+      message: response.status === 201 ? 'Webmention created' : 'Webmention queued for processing',
+      statusUrl,
+      responseTime
+    };
+  }
+
+  if (response.ok) {
+    await response.body?.cancel();
+    return { success: true, statusCode: response.status, outcome: 'registered', message: 'Webmention accepted', responseTime };
+  }
+
+  if (response.status === 429 || response.status === 503) {
+    await response.body?.cancel();
+    const retrySeconds = parseRetryAfter(response.headers.get('Retry-After'));
+    return {
+      success: false,
+      statusCode: response.status,
+      outcome: 'error',
+      message: response.status === 429
+        ? `Rate limited. Retry after ${retrySeconds}s`
+        : `Service unavailable. Retry after ${retrySeconds}s`,
+      responseTime
+    };
+  }
+
+  // Receivers explain a rejection (e.g. no link to the target) in the body
+  let message = `HTTP ${response.status}: ${response.statusText}`;
+  try {
+    const errorText = (await readLimitedText(response, MAX_ERROR_MESSAGE_LENGTH * 4)).trim();
+    if (errorText) {
+      message = errorText.slice(0, MAX_ERROR_MESSAGE_LENGTH);
+    }
+  } catch {
+    // Keep the status line
+  }
+
+  return {
+    success: false,
+    statusCode: response.status,
+    outcome: response.status >= 400 && response.status < 500 ? 'fault' : 'error',
+    message,
+    responseTime
+  };
+}
+
+/**
+ * Sends a Webmention for one source → target link with retry logic
+ *
+ * @param link - The linking (source) and linked (target) pages
+ * @param timeout - Timeout for discovery and for each request
+ * @param endpoint - The target's Webmention endpoint, when already discovered
+ * @param maxRetries - Retries after a retryable failure
+ * @returns The outcome, never throwing
+ */
+export async function sendWebmention(
+  link: Backlink,
+  timeout: number = BACKLINK_TIMEOUT_MS,
+  endpoint?: string,
+  maxRetries: number = WEBMENTION_MAX_RETRIES
+): Promise<BacklinkResult> {
+  const startTime = Date.now();
+  const base = { source: link.source, target: link.target, protocol: 'webmention' as const };
+
+  try {
+    let receiver = endpoint;
+    if (receiver === undefined) {
+      const discovery = await discoverWebmentionEndpoint(link.target, timeout);
+      if (!discovery.found) {
+        return {
+          ...base,
+          success: false,
+          outcome: discovery.outcome,
+          message: discovery.message,
+          responseTime: Date.now() - startTime
+        };
+      }
+      receiver = discovery.endpoint;
+    }
+
+    const endpointUrl = receiver;
+    const attempt = await withRetries(
+      () => sendWebmentionAttempt(link, endpointUrl, timeout),
+      maxRetries,
+      `[Webmention] ${new URL(endpointUrl).host}`
+    );
+
+    return {
+      ...base,
+      success: attempt.success,
+      outcome: attempt.outcome,
+      message: attempt.message,
+      endpoint: endpointUrl,
+      ...(attempt.statusUrl && { statusUrl: attempt.statusUrl }),
+      responseTime: Date.now() - startTime
+    };
+  } catch (error) {
+    // Log detailed error internally for debugging (not exposed to client)
+    console.error('[Webmention] Unexpected error:', error instanceof Error ? error.message : error);
+    return {
+      ...base,
+      success: false,
+      outcome: 'error',
+      message: 'Webmention request failed',
+      responseTime: Date.now() - startTime
+    };
+  }
+}
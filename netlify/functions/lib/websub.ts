@@ -2,29 +2,39 @@
  * WebSub/PubSubHubbub client for feed notifications
  *
  * Implements the W3C WebSub specification for notifying hubs about feed updates.
- * Used to notify Google's PubSubHubbub hub.
+ * Every enabled hub in WEBSUB_HUBS is notified, each with its own timeout,
+ * retry count and optional credentials.
  *
  * @see https://www.w3.org/TR/websub/
  */
 
-import type { WebSubResult } from './types';
-import { WEBSUB_HUB, DEFAULT_RETRY_COUNT, RETRY_DELAY_MS } from './types';
+import type { WebSubHub, WebSubResult } from './types';
+import { WEBSUB_HUBS, DEFAULT_RETRY_COUNT } from './types';
+import { parseRetryAfter, withRetries } from './retry';
+import { isServiceEnabled } from './services';
+import { fetchPublicUrl, readLimitedText } from './safeFetch';
+import type { PingProtocol } from './protocol';
+import { checkEndpointUrl, validateServiceConfig } from './protocol';
+import { classifyResponse } from './outcomes';
 
-/**
- * Delays execution for a specified time
- */
-function delay(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
+// Most of a hub's error response kept as the message
+const MAX_ERROR_BYTES = 1024;
 
 /**
- * Determines if a WebSub result is retryable
+ * Builds the Authorization header for a hub that requires credentials
+ *
+ * @returns The header value, undefined when the hub needs none, or null
+ * when its credentials are not configured
  */
-function isRetryableError(result: WebSubResult): boolean {
-  // Retry on timeout or 5xx errors
-  return result.message.includes('timed out') ||
-         result.message.includes('Network error') ||
-         (result.statusCode >= 500 && result.statusCode < 600);
+function getHubAuthorization(hub: WebSubHub): string | undefined | null {
+  if (!hub.auth) return undefined;
+
+  const credentials = process.env[hub.auth.credentialsEnv];
+  if (!credentials) return null;
+
+  return hub.auth.type === 'basic'
+    ? `Basic ${Buffer.from(credentials).toString('base64')}`
+    : `Bearer ${credentials}`;
 }
 
 /**
@@ -32,11 +42,23 @@ function isRetryableError(result: WebSubResult): boolean {
  */
 async function notifyHubAttempt(
   feedUrl: string,
-  hubUrl: string,
-  timeout: number
+  hub: WebSubHub
 ): Promise<WebSubResult> {
+  const { name: hubName, url: hubUrl, timeout } = hub;
   const startTime = Date.now();
 
+  const authorization = getHubAuthorization(hub);
+  if (authorization === null) {
+    return {
+      success: false,
+      statusCode: 0,
+      message: `Hub credentials not configured (${hub.auth?.credentialsEnv})`,
+      hubName,
+      hubUrl,
+      responseTime: 0
+    };
+  }
+
   try {
     // Build form-urlencoded body
     const body = new URLSearchParams({
@@ -49,15 +71,34 @@ async function notifyHubAttempt(
     const timeoutId = setTimeout(() => controller.abort(), timeout);
 
     try {
-      const response = await fetch(hubUrl, {
+      const init: RequestInit = {
         method: 'POST',
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded',
-          'User-Agent': 'OnwardSEO-Pinger/2.0'
+          'User-Agent': 'OnwardSEO-Pinger/2.0',
+          ...(authorization && { 'Authorization': authorization })
         },
-        body: body.toString(),
-        signal: controller.signal
-      });
+        body: body.toString()
+      };
+
+      let response: Response;
+      if (hub.discovered) {
+        // Hubs declared by user-supplied pages go through the SSRF guard
+        const fetched = await fetchPublicUrl(hubUrl, init, { timeout });
+        if (!fetched.ok) {
+          return {
+            success: false,
+            statusCode: 0,
+            message: fetched.reason,
+            hubName,
+            hubUrl,
+            responseTime: Date.now() - startTime
+          };
+        }
+        response = fetched.response;
+      } else {
+        response = await fetch(hubUrl, { ...init, signal: controller.signal });
+      }
 
       clearTimeout(timeoutId);
 
@@ -65,26 +106,7 @@ async function notifyHubAttempt(
 
       // Handle rate limiting (429) and service unavailable (503) specially
       if (response.status === 429 || response.status === 503) {
-        const retryAfterHeader = response.headers.get('Retry-After');
-        let retrySeconds = 60; // Default to 60 seconds if no header
-
-        if (retryAfterHeader) {
-          // Retry-After can be either seconds (integer) or HTTP-date
-          if (/^\d+$/.test(retryAfterHeader)) {
-            // It's a number of seconds
-            retrySeconds = parseInt(retryAfterHeader, 10);
-          } else {
-            // Try parsing as HTTP-date
-            try {
-              const retryDate = new Date(retryAfterHeader);
-              if (!isNaN(retryDate.getTime())) {
-                retrySeconds = Math.max(0, Math.ceil((retryDate.getTime() - Date.now()) / 1000));
-              }
-            } catch {
-              // Keep default if parsing fails
-            }
-          }
-        }
+        const retrySeconds = parseRetryAfter(response.headers.get('Retry-After'));
 
         return {
           success: false,
@@ -92,6 +114,7 @@ async function notifyHubAttempt(
           message: response.status === 429
             ? `Rate limited. Retry after ${retrySeconds}s`
             : `Service unavailable. Retry after ${retrySeconds}s`,
+          hubName,
           hubUrl,
           responseTime,
           retryAfter: retrySeconds
@@ -110,7 +133,7 @@ async function notifyHubAttempt(
       } else {
         // Try to get error message from response body
         try {
-          const errorText = await response.text();
+          const errorText = await readLimitedText(response, MAX_ERROR_BYTES);
           message = errorText.trim() || `HTTP ${response.status}: ${response.statusText}`;
         } catch {
           message = `HTTP ${response.status}: ${response.statusText}`;
@@ -121,6 +144,7 @@ async function notifyHubAttempt(
         success,
         statusCode: response.status,
         message,
+        hubName,
         hubUrl,
         responseTime
       };
@@ -139,6 +163,7 @@ async function notifyHubAttempt(
           success: false,
           statusCode: 0,
           message: `Request timed out after ${timeout}ms`,
+          hubName,
           hubUrl,
           responseTime
         };
@@ -148,6 +173,7 @@ async function notifyHubAttempt(
         success: false,
         statusCode: 0,
         message: `Network error: ${error.message}`,
+        hubName,
         hubUrl,
         responseTime
       };
@@ -157,6 +183,7 @@ async function notifyHubAttempt(
       success: false,
       statusCode: 0,
       message: 'Unknown error occurred',
+      hubName,
       hubUrl,
       responseTime
     };
@@ -164,96 +191,77 @@ async function notifyHubAttempt(
 }
 
 /**
- * Notifies a WebSub hub about a feed update with retry logic
+ * Notifies one WebSub hub about a feed update with retry logic
  *
  * Protocol:
  * POST to hub URL with:
  * - Content-Type: application/x-www-form-urlencoded
  * - Body: hub.mode=publish&hub.url=<feed_url>
+ * - Authorization, when the hub is configured with credentials
  *
  * Expected responses:
  * - 204 No Content: Success
  * - 4xx/5xx: Error
  *
  * @param feedUrl - The URL of the Atom/RSS feed that was updated
- * @param hubUrl - The WebSub hub URL (defaults to Google PubSubHubbub)
- * @param timeout - Request timeout in milliseconds
- * @param maxRetries - Maximum number of retry attempts
+ * @param hub - The hub, with its timeout, retry count and credentials
  * @returns Promise resolving to notification result
  */
-export async function notifyHub(
-  feedUrl: string,
-  hubUrl: string = WEBSUB_HUB.url,
-  timeout: number = WEBSUB_HUB.timeout,
-  maxRetries: number = WEBSUB_HUB.maxRetries ?? DEFAULT_RETRY_COUNT
-): Promise<WebSubResult> {
-  let lastResult: WebSubResult | null = null;
-  let totalResponseTime = 0;
-
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    // Exponential backoff delay (skip on first attempt)
-    if (attempt > 0) {
-      const backoffDelay = RETRY_DELAY_MS * Math.pow(2, attempt - 1);
-      console.log(`[WebSub] ${WEBSUB_HUB.name} retry ${attempt}/${maxRetries} after ${backoffDelay}ms`);
-      await delay(backoffDelay);
-    }
-
-    const result = await notifyHubAttempt(feedUrl, hubUrl, timeout);
-    totalResponseTime += result.responseTime;
-    lastResult = result;
-
-    // Success - return immediately
-    if (result.success) {
-      if (attempt > 0) {
-        console.log(`[WebSub] ${WEBSUB_HUB.name} succeeded on retry ${attempt}`);
-      }
-      return result;
-    }
-
-    // Check if error is retryable
-    if (!isRetryableError(result)) {
-      // Non-retryable error (e.g., 4xx HTTP error, rate limited) - don't retry
-      console.log(`[WebSub] ${WEBSUB_HUB.name} non-retryable error: ${result.message}`);
-      return result;
-    }
-
-    // Retryable error - continue to next attempt if retries remaining
-    if (attempt < maxRetries) {
-      console.log(`[WebSub] ${WEBSUB_HUB.name} failed (retryable): ${result.message}`);
-    }
-  }
-
-  // All retries exhausted - return last result with retry info
-  if (lastResult) {
-    const retriedMsg = maxRetries > 0
-      ? ` (after ${maxRetries + 1} attempts)`
-      : '';
-    return {
-      ...lastResult,
-      message: `${lastResult.message}${retriedMsg}`,
-      responseTime: totalResponseTime
-    };
-  }
+export async function notifyWebSubHub(feedUrl: string, hub: WebSubHub): Promise<WebSubResult> {
+  return withRetries(
+    () => notifyHubAttempt(feedUrl, hub),
+    hub.maxRetries ?? DEFAULT_RETRY_COUNT,
+    `[WebSub] ${hub.name}`
+  );
+}
 
-  // Fallback (should never reach here)
-  return {
-    success: false,
-    statusCode: 0,
-    message: 'Unknown error occurred',
-    hubUrl,
-    responseTime: totalResponseTime
-  };
+/**
+ * Returns the hubs that are notified and advertised in feeds
+ */
+export function getEnabledHubs(): WebSubHub[] {
+  return WEBSUB_HUBS.filter(isServiceEnabled);
 }
 
 /**
- * Notifies Google's PubSubHubbub hub about a feed update
+ * Notifies every enabled WebSub hub about a feed update
  *
- * This is a convenience wrapper around notifyHub that uses
- * the Google PubSubHubbub hub URL.
+ * Hubs are notified concurrently and independently: one hub failing does
+ * not affect the others.
  *
  * @param feedUrl - The URL of the Atom/RSS feed that was updated
- * @returns Promise resolving to notification result
+ * @param hubs - Hubs to notify (defaults to every enabled hub)
+ * @returns One result per hub, in the order given
  */
-export async function notifyGoogleHub(feedUrl: string): Promise<WebSubResult> {
-  return notifyHub(feedUrl, WEBSUB_HUB.url, WEBSUB_HUB.timeout, WEBSUB_HUB.maxRetries ?? DEFAULT_RETRY_COUNT);
+export async function notifyHub(
+  feedUrl: string,
+  hubs: WebSubHub[] = getEnabledHubs()
+): Promise<WebSubResult[]> {
+  return Promise.all(hubs.map(hub => notifyWebSubHub(feedUrl, hub)));
 }
+
+/**
+ * WebSub as a ping protocol: each hub is told the generated feed changed
+ */
+export const websubProtocol: PingProtocol<WebSubHub, WebSubResult> = {
+  method: 'websub',
+
+  validateConfig(hub) {
+    const problems = validateServiceConfig(hub);
+    const urlProblem = checkEndpointUrl('url', hub.url);
+    if (urlProblem) problems.push(urlProblem);
+    if (hub.auth && (!['basic', 'bearer'].includes(hub.auth.type) || !hub.auth.credentialsEnv)) {
+      problems.push('auth needs a type (basic or bearer) and credentialsEnv');
+    }
+    return problems;
+  },
+
+  send: (hub, context) => notifyWebSubHub(context.feedUrl, hub),
+
+  classify: result => ({
+    success: result.success,
+    message: result.message,
+    ...classifyResponse(result),
+    responseTime: result.responseTime,
+    ...(result.retryAfter !== undefined && { retryAfter: result.retryAfter })
+  })
+};
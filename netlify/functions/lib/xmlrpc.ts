@@ -3,26 +3,83 @@
  *
  * Implements the weblogUpdates.ping method as per XML-RPC specification.
  * Used by Ping-o-Matic, Yandex Blogs, Twingly, Weblogs.com, and others.
+ * Services configured with weblogUpdates.extendedPing also get the changed
+ * page and the site's feed when one is known, falling back to the basic
+ * ping if the endpoint turns out not to implement it.
+ *
+ * When several URLs are pinged at once, endpoints that advertise
+ * system.multicall in system.listMethods get all of them in one request.
+ * The listMethods answers are shared between function instances through
+ * Netlify Blobs where available. A batch never starts a probe or a retry
+ * that the run's remaining time cannot cover.
  */
 
-import type { XmlRpcPingResult, XmlRpcService } from './types';
-import { DEFAULT_RETRY_COUNT, RETRY_DELAY_MS } from './types';
+import type { XmlRpcPingMethod, XmlRpcPingResult, XmlRpcService } from './types';
+import { DEFAULT_RETRY_COUNT } from './types';
+import type { XmlRpcFault, XmlRpcValue } from './xmlrpcParser';
+import { isXmlRpcStruct, parseMethodResponse } from './xmlrpcParser';
+import { fetchPublicUrl, readLimitedText } from './safeFetch';
+import { getRetriesWithin, withRetries } from './retry';
+import type { JsonBlobStore } from './blobs';
+import { openBlobStore } from './blobs';
+import type { PingProtocol } from './protocol';
+import { checkEndpointUrl, validateServiceConfig } from './protocol';
+import { classifyResponse } from './outcomes';
+
+// Responses from user-registered endpoints are read up to this size
+const MAX_CUSTOM_RESPONSE_BYTES = 64 * 1024;
+
+// Fault code for unknown methods (XML-RPC fault code interoperability spec)
+const METHOD_NOT_FOUND_FAULT = -32601;
+
+// How long an endpoint's system.listMethods answer is trusted
+const METHOD_LIST_TTL_MS = 60 * 60 * 1000;
+
+// Whether an endpoint accepts system.multicall, and until when that is trusted
+interface MulticallSupport {
+  supported: boolean;
+  expiresAt: number;
+}
 
-/**
- * Delays execution for a specified time
- */
-function delay(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+// This instance's copy of the answers, by endpoint URL
+const multicallSupport = new Map<string, MulticallSupport>();
+
+// Answers shared by every instance (null without a Blobs environment)
+let methodListStore: JsonBlobStore | null | undefined;
+
+// A methodCall's result, with the body for callers that unpack it themselves
+interface MethodCallResult extends XmlRpcPingResult {
+  body?: string;
+}
+
+// One ping of a multicall batch
+export interface XmlRpcPingRequest {
+  siteName: string;
+  siteUrl: string;
+  rssUrl?: string;   // The site's feed, sent with extendedPing
 }
 
 /**
- * Determines if an error is retryable
+ * Builds an XML-RPC methodCall with string parameters
+ *
+ * @param methodName - The remote method, e.g. weblogUpdates.ping
+ * @param params - String parameters, in order
+ * @returns XML string conforming to XML-RPC specification
  */
-function isRetryableError(result: XmlRpcPingResult): boolean {
-  // Retry on timeout or temporary unavailability
-  return result.message.includes('timed out') ||
-         result.message.includes('temporarily unavailable') ||
-         result.message.includes('HTTP 5'); // 5xx errors
+export function buildMethodCall(methodName: string, params: string[]): string {
+  const paramsXml = params
+    .map(param => `
+    <param>
+      <value><string>${escapeXml(param)}</string></value>
+    </param>`)
+    .join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<methodCall>
+  <methodName>${escapeXml(methodName)}</methodName>
+  <params>${paramsXml}
+  </params>
+</methodCall>`;
 }
 
 /**
@@ -33,24 +90,67 @@ function isRetryableError(result: XmlRpcPingResult): boolean {
  * @returns XML string conforming to XML-RPC specification
  */
 export function buildXmlRpcRequest(siteName: string, siteUrl: string): string {
-  // Escape XML special characters
-  const escapedName = escapeXml(siteName);
-  const escapedUrl = escapeXml(siteUrl);
+  return buildMethodCall('weblogUpdates.ping', [siteName, siteUrl]);
+}
+
+/**
+ * Builds an XML-RPC request body for weblogUpdates.extendedPing
+ *
+ * @param siteName - The name of the website being pinged
+ * @param siteUrl - The website's home page
+ * @param changesUrl - The page that changed
+ * @param rssUrl - The website's RSS or Atom feed
+ * @returns XML string conforming to XML-RPC specification
+ */
+export function buildExtendedPingRequest(
+  siteName: string,
+  siteUrl: string,
+  changesUrl: string,
+  rssUrl: string
+): string {
+  return buildMethodCall('weblogUpdates.extendedPing', [siteName, siteUrl, changesUrl, rssUrl]);
+}
+
+/**
+ * Builds a system.multicall request carrying several calls
+ *
+ * @param calls - Each call's method and string parameters, in order
+ * @returns XML string conforming to XML-RPC specification
+ */
+export function buildMulticallRequest(calls: { methodName: string; params: string[] }[]): string {
+  const stringValue = (value: string) => `<value><string>${escapeXml(value)}</string></value>`;
+  const callsXml = calls
+    .map(call => `
+          <value><struct>
+            <member><name>methodName</name>${stringValue(call.methodName)}</member>
+            <member><name>params</name><value><array><data>${call.params.map(stringValue).join('')}</data></array></value></member>
+          </struct></value>`)
+    .join('');
 
   return `<?xml version="1.0" encoding="UTF-8"?>
 <methodCall>
-  <methodName>weblogUpdates.ping</methodName>
+  <methodName>system.multicall</methodName>
   <params>
     <param>
-      <value><string>${escapedName}</string></value>
-    </param>
-    <param>
-      <value><string>${escapedUrl}</string></value>
+      <value><array><data>${callsXml}
+      </data></array></value>
     </param>
   </params>
 </methodCall>`;
 }
 
+/**
+ * Checks whether a ping failed because the service does not implement the method
+ *
+ * Besides the standard fault code, servers report this with their own codes
+ * and a "method not found" style fault string.
+ */
+export function isMethodNotFound(result: XmlRpcPingResult): boolean {
+  if (result.faultCode === undefined) return false;
+  return result.faultCode === METHOD_NOT_FOUND_FAULT
+    || /method\b.*\bnot (?:found|supported|implemented|exist)|unknown method|no such method/i.test(result.message);
+}
+
 /**
  * Escapes XML special characters
  */
@@ -64,179 +164,121 @@ function escapeXml(str: string): string {
 }
 
 /**
- * Decodes XML entities in a string
- * Handles standard XML entities and numeric character references
+ * Interprets an XML-RPC methodResponse as a ping result
+ *
+ * - weblogUpdates.ping/extendedPing return a struct:
+ *   { flerror: boolean, message: string }
+ * - pingback.ping returns a plain string
+ * - faults carry faultString and faultCode
+ *
+ * Bodies that are not a valid methodResponse (HTML error pages, truncated
+ * or malformed XML) are errors, never success.
  */
-function decodeXmlEntities(str: string): string {
-  return str
-    .replace(/&amp;/g, '&')
-    .replace(/&lt;/g, '<')
-    .replace(/&gt;/g, '>')
-    .replace(/&quot;/g, '"')
-    .replace(/&apos;/g, "'")
-    .replace(/&#(\d+);/g, (_, dec) => String.fromCharCode(parseInt(dec, 10)))
-    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+export function parseXmlRpcResponse(
+  xml: string
+): { flerror: boolean; message: string; faultCode?: number; invalid?: true } {
+  const response = parseMethodResponse(xml);
+
+  if (response.type === 'invalid') {
+    return { flerror: true, message: `Invalid XML-RPC response: ${response.reason}`, invalid: true };
+  }
+
+  if (response.type === 'fault') {
+    return interpretFault(response.fault);
+  }
+
+  return interpretValue(response.value);
 }
 
 /**
- * Extracts text content from a value, handling CDATA and string wrappers
+ * Interprets a fault as a failed ping
  */
-function extractValueContent(valueBlock: string): string {
-  // Try to extract from CDATA first
-  const cdataMatch = valueBlock.match(/<!\[CDATA\[([\s\S]*?)\]\]>/);
-  if (cdataMatch) {
-    return cdataMatch[1];
-  }
+function interpretFault({ faultCode, faultString }: XmlRpcFault): { flerror: true; message: string; faultCode: number } {
+  return { flerror: true, message: faultString.trim() || `Fault ${faultCode}`, faultCode };
+}
 
-  // Try to extract from <string> tag
-  const stringMatch = valueBlock.match(/<string>([\s\S]*?)<\/string>/i);
-  if (stringMatch) {
-    return decodeXmlEntities(stringMatch[1]);
+/**
+ * Interprets a returned value as a ping verdict
+ */
+function interpretValue(value: XmlRpcValue): { flerror: boolean; message: string } {
+  if (typeof value === 'string') {
+    return { flerror: false, message: value.trim() || 'Response received' };
   }
 
-  // Try to extract bare value (between <value> and </value>)
-  const bareMatch = valueBlock.match(/<value>\s*([\s\S]*?)\s*<\/value>/i);
-  if (bareMatch) {
-    // Remove any nested tags and get text content
-    const textContent = bareMatch[1].replace(/<[^>]+>/g, '').trim();
-    return decodeXmlEntities(textContent);
+  if (isXmlRpcStruct(value)) {
+    const { flerror, message } = value;
+    return {
+      flerror: flerror === true || (typeof flerror === 'number' && flerror !== 0),
+      message: typeof message === 'string' && message.trim() ? message.trim() : 'Response received'
+    };
   }
 
-  return '';
+  return { flerror: false, message: 'Response received' };
 }
 
 /**
- * Parses XML-RPC response to extract flerror and message
- *
- * Expected response format:
- * <methodResponse>
- *   <params>
- *     <param>
- *       <value>
- *         <struct>
- *           <member>
- *             <name>flerror</name>
- *             <value><boolean>0</boolean></value>
- *           </member>
- *           <member>
- *             <name>message</name>
- *             <value>Thanks for the ping!</value>
- *           </member>
- *         </struct>
- *       </value>
- *     </param>
- *   </params>
- * </methodResponse>
+ * Interprets one entry of a system.multicall response
  *
- * Handles variations:
- * - Whitespace between tags
- * - Entity-encoded content (&amp;, &lt;, etc.)
- * - CDATA sections
- * - Missing <string> wrappers
+ * Each call answers with its value wrapped in a one-element array, or with
+ * a fault struct.
  */
-export function parseXmlRpcResponse(xml: string): { flerror: boolean; message: string } {
-  // Default values in case parsing fails
-  let flerror = false;
-  let message = 'Response received';
-
-  try {
-    // Normalize: collapse excessive whitespace between tags (but preserve content whitespace)
-    const normalized = xml.replace(/>\s+</g, '><');
-
-    // Extract flerror value
-    // Look for <name>flerror</name> followed by <value><boolean>X</boolean></value>
-    // Handle whitespace variations with flexible regex
-    const flerrorMatch = normalized.match(
-      /<name>flerror<\/name><value><boolean>(\d+)<\/boolean><\/value>/i
-    );
-    if (flerrorMatch) {
-      flerror = flerrorMatch[1] !== '0';
-    } else {
-      // Fallback: try original whitespace-tolerant pattern
-      const flerrorFallback = xml.match(
-        /<name>\s*flerror\s*<\/name>\s*<value>\s*<boolean>\s*(\d+)\s*<\/boolean>\s*<\/value>/i
-      );
-      if (flerrorFallback) {
-        flerror = flerrorFallback[1] !== '0';
-      }
-    }
-
-    // Extract message value - find the member containing 'message' name
-    // Use a multi-step approach for robustness
-    const messageMemberMatch = normalized.match(
-      /<member><name>message<\/name><value>([\s\S]*?)<\/value><\/member>/i
-    ) || xml.match(
-      /<member>\s*<name>\s*message\s*<\/name>\s*<value>([\s\S]*?)<\/value>\s*<\/member>/i
-    );
-
-    if (messageMemberMatch) {
-      const valueContent = messageMemberMatch[1];
-      const extracted = extractValueContent(`<value>${valueContent}</value>`);
-      if (extracted) {
-        message = extracted.trim();
-      }
-    } else {
-      // Legacy fallback for simpler responses
-      const legacyMatch = xml.match(
-        /<name>\s*message\s*<\/name>\s*<value>(?:\s*<string>)?([^<]+)/i
-      );
-      if (legacyMatch) {
-        message = decodeXmlEntities(legacyMatch[1].trim());
-      }
-    }
+function interpretMulticallEntry(entry: XmlRpcValue): { flerror: boolean; message: string; faultCode?: number; invalid?: true } {
+  if (Array.isArray(entry) && entry.length === 1) {
+    return interpretValue(entry[0]);
+  }
 
-    // Check for fault response (error case)
-    if (normalized.includes('<fault>') || xml.includes('<fault>')) {
-      flerror = true;
-      // Extract fault string
-      const faultMatch = normalized.match(
-        /<name>faultString<\/name><value>([\s\S]*?)<\/value>/i
-      ) || xml.match(
-        /<name>\s*faultString\s*<\/name>\s*<value>([\s\S]*?)<\/value>/i
-      );
-      if (faultMatch) {
-        const faultContent = extractValueContent(`<value>${faultMatch[1]}</value>`);
-        if (faultContent) {
-          message = faultContent.trim();
-        }
-      }
-    }
-  } catch (error) {
-    // If parsing fails, treat as error
-    flerror = true;
-    message = 'Failed to parse XML-RPC response';
+  if (isXmlRpcStruct(entry) && typeof entry.faultCode === 'number' && typeof entry.faultString === 'string') {
+    return interpretFault({ faultCode: entry.faultCode, faultString: entry.faultString });
   }
 
-  return { flerror, message };
+  return { flerror: true, message: 'Invalid XML-RPC response: Unexpected multicall entry', invalid: true };
 }
 
 /**
- * Sends a single XML-RPC ping attempt (no retry)
+ * Sends a single XML-RPC methodCall attempt (no retry)
+ * The method is only set for pings; other calls leave it out of the result.
  */
 async function sendXmlRpcPingAttempt(
   service: XmlRpcService,
-  siteName: string,
-  siteUrl: string
-): Promise<XmlRpcPingResult> {
+  method: XmlRpcPingMethod | undefined,
+  requestBody: string
+): Promise<MethodCallResult> {
   const startTime = Date.now();
 
   try {
-    const requestBody = buildXmlRpcRequest(siteName, siteUrl);
-
     // Create abort controller for timeout
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), service.timeout);
 
     try {
-      const response = await fetch(service.endpoint, {
+      const init: RequestInit = {
         method: 'POST',
         headers: {
           'Content-Type': 'text/xml; charset=utf-8',
           'User-Agent': 'OnwardSEO-Pinger/2.0'
         },
-        body: requestBody,
-        signal: controller.signal
-      });
+        body: requestBody
+      };
+
+      let response: Response;
+      if (service.custom) {
+        // Endpoints registered by users go through the SSRF guard
+        const fetched = await fetchPublicUrl(service.endpoint, init, { timeout: service.timeout });
+        if (!fetched.ok) {
+          return {
+            success: false,
+            flerror: true,
+            message: fetched.reason,
+            endpoint: service.endpoint,
+            responseTime: Date.now() - startTime,
+            statusCode: 0,
+            method
+          };
+        }
+        response = fetched.response;
+      } else {
+        response = await fetch(service.endpoint, { ...init, signal: controller.signal });
+      }
 
       clearTimeout(timeoutId);
 
@@ -249,12 +291,16 @@ async function sendXmlRpcPingAttempt(
           flerror: true,
           message: `HTTP ${response.status}: ${response.statusText}`,
           endpoint: service.endpoint,
-          responseTime
+          responseTime,
+          statusCode: response.status,
+          method
         };
       }
 
       // Parse response body
-      const responseText = await response.text();
+      const responseText = service.custom
+        ? await readLimitedText(response, MAX_CUSTOM_RESPONSE_BYTES)
+        : await response.text();
       const parsed = parseXmlRpcResponse(responseText);
 
       return {
@@ -262,7 +308,12 @@ async function sendXmlRpcPingAttempt(
         flerror: parsed.flerror,
         message: parsed.message,
         endpoint: service.endpoint,
-        responseTime
+        responseTime,
+        statusCode: response.status,
+        method,
+        ...(parsed.faultCode !== undefined && { faultCode: parsed.faultCode }),
+        ...(parsed.invalid && { invalidResponse: true }),
+        body: responseText
       };
 
     } finally {
@@ -280,7 +331,9 @@ async function sendXmlRpcPingAttempt(
           flerror: true,
           message: `Request timed out after ${service.timeout}ms`,
           endpoint: service.endpoint,
-          responseTime
+          responseTime,
+          statusCode: 0,
+          method
         };
       }
 
@@ -291,9 +344,11 @@ async function sendXmlRpcPingAttempt(
       return {
         success: false,
         flerror: true,
-        message: 'Service temporarily unavailable',
+        message: 'Network error: service temporarily unavailable',
         endpoint: service.endpoint,
-        responseTime
+        responseTime,
+        statusCode: 0,
+        method
       };
     }
 
@@ -303,83 +358,100 @@ async function sendXmlRpcPingAttempt(
     return {
       success: false,
       flerror: true,
-      message: 'Service temporarily unavailable',
+      message: 'Network error: service temporarily unavailable',
       endpoint: service.endpoint,
-      responseTime
+      responseTime,
+      statusCode: 0,
+      method
     };
   }
 }
 
+/**
+ * Sends one methodCall to a service with retry logic
+ */
+function sendXmlRpcMethod(
+  service: XmlRpcService,
+  method: XmlRpcPingMethod | undefined,
+  requestBody: string,
+  maxRetries: number
+): Promise<MethodCallResult> {
+  return withRetries(
+    () => sendXmlRpcPingAttempt(service, method, requestBody),
+    maxRetries,
+    `[XMLRPC] ${service.name}`
+  );
+}
+
+/**
+ * Retries allowed for a methodCall: the service's own, if they fit before the deadline
+ */
+function getRetries(service: XmlRpcService, deadline: number): number {
+  return getRetriesWithin(service.maxRetries ?? DEFAULT_RETRY_COUNT, service.timeout, deadline);
+}
+
+/**
+ * Sends one ping method, leaving the response body out of the result
+ */
+async function sendPingMethod(
+  service: XmlRpcService,
+  method: XmlRpcPingMethod,
+  requestBody: string,
+  deadline: number
+): Promise<XmlRpcPingResult> {
+  const result = await sendXmlRpcMethod(service, method, requestBody, getRetries(service, deadline));
+  delete result.body;
+  return result;
+}
+
 /**
  * Sends an XML-RPC ping to a blog ping service with retry logic
  *
+ * Services that accept weblogUpdates.extendedPing get one when the site's
+ * feed is known, with the site's home page as the weblog URL and the
+ * pinged URL as the changed page. A method-not-found fault falls back to
+ * weblogUpdates.ping if the deadline leaves time for it. Requests are only
+ * retried when the retries fit before the deadline.
+ *
  * @param service - The XML-RPC service configuration
  * @param siteName - The name of the website being pinged
  * @param siteUrl - The URL of the website being pinged
+ * @param rssUrl - The website's RSS or Atom feed, if known
+ * @param deadline - When the ping must be done
  * @returns Promise resolving to ping result
  */
 export async function sendXmlRpcPing(
   service: XmlRpcService,
   siteName: string,
-  siteUrl: string
+  siteUrl: string,
+  rssUrl?: string,
+  deadline: number = Infinity
 ): Promise<XmlRpcPingResult> {
-  const maxRetries = service.maxRetries ?? DEFAULT_RETRY_COUNT;
-  let lastResult: XmlRpcPingResult | null = null;
-  let totalResponseTime = 0;
-
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    // Exponential backoff delay (skip on first attempt)
-    if (attempt > 0) {
-      const backoffDelay = RETRY_DELAY_MS * Math.pow(2, attempt - 1);
-      console.log(`[XMLRPC] ${service.name} retry ${attempt}/${maxRetries} after ${backoffDelay}ms`);
-      await delay(backoffDelay);
-    }
-
-    const result = await sendXmlRpcPingAttempt(service, siteName, siteUrl);
-    totalResponseTime += result.responseTime;
-    lastResult = result;
+  const basicPing = () => sendPingMethod(service, 'weblogUpdates.ping', buildXmlRpcRequest(siteName, siteUrl), deadline);
 
-    // Success - return immediately
-    if (result.success) {
-      if (attempt > 0) {
-        console.log(`[XMLRPC] ${service.name} succeeded on retry ${attempt}`);
-      }
-      return result;
-    }
+  if (!rssUrl || service.pingMethod !== 'weblogUpdates.extendedPing') {
+    return basicPing();
+  }
 
-    // Check if error is retryable
-    if (!isRetryableError(result)) {
-      // Non-retryable error (e.g., 4xx HTTP error) - don't retry
-      console.log(`[XMLRPC] ${service.name} non-retryable error: ${result.message}`);
-      return result;
-    }
+  const extended = await sendPingMethod(
+    service,
+    'weblogUpdates.extendedPing',
+    buildExtendedPingRequest(siteName, `${new URL(siteUrl).origin}/`, siteUrl, rssUrl),
+    deadline
+  );
 
-    // Retryable error - continue to next attempt if retries remaining
-    if (attempt < maxRetries) {
-      console.log(`[XMLRPC] ${service.name} failed (retryable): ${result.message}`);
-    }
+  if (!isMethodNotFound(extended)) {
+    return extended;
   }
 
-  // All retries exhausted - return last result with retry info
-  if (lastResult) {
-    const retriedMsg = maxRetries > 0
-      ? ` (after ${maxRetries + 1} attempts)`
-      : '';
-    return {
-      ...lastResult,
-      message: `${lastResult.message}${retriedMsg}`,
-      responseTime: totalResponseTime
-    };
+  if (deadline - Date.now() < service.timeout) {
+    console.log(`[XMLRPC] ${service.name} does not implement extendedPing, no time left for weblogUpdates.ping`);
+    return extended;
   }
 
-  // Fallback (should never reach here)
-  return {
-    success: false,
-    flerror: true,
-    message: 'Unknown error occurred',
-    endpoint: service.endpoint,
-    responseTime: totalResponseTime
-  };
+  console.log(`[XMLRPC] ${service.name} does not implement extendedPing, falling back to weblogUpdates.ping`);
+  const basic = await basicPing();
+  return { ...basic, responseTime: basic.responseTime + extended.responseTime };
 }
 
 /**
@@ -388,16 +460,238 @@ export async function sendXmlRpcPing(
  * @param services - Array of XML-RPC service configurations
  * @param siteName - The name of the website being pinged
  * @param siteUrl - The URL of the website being pinged
+ * @param rssUrl - The website's RSS or Atom feed, if known
  * @returns Promise resolving to array of ping results
  */
 export async function pingAllXmlRpcServices(
   services: XmlRpcService[],
   siteName: string,
-  siteUrl: string
+  siteUrl: string,
+  rssUrl?: string
 ): Promise<XmlRpcPingResult[]> {
   const pingPromises = services.map(service =>
-    sendXmlRpcPing(service, siteName, siteUrl)
+    sendXmlRpcPing(service, siteName, siteUrl, rssUrl)
   );
 
   return Promise.all(pingPromises);
 }
+
+/**
+ * Returns the store shared by every instance (opened on first use)
+ */
+function getMethodListStore(): JsonBlobStore | null {
+  if (methodListStore === undefined) {
+    methodListStore = openBlobStore('xmlrpc-methods');
+  }
+  return methodListStore;
+}
+
+/**
+ * Replaces the store shared by every instance (null keeps answers per instance)
+ */
+export function setMethodListStore(store: JsonBlobStore | null): void {
+  methodListStore = store;
+}
+
+/**
+ * Remembers whether an endpoint accepts system.multicall
+ * The shared copy is written in the background; failing to write it only costs another probe.
+ */
+function rememberMulticallSupport(service: XmlRpcService, supported: boolean): void {
+  const entry: MulticallSupport = { supported, expiresAt: Date.now() + METHOD_LIST_TTL_MS };
+  multicallSupport.set(service.endpoint, entry);
+
+  getMethodListStore()?.setJSON(encodeURIComponent(service.endpoint), entry).catch(error => {
+    console.error('[XMLRPC] Method list not shared:', error instanceof Error ? error.message : error);
+  });
+}
+
+/**
+ * Looks up a remembered system.listMethods answer, in this instance first
+ *
+ * @returns Whether the endpoint accepts system.multicall, or undefined if nobody asked it lately
+ */
+async function getMulticallSupport(service: XmlRpcService): Promise<boolean | undefined> {
+  const now = Date.now();
+  const cached = multicallSupport.get(service.endpoint);
+  if (cached && cached.expiresAt > now) {
+    return cached.supported;
+  }
+
+  const store = getMethodListStore();
+  if (!store) {
+    return undefined;
+  }
+
+  try {
+    const shared = await store.getWithMetadata(encodeURIComponent(service.endpoint), { type: 'json' });
+    const entry = shared?.data as MulticallSupport | undefined;
+    if (entry && entry.expiresAt > now) {
+      multicallSupport.set(service.endpoint, entry);
+      return entry.supported;
+    }
+  } catch (error) {
+    console.error('[XMLRPC] Shared method list unavailable:', error instanceof Error ? error.message : error);
+  }
+  return undefined;
+}
+
+/**
+ * Forgets what every endpoint's system.listMethods said (for tests)
+ */
+export function clearMulticallSupport(): void {
+  multicallSupport.clear();
+}
+
+/**
+ * Checks whether a service accepts system.multicall
+ *
+ * The endpoint's system.listMethods answer is remembered for an hour.
+ * Endpoints that do not answer are asked again next time. Unknown
+ * endpoints are only asked when the deadline leaves time for the probe
+ * and the multicall after it; otherwise they count as not supporting it.
+ *
+ * @param deadline - When the batch must be done
+ */
+export async function supportsMulticall(service: XmlRpcService, deadline: number = Infinity): Promise<boolean> {
+  const cached = await getMulticallSupport(service);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  if (deadline - Date.now() < 2 * service.timeout) {
+    return false;
+  }
+
+  const result = await sendXmlRpcPingAttempt(service, undefined, buildMethodCall('system.listMethods', []));
+  if (result.statusCode === 0 || result.statusCode >= 500) {
+    return false;
+  }
+
+  const response = result.body === undefined ? undefined : parseMethodResponse(result.body);
+  const supported = response?.type === 'success'
+    && Array.isArray(response.value)
+    && response.value.includes('system.multicall');
+
+  rememberMulticallSupport(service, supported);
+  return supported;
+}
+
+/**
+ * Sends several pings to one service in a single system.multicall request
+ *
+ * Every result carries the time the whole request took. Extended pings the
+ * service does not implement are sent again as basic pings. The request is
+ * only retried if the retries fit before the deadline.
+ *
+ * @param service - An XML-RPC service that supports system.multicall
+ * @param pings - The pings to batch
+ * @param deadline - When the batch must be done
+ * @returns One result per ping, in order, or null if the service rejected
+ * the multicall and the pings should be sent one by one
+ */
+export async function sendMulticallPings(
+  service: XmlRpcService,
+  pings: XmlRpcPingRequest[],
+  deadline: number = Infinity
+): Promise<XmlRpcPingResult[] | null> {
+  const calls = pings.map(({ siteName, siteUrl, rssUrl }) =>
+    rssUrl && service.pingMethod === 'weblogUpdates.extendedPing'
+      ? { methodName: 'weblogUpdates.extendedPing' as const, params: [siteName, `${new URL(siteUrl).origin}/`, siteUrl, rssUrl] }
+      : { methodName: 'weblogUpdates.ping' as const, params: [siteName, siteUrl] }
+  );
+
+  const { body, ...result } = await sendXmlRpcMethod(service, undefined, buildMulticallRequest(calls), getRetries(service, deadline));
+
+  // No response (or an HTTP error): every ping failed the same way
+  if (body === undefined) {
+    return calls.map(call => ({ ...result, method: call.methodName }));
+  }
+
+  const response = parseMethodResponse(body);
+  if (response.type !== 'success' || !Array.isArray(response.value) || response.value.length !== calls.length) {
+    console.log(`[XMLRPC] ${service.name} rejected system.multicall, sending pings one by one`);
+    rememberMulticallSupport(service, false);
+    return null;
+  }
+
+  const results: XmlRpcPingResult[] = response.value.map((entry, index) => {
+    const parsed = interpretMulticallEntry(entry);
+    return {
+      success: !parsed.flerror,
+      flerror: parsed.flerror,
+      message: parsed.message,
+      endpoint: service.endpoint,
+      responseTime: result.responseTime,
+      statusCode: result.statusCode,
+      method: calls[index].methodName,
+      ...(parsed.faultCode !== undefined && { faultCode: parsed.faultCode }),
+      ...(parsed.invalid && { invalidResponse: true })
+    };
+  });
+
+  const fallbacks = results.flatMap((ping, index) =>
+    ping.method === 'weblogUpdates.extendedPing' && isMethodNotFound(ping) ? [index] : []
+  );
+  if (fallbacks.length === 0) {
+    return results;
+  }
+
+  console.log(`[XMLRPC] ${service.name} does not implement extendedPing, falling back to weblogUpdates.ping`);
+  const basicPings = fallbacks.map(index => ({ ...pings[index], rssUrl: undefined }));
+  const basics = await sendMulticallPings(service, basicPings, deadline)
+    ?? await Promise.all(basicPings.map(ping => sendXmlRpcPing(service, ping.siteName, ping.siteUrl, undefined, deadline)));
+
+  fallbacks.forEach((index, i) => {
+    results[index] = { ...basics[i], responseTime: basics[i].responseTime + results[index].responseTime };
+  });
+  return results;
+}
+
+const PING_METHODS: XmlRpcPingMethod[] = ['weblogUpdates.ping', 'weblogUpdates.extendedPing'];
+
+/**
+ * XML-RPC as a ping protocol: registry services and the user's own endpoints
+ * Extended pings carry the site's feed, looked up only for services that use it.
+ */
+export const xmlrpcProtocol: PingProtocol<XmlRpcService, XmlRpcPingResult> = {
+  method: 'xmlrpc',
+
+  validateConfig(service) {
+    const problems = validateServiceConfig(service);
+    const urlProblem = checkEndpointUrl('endpoint', service.endpoint);
+    if (urlProblem) problems.push(urlProblem);
+    if (service.pingMethod && !PING_METHODS.includes(service.pingMethod)) {
+      problems.push(`pingMethod must be one of ${PING_METHODS.join(', ')}`);
+    }
+    return problems;
+  },
+
+  async send(service, context, deadline) {
+    const rssUrl = service.pingMethod === 'weblogUpdates.extendedPing' ? await context.getSiteFeedUrl() : undefined;
+    return sendXmlRpcPing(service, context.siteName, context.url, rssUrl, deadline);
+  },
+
+  // URLs pinged together share one system.multicall request where the endpoint supports it
+  async sendBatch(service, contexts, deadline) {
+    if (!(await supportsMulticall(service, deadline))) {
+      return null;
+    }
+
+    const rssUrls = service.pingMethod === 'weblogUpdates.extendedPing'
+      ? await Promise.all(contexts.map(context => context.getSiteFeedUrl()))
+      : [];
+    return sendMulticallPings(service, contexts.map((context, index) => ({
+      siteName: context.siteName,
+      siteUrl: context.url,
+      rssUrl: rssUrls[index]
+    })), deadline);
+  },
+
+  classify: result => ({
+    success: result.success,
+    message: result.message,
+    ...classifyResponse(result),
+    responseTime: result.responseTime
+  })
+};
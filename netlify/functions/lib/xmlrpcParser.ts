@@ -0,0 +1,411 @@
+/**
+ * XML-RPC response deserialiser
+ *
+ * Turns a methodResponse body into typed values per the XML-RPC
+ * specification: string, int/i4, double, boolean, dateTime.iso8601, base64,
+ * struct and array, plus the common nil extension. Faults are returned with
+ * their code and string.
+ *
+ * Parsing is strict: anything that is not well-formed XML, not a
+ * methodResponse, or holds a value that does not match its type (e.g.
+ * <int>12a</int>, <boolean>yes</boolean>) is reported as invalid, so HTML
+ * error pages and truncated bodies are never taken for success. DOCTYPE
+ * declarations are rejected outright (no entity expansion).
+ */
+
+// A deserialised XML-RPC value
+export type XmlRpcValue =
+  | string
+  | number
+  | boolean
+  | Date
+  | Uint8Array
+  | null
+  | XmlRpcValue[]
+  | XmlRpcStruct;
+
+export interface XmlRpcStruct {
+  [name: string]: XmlRpcValue;
+}
+
+export interface XmlRpcFault {
+  faultCode: number;
+  faultString: string;
+}
+
+// A parsed methodResponse
+export type MethodResponse =
+  | { type: 'success'; value: XmlRpcValue }
+  | { type: 'fault'; fault: XmlRpcFault }
+  | { type: 'invalid'; reason: string };
+
+// Element and value nesting allowed before giving up
+const MAX_DEPTH = 64;
+
+// XML-RPC <int> and <i4> are 32-bit signed
+const INT_MIN = -(2 ** 31);
+const INT_MAX = 2 ** 31 - 1;
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'"
+};
+
+// Parsed element: its name, child elements and concatenated character data
+interface XmlElement {
+  name: string;
+  children: XmlElement[];
+  text: string;
+}
+
+// Thrown inside the parser and reported as an invalid response
+class MalformedResponseError extends Error {}
+
+function malformed(reason: string): never {
+  throw new MalformedResponseError(reason);
+}
+
+/**
+ * Decodes character and entity references in character data
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&([^;&\s]*);?/g, (reference, name: string) => {
+    if (!reference.endsWith(';')) {
+      malformed(`Unterminated entity reference ${reference}`);
+    }
+
+    const numeric = name.match(/^#(?:x([0-9a-fA-F]+)|(\d+))$/);
+    if (numeric) {
+      const codePoint = numeric[1] ? parseInt(numeric[1], 16) : parseInt(numeric[2], 10);
+      if (codePoint === 0 || codePoint > 0x10ffff) {
+        malformed(`Invalid character reference ${reference}`);
+      }
+      return String.fromCodePoint(codePoint);
+    }
+
+    return XML_ENTITIES[name] ?? malformed(`Unknown entity ${reference}`);
+  });
+}
+
+/**
+ * Minimal well-formedness-checking XML parser for XML-RPC bodies
+ *
+ * Attributes are read past but not kept (XML-RPC does not use them);
+ * comments and processing instructions are skipped.
+ */
+function parseXml(xml: string): XmlElement {
+  let pos = 0;
+
+  const startsWith = (token: string) => xml.startsWith(token, pos);
+
+  const skipPast = (token: string, what: string) => {
+    const end = xml.indexOf(token, pos);
+    if (end === -1) malformed(`Unterminated ${what}`);
+    pos = end + token.length;
+  };
+
+  // Whitespace, comments and processing instructions between elements
+  const skipMisc = () => {
+    for (;;) {
+      const whitespace = /^\s*/.exec(xml.slice(pos, pos + 1024))?.[0].length ?? 0;
+      pos += whitespace;
+      if (startsWith('<!--')) {
+        skipPast('-->', 'comment');
+      } else if (startsWith('<?')) {
+        skipPast('?>', 'processing instruction');
+      } else if (whitespace === 0) {
+        return;
+      }
+    }
+  };
+
+  const readName = (): string => {
+    const match = /^[A-Za-z_][\w.:-]*/.exec(xml.slice(pos, pos + 256));
+    if (!match) malformed(`Expected an element name at offset ${pos}`);
+    pos += match[0].length;
+    return match[0];
+  };
+
+  const parseElement = (depth: number): XmlElement => {
+    if (depth > MAX_DEPTH) malformed('Elements nested too deeply');
+    if (!startsWith('<')) malformed(`Expected an element at offset ${pos}`);
+    pos++;
+
+    const element: XmlElement = { name: readName(), children: [], text: '' };
+
+    // Attributes, then > or />
+    const tagEnd = /^(?:\s+[A-Za-z_][\w.:-]*\s*=\s*(?:"[^"<]*"|'[^'<]*'))*\s*(\/?)>/.exec(xml.slice(pos, pos + 4096));
+    if (!tagEnd) malformed(`Malformed start tag <${element.name}>`);
+    pos += tagEnd[0].length;
+    if (tagEnd[1]) return element;
+
+    for (;;) {
+      if (pos >= xml.length) {
+        malformed(`Unclosed <${element.name}>`);
+      } else if (startsWith('</')) {
+        pos += 2;
+        const name = readName();
+        if (name !== element.name) malformed(`Expected </${element.name}>, found </${name}>`);
+        const close = /^\s*>/.exec(xml.slice(pos, pos + 256));
+        if (!close) malformed(`Malformed end tag </${name}>`);
+        pos += close[0].length;
+        return element;
+      } else if (startsWith('<!--')) {
+        skipPast('-->', 'comment');
+      } else if (startsWith('<![CDATA[')) {
+        const start = pos + 9;
+        skipPast(']]>', 'CDATA section');
+        element.text += xml.slice(start, pos - 3);
+      } else if (startsWith('<?')) {
+        skipPast('?>', 'processing instruction');
+      } else if (startsWith('<!')) {
+        malformed('Markup declarations are not allowed');
+      } else if (startsWith('<')) {
+        element.children.push(parseElement(depth + 1));
+      } else {
+        const end = xml.indexOf('<', pos);
+        const text = xml.slice(pos, end === -1 ? xml.length : end);
+        if (text.includes(']]>')) malformed('Unexpected ]]> in character data');
+        element.text += decodeEntities(text);
+        pos += text.length;
+      }
+    }
+  };
+
+  // Byte order mark, XML declaration, comments
+  if (startsWith('\uFEFF')) pos++;
+  skipMisc();
+  if (startsWith('<!DOCTYPE') || startsWith('<!doctype')) {
+    malformed('DOCTYPE declarations are not allowed');
+  }
+  if (pos >= xml.length) malformed('Empty response');
+
+  const root = parseElement(0);
+
+  skipMisc();
+  if (pos < xml.length) malformed('Content after the root element');
+
+  return root;
+}
+
+/**
+ * Returns the single child element, rejecting stray text and siblings
+ */
+function onlyChild(element: XmlElement, expected?: string): XmlElement {
+  if (element.children.length !== 1 || element.text.trim()) {
+    malformed(`<${element.name}> must hold exactly one ${expected ? `<${expected}>` : 'element'}`);
+  }
+
+  const child = element.children[0];
+  if (expected && child.name !== expected) {
+    malformed(`Expected <${expected}> in <${element.name}>, found <${child.name}>`);
+  }
+  return child;
+}
+
+/**
+ * Returns the character data of an element that must not have children
+ */
+function textOf(element: XmlElement): string {
+  if (element.children.length > 0) {
+    malformed(`<${element.name}> must not contain elements`);
+  }
+  return element.text;
+}
+
+function parseInteger(element: XmlElement, min: number, max: number): number {
+  const text = textOf(element).trim();
+  if (!/^[+-]?\d+$/.test(text)) malformed(`Invalid <${element.name}> value "${text}"`);
+
+  const value = Number(text);
+  if (value < min || value > max) malformed(`<${element.name}> value ${text} out of range`);
+  return value;
+}
+
+function parseDouble(element: XmlElement): number {
+  const text = textOf(element).trim();
+  if (!/^[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?$/.test(text)) {
+    malformed(`Invalid <double> value "${text}"`);
+  }
+  return Number(text);
+}
+
+function parseBoolean(element: XmlElement): boolean {
+  const text = textOf(element).trim();
+  if (text !== '0' && text !== '1') malformed(`Invalid <boolean> value "${text}"`);
+  return text === '1';
+}
+
+/**
+ * Parses dateTime.iso8601, e.g. 19980717T14:08:55 (UTC when no zone is given)
+ */
+function parseDateTime(element: XmlElement): Date {
+  const text = textOf(element).trim();
+  const match = text.match(
+    /^(\d{4})-?(\d{2})-?(\d{2})T(\d{2}):?(\d{2}):?(\d{2})(\.\d+)?(Z|[+-]\d{2}:?\d{2})?$/
+  );
+  if (!match) malformed(`Invalid <dateTime.iso8601> value "${text}"`);
+
+  const [, year, month, day, hour, minute, second, fraction = '', zone = 'Z'] = match;
+  const offset = zone === 'Z' ? 'Z' : `${zone.slice(0, 3)}:${zone.slice(-2)}`;
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${fraction}${offset}`);
+
+  // Reject out-of-range fields rather than letting Date roll them over
+  const daysInMonth = new Date(Date.UTC(Number(year), Number(month), 0)).getUTCDate();
+  if (
+    Number.isNaN(date.getTime())
+    || Number(month) < 1 || Number(month) > 12
+    || Number(day) < 1 || Number(day) > daysInMonth
+    || Number(hour) > 23 || Number(minute) > 59 || Number(second) > 59
+  ) {
+    malformed(`Invalid <dateTime.iso8601> value "${text}"`);
+  }
+  return date;
+}
+
+function parseBase64(element: XmlElement): Uint8Array {
+  const text = textOf(element).replace(/\s+/g, '');
+  if (text.length % 4 !== 0 || !/^[A-Za-z0-9+/]*={0,2}$/.test(text)) {
+    malformed('Invalid <base64> value');
+  }
+  return new Uint8Array(Buffer.from(text, 'base64'));
+}
+
+function parseStruct(element: XmlElement, depth: number): XmlRpcStruct {
+  if (element.text.trim()) malformed('<struct> must only contain <member> elements');
+
+  const struct: XmlRpcStruct = {};
+  for (const member of element.children) {
+    if (member.name !== 'member' || member.text.trim()) {
+      malformed(`Expected <member> in <struct>, found <${member.name}>`);
+    }
+
+    const [name, value, ...rest] = member.children;
+    if (name?.name !== 'name' || value?.name !== 'value' || rest.length > 0) {
+      malformed('<member> must hold a <name> and a <value>');
+    }
+
+    // defineProperty keeps names such as __proto__ as plain members
+    Object.defineProperty(struct, textOf(name), {
+      value: parseValue(value, depth + 1),
+      enumerable: true,
+      writable: true,
+      configurable: true
+    });
+  }
+  return struct;
+}
+
+function parseArray(element: XmlElement, depth: number): XmlRpcValue[] {
+  const data = onlyChild(element, 'data');
+  if (data.text.trim()) malformed('<data> must only contain <value> elements');
+
+  return data.children.map(value => {
+    if (value.name !== 'value') malformed(`Expected <value> in <data>, found <${value.name}>`);
+    return parseValue(value, depth + 1);
+  });
+}
+
+/**
+ * Converts a <value> element into its JavaScript value
+ */
+function parseValue(value: XmlElement, depth: number): XmlRpcValue {
+  if (depth > MAX_DEPTH) malformed('Values nested too deeply');
+
+  // A value without a type element is a string
+  if (value.children.length === 0) {
+    return value.text;
+  }
+
+  const typed = onlyChild(value);
+  switch (typed.name) {
+    case 'string':
+      return textOf(typed);
+    case 'int':
+    case 'i4':
+      return parseInteger(typed, INT_MIN, INT_MAX);
+    case 'i8':
+      return parseInteger(typed, Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER);
+    case 'double':
+      return parseDouble(typed);
+    case 'boolean':
+      return parseBoolean(typed);
+    case 'dateTime.iso8601':
+      return parseDateTime(typed);
+    case 'base64':
+      return parseBase64(typed);
+    case 'struct':
+      return parseStruct(typed, depth);
+    case 'array':
+      return parseArray(typed, depth);
+    case 'nil':
+    case 'ex:nil':
+      if (textOf(typed).trim()) malformed('<nil> must be empty');
+      return null;
+    default:
+      return malformed(`Unknown value type <${typed.name}>`);
+  }
+}
+
+/**
+ * Checks whether a value is a struct
+ */
+export function isXmlRpcStruct(value: XmlRpcValue): value is XmlRpcStruct {
+  return typeof value === 'object' && value !== null
+    && !Array.isArray(value) && !(value instanceof Date) && !(value instanceof Uint8Array);
+}
+
+/**
+ * Reads a fault's faultCode and faultString members
+ */
+function parseFault(fault: XmlElement): XmlRpcFault {
+  const value = parseValue(onlyChild(fault, 'value'), 0);
+  if (!isXmlRpcStruct(value)) {
+    malformed('<fault> must hold a struct');
+  }
+
+  const { faultCode, faultString } = value;
+  if (typeof faultCode !== 'number' || !Number.isInteger(faultCode)) {
+    malformed('Fault has no integer faultCode');
+  }
+  if (typeof faultString !== 'string') {
+    malformed('Fault has no faultString');
+  }
+
+  return { faultCode, faultString };
+}
+
+/**
+ * Parses an XML-RPC methodResponse body
+ *
+ * @param xml - The response body
+ * @returns The returned value, the fault, or why the body is not a valid
+ * methodResponse; never throws
+ */
+export function parseMethodResponse(xml: string): MethodResponse {
+  try {
+    const root = parseXml(xml);
+    if (root.name !== 'methodResponse') {
+      malformed(`Expected <methodResponse>, found <${root.name}>`);
+    }
+
+    const body = onlyChild(root);
+    if (body.name === 'fault') {
+      return { type: 'fault', fault: parseFault(body) };
+    }
+    if (body.name !== 'params') {
+      malformed(`Expected <params> or <fault>, found <${body.name}>`);
+    }
+
+    const param = onlyChild(body, 'param');
+    return { type: 'success', value: parseValue(onlyChild(param, 'value'), 0) };
+  } catch (error) {
+    if (error instanceof MalformedResponseError) {
+      return { type: 'invalid', reason: error.message };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Background runner for asynchronous ping jobs
+ *
+ * Netlify runs functions whose name ends in "-background" for up to
+ * 15 minutes and answers the caller with 202 straight away. The jobs
+ * endpoint invokes this function when JOB_RUNNER=background.
+ *
+ * Only jobs that are still queued are run, so repeated invocations
+ * for the same job are harmless.
+ *
+ * Body: { jobId: string }
+ */
+
+import { getJobStore, runPingJob, isValidJobId } from './lib/jobs';
+
+export default async (req: Request): Promise<void> => {
+  if (req.method !== 'POST') return;
+
+  let jobId: unknown;
+  try {
+    ({ jobId } = await req.json());
+  } catch {
+    console.warn('[Jobs] Background runner received an invalid body');
+    return;
+  }
+
+  if (typeof jobId !== 'string' || !isValidJobId(jobId)) {
+    console.warn('[Jobs] Background runner received an invalid job ID');
+    return;
+  }
+
+  await runPingJob(getJobStore(), jobId);
+};
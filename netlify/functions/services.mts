@@ -0,0 +1,42 @@
+/**
+ * Ping Service Registry Endpoint
+ *
+ * Exposes the backend's service registry so the frontend never keeps
+ * its own copy of the service list.
+ *
+ * Endpoint: GET /api/services
+ * Response: { services: ServiceDescriptor[] }
+ */
+
+import type { Config } from '@netlify/functions';
+import { getServiceRegistry } from './lib/protocolRegistry';
+import { getCorsHeaders, jsonResponse } from './lib/http';
+
+/**
+ * Main handler for the services endpoint
+ */
+export default async (req: Request): Promise<Response> => {
+  const corsHeaders = getCorsHeaders(req, 'GET, OPTIONS');
+
+  // Handle preflight request
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders
+    });
+  }
+
+  if (req.method !== 'GET') {
+    return jsonResponse({ error: 'Method not allowed' }, 405, corsHeaders);
+  }
+
+  return jsonResponse({ services: getServiceRegistry() }, 200, {
+    // The registry only changes on deploy
+    'Cache-Control': 'public, max-age=300',
+    ...corsHeaders
+  });
+};
+
+export const config: Config = {
+  path: '/api/services'
+};
@@ -0,0 +1,68 @@
+/**
+ * API Key Usage Endpoint
+ *
+ * Reports today's consumption (UTC) for the calling API key. Keys marked
+ * `admin` see every configured key.
+ *
+ * Endpoint: GET /api/usage
+ * Headers: Authorization: Bearer <key>
+ * Response: { keys: ApiKeyUsage[] }
+ *
+ * The counts are read from the counter store the ping functions write to,
+ * which is shared through Netlify Blobs (see lib/rateLimit).
+ */
+
+import type { Config } from '@netlify/functions';
+import { authenticateRequest, getApiKeyStore } from './lib/apiKeys';
+import { unauthorizedResponse } from './lib/access';
+import { getKeyUsage } from './lib/usage';
+import { getCorsHeaders, jsonResponse } from './lib/http';
+
+/**
+ * Main handler for the usage endpoint
+ */
+export default async (req: Request): Promise<Response> => {
+  const corsHeaders = getCorsHeaders(req, 'GET, OPTIONS');
+
+  // Handle preflight request
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders
+    });
+  }
+
+  if (req.method !== 'GET') {
+    return jsonResponse({ error: 'Method not allowed' }, 405, corsHeaders);
+  }
+
+  try {
+    const auth = await authenticateRequest(req);
+    if (auth.status === 'invalid') {
+      return unauthorizedResponse(auth.error, corsHeaders);
+    }
+    if (auth.status === 'anonymous') {
+      return unauthorizedResponse('An API key is required', corsHeaders);
+    }
+
+    const keys = auth.key.admin ? await getApiKeyStore().list() : [auth.key];
+    const usage = await Promise.all(keys.map(key => getKeyUsage(key)));
+
+    return jsonResponse({ keys: usage }, 200, {
+      'Cache-Control': 'no-store',
+      ...corsHeaders
+    });
+
+  } catch (error) {
+    // Log detailed error internally for debugging (not exposed to client)
+    console.error('[Usage API] Unhandled error:', error instanceof Error ? error.message : error);
+
+    return jsonResponse({
+      error: 'An error occurred while processing your request'
+    }, 500, corsHeaders);
+  }
+};
+
+export const config: Config = {
+  path: '/api/usage'
+};
@@ -1,26 +1,38 @@
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { Globe } from 'lucide-react';
 import { URLInput } from './components/URLInput';
 import { CategoryFilter } from './components/CategoryFilter';
+import { CustomEndpoints } from './components/CustomEndpoints';
 import { ProgressBar } from './components/ProgressBar';
 import { ResultsDisplay } from './components/ResultsDisplay';
+import { BacklinkInput } from './components/BacklinkInput';
+import { BacklinkResults } from './components/BacklinkResults';
 import { PingControls } from './components/PingControls';
 import { PingController } from './utils/PingController';
 import { ErrorContainer } from './components/ErrorContainer';
 import { useErrorContext } from './context';
 import { useAsyncOperation } from './hooks/useAsyncOperation';
+import { usePingServices } from './hooks/usePingServices';
+import { useCustomEndpoints } from './hooks/useCustomEndpoints';
+import { toCustomPingService } from './utils/customEndpoints';
+import { sendBacklinks } from './api/backlinks';
 import { AppError } from './utils/errorHandler';
 import { logger } from './utils/logger';
 import { triggerHeightRecalc } from './utils/iframeHeight';
-import { PING_SERVICES } from './services/pingServices';
-import type { PingResults, ProgressInfo } from './types';
+import type { ApiBacklinkResult, Backlink, CustomEndpoint, PingResults, ProgressInfo } from './types';
 
-// Initialize with all services selected by default
-const ALL_SERVICE_NAMES = PING_SERVICES.map(s => s.name);
+// Streaming by default; VITE_PING_MODE=job polls asynchronous backend jobs instead
+const PING_MODE = import.meta.env.VITE_PING_MODE === 'job' ? 'job' : 'stream';
+
+// Ping URLs to services, or notify linked pages of backlinks (pingback)
+type ToolMode = 'urls' | 'backlinks';
 
 function App() {
+  const { services: registryServices, error: servicesError } = usePingServices();
+  const { endpoints: customEndpoints, addEndpoint, removeEndpoint } = useCustomEndpoints();
+  // Custom endpoints start selected, like the registry services
   const [selectedServices, setSelectedServices] = useState<Set<string>>(
-    new Set(ALL_SERVICE_NAMES)
+    () => new Set(customEndpoints.map(endpoint => endpoint.name))
   );
   const [results, setResults] = useState<PingResults>({});
   const [isLoading, setIsLoading] = useState(false);
@@ -36,10 +48,30 @@ function App() {
   });
   const [activeUrls, setActiveUrls] = useState<string[]>([]);
   const pingControllerRef = useRef<PingController | null>(null);
+  const [mode, setMode] = useState<ToolMode>('urls');
+  const [backlinkResults, setBacklinkResults] = useState<ApiBacklinkResult[]>([]);
+  const [activeLinks, setActiveLinks] = useState<Backlink[]>([]);
 
   // Use shared error context for consistent error state across components
   const { error, setError, clearError } = useErrorContext();
 
+  // Registry services followed by the user's own endpoints
+  const services = useMemo(
+    () => [...registryServices, ...customEndpoints.map(toCustomPingService)],
+    [registryServices, customEndpoints]
+  );
+
+  // Select all services by default once the registry has loaded
+  useEffect(() => {
+    setSelectedServices(selected => new Set([...selected, ...registryServices.map(s => s.name)]));
+  }, [registryServices]);
+
+  useEffect(() => {
+    if (servicesError) {
+      setError(servicesError);
+    }
+  }, [servicesError, setError]);
+
   // Local retry state management
   const [retryCount, setRetryCount] = useState(0);
   const MAX_RETRIES = 3;
@@ -79,7 +111,8 @@ function App() {
       const controller = new PingController(
         (info) => setProgress(info),
         (results) => setResults(results),
-        (error) => setError(error)
+        (error) => setError(error),
+        { mode: PING_MODE, customEndpoints }
       );
       pingControllerRef.current = controller;
 
@@ -99,6 +132,25 @@ function App() {
     }
   };
 
+  const handleBacklinkSubmit = async (links: Backlink[]) => {
+    try {
+      clearError();
+      setIsLoading(true);
+      setIsCompleted(false);
+      setBacklinkResults([]);
+      setActiveLinks(links);
+
+      await execute(async () => {
+        const response = await sendBacklinks(links);
+        setBacklinkResults(response.results);
+        setIsCompleted(true);
+      });
+    } finally {
+      setIsLoading(false);
+      triggerHeightRecalc();
+    }
+  };
+
   const handlePause = () => {
     if (pingControllerRef.current) {
       pingControllerRef.current.pause();
@@ -123,6 +175,7 @@ function App() {
 
   const handleReset = () => {
     setResults({});
+    setBacklinkResults([]);
     setIsLoading(false);
     setIsCompleted(false);
     setIsPaused(false);
@@ -137,6 +190,7 @@ function App() {
       successes: 0
     });
     setActiveUrls([]);
+    setActiveLinks([]);
     if (pingControllerRef.current) {
       pingControllerRef.current.reset();
     }
@@ -146,8 +200,25 @@ function App() {
     triggerHeightRecalc();
   };
 
+  const handleAddEndpoint = (endpoint: CustomEndpoint) => {
+    addEndpoint(endpoint);
+    setSelectedServices(selected => new Set([...selected, endpoint.name]));
+  };
+
+  const handleRemoveEndpoint = (name: string) => {
+    removeEndpoint(name);
+    setSelectedServices(selected => new Set([...selected].filter(selectedName => selectedName !== name)));
+  };
+
+  const handleModeChange = (nextMode: ToolMode) => {
+    if (nextMode === mode || isLoading) return;
+    handleReset();
+    setMode(nextMode);
+  };
+
   const handleRetry = async () => {
-    if (!canRetry || activeUrls.length === 0) {
+    const pending = mode === 'backlinks' ? activeLinks.length : activeUrls.length;
+    if (!canRetry || pending === 0) {
       return;
     }
 
@@ -164,7 +235,11 @@ function App() {
     // Clear error and retry the operation
     clearError();
     try {
-      await handleSubmit(activeUrls);
+      if (mode === 'backlinks') {
+        await handleBacklinkSubmit(activeLinks);
+      } else {
+        await handleSubmit(activeUrls);
+      }
     } catch (err) {
       // Error will be handled by handleSubmit's error handling
       setError(err);
@@ -204,19 +279,59 @@ function App() {
             />
           )}
 
-          <CategoryFilter
-            selectedServices={selectedServices}
-            onServiceChange={setSelectedServices}
-          />
+          <div className="inline-flex rounded-lg border border-gray-200 p-0.5" role="group" aria-label="Mode">
+            {([['urls', 'Ping URLs'], ['backlinks', 'Notify Backlinks']] as const).map(([value, label]) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => handleModeChange(value)}
+                aria-pressed={mode === value}
+                disabled={isLoading}
+                className={`rounded-md px-3 py-1 text-sm font-medium transition-colors disabled:cursor-not-allowed ${
+                  mode === value ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {mode === 'backlinks' ? (
+            <>
+              <BacklinkInput
+                onSubmit={handleBacklinkSubmit}
+                onReset={handleReset}
+                isLoading={isLoading}
+                isCompleted={isCompleted}
+              />
+              <BacklinkResults results={backlinkResults} />
+            </>
+          ) : (
+            <>
+              <CategoryFilter
+                services={services}
+                selectedServices={selectedServices}
+                onServiceChange={setSelectedServices}
+              />
 
-          <URLInput
-            onSubmit={handleSubmit}
-            onReset={handleReset}
-            isLoading={isLoading}
-            isCompleted={isCompleted}
-          />
+              <CustomEndpoints
+                endpoints={customEndpoints}
+                serviceNames={registryServices.map(s => s.name)}
+                onAdd={handleAddEndpoint}
+                onRemove={handleRemoveEndpoint}
+                disabled={isLoading}
+              />
 
-          {isLoading && (
+              <URLInput
+                onSubmit={handleSubmit}
+                onReset={handleReset}
+                isLoading={isLoading}
+                isCompleted={isCompleted}
+              />
+            </>
+          )}
+
+          {mode === 'urls' && isLoading && (
             <div className="w-full max-w-4xl space-y-6">
               <div className="flex items-center justify-between">
                 <PingControls
@@ -227,11 +342,13 @@ function App() {
                   disabled={!isLoading || isCompleted}
                 />
               </div>
-              <ProgressBar progress={progress} urls={activeUrls} />
+              <ProgressBar progress={progress} urls={activeUrls} results={results} />
             </div>
           )}
 
-          <ResultsDisplay results={results} selectedServices={selectedServices} />
+          {mode === 'urls' && (
+            <ResultsDisplay results={results} services={services} selectedServices={selectedServices} />
+          )}
         </div>
       </div>
     </div>
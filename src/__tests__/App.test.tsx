@@ -117,8 +117,8 @@ describe('App Component', () => {
     const allCategoriesButton = screen.getByRole('button', { name: /All Categories/i });
     expect(allCategoriesButton).toBeInTheDocument();
 
-    // Search Engines category should be present
-    const searchEnginesButton = screen.getByRole('button', { name: /Search Engines/i });
+    // Categories come from the service registry, which loads asynchronously
+    const searchEnginesButton = await screen.findByRole('button', { name: /Search Engines/i });
     expect(searchEnginesButton).toBeInTheDocument();
 
     // Blog Networks category should be present
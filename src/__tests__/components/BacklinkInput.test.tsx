@@ -0,0 +1,56 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { BacklinkInput } from '../../components/BacklinkInput';
+
+describe('BacklinkInput Component', () => {
+  const mockOnSubmit = vi.fn();
+  const mockOnReset = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const renderInput = () => render(
+    <BacklinkInput
+      onSubmit={mockOnSubmit}
+      onReset={mockOnReset}
+      isLoading={false}
+      isCompleted={false}
+    />
+  );
+
+  test('submits normalised source and target pairs', () => {
+    renderInput();
+
+    fireEvent.change(screen.getByLabelText(/Backlinks/i), {
+      target: { value: 'blog.example.com/post -> https://other.example.org/Page\nhttps://a.example.com/x, https://b.example.com/y' }
+    });
+    fireEvent.click(screen.getByRole('button', { name: /Notify Targets/i }));
+
+    expect(mockOnSubmit).toHaveBeenCalledWith([
+      { source: 'https://blog.example.com/post', target: 'https://other.example.org/Page' },
+      { source: 'https://a.example.com/x', target: 'https://b.example.com/y' }
+    ]);
+  });
+
+  test('rejects lines without a target', () => {
+    renderInput();
+
+    fireEvent.change(screen.getByLabelText(/Backlinks/i), {
+      target: { value: 'https://blog.example.com/post' }
+    });
+
+    expect(screen.getByText(/Enter a source and a target URL/i)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Notify Targets/i })).toBeDisabled();
+  });
+
+  test('rejects links to the same page', () => {
+    renderInput();
+
+    fireEvent.change(screen.getByLabelText(/Backlinks/i), {
+      target: { value: 'https://example.com/a https://example.com/a' }
+    });
+
+    expect(screen.getByText(/Source and target must differ/i)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, test, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { BacklinkResults } from '../../components/BacklinkResults';
+import type { ApiBacklinkResult } from '../../types';
+
+const accepted = (statusUrl: string): ApiBacklinkResult => ({
+  source: 'https://blog.example.com/post',
+  target: 'https://other.example.org/page',
+  protocol: 'webmention',
+  success: true,
+  outcome: 'accepted',
+  message: 'Webmention created',
+  endpoint: 'https://other.example.org/webmention',
+  statusUrl,
+  responseTime: 120
+});
+
+describe('BacklinkResults Component', () => {
+  test('links to the status page of a queued Webmention', () => {
+    render(<BacklinkResults results={[accepted('https://other.example.org/webmention/status/42')]} />);
+
+    expect(screen.getByRole('link', { name: 'Track status' })).toHaveAttribute(
+      'href',
+      'https://other.example.org/webmention/status/42'
+    );
+  });
+
+  test('never links to status pages that are not web pages', () => {
+    render(<BacklinkResults results={[accepted('javascript:alert(document.cookie)')]} />);
+
+    expect(screen.getByText(/Webmention created/)).toBeInTheDocument();
+    expect(screen.queryByRole('link', { name: 'Track status' })).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import {
+  loadCustomEndpoints,
+  saveCustomEndpoints,
+  toCustomPingService,
+  validateCustomEndpoint
+} from '../../utils/customEndpoints';
+
+const REGIONAL = { name: 'Regional Pinger', url: 'https://ping.example.net/RPC2' };
+
+describe('Custom endpoints', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  test('are stored in local storage', () => {
+    expect(loadCustomEndpoints()).toEqual([]);
+
+    saveCustomEndpoints([REGIONAL]);
+    expect(loadCustomEndpoints()).toEqual([REGIONAL]);
+
+    localStorage.setItem('pinger.customEndpoints', '[{"name":1},"x",{"name":"Ok","url":"https://ok.example.net/"}]');
+    expect(loadCustomEndpoints()).toEqual([{ name: 'Ok', url: 'https://ok.example.net/' }]);
+
+    localStorage.setItem('pinger.customEndpoints', '{not json');
+    expect(loadCustomEndpoints()).toEqual([]);
+  });
+
+  test('are validated before being added', () => {
+    expect(validateCustomEndpoint({ name: ' Regional ', url: 'ping.example.net/RPC2' }, [], [])).toEqual({
+      valid: true,
+      endpoint: { name: 'Regional', url: 'https://ping.example.net/RPC2' }
+    });
+
+    expect(validateCustomEndpoint(REGIONAL, [REGIONAL], []).valid).toBe(false);
+    expect(validateCustomEndpoint({ ...REGIONAL, name: 'Twingly' }, [], ['Twingly']).valid).toBe(false);
+    expect(validateCustomEndpoint({ ...REGIONAL, url: 'not a url' }, [], []).valid).toBe(false);
+
+    const full = Array.from({ length: 5 }, (_, i) => ({ name: `Pinger ${i}`, url: REGIONAL.url }));
+    expect(validateCustomEndpoint(REGIONAL, full, [])).toEqual({ valid: false, error: 'Maximum 5 custom endpoints allowed' });
+  });
+
+  test('are listed under the Custom category', () => {
+    expect(toCustomPingService(REGIONAL)).toMatchObject({ name: 'Regional Pinger', method: 'xmlrpc', category: 'Custom', enabled: true });
+  });
+});
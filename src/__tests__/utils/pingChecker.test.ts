@@ -0,0 +1,94 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { ApiPingResult, ApiPingStreamEvent } from '../../types';
+
+const PAGE = 'https://blog.example.com/posts/hello';
+
+const result = (service: string): ApiPingResult => ({
+  service,
+  url: PAGE,
+  success: true,
+  message: 'Ping accepted',
+  method: 'websub',
+  outcome: 'accepted',
+  reason: 'processed',
+  responseTime: 10
+});
+
+const summary: ApiPingStreamEvent = { type: 'summary', success: true, total: 2, totalTime: 120 };
+
+// Serves the given text chunks as an NDJSON response body
+function mockStream(chunks: string[]) {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    }
+  });
+  return vi.spyOn(globalThis, 'fetch').mockResolvedValue({ ok: true, status: 200, body } as Response);
+}
+
+const line = (event: ApiPingStreamEvent) => `${JSON.stringify(event)}\n`;
+
+// Imports the checker with development mocks off, so it calls the API
+async function loadPingChecker() {
+  vi.stubEnv('DEV', false);
+  vi.resetModules();
+  return import('../../utils/pingChecker');
+}
+
+describe('Streaming ping client', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  test('reports each result and reassembles lines split across chunks', async () => {
+    const text = line({ type: 'result', result: result('Google WebSub') })
+      + line({ type: 'result', result: result('Ping-o-Matic') })
+      + line(summary);
+    // Split inside lines, and drop the newline after the last one
+    const fetchMock = mockStream([text.slice(0, 17), text.slice(17, 150), text.slice(150, -1)]);
+    const { streamPingAllServices } = await loadPingChecker();
+    const onResult = vi.fn();
+
+    const response = await streamPingAllServices([PAGE], onResult);
+
+    expect(fetchMock).toHaveBeenCalledWith('/api/ping', expect.objectContaining({
+      headers: expect.objectContaining({ Accept: 'application/x-ndjson' })
+    }));
+    expect(onResult.mock.calls.map(([pinged]) => pinged.service)).toEqual(['Google WebSub', 'Ping-o-Matic']);
+    expect(response).toMatchObject({ success: true, totalTime: 120 });
+    expect(response.results).toHaveLength(2);
+  });
+
+  test('rejects with the server error sent on the stream', async () => {
+    mockStream([
+      line({ type: 'result', result: result('Google WebSub') }),
+      line({ type: 'error', error: 'An error occurred while processing your request' })
+    ]);
+    const { streamPingAllServices } = await loadPingChecker();
+    const onResult = vi.fn();
+
+    await expect(streamPingAllServices([PAGE], onResult)).rejects.toMatchObject({
+      message: 'An error occurred while processing your request',
+      code: 'SERVER_ERROR'
+    });
+    expect(onResult).toHaveBeenCalledTimes(1);
+  });
+
+  test('rejects a stream that ends without a summary', async () => {
+    mockStream([line({ type: 'result', result: result('Google WebSub') })]);
+    const { streamPingAllServices } = await loadPingChecker();
+
+    await expect(streamPingAllServices([PAGE], vi.fn())).rejects.toMatchObject({
+      code: 'STREAM_ERROR'
+    });
+  });
+});
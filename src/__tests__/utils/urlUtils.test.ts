@@ -1,5 +1,5 @@
 import { describe, test, expect } from 'vitest';
-import { validateUrl, normalizeUrl, extractDomain } from '../../utils/urlUtils';
+import { validateUrl, normalizeUrl, extractDomain, formatUrlForDisplay } from '../../utils/urlUtils';
 
 describe('URL Utilities', () => {
   describe('validateUrl', () => {
@@ -35,6 +35,34 @@ describe('URL Utilities', () => {
     });
   });
 
+  describe('internationalised domain names', () => {
+    test('accepts Unicode host names and submits them as Punycode', () => {
+      const result = validateUrl('bücher.de/Straße');
+      expect(result.isValid).toBe(true);
+      expect(result.normalizedUrl).toBe('https://xn--bcher-kva.de/Stra%C3%9Fe');
+
+      expect(validateUrl('https://例え.jp').normalizedUrl).toBe('https://xn--r8jz45g.jp');
+    });
+
+    test('keeps percent-encoding and path case', () => {
+      expect(validateUrl('https://example.com/%E2%82%AC/Path').normalizedUrl)
+        .toBe('https://example.com/%E2%82%AC/Path');
+      expect(normalizeUrl('https://Example.com/%E2%82%AC/Path'))
+        .toBe('https://example.com/%E2%82%AC/Path');
+    });
+
+    test('rejects invalid Punycode labels', () => {
+      expect(validateUrl('https://xn--a.com').isValid).toBe(false);
+    });
+
+    test('displays host names and paths as Unicode', () => {
+      expect(formatUrlForDisplay('https://xn--bcher-kva.de/Stra%C3%9Fe'))
+        .toBe('https://bücher.de/Straße');
+      expect(formatUrlForDisplay('https://xn--r8jz45g.jp')).toBe('https://例え.jp');
+      expect(formatUrlForDisplay('https://example.com/a%2Fb')).toBe('https://example.com/a%2Fb');
+    });
+  });
+
   describe('normalizeUrl', () => {
     test('normalizes URLs correctly', () => {
       const tests = [
@@ -43,8 +71,9 @@ describe('URL Utilities', () => {
           expected: 'https://example.com'
         },
         {
+          // www. is a different host name, so it is kept
           input: 'http://www.example.com',
-          expected: 'http://example.com'
+          expected: 'http://www.example.com'
         },
         {
           input: 'https://example.com/',
@@ -0,0 +1,76 @@
+import { AppError, ErrorSeverity, getRetryAt } from '../utils/errorHandler';
+import { ERROR_MESSAGES } from '../constants';
+import type { ApiBacklinkResponse, Backlink } from '../types';
+
+const IS_DEV_MODE = import.meta.env.DEV;
+
+/**
+ * Simulates backlink results in development, where functions are not served
+ */
+async function generateMockBacklinkResponse(links: Backlink[]): Promise<ApiBacklinkResponse> {
+  await new Promise(resolve => setTimeout(resolve, 500));
+
+  return {
+    success: true,
+    results: links.map(link => ({
+      source: link.source,
+      target: link.target,
+      protocol: 'pingback',
+      verification: {
+        verified: true,
+        message: '[MOCK] The source page links to the target',
+        anchorText: 'Mock anchor text',
+        nofollow: false,
+        ugc: false,
+        sponsored: false
+      },
+      success: true,
+      outcome: 'registered',
+      message: '[MOCK] Pingback registered',
+      responseTime: 500
+    })),
+    totalTime: 500
+  };
+}
+
+/**
+ * Notifies each link's target page that the source links to it
+ */
+export async function sendBacklinks(links: Backlink[], signal?: AbortSignal): Promise<ApiBacklinkResponse> {
+  if (IS_DEV_MODE) {
+    return generateMockBacklinkResponse(links);
+  }
+
+  const response = await fetch('/api/backlinks', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ links }),
+    signal
+  });
+
+  if (response.status === 429) {
+    throw new AppError(ERROR_MESSAGES.RATE_LIMITED, 'RATE_LIMITED', {
+      severity: ErrorSeverity.MEDIUM,
+      retryable: true,
+      context: { links, retryAt: getRetryAt(response) }
+    });
+  }
+
+  if (!response.ok) {
+    let message = 'Failed to send backlink notifications';
+    try {
+      const errorData = await response.json();
+      message = errorData.error || message;
+    } catch {
+      // Keep the generic message
+    }
+
+    throw new AppError(message, response.status === 400 ? 'VALIDATION_ERROR' : 'BACKLINK_ERROR', {
+      severity: ErrorSeverity.HIGH,
+      retryable: response.status >= 500,
+      context: { links }
+    });
+  }
+
+  return response.json();
+}
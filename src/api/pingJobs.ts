@@ -0,0 +1,98 @@
+import { AppError, ErrorSeverity, getRetryAt } from '../utils/errorHandler';
+import { ERROR_MESSAGES } from '../constants';
+import type { ApiPingJob, CustomEndpoint } from '../types';
+
+/**
+ * Reads the error message from a failed jobs API response
+ */
+async function readErrorMessage(response: Response, fallback: string): Promise<string> {
+  try {
+    const errorData = await response.json();
+    return errorData.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Submits URLs as an asynchronous ping job
+ * When services is omitted the backend pings every enabled service;
+ * custom endpoints are pinged in addition
+ */
+export async function createPingJob(
+  urls: string[],
+  services?: string[],
+  signal?: AbortSignal,
+  customEndpoints?: CustomEndpoint[]
+): Promise<ApiPingJob> {
+  const response = await fetch('/api/jobs', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ urls, services, ...(customEndpoints?.length && { customEndpoints }) }),
+    signal
+  });
+
+  if (response.status === 429) {
+    throw new AppError(ERROR_MESSAGES.RATE_LIMITED, 'RATE_LIMITED', {
+      severity: ErrorSeverity.MEDIUM,
+      retryable: true,
+      context: { urls, retryAt: getRetryAt(response) }
+    });
+  }
+
+  if (!response.ok) {
+    throw new AppError(
+      await readErrorMessage(response, 'Failed to create ping job'),
+      'JOB_CREATE_ERROR',
+      {
+        severity: ErrorSeverity.HIGH,
+        retryable: response.status >= 500,
+        context: { urls }
+      }
+    );
+  }
+
+  return response.json();
+}
+
+/**
+ * Fetches the current state of a ping job
+ */
+export async function getPingJob(id: string, signal?: AbortSignal): Promise<ApiPingJob> {
+  const response = await fetch(`/api/jobs/${encodeURIComponent(id)}`, { signal });
+
+  if (!response.ok) {
+    throw new AppError(
+      await readErrorMessage(response, 'Failed to check ping job status'),
+      'JOB_STATUS_ERROR',
+      {
+        severity: ErrorSeverity.HIGH,
+        retryable: response.status >= 500,
+        context: { jobId: id }
+      }
+    );
+  }
+
+  return response.json();
+}
+
+/**
+ * Cancels a queued or running ping job
+ */
+export async function cancelPingJob(id: string): Promise<ApiPingJob> {
+  const response = await fetch(`/api/jobs/${encodeURIComponent(id)}`, { method: 'DELETE' });
+
+  if (!response.ok) {
+    throw new AppError(
+      await readErrorMessage(response, 'Failed to cancel ping job'),
+      'JOB_CANCEL_ERROR',
+      {
+        severity: ErrorSeverity.MEDIUM,
+        retryable: true,
+        context: { jobId: id }
+      }
+    );
+  }
+
+  return response.json();
+}
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { Send, AlertCircle, RotateCcw } from 'lucide-react';
+import { validateUrl } from '../utils/urlUtils';
+import type { Backlink } from '../types';
+
+interface BacklinkInputProps {
+  onSubmit: (links: Backlink[]) => void;
+  onReset: () => void;
+  isLoading: boolean;
+  isCompleted: boolean;
+}
+
+const MAX_LINKS = 5;
+
+/**
+ * Splits a line into its source and target URLs
+ * Accepts "source target", "source -> target", "source → target" and "source, target".
+ */
+function parseBacklinkLine(line: string): Backlink | null {
+  const parts = line.split(/\s*(?:->|→|,|\s)\s*/).filter(part => part.length > 0);
+  return parts.length === 2 ? { source: parts[0], target: parts[1] } : null;
+}
+
+export function BacklinkInput({ onSubmit, onReset, isLoading, isCompleted }: BacklinkInputProps) {
+  const [input, setInput] = useState('');
+  const [error, setError] = useState('');
+
+  const validateLinks = (text: string): Backlink[] | null => {
+    const lines = text
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.length > 0);
+
+    if (lines.length > MAX_LINKS) {
+      setError(`Maximum ${MAX_LINKS} links allowed`);
+      return null;
+    }
+
+    const links: Backlink[] = [];
+    for (const line of lines) {
+      const link = parseBacklinkLine(line);
+      if (!link) {
+        setError(`Enter a source and a target URL: ${line}`);
+        return null;
+      }
+
+      const source = validateUrl(link.source);
+      const target = validateUrl(link.target);
+      if (!source.isValid || !target.isValid) {
+        setError(`Invalid URL: ${!source.isValid ? link.source : link.target}`);
+        return null;
+      }
+
+      if (source.normalizedUrl === target.normalizedUrl) {
+        setError(`Source and target must differ: ${link.source}`);
+        return null;
+      }
+
+      links.push({ source: source.normalizedUrl ?? link.source, target: target.normalizedUrl ?? link.target });
+    }
+
+    setError('');
+    return links;
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const links = validateLinks(input);
+
+    if (links && links.length > 0) {
+      onSubmit(links);
+    }
+  };
+
+  const handleInput = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setInput(e.target.value);
+    validateLinks(e.target.value);
+  };
+
+  const handleReset = () => {
+    setInput('');
+    setError('');
+    onReset();
+  };
+
+  const buttonClasses = "inline-flex items-center justify-center gap-1.5 rounded-lg px-3 py-1.5 text-sm font-medium text-white focus:outline-none focus:ring-2 focus:ring-offset-2 min-h-[36px] transition-colors";
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full max-w-4xl">
+      <div className="space-y-3">
+        <div className="relative">
+          <textarea
+            value={input}
+            onChange={handleInput}
+            placeholder={`Enter up to ${MAX_LINKS} links, one per line: your page, then the page it links to\nhttps://your-site.com/post -> https://linked-site.com/article`}
+            aria-label="Backlinks (source and target URL per line)"
+            className={`w-full min-h-[180px] rounded-lg border ${
+              error ? 'border-red-300' : 'border-gray-300'
+            } p-3 text-sm focus:border-blue-500 focus:ring-blue-500`}
+            disabled={isLoading}
+            style={{ fontSize: '14px' }}
+          />
+        </div>
+        <div className="flex items-start gap-2">
+          {isCompleted ? (
+            <button
+              type="button"
+              onClick={handleReset}
+              className={`${buttonClasses} bg-gray-600 hover:bg-gray-700 focus:ring-gray-500`}
+            >
+              <RotateCcw className="h-4 w-4" />
+              <span>Reset</span>
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={isLoading || !input.trim() || !!error}
+              className={`${buttonClasses} bg-blue-600 hover:bg-blue-700 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed`}
+            >
+              {isLoading ? (
+                <>
+                  <div className="h-4 w-4 animate-spin rounded-full border-2 border-white border-t-transparent" />
+                  <span>Processing...</span>
+                </>
+              ) : (
+                <>
+                  <Send className="h-4 w-4" />
+                  <span>Notify Targets</span>
+                </>
+              )}
+            </button>
+          )}
+          {error && (
+            <div className="flex items-center gap-1 text-sm text-red-500">
+              <AlertCircle className="h-4 w-4" />
+              <span>{error}</span>
+            </div>
+          )}
+        </div>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,151 @@
+import React from 'react';
+import { CheckCircle, XCircle, MinusCircle } from 'lucide-react';
+import { formatUrlForDisplay } from '../utils/urlUtils';
+import type { ApiBacklinkOutcome, ApiBacklinkResult, ApiSourceVerification } from '../types';
+
+interface BacklinkResultsProps {
+  results: ApiBacklinkResult[];
+}
+
+const PROTOCOL_LABELS: Record<NonNullable<ApiBacklinkResult['protocol']>, string> = {
+  webmention: 'Webmention',
+  pingback: 'Pingback',
+  trackback: 'Trackback'
+};
+
+// Short, user-facing description of each outcome
+const OUTCOME_LABELS: Record<ApiBacklinkOutcome, string> = {
+  registered: 'Registered',
+  accepted: 'Accepted',
+  source_not_found: 'Source page not found',
+  no_link: 'Source does not link to target',
+  target_not_found: 'Target page not found',
+  target_not_allowed: 'Target does not accept pingbacks',
+  already_registered: 'Already registered',
+  access_denied: 'Access denied',
+  upstream_error: 'Target server error',
+  fault: 'Rejected',
+  not_supported: 'Backlink notifications not supported',
+  error: 'Failed'
+};
+
+/**
+ * Checks that a URL from a backlink target is a web page, safe to link to
+ */
+function isWebUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Outcomes that need no action: the link is already known to the target
+ */
+function isNeutralOutcome(outcome: ApiBacklinkOutcome): boolean {
+  return outcome === 'already_registered' || outcome === 'not_supported';
+}
+
+/**
+ * Describes the rel values that stop a link passing ranking signals
+ */
+function getLinkQualifiers(verification: ApiSourceVerification): string[] {
+  return (['nofollow', 'ugc', 'sponsored'] as const).filter(rel => verification[rel]);
+}
+
+function StatusIcon({ state }: { state: 'success' | 'neutral' | 'failure' }) {
+  if (state === 'success') return <CheckCircle className="h-4 w-4 mt-0.5 text-green-500 flex-shrink-0" />;
+  if (state === 'neutral') return <MinusCircle className="h-4 w-4 mt-0.5 text-gray-400 flex-shrink-0" />;
+  return <XCircle className="h-4 w-4 mt-0.5 text-red-500 flex-shrink-0" />;
+}
+
+function VerificationCell({ verification }: { verification?: ApiSourceVerification }) {
+  if (!verification) {
+    return <p className="text-xs text-gray-400">Not checked</p>;
+  }
+
+  const qualifiers = getLinkQualifiers(verification);
+
+  return (
+    <div className="flex items-start gap-2">
+      <StatusIcon state={verification.verified ? 'success' : 'failure'} />
+      <div className="min-w-0">
+        <p className={`text-xs ${verification.verified ? 'text-green-600' : 'text-red-600'}`}>
+          {verification.verified ? 'Link found' : verification.message}
+        </p>
+        {verification.verified && (
+          <p className="text-xs text-gray-500 break-words">
+            {verification.anchorText ? `"${verification.anchorText}"` : 'No anchor text'}
+            {' · '}
+            {qualifiers.length > 0 ? qualifiers.join(', ') : 'followed'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function NotificationCell({ result }: { result: ApiBacklinkResult }) {
+  const state = result.success ? 'success' : isNeutralOutcome(result.outcome) ? 'neutral' : 'failure';
+
+  // Nothing is sent for a link the source check rejected
+  if (result.verification && !result.verification.verified) {
+    return <p className="text-xs text-gray-400">Not sent</p>;
+  }
+
+  return (
+    <div className="flex items-start gap-2">
+      <StatusIcon state={state} />
+      <div className="min-w-0">
+        <p className={`text-xs ${
+          state === 'success' ? 'text-green-600' : state === 'neutral' ? 'text-gray-500' : 'text-red-600'
+        }`}>
+          {result.protocol && result.endpoint && `${PROTOCOL_LABELS[result.protocol]}: `}
+          {OUTCOME_LABELS[result.outcome]}
+          {result.faultCode !== undefined && ` (fault 0x${result.faultCode.toString(16).padStart(4, '0')})`}
+          {result.message && ` - ${result.message}`}
+        </p>
+        {result.statusUrl && isWebUrl(result.statusUrl) && (
+          <a
+            href={result.statusUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-xs text-blue-600 hover:text-blue-800 break-all"
+          >
+            Track status
+          </a>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function BacklinkResults({ results }: BacklinkResultsProps) {
+  if (results.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-4xl">
+      <div className="bg-white rounded-lg border border-gray-200 shadow-sm animate-fade-in">
+        <div className="hidden sm:grid grid-cols-3 gap-3 border-b border-gray-200 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-gray-500">
+          <span>Link</span>
+          <span>Source check</span>
+          <span>Notification</span>
+        </div>
+        {results.map(result => (
+          <div
+            key={`${result.source} ${result.target}`}
+            className="grid grid-cols-1 sm:grid-cols-3 gap-2 sm:gap-3 border-b border-gray-100 last:border-b-0 px-3 py-2.5"
+          >
+            <p className="text-sm font-medium text-gray-700 break-all">
+              {formatUrlForDisplay(result.source)} → {formatUrlForDisplay(result.target)}
+            </p>
+            <VerificationCell verification={result.verification} />
+            <NotificationCell result={result} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,17 +1,27 @@
 import React from 'react';
 import { CheckSquare, Square, MinusSquare } from 'lucide-react';
-import { PING_SERVICES, getServicesByCategory } from '../services/pingServices';
-import type { CategoryType } from '../types';
+import { getServicesByCategory, getCategories } from '../services/pingServices';
+import type { CategoryType, PingService } from '../types';
 
 interface CategoryFilterProps {
+  services: PingService[];
   selectedServices: Set<string>;
   onServiceChange: (services: Set<string>) => void;
 }
 
-const ALL_CATEGORIES: CategoryType[] = ['Search Engines', 'Blog Networks'];
+/**
+ * Short label for a category, e.g. 'Search Engines' → 'SE'
+ */
+function getCategoryAbbreviation(category: CategoryType): string {
+  return category
+    .split(/\s+/)
+    .map(word => word.charAt(0).toUpperCase())
+    .join('');
+}
 
-export function CategoryFilter({ selectedServices, onServiceChange }: CategoryFilterProps) {
-  const allServiceNames = PING_SERVICES.map(s => s.name);
+export function CategoryFilter({ services, selectedServices, onServiceChange }: CategoryFilterProps) {
+  const allCategories = getCategories(services);
+  const allServiceNames = services.map(s => s.name);
   const allSelected = selectedServices.size === allServiceNames.length;
   const noneSelected = selectedServices.size === 0;
 
@@ -20,7 +30,7 @@ export function CategoryFilter({ selectedServices, onServiceChange }: CategoryFi
    * Returns: 'all' | 'some' | 'none'
    */
   const getCategoryState = (category: CategoryType): 'all' | 'some' | 'none' => {
-    const servicesInCategory = getServicesByCategory(category);
+    const servicesInCategory = getServicesByCategory(services, category);
     const selectedInCategory = servicesInCategory.filter(s => selectedServices.has(s.name));
 
     if (selectedInCategory.length === 0) return 'none';
@@ -45,7 +55,7 @@ export function CategoryFilter({ selectedServices, onServiceChange }: CategoryFi
    * Toggle all services in a category
    */
   const handleToggleCategory = (category: CategoryType) => {
-    const servicesInCategory = getServicesByCategory(category);
+    const servicesInCategory = getServicesByCategory(services, category);
     const serviceNamesInCategory = servicesInCategory.map(s => s.name);
     const categoryState = getCategoryState(category);
 
@@ -115,9 +125,9 @@ export function CategoryFilter({ selectedServices, onServiceChange }: CategoryFi
             Categories
           </div>
           <div className="grid grid-cols-1 xs:grid-cols-2 gap-1">
-            {ALL_CATEGORIES.map(category => {
+            {allCategories.map(category => {
               const categoryState = getCategoryState(category);
-              const servicesInCategory = getServicesByCategory(category);
+              const servicesInCategory = getServicesByCategory(services, category);
               const selectedCount = servicesInCategory.filter(s => selectedServices.has(s.name)).length;
 
               return (
@@ -147,7 +157,7 @@ export function CategoryFilter({ selectedServices, onServiceChange }: CategoryFi
             Services
           </div>
           <div className="grid grid-cols-1 xs:grid-cols-2 lg:grid-cols-3 gap-1">
-            {PING_SERVICES.map(service => {
+            {services.map(service => {
               const isSelected = selectedServices.has(service.name);
 
               return (
@@ -166,7 +176,7 @@ export function CategoryFilter({ selectedServices, onServiceChange }: CategoryFi
                   <span className="truncate text-left">
                     {service.name}
                     <span className="text-xs text-gray-400 ml-1">
-                      ({service.category === 'Search Engines' ? 'SE' : 'BN'})
+                      ({getCategoryAbbreviation(service.category)})
                     </span>
                   </span>
                 </button>
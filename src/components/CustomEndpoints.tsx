@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Plus, X, AlertCircle } from 'lucide-react';
+import { MAX_CUSTOM_ENDPOINTS } from '../constants';
+import { validateCustomEndpoint } from '../utils/customEndpoints';
+import type { CustomEndpoint } from '../types';
+
+interface CustomEndpointsProps {
+  endpoints: CustomEndpoint[];
+  serviceNames: string[];     // Registry services, whose names cannot be reused
+  onAdd: (endpoint: CustomEndpoint) => void;
+  onRemove: (name: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Lets users register their own weblogUpdates.ping endpoints
+ * Added endpoints appear in CategoryFilter under the "Custom" category.
+ */
+export function CustomEndpoints({ endpoints, serviceNames, onAdd, onRemove, disabled = false }: CustomEndpointsProps) {
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const [error, setError] = useState('');
+
+  const isFull = endpoints.length >= MAX_CUSTOM_ENDPOINTS;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validation = validateCustomEndpoint({ name, url }, endpoints, serviceNames);
+    if (!validation.valid) {
+      setError(validation.error);
+      return;
+    }
+
+    onAdd(validation.endpoint);
+    setName('');
+    setUrl('');
+    setError('');
+  };
+
+  const inputClasses = "min-w-0 flex-1 rounded-lg border border-gray-300 px-2.5 py-1.5 text-sm focus:border-blue-500 focus:ring-blue-500";
+
+  return (
+    <details className="w-full max-w-4xl mb-3 bg-white rounded-lg border border-gray-200 p-3">
+      <summary className="cursor-pointer text-sm font-medium text-gray-700 px-2.5">
+        Custom XML-RPC endpoints
+        <span className="text-xs text-gray-400 ml-1">({endpoints.length}/{MAX_CUSTOM_ENDPOINTS})</span>
+      </summary>
+
+      <div className="mt-2 space-y-2 px-2.5">
+        {endpoints.length > 0 && (
+          <ul className="space-y-1">
+            {endpoints.map(endpoint => (
+              <li key={endpoint.name} className="flex items-center gap-2 text-sm text-gray-600">
+                <span className="font-medium truncate">{endpoint.name}</span>
+                <span className="text-xs text-gray-400 truncate">{endpoint.url}</span>
+                <button
+                  type="button"
+                  onClick={() => onRemove(endpoint.name)}
+                  disabled={disabled}
+                  aria-label={`Remove ${endpoint.name}`}
+                  className="ml-auto rounded p-1 text-gray-400 hover:bg-gray-50 hover:text-gray-700 disabled:cursor-not-allowed"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleSubmit} className="flex flex-col xs:flex-row gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="Name"
+            aria-label="Endpoint name"
+            disabled={disabled || isFull}
+            className={inputClasses}
+          />
+          <input
+            type="text"
+            value={url}
+            onChange={e => setUrl(e.target.value)}
+            placeholder="https://ping.example.com/RPC2"
+            aria-label="Endpoint URL"
+            disabled={disabled || isFull}
+            className={inputClasses}
+          />
+          <button
+            type="submit"
+            disabled={disabled || isFull || !name.trim() || !url.trim()}
+            className="inline-flex items-center justify-center gap-1.5 rounded-lg px-3 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed min-h-[36px]"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add</span>
+          </button>
+        </form>
+
+        {error && (
+          <div className="flex items-center gap-1 text-sm text-red-500">
+            <AlertCircle className="h-4 w-4" />
+            <span>{error}</span>
+          </div>
+        )}
+      </div>
+    </details>
+  );
+}
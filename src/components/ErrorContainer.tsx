@@ -1,8 +1,9 @@
 import React from 'react';
 import { ErrorMessage } from './ErrorMessage';
 import { ErrorRetryButton } from './ErrorRetryButton';
-import { AppError, ErrorSeverity } from '../utils/errorHandler';
+import { AppError, ErrorSeverity, getErrorRetryAt } from '../utils/errorHandler';
 import { errorSeverityStyles } from '../utils/errorStyles';
+import { useCountdown } from '../hooks/useCountdown';
 
 interface ErrorContainerProps {
   error: Error;
@@ -22,6 +23,9 @@ export function ErrorContainer({
   const canRetry = isAppError ? error.retryable : true;
   const styles = errorSeverityStyles[severity];
 
+  // Rate limited requests can only be retried once the server allows it
+  const secondsUntilRetry = useCountdown(getErrorRetryAt(error));
+
   return (
     <div className={`rounded-lg border p-4 ${styles.container} ${className}`}>
       <ErrorMessage
@@ -29,10 +33,16 @@ export function ErrorContainer({
         severity={severity}
         className="mb-4"
       />
-      
+
+      {secondsUntilRetry > 0 && (
+        <p className={`text-sm mb-4 ${styles.message}`} role="timer" aria-live="polite">
+          You can try again in {secondsUntilRetry} second{secondsUntilRetry === 1 ? '' : 's'}.
+        </p>
+      )}
+
       <div className="flex items-center gap-3">
         {canRetry && onRetry && (
-          <ErrorRetryButton onClick={onRetry} />
+          <ErrorRetryButton onClick={onRetry} disabled={secondsUntilRetry > 0} />
         )}
         {onDismiss && (
           <button
@@ -4,6 +4,7 @@ import { RotateCcw } from 'lucide-react';
 interface ErrorRetryButtonProps {
   onClick: () => void;
   isLoading?: boolean;
+  disabled?: boolean;
   text?: string;
   className?: string;
 }
@@ -11,13 +12,14 @@ interface ErrorRetryButtonProps {
 export function ErrorRetryButton({
   onClick,
   isLoading = false,
+  disabled = false,
   text = 'Try Again',
   className = ''
 }: ErrorRetryButtonProps) {
   return (
     <button
       onClick={onClick}
-      disabled={isLoading}
+      disabled={isLoading || disabled}
       className={`inline-flex items-center justify-center gap-2 rounded-lg px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed ${className}`}
     >
       {isLoading ? (
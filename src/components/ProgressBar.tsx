@@ -1,12 +1,15 @@
 import React from 'react';
-import type { ProgressInfo } from '../types';
+import type { ProgressInfo, PingResults } from '../types';
+import { formatUrlForDisplay } from '../utils/urlUtils';
 
 interface ProgressBarProps {
   progress: ProgressInfo;
   urls: string[];
+  /** Per-URL results, used to show how many services have reported for each URL */
+  results?: PingResults;
 }
 
-export function ProgressBar({ progress, urls }: ProgressBarProps) {
+export function ProgressBar({ progress, urls, results }: ProgressBarProps) {
   const percentage = (progress.completed / progress.total) * 100;
 
   return (
@@ -25,32 +28,42 @@ export function ProgressBar({ progress, urls }: ProgressBarProps) {
       </div>
       
       <div className="space-y-1.5 max-h-[220px] overflow-y-auto overscroll-contain">
-        {urls.map((url, index) => (
-          <div 
-            key={url}
-            className={`p-2 rounded-lg ${
-              url === progress.currentUrl 
-                ? 'bg-blue-50 border border-blue-100' 
-                : 'bg-white border border-gray-100 hover:bg-gray-50'
-            }`}
-          >
-            <div className="flex items-start gap-2">
-              <span className="w-5 h-5 flex-shrink-0 flex items-center justify-center bg-gray-100 rounded-full text-xs font-medium text-gray-700">
-                {index + 1}
-              </span>
-              <div className="flex-1 min-w-0">
-                <span className="text-xs font-medium text-gray-700 break-all">
-                  {url}
+        {urls.map((url, index) => {
+          const urlResults = results?.[url] ?? [];
+          const urlCompleted = urlResults.filter(r => r.status !== 'pending').length;
+
+          return (
+            <div 
+              key={url}
+              className={`p-2 rounded-lg ${
+                url === progress.currentUrl 
+                  ? 'bg-blue-50 border border-blue-100' 
+                  : 'bg-white border border-gray-100 hover:bg-gray-50'
+              }`}
+            >
+              <div className="flex items-start gap-2">
+                <span className="w-5 h-5 flex-shrink-0 flex items-center justify-center bg-gray-100 rounded-full text-xs font-medium text-gray-700">
+                  {index + 1}
                 </span>
-                {url === progress.currentUrl && (
-                  <div className="mt-1 text-xs text-blue-600 font-medium">
-                    Pinging: {progress.currentService}
-                  </div>
+                <div className="flex-1 min-w-0">
+                  <span className="text-xs font-medium text-gray-700 break-all">
+                    {formatUrlForDisplay(url)}
+                  </span>
+                  {url === progress.currentUrl && (
+                    <div className="mt-1 text-xs text-blue-600 font-medium">
+                      Latest: {progress.currentService}
+                    </div>
+                  )}
+                </div>
+                {urlResults.length > 0 && (
+                  <span className="flex-shrink-0 text-xs text-gray-500">
+                    {urlCompleted}/{urlResults.length}
+                  </span>
                 )}
               </div>
             </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
     </div>
   );
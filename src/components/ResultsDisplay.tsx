@@ -1,22 +1,93 @@
 import React from 'react';
-import { CheckCircle, XCircle } from 'lucide-react';
-import { PING_SERVICES } from '../services/pingServices';
-import type { PingResults } from '../types';
+import { CheckCircle, XCircle, Clock, WifiOff } from 'lucide-react';
+import type { PingOutcome, PingReason, PingResult, PingResults, PingService } from '../types';
+import { formatUrlForDisplay } from '../utils/urlUtils';
 
 interface ResultsDisplayProps {
   results: PingResults;
+  services: PingService[];
   selectedServices: Set<string>;
 }
 
-export function ResultsDisplay({ results, selectedServices }: ResultsDisplayProps) {
+// Badge icon, label and colours for each outcome
+const OUTCOME_BADGES: Record<PingOutcome, { icon: typeof CheckCircle; label: string; iconClass: string; textClass: string }> = {
+  accepted: { icon: CheckCircle, label: 'accepted', iconClass: 'text-green-500', textClass: 'text-green-600' },
+  throttled: { icon: Clock, label: 'throttled', iconClass: 'text-amber-500', textClass: 'text-amber-600' },
+  rejected: { icon: XCircle, label: 'rejected', iconClass: 'text-red-500', textClass: 'text-red-600' },
+  unreachable: { icon: WifiOff, label: 'unreachable', iconClass: 'text-gray-400', textClass: 'text-gray-500' }
+};
+
+// Short, user-facing explanation of each reason code
+const REASON_EXPLANATIONS: Record<PingReason, string> = {
+  processed: 'Processed by the service',
+  queued: 'Queued for processing',
+  rate_limited: 'Pinged too often, try again later',
+  refused: 'The service refused the ping',
+  fault: 'The service reported an error',
+  auth_required: 'The service requires authorisation',
+  http_error: 'The request was not accepted',
+  not_supported: 'Nothing to notify for this page',
+  server_error: 'The service is having problems',
+  invalid_response: 'The service sent an unreadable reply',
+  timeout: 'No reply in time',
+  network_error: 'The service could not be reached',
+  blocked: 'The address is not allowed',
+  not_configured: 'The service is not configured',
+  skipped: 'Not attempted, out of time'
+};
+
+/**
+ * Explains a result's outcome, with the wait the service asked for
+ */
+function getExplanation(result: PingResult): string | null {
+  if (!result.reason) return null;
+
+  const explanation = REASON_EXPLANATIONS[result.reason];
+  return result.retryAfter !== undefined ? `${explanation} (retry in ${result.retryAfter}s)` : explanation;
+}
+
+function ResultBadge({ result, serviceName }: { result: PingResult; serviceName: string }) {
+  // Results that never reached the backend have no outcome
+  const badge = result.outcome ? OUTCOME_BADGES[result.outcome] : null;
+  const Icon = badge?.icon;
+
+  return (
+    <div className="flex items-center justify-between">
+      <div className="flex items-center gap-1.5 min-w-0">
+        {result.status === 'pending' ? (
+          <div className="h-4 w-4 rounded-full border-2 border-gray-300 border-t-transparent animate-spin" />
+        ) : Icon ? (
+          <Icon className={`h-4 w-4 flex-shrink-0 ${badge.iconClass}`} />
+        ) : result.status === 'success' ? (
+          <CheckCircle className="h-4 w-4 text-green-500 flex-shrink-0" />
+        ) : (
+          <XCircle className="h-4 w-4 text-red-500 flex-shrink-0" />
+        )}
+        <span className="text-xs text-gray-600 truncate max-w-[120px]">
+          {serviceName}
+        </span>
+      </div>
+      <span className={`ml-1 text-xs whitespace-nowrap ${
+        result.status === 'pending' ? 'text-gray-400' :
+        badge ? badge.textClass :
+        result.status === 'success' ? 'text-green-600' : 'text-red-600'
+      }`}>
+        {badge?.label ?? result.status}
+      </span>
+    </div>
+  );
+}
+
+export function ResultsDisplay({ results, services, selectedServices }: ResultsDisplayProps) {
   const hasResults = Object.keys(results).length > 0;
 
   if (!hasResults) return null;
 
   // Filter services to only show selected ones
+  // (same order as PingController, so results line up by index)
   const servicesToShow = selectedServices.size > 0
-    ? PING_SERVICES.filter(s => selectedServices.has(s.name))
-    : PING_SERVICES;
+    ? services.filter(s => selectedServices.has(s.name))
+    : services;
 
   return (
     <div className="w-full max-w-4xl">
@@ -34,7 +105,7 @@ export function ResultsDisplay({ results, selectedServices }: ResultsDisplayProp
           return (
             <div key={url} className="bg-white rounded-lg border border-gray-200 p-2.5 shadow-sm">
               <h3 className="text-sm font-medium text-gray-700 break-all mb-2.5">
-                {url}
+                {formatUrlForDisplay(url)}
               </h3>
 
               <div className="mb-3">
@@ -55,31 +126,20 @@ export function ResultsDisplay({ results, selectedServices }: ResultsDisplayProp
                   const result = pingResults[index];
                   if (!result) return null;
 
+                  const explanation = getExplanation(result);
+
                   return (
                     <div
                       key={service.name}
-                      className={`flex items-center justify-between rounded-lg bg-gray-50 px-2 py-1.5 ${
+                      title={result.message}
+                      className={`rounded-lg bg-gray-50 px-2 py-1.5 ${
                         result.status === 'pending' ? '' : 'animate-fade-in'
                       }`}
                     >
-                      <div className="flex items-center gap-1.5 min-w-0">
-                        {result.status === 'pending' ? (
-                          <div className="h-4 w-4 rounded-full border-2 border-gray-300 border-t-transparent animate-spin" />
-                        ) : result.status === 'success' ? (
-                          <CheckCircle className="h-4 w-4 text-green-500 flex-shrink-0" />
-                        ) : (
-                          <XCircle className="h-4 w-4 text-red-500 flex-shrink-0" />
-                        )}
-                        <span className="text-xs text-gray-600 truncate max-w-[120px]">
-                          {service.name}
-                        </span>
-                      </div>
-                      <span className={`ml-1 text-xs whitespace-nowrap ${
-                        result.status === 'pending' ? 'text-gray-400' :
-                        result.status === 'success' ? 'text-green-600' : 'text-red-600'
-                      }`}>
-                        {result.status}
-                      </span>
+                      <ResultBadge result={result} serviceName={service.name} />
+                      {explanation && (
+                        <p className="mt-0.5 text-[11px] leading-tight text-gray-500 truncate">{explanation}</p>
+                      )}
                     </div>
                   );
                 })}
@@ -24,7 +24,8 @@ export function URLInput({ onSubmit, onReset, isLoading, isCompleted }: URLInput
       return null;
     }
 
-    const invalidUrls = urls.filter(url => !validateUrl(url).isValid);
+    const validations = urls.map(url => validateUrl(url));
+    const invalidUrls = urls.filter((_, index) => !validations[index].isValid);
     
     if (invalidUrls.length > 0) {
       setError(`Invalid URL${invalidUrls.length > 1 ? 's' : ''}: ${invalidUrls.join(', ')}`);
@@ -32,7 +33,8 @@ export function URLInput({ onSubmit, onReset, isLoading, isCompleted }: URLInput
     }
 
     setError('');
-    return urls;
+    // Submit the normalised form so results match the URLs the backend reports
+    return validations.map((validation, index) => validation.normalizedUrl ?? urls[index]);
   };
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -7,9 +7,14 @@ export const ERROR_MESSAGES = {
   UNKNOWN: 'An unexpected error occurred. Please try again.',
   SERVER: 'Server error occurred. Please try again later.',
   OPERATION_FAILED: 'Operation failed. Please try again.',
-  SERVICE_ERROR: 'Service is temporarily unavailable. Please try again later.'
+  SERVICE_ERROR: 'Service is temporarily unavailable. Please try again later.',
+  RATE_LIMITED: 'Too many ping requests. Please wait before trying again.'
 } as const;
 
 export const MAX_RETRIES = 3;
 export const RETRY_DELAY = 1000;
-export const REQUEST_TIMEOUT = 30000;
\ No newline at end of file
+export const REQUEST_TIMEOUT = 30000;
+// User-registered XML-RPC ping endpoints (limits mirror the backend's)
+export const CUSTOM_ENDPOINT_CATEGORY = 'Custom';
+export const MAX_CUSTOM_ENDPOINTS = 5;
+export const MAX_CUSTOM_ENDPOINT_NAME_LENGTH = 60;
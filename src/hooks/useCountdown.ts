@@ -0,0 +1,30 @@
+import { useState, useEffect } from 'react';
+
+function secondsUntil(targetTime: number | undefined): number {
+  return targetTime === undefined
+    ? 0
+    : Math.max(0, Math.ceil((targetTime - Date.now()) / 1000));
+}
+
+/**
+ * Whole seconds remaining until the target time (epoch ms), updated every second
+ * Returns 0 when there is no target or it has passed
+ */
+export function useCountdown(targetTime: number | undefined) {
+  const [secondsLeft, setSecondsLeft] = useState(() => secondsUntil(targetTime));
+
+  useEffect(() => {
+    setSecondsLeft(secondsUntil(targetTime));
+    if (targetTime === undefined) return;
+
+    const intervalId = setInterval(() => {
+      const remaining = secondsUntil(targetTime);
+      setSecondsLeft(remaining);
+      if (remaining === 0) clearInterval(intervalId);
+    }, 1000);
+
+    return () => clearInterval(intervalId);
+  }, [targetTime]);
+
+  return secondsLeft;
+}
@@ -0,0 +1,29 @@
+import { useState, useCallback } from 'react';
+import { loadCustomEndpoints, saveCustomEndpoints } from '../utils/customEndpoints';
+import type { CustomEndpoint } from '../types';
+
+/**
+ * The user's custom XML-RPC endpoints, persisted in local storage
+ */
+export function useCustomEndpoints() {
+  const [endpoints, setEndpoints] = useState<CustomEndpoint[]>(loadCustomEndpoints);
+
+  const update = useCallback((next: CustomEndpoint[]) => {
+    saveCustomEndpoints(next);
+    setEndpoints(next);
+  }, []);
+
+  const addEndpoint = useCallback((endpoint: CustomEndpoint) => {
+    update([...endpoints, endpoint]);
+  }, [endpoints, update]);
+
+  const removeEndpoint = useCallback((name: string) => {
+    update(endpoints.filter(endpoint => endpoint.name !== name));
+  }, [endpoints, update]);
+
+  return {
+    endpoints,
+    addEndpoint,
+    removeEndpoint
+  };
+}
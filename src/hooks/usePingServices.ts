@@ -0,0 +1,39 @@
+import { useState, useEffect } from 'react';
+import { loadPingServices } from '../services/pingServices';
+import type { PingService } from '../types';
+
+/**
+ * Loads the ping service registry from the backend
+ */
+export function usePingServices() {
+  const [services, setServices] = useState<PingService[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    loadPingServices()
+      .then(loaded => {
+        if (isMounted) setServices(loaded);
+      })
+      .catch(err => {
+        if (isMounted) {
+          setError(err instanceof Error ? err : new Error('Failed to load ping services'));
+        }
+      })
+      .finally(() => {
+        if (isMounted) setIsLoading(false);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  return {
+    services,
+    isLoading,
+    error
+  };
+}
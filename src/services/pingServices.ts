@@ -1,85 +1,98 @@
 /**
- * Real Ping Services Configuration
+ * Real Ping Services Registry
  *
  * These services are actually pinged by the backend via:
  * - WebSub/PubSubHubbub protocol (for Google)
- * - XML-RPC weblogUpdates.ping protocol (for blog ping services)
+ * - XML-RPC weblogUpdates.ping and extendedPing (for blog ping services)
+ * - IndexNow (for Bing, Yandex and other participating engines)
+ * - Templated HTTP GET/POST requests (for legacy ping and sitemap endpoints)
  *
  * Each service reaches multiple downstream search engines and aggregators.
  *
- * IMPORTANT: Service list must match backend configuration in:
- * netlify/functions/lib/types.ts
+ * The service list is owned by the backend (netlify/functions/lib/protocolRegistry.ts)
+ * and served from GET /api/services. It is fetched once and shared by every
+ * consumer, so adding a service never needs a frontend change.
  *
- * REMOVED SERVICES (December 2025):
- * - Yandex Blogs: Deprecated, blocking automated requests
- * - Weblogs.com: Unreliable, 30s+ response times causing timeouts
+ * In development mode (npm run dev), Netlify functions are not available
+ * locally, so the backend's built-in service groups are imported directly instead.
  */
 
 import type { PingService } from '../types';
+import { AppError, ErrorSeverity } from '../utils/errorHandler';
+import { logger } from '../utils/logger';
+
+const IS_DEV_MODE = import.meta.env.DEV;
+
+let servicesPromise: Promise<PingService[]> | null = null;
 
 /**
- * List of real ping services
- *
- * Total reach: 12+ search engines and services via 3 active endpoints
+ * Fetches the full service registry from the backend
+ */
+async function fetchServiceRegistry(): Promise<PingService[]> {
+  if (IS_DEV_MODE) {
+    const { BUILT_IN_SERVICE_GROUPS, describeService } = await import('../../netlify/functions/lib/services');
+    return BUILT_IN_SERVICE_GROUPS.flatMap(({ method, services }) =>
+      services.map(service => describeService(service, method))
+    );
+  }
+
+  const response = await fetch('/api/services');
+  if (!response.ok) {
+    throw new AppError('Failed to load ping services', 'SERVICES_LOAD_ERROR', {
+      severity: ErrorSeverity.HIGH,
+      retryable: true,
+      context: { status: response.status }
+    });
+  }
+
+  const data: { services: PingService[] } = await response.json();
+  return data.services;
+}
+
+/**
+ * Loads the enabled ping services
+ * The registry is requested once; a failed request is retried on the next call
  */
-export const PING_SERVICES: PingService[] = [
-  {
-    name: 'Google PubSubHubbub',
-    method: 'websub',
-    category: 'Search Engines',
-    description: 'Notifies Google via PubSubHubbub protocol',
-    reachesServices: ['Google Search', 'Google News']
-  },
-  {
-    name: 'Ping-o-Matic',
-    method: 'xmlrpc',
-    category: 'Blog Networks',
-    description: 'Pings 10+ blog aggregators and services',
-    reachesServices: [
-      'Feedburner',
-      'Superfeedr',
-      'Spinn3r',
-      'Blo.gs',
-      'Moreover',
-      'Syndic8',
-      'NewsGator',
-      'Audio.weblogs.com'
-    ]
-  },
-  {
-    name: 'Twingly',
-    method: 'xmlrpc',
-    category: 'Blog Networks',
-    description: 'Swedish blog search and aggregator',
-    reachesServices: ['Twingly Blog Search']
+export function loadPingServices(): Promise<PingService[]> {
+  if (!servicesPromise) {
+    servicesPromise = fetchServiceRegistry()
+      .then(services => services.filter(s => s.enabled))
+      .catch(error => {
+        servicesPromise = null;
+        logger.error('Failed to load ping services', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+        throw error;
+      });
   }
-];
+  return servicesPromise;
+}
 
 /**
  * Get service by name
  */
-export function getServiceByName(name: string): PingService | undefined {
-  return PING_SERVICES.find(s => s.name === name);
+export function getServiceByName(services: PingService[], name: string): PingService | undefined {
+  return services.find(s => s.name === name);
 }
 
 /**
  * Get services by category
  */
-export function getServicesByCategory(category: string): PingService[] {
-  return PING_SERVICES.filter(s => s.category === category);
+export function getServicesByCategory(services: PingService[], category: string): PingService[] {
+  return services.filter(s => s.category === category);
 }
 
 /**
- * Get all unique categories
+ * Get all unique categories, in registry order
  */
-export function getCategories(): string[] {
-  return [...new Set(PING_SERVICES.map(s => s.category))];
+export function getCategories(services: PingService[]): string[] {
+  return [...new Set(services.map(s => s.category))];
 }
 
 /**
  * Get total count of downstream services reached
  */
-export function getTotalReach(): number {
-  const allServices = PING_SERVICES.flatMap(s => s.reachesServices);
+export function getTotalReach(services: PingService[]): number {
+  const allServices = services.flatMap(s => s.reachesServices);
   return new Set(allServices).size;
 }
@@ -0,0 +1,99 @@
+/**
+ * Punycode (RFC 3492) decoding for displaying internationalised domain names
+ *
+ * Browsers convert Unicode host names to their ASCII (xn--) form when
+ * parsing URLs, but offer no way back. Encoding is left to the URL parser.
+ */
+
+const BASE = 36;
+const T_MIN = 1;
+const T_MAX = 26;
+const SKEW = 38;
+const DAMP = 700;
+const INITIAL_BIAS = 72;
+const INITIAL_N = 128;
+const ACE_PREFIX = 'xn--';
+
+function adapt(delta: number, numPoints: number, firstTime: boolean): number {
+  let k = 0;
+  delta = firstTime ? Math.floor(delta / DAMP) : delta >> 1;
+  delta += Math.floor(delta / numPoints);
+  for (; delta > ((BASE - T_MIN) * T_MAX) >> 1; k += BASE) {
+    delta = Math.floor(delta / (BASE - T_MIN));
+  }
+  return Math.floor(k + ((BASE - T_MIN + 1) * delta) / (delta + SKEW));
+}
+
+function basicToDigit(codePoint: number): number {
+  if (codePoint >= 0x30 && codePoint < 0x3a) return codePoint - 22;  // 0-9
+  if (codePoint >= 0x41 && codePoint < 0x5b) return codePoint - 0x41; // A-Z
+  if (codePoint >= 0x61 && codePoint < 0x7b) return codePoint - 0x61; // a-z
+  return BASE;
+}
+
+/**
+ * Decodes a Punycode string (without the xn-- prefix) to Unicode
+ * Throws on malformed input.
+ */
+export function decodePunycode(input: string): string {
+  const output: number[] = [];
+  let n = INITIAL_N;
+  let bias = INITIAL_BIAS;
+  let i = 0;
+
+  // Basic code points come before the last delimiter
+  const basicEnd = Math.max(0, input.lastIndexOf('-'));
+  for (let j = 0; j < basicEnd; j++) {
+    if (input.charCodeAt(j) >= 0x80) {
+      throw new RangeError('Invalid punycode: non-basic code point');
+    }
+    output.push(input.charCodeAt(j));
+  }
+
+  for (let index = basicEnd > 0 ? basicEnd + 1 : 0; index < input.length;) {
+    const oldI = i;
+    for (let w = 1, k = BASE; ; k += BASE) {
+      if (index >= input.length) {
+        throw new RangeError('Invalid punycode: truncated input');
+      }
+      const digit = basicToDigit(input.charCodeAt(index++));
+      if (digit >= BASE) {
+        throw new RangeError('Invalid punycode: bad digit');
+      }
+      i += digit * w;
+      const t = k <= bias ? T_MIN : (k >= bias + T_MAX ? T_MAX : k - bias);
+      if (digit < t) break;
+      w *= BASE - t;
+    }
+
+    const length = output.length + 1;
+    bias = adapt(i - oldI, length, oldI === 0);
+    n += Math.floor(i / length);
+    i %= length;
+
+    if (n > 0x10ffff) {
+      throw new RangeError('Invalid punycode: code point out of range');
+    }
+    output.splice(i++, 0, n);
+  }
+
+  return String.fromCodePoint(...output);
+}
+
+/**
+ * Converts an ASCII (xn--) host name to Unicode for display
+ * Labels that are not valid Punycode are left as they are.
+ */
+export function toUnicodeHostname(hostname: string): string {
+  return hostname
+    .split('.')
+    .map(label => {
+      if (!label.toLowerCase().startsWith(ACE_PREFIX)) return label;
+      try {
+        return decodePunycode(label.slice(ACE_PREFIX.length));
+      } catch {
+        return label;
+      }
+    })
+    .join('.');
+}
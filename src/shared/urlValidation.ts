@@ -0,0 +1,169 @@
+/**
+ * URL validation and normalisation shared by the SPA and the Netlify functions
+ *
+ * Both sides import this module, so the same input always gets the same
+ * verdict, normalised URL and error codes. It only relies on the WHATWG URL
+ * parser, which browsers and Node both provide.
+ *
+ * Normalisation:
+ * - surrounding whitespace is trimmed; https:// is added when no scheme is given
+ * - the scheme and host are lowercased, internationalised host names become
+ *   Punycode (xn--) and IP addresses are canonicalised
+ * - non-ASCII path and query characters are percent-encoded; existing
+ *   percent-encoding, the path's case, `www.` and trailing slashes are kept
+ * - default ports and a bare root path are dropped
+ *
+ * Whether a URL reaches a public address is checked server-side only
+ * (netlify/functions/lib/ssrf.ts).
+ */
+
+import { toUnicodeHostname } from './punycode';
+
+export const MAX_URL_LENGTH = 2048;
+const MAX_LABEL_LENGTH = 63;
+const RESTRICTED_CHARS = /[<>"{}|\\^`]/;
+const VALID_PROTOCOLS = ['http:', 'https:'];
+const SCHEME_PATTERN = /^[a-z][a-z0-9+.-]*:\/\//i;
+const HOST_LABEL_PATTERN = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?$/i;
+const IPV4_PATTERN = /^\d{1,3}(\.\d{1,3}){3}$/;
+
+// Reasons a URL is rejected
+export type UrlErrorCode =
+  | 'EMPTY'
+  | 'TOO_LONG'
+  | 'INVALID_CHARACTERS'
+  | 'INVALID_FORMAT'
+  | 'INVALID_PROTOCOL'
+  | 'CREDENTIALS'
+  | 'INVALID_DOMAIN'
+  | 'INVALID_DOMAIN_LABEL'
+  | 'LABEL_TOO_LONG'
+  | 'INVALID_IDN'
+  | 'INVALID_TLD';
+
+export const URL_ERROR_MESSAGES: Record<UrlErrorCode, string> = {
+  EMPTY: 'URL must be a non-empty string',
+  TOO_LONG: `URL exceeds maximum length of ${MAX_URL_LENGTH} characters`,
+  INVALID_CHARACTERS: 'URL contains invalid characters',
+  INVALID_FORMAT: 'Invalid URL format',
+  INVALID_PROTOCOL: 'URL must use HTTP or HTTPS protocol',
+  CREDENTIALS: 'URLs with credentials are not allowed',
+  INVALID_DOMAIN: 'Invalid domain format',
+  INVALID_DOMAIN_LABEL: 'Invalid domain name format',
+  LABEL_TOO_LONG: 'Domain part exceeds maximum length',
+  INVALID_IDN: 'Invalid internationalised domain name',
+  INVALID_TLD: 'Invalid top-level domain'
+};
+
+export interface UrlValidationError {
+  code: UrlErrorCode;
+  message: string;
+}
+
+export type UrlCheckResult =
+  | { valid: true; url: string }                    // The normalised (ASCII) URL
+  | { valid: false; errors: UrlValidationError[] }; // At least one error
+
+function urlError(code: UrlErrorCode): UrlValidationError {
+  return { code, message: URL_ERROR_MESSAGES[code] };
+}
+
+/**
+ * Checks a host name from the URL parser (already lowercase ASCII)
+ */
+function checkHostname(hostname: string): UrlErrorCode | null {
+  // IP literals have been canonicalised by the parser
+  if (hostname.startsWith('[') || IPV4_PATTERN.test(hostname)) {
+    return null;
+  }
+
+  const labels = hostname.split('.');
+  if (labels.length < 2) {
+    return 'INVALID_DOMAIN';
+  }
+
+  for (const label of labels) {
+    if (!HOST_LABEL_PATTERN.test(label)) {
+      return 'INVALID_DOMAIN_LABEL';
+    }
+    if (label.startsWith('xn--') && toUnicodeHostname(label) === label) {
+      return 'INVALID_IDN';
+    }
+    if (label.length > MAX_LABEL_LENGTH) {
+      return 'LABEL_TOO_LONG';
+    }
+  }
+
+  if (labels[labels.length - 1].length < 2) {
+    return 'INVALID_TLD';
+  }
+
+  return null;
+}
+
+/**
+ * Validates and normalises a user-supplied URL
+ */
+export function checkUrl(input: unknown): UrlCheckResult {
+  if (typeof input !== 'string' || !input.trim()) {
+    return { valid: false, errors: [urlError('EMPTY')] };
+  }
+
+  const trimmedUrl = input.trim();
+  const errors: UrlValidationError[] = [];
+
+  if (trimmedUrl.length > MAX_URL_LENGTH) {
+    errors.push(urlError('TOO_LONG'));
+  }
+
+  if (RESTRICTED_CHARS.test(trimmedUrl)) {
+    errors.push(urlError('INVALID_CHARACTERS'));
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(SCHEME_PATTERN.test(trimmedUrl) ? trimmedUrl : 'https://' + trimmedUrl);
+  } catch {
+    return { valid: false, errors: [...errors, urlError('INVALID_FORMAT')] };
+  }
+
+  if (!VALID_PROTOCOLS.includes(parsed.protocol)) {
+    errors.push(urlError('INVALID_PROTOCOL'));
+  } else if (parsed.username || parsed.password) {
+    errors.push(urlError('CREDENTIALS'));
+  }
+
+  const hostError = checkHostname(parsed.hostname);
+  if (hostError) {
+    errors.push(urlError(hostError));
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  const href = parsed.href;
+  const isBareRoot = parsed.pathname === '/' && !parsed.search && !parsed.hash && href.endsWith('/');
+  return { valid: true, url: isBareRoot ? href.slice(0, -1) : href };
+}
+
+/**
+ * Formats a URL for display, with a Unicode host name and readable path
+ * Falls back to the input when it cannot be parsed.
+ */
+export function formatUrlForDisplay(url: string): string {
+  try {
+    const urlObject = new URL(url);
+    const host = toUnicodeHostname(urlObject.hostname) + (urlObject.port ? `:${urlObject.port}` : '');
+    let rest = urlObject.pathname + urlObject.search + urlObject.hash;
+    try {
+      // decodeURI keeps reserved characters such as %2F encoded
+      rest = decodeURI(rest);
+    } catch {
+      // Malformed percent-encoding: show it as it is
+    }
+    return `${urlObject.protocol}//${host}${rest === '/' ? '' : rest}`;
+  } catch {
+    return url;
+  }
+}
@@ -1,7 +1,5 @@
 /**
- * Category types for ping services
- * These match the actual categories used in pingServices.ts
+ * Category type for ping services
+ * Categories are defined by the backend service registry (GET /api/services)
  */
-export type CategoryType =
-  | 'Search Engines'
-  | 'Blog Networks';
+export type CategoryType = string;
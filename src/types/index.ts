@@ -6,12 +6,24 @@ export * from './testing';
 // Re-export specific types that are used across multiple files
 export type {
   PingService,
+  CustomEndpoint,
   PingResult,
+  PingOutcome,
+  PingReason,
   PingResults,
   PingResponse,
   ProgressInfo,
   ApiPingResponse,
-  ApiPingResult
+  ApiPingResult,
+  ApiPingStreamEvent,
+  ApiPingJob,
+  ApiPingJobPair,
+  ApiPingJobStatus,
+  ApiBacklinkOutcome,
+  ApiBacklinkResult,
+  ApiBacklinkResponse,
+  ApiSourceVerification,
+  Backlink
 } from './ping';
 export type { CategoryType } from './categories';
 export type { AppError, ErrorSeverity } from './errors';
@@ -4,19 +4,33 @@
 
 /**
  * Ping service definition
- * Represents a real ping service that the backend calls
+ * Represents a real ping service that the backend calls,
+ * as served by GET /api/services
  */
 export interface PingService {
   /** Display name of the service */
   name: string;
-  /** Ping method used by the backend */
-  method: 'websub' | 'xmlrpc';
+  /** Ping protocol used by the backend, e.g. 'websub' or 'xmlrpc' */
+  method: string;
   /** Service category for filtering */
   category: string;
   /** Human-readable description */
   description: string;
   /** List of downstream services this ping reaches */
   reachesServices: string[];
+  /** Request timeout used by the backend in milliseconds */
+  timeout: number;
+  /** Disabled services are listed by the backend but never pinged */
+  enabled: boolean;
+}
+
+/**
+ * A weblogUpdates.ping endpoint registered by the user
+ * Stored in the browser and sent with each ping request
+ */
+export interface CustomEndpoint {
+  name: string;
+  url: string;
 }
 
 /**
@@ -33,6 +47,31 @@ export interface PingResponse {
   };
 }
 
+/**
+ * How a service answered a ping
+ */
+export type PingOutcome = 'accepted' | 'throttled' | 'rejected' | 'unreachable';
+
+/**
+ * Reason code behind a ping outcome
+ */
+export type PingReason =
+  | 'processed'
+  | 'queued'
+  | 'rate_limited'
+  | 'refused'
+  | 'fault'
+  | 'auth_required'
+  | 'http_error'
+  | 'not_supported'
+  | 'server_error'
+  | 'invalid_response'
+  | 'timeout'
+  | 'network_error'
+  | 'blocked'
+  | 'not_configured'
+  | 'skipped';
+
 /**
  * Result of a single ping operation for display
  */
@@ -40,6 +79,11 @@ export interface PingResult {
   url: string;
   status: 'pending' | 'success' | 'error';
   message?: string;
+  /** Set once the backend has answered for this service */
+  outcome?: PingOutcome;
+  reason?: PingReason;
+  /** Seconds the service asked to wait before pinging again */
+  retryAfter?: number;
   timestamp: number;
   error?: {
     code: string;
@@ -80,17 +124,144 @@ export interface ApiPingResponse {
   results: ApiPingResult[];
   totalTime: number;
   feedUrl?: string;
+  skippedServices?: string[];
   error?: string;
 }
 
 /**
- * Individual service result from the backend
+ * Individual URL × service result from the backend
  */
 export interface ApiPingResult {
   service: string;
+  /** The submitted URL this result belongs to */
+  url: string;
+  success: boolean;
+  message: string;
+  /** Ping protocol that sent the ping, e.g. 'websub' or 'xmlrpc' */
+  method: string;
+  outcome: PingOutcome;
+  reason: PingReason;
+  responseTime: number;
+  /** Seconds the service asked to wait (throttled results) */
+  retryAfter?: number;
+  error?: string;
+}
+
+/**
+ * Event emitted by the streaming /api/ping variant (one per NDJSON line)
+ */
+export type ApiPingStreamEvent =
+  | { type: 'result'; result: ApiPingResult }
+  | { type: 'summary'; success: boolean; total: number; totalTime: number; feedUrl?: string; skippedServices?: string[] }
+  | { type: 'error'; error: string };
+
+/**
+ * Lifecycle state of an asynchronous ping job
+ */
+export type ApiPingJobStatus = 'queued' | 'running' | 'completed' | 'cancelled' | 'failed';
+
+/**
+ * Progress of one URL × service pair within a ping job
+ */
+export interface ApiPingJobPair {
+  url: string;
+  service: string;
+  /** 'skipped' pairs were never pinged (job cancelled or out of time) */
+  status: 'pending' | 'completed' | 'skipped';
+  result?: ApiPingResult;
+}
+
+/**
+ * Asynchronous ping job returned by the /api/jobs endpoints
+ */
+export interface ApiPingJob {
+  id: string;
+  status: ApiPingJobStatus;
+  urls: string[];
+  services: string[];
+  skippedServices: string[];
+  siteFeedUrl?: string;
+  feedUrl: string;
+  pairs: ApiPingJobPair[];
+  total: number;
+  completed: number;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  error?: string;
+}
+
+/**
+ * Outcome of notifying a backlink target
+ * Pingback fault codes are reported by name, e.g. 0x0011 as 'no_link'
+ */
+export type ApiBacklinkOutcome =
+  | 'registered'
+  | 'accepted'
+  | 'source_not_found'
+  | 'no_link'
+  | 'target_not_found'
+  | 'target_not_allowed'
+  | 'already_registered'
+  | 'access_denied'
+  | 'upstream_error'
+  | 'fault'
+  | 'not_supported'
+  | 'error';
+
+/**
+ * A source page that links to a target page
+ */
+export interface Backlink {
+  source: string;
+  target: string;
+  /** Describes the source to Trackback receivers */
+  title?: string;
+  excerpt?: string;
+  blogName?: string;
+}
+
+/**
+ * Result of checking that a backlink's source page links to its target
+ */
+export interface ApiSourceVerification {
+  verified: boolean;
+  message: string;
+  /** Visible text of the link (image alt text included) */
+  anchorText?: string;
+  nofollow?: boolean;
+  ugc?: boolean;
+  sponsored?: boolean;
+}
+
+/**
+ * Result of notifying one backlink target, from the /api/backlinks endpoint
+ */
+export interface ApiBacklinkResult {
+  source: string;
+  target: string;
+  /** Set once the target's endpoint is known */
+  protocol?: 'pingback' | 'webmention' | 'trackback';
+  /** The source page check made before anything is sent */
+  verification?: ApiSourceVerification;
   success: boolean;
+  outcome: ApiBacklinkOutcome;
   message: string;
-  method: 'xmlrpc' | 'websub';
+  /** Fault code returned by the pingback server */
+  faultCode?: number;
+  /** The discovered pingback server, Webmention endpoint or Trackback URL */
+  endpoint?: string;
+  /** Status page for a queued Webmention */
+  statusUrl?: string;
   responseTime: number;
+}
+
+/**
+ * Response from the /api/backlinks backend endpoint
+ */
+export interface ApiBacklinkResponse {
+  success: boolean;
+  results: ApiBacklinkResult[];
+  totalTime: number;
   error?: string;
 }
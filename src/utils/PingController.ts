@@ -1,7 +1,25 @@
-import { PING_SERVICES } from '../services/pingServices';
-import type { PingResults, ProgressInfo, PingResult } from '../types';
-import { pingService } from './pingChecker';
-import { handleError, logError } from './errorHandler';
+import { loadPingServices } from '../services/pingServices';
+import type { PingResults, ProgressInfo, PingResult, ApiPingResult, ApiPingJob, CustomEndpoint } from '../types';
+import { streamPingAllServices } from './pingChecker';
+import { toCustomPingService } from './customEndpoints';
+import { createPingJob, getPingJob, cancelPingJob } from '../api/pingJobs';
+import { handleError, logError, AppError, ErrorSeverity } from './errorHandler';
+import { logger } from './logger';
+
+export interface PingControllerOptions {
+  /**
+   * How results are obtained from the backend:
+   * - 'stream' (default): one streaming request, results arrive as they complete
+   * - 'job': submits an asynchronous job and polls it until it finishes
+   */
+  mode?: 'stream' | 'job';
+  /** Delay between job status polls in milliseconds (job mode only) */
+  pollInterval?: number;
+  /** The user's own XML-RPC endpoints, pinged when selected like any service */
+  customEndpoints?: CustomEndpoint[];
+}
+
+const DEFAULT_POLL_INTERVAL = 1000;
 
 export class PingController {
   private isPaused: boolean = false;
@@ -9,14 +27,15 @@ export class PingController {
   private isRunning: boolean = false;
   private pausePromise: Promise<void> | null = null;
   private pauseResolve: (() => void) | null = null;
-  private readonly PING_DELAY = 500;
   private abortController: AbortController | null = null;
   private activeRequests: Set<Promise<unknown>> = new Set();
+  private jobId: string | null = null;
 
   constructor(
     private onProgress: (info: ProgressInfo) => void,
     private onResults: (results: PingResults) => void,
-    private onError?: (error: Error) => void
+    private onError?: (error: Error) => void,
+    private options: PingControllerOptions = {}
   ) {}
 
   private async waitForActiveRequests(): Promise<void> {
@@ -44,7 +63,10 @@ export class PingController {
       const result = await promise;
       return result;
     } catch (error) {
-      this.handleError(error, context, metadata);
+      // Aborting the request on stop() is expected, not an error
+      if (!this.isStopped) {
+        this.handleError(error, context, metadata);
+      }
       return null;
     } finally {
       // Always cleanup - prevents memory leak on both success and error paths
@@ -76,6 +98,7 @@ export class PingController {
     if (this.abortController) {
       this.abortController.abort();
     }
+    this.cancelJob();
     if (this.isPaused) {
       this.resume();
     }
@@ -93,6 +116,66 @@ export class PingController {
       this.abortController.abort();
       this.abortController = null;
     }
+    this.cancelJob();
+  }
+
+  /**
+   * Cancels the backend job started in job mode, if any
+   */
+  private cancelJob(): void {
+    if (!this.jobId) return;
+
+    const jobId = this.jobId;
+    this.jobId = null;
+    cancelPingJob(jobId).catch(error => {
+      logger.warn('Failed to cancel ping job', { jobId, error: error instanceof Error ? error.message : String(error) });
+    });
+  }
+
+  /**
+   * Submits the URLs as a backend job and polls it until it finishes,
+   * reporting each completed pair once
+   */
+  private async runJob(
+    urls: string[],
+    services: string[],
+    customEndpoints: CustomEndpoint[],
+    onResult: (result: ApiPingResult) => Promise<void>
+  ): Promise<ApiPingJob> {
+    const signal = this.abortController?.signal;
+    const pollInterval = this.options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+    const reported = new Set<string>();
+
+    let job = await createPingJob(urls, services, signal, customEndpoints);
+    this.jobId = job.id;
+
+    for (;;) {
+      for (const pair of job.pairs) {
+        const key = `${pair.url}\n${pair.service}`;
+        if (pair.status !== 'completed' || !pair.result || reported.has(key)) continue;
+
+        reported.add(key);
+        await onResult(pair.result);
+        if (this.isStopped) return job;
+      }
+
+      if (job.status !== 'queued' && job.status !== 'running') {
+        this.jobId = null;
+        if (job.status === 'failed') {
+          throw new AppError(job.error || 'Ping job failed', 'JOB_FAILED', {
+            severity: ErrorSeverity.HIGH,
+            retryable: true,
+            context: { jobId: job.id }
+          });
+        }
+        return job;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, pollInterval));
+      if (this.isStopped) return job;
+
+      job = await getPingJob(job.id, signal);
+    }
   }
 
   private async waitIfPaused(): Promise<void> {
@@ -101,6 +184,44 @@ export class PingController {
     }
   }
 
+  /**
+   * Converts the backend result for one URL × service pair into a display result
+   */
+  private toPingResult(url: string, serviceName: string, apiResult: ApiPingResult): PingResult {
+    const classification = {
+      outcome: apiResult.outcome,
+      reason: apiResult.reason,
+      ...(apiResult.retryAfter !== undefined && { retryAfter: apiResult.retryAfter })
+    };
+
+    if (!apiResult.success) {
+      const result: PingResult = {
+        status: 'error',
+        timestamp: Date.now(),
+        url,
+        message: apiResult.message || 'Failed to ping service',
+        ...classification
+      };
+      if (apiResult.error) {
+        result.error = {
+          code: 'SERVICE_ERROR',
+          details: apiResult.error,
+          service: serviceName,
+          retryable: apiResult.outcome !== 'rejected'
+        };
+      }
+      return result;
+    }
+
+    return {
+      status: 'success',
+      timestamp: Date.now(),
+      url,
+      message: apiResult.message,
+      ...classification
+    };
+  }
+
   async start(urls: string[], selectedServiceNames?: Set<string>): Promise<void> {
     if (this.isRunning) {
       throw new Error('Ping process is already running');
@@ -112,9 +233,11 @@ export class PingController {
       this.abortController = new AbortController();
 
       // Filter services based on selection (default to all if not specified)
+      const customEndpoints = this.options.customEndpoints ?? [];
+      const services = [...await loadPingServices(), ...customEndpoints.map(toCustomPingService)];
       const servicesToPing = selectedServiceNames && selectedServiceNames.size > 0
-        ? PING_SERVICES.filter(s => selectedServiceNames.has(s.name))
-        : PING_SERVICES;
+        ? services.filter(s => selectedServiceNames.has(s.name))
+        : services;
 
       if (servicesToPing.length === 0) {
         throw new Error('No services selected for pinging');
@@ -144,74 +267,82 @@ export class PingController {
         successes
       });
 
-      for (const url of urls) {
-        if (this.isStopped) break;
+      // Results arrive as each URL × service ping completes on the backend.
+      // While paused, the stream reader (or job polling) is held and resumes
+      // where it left off.
+      const applyResult = async (apiResult: ApiPingResult): Promise<void> => {
+        await this.waitIfPaused();
+        if (this.isStopped) return;
 
-        for (const [index, service] of servicesToPing.entries()) {
-          if (this.isStopped) break;
+        const index = servicesToPing.findIndex(s => s.name === apiResult.service);
+        if (index === -1 || !results[apiResult.url]) return;
 
-          await this.waitIfPaused();
-          if (this.isStopped) break;
+        const result = this.toPingResult(apiResult.url, apiResult.service, apiResult);
+        if (result.status === 'success') {
+          successes++;
+        } else {
+          errors++;
+        }
+        results[apiResult.url][index] = result;
 
-          this.onProgress({
-            total,
-            completed,
-            currentUrl: url,
-            currentService: service.name,
-            errors,
-            successes
-          });
+        completed++;
+        this.onResults({ ...results });
+        this.onProgress({
+          total,
+          completed,
+          currentUrl: apiResult.url,
+          currentService: apiResult.service,
+          errors,
+          successes
+        });
+      };
 
-          const response = await this.safeExecute(
-            () => pingService(service, url, this.abortController?.signal),
-            'PingController.start.ping',
-            { service: service.name, url }
-          );
-
-          if (!this.isStopped) {
-            if (response === null || !response.success) {
-              errors++;
-              const result: PingResult = {
-                status: 'error',
-                timestamp: Date.now(),
-                url,
-                message: response?.message || 'Failed to ping service'
-              };
-              if (response?.error) {
-                result.error = {
-                  code: response.error.code,
-                  details: response.error.details,
-                  service: response.error.service,
-                  retryable: true
-                };
-              }
-              results[url][index] = result;
-            } else {
-              successes++;
-              results[url][index] = {
-                status: 'success',
-                timestamp: Date.now(),
-                url,
-                message: response.message
-              };
-            }
-
-            completed++;
-            this.onResults({ ...results });
-            this.onProgress({
-              total,
-              completed,
-              currentUrl: url,
-              currentService: service.name,
-              errors,
-              successes
-            });
-
-            if (!this.isStopped && index < servicesToPing.length - 1) {
-              await new Promise(resolve => setTimeout(resolve, this.PING_DELAY));
-            }
-          }
-        }
+      // Only the selected services are pinged by the backend; custom
+      // endpoints are sent along with their URLs
+      const selectedNames = new Set(servicesToPing.map(s => s.name));
+      const selectedEndpoints = customEndpoints.filter(endpoint => selectedNames.has(endpoint.name));
+      const serviceNames = servicesToPing
+        .filter(s => !selectedEndpoints.some(endpoint => endpoint.name === s.name))
+        .map(s => s.name);
+
+      const response = await this.safeExecute<unknown>(
+        () => this.options.mode === 'job'
+          ? this.runJob(urls, serviceNames, selectedEndpoints, applyResult)
+          : streamPingAllServices(urls, applyResult, this.abortController?.signal, serviceNames, selectedEndpoints),
+        'PingController.start.ping',
+        { urls, mode: this.options.mode ?? 'stream' }
+      );
+
+      if (this.isStopped) return;
+
+      // Anything still pending never received a result (the request failed
+      // or the backend ran out of time before reaching it)
+      let hasUnresolved = false;
+      for (const url of urls) {
+        results[url].forEach((result, index) => {
+          if (result.status !== 'pending') return;
+          hasUnresolved = true;
+          errors++;
+          completed++;
+          results[url][index] = {
+            status: 'error',
+            timestamp: Date.now(),
+            url,
+            message: response ? 'No result returned for this URL' : 'Failed to ping service'
+          };
+        });
+      }
+
+      if (hasUnresolved) {
+        this.onResults({ ...results });
+        this.onProgress({
+          total,
+          completed,
+          currentUrl: urls[urls.length - 1],
+          currentService: servicesToPing[servicesToPing.length - 1].name,
+          errors,
+          successes
+        });
       }
     } catch (error) {
       this.handleError(error, 'PingController.start', { urls });
@@ -0,0 +1,96 @@
+/**
+ * Custom XML-RPC endpoints
+ *
+ * Users can register their own weblogUpdates.ping servers (e.g. regional
+ * ping services missing from the registry). They are kept in local storage,
+ * listed under the "Custom" category next to the registry services and sent
+ * with each ping request, where the backend validates them again.
+ */
+
+import type { CustomEndpoint, PingService } from '../types';
+import { CUSTOM_ENDPOINT_CATEGORY, MAX_CUSTOM_ENDPOINTS, MAX_CUSTOM_ENDPOINT_NAME_LENGTH } from '../constants';
+import { validateUrl } from './urlUtils';
+import { logger } from './logger';
+
+const STORAGE_KEY = 'pinger.customEndpoints';
+
+// Matches the backend's timeout for custom endpoints
+const CUSTOM_ENDPOINT_TIMEOUT = 8000;
+
+function isCustomEndpoint(value: unknown): value is CustomEndpoint {
+  return Boolean(value)
+    && typeof (value as CustomEndpoint).name === 'string'
+    && typeof (value as CustomEndpoint).url === 'string';
+}
+
+/**
+ * Reads the stored endpoints, ignoring anything malformed
+ */
+export function loadCustomEndpoints(): CustomEndpoint[] {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored)
+      ? stored.filter(isCustomEndpoint).slice(0, MAX_CUSTOM_ENDPOINTS)
+      : [];
+  } catch (error) {
+    logger.warn('Failed to read custom endpoints', { error: error instanceof Error ? error.message : String(error) });
+    return [];
+  }
+}
+
+/**
+ * Stores the endpoints (best effort: storage may be full or disabled)
+ */
+export function saveCustomEndpoints(endpoints: CustomEndpoint[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(endpoints));
+  } catch (error) {
+    logger.warn('Failed to save custom endpoints', { error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+/**
+ * Checks a new endpoint against the stored ones and the service names in use
+ *
+ * @returns The endpoint with a trimmed name and normalised URL, or an error message
+ */
+export function validateCustomEndpoint(
+  endpoint: CustomEndpoint,
+  existing: CustomEndpoint[],
+  serviceNames: string[]
+): { valid: true; endpoint: CustomEndpoint } | { valid: false; error: string } {
+  if (existing.length >= MAX_CUSTOM_ENDPOINTS) {
+    return { valid: false, error: `Maximum ${MAX_CUSTOM_ENDPOINTS} custom endpoints allowed` };
+  }
+
+  const name = endpoint.name.trim();
+  if (!name || name.length > MAX_CUSTOM_ENDPOINT_NAME_LENGTH) {
+    return { valid: false, error: `Name must be 1 to ${MAX_CUSTOM_ENDPOINT_NAME_LENGTH} characters` };
+  }
+
+  if (serviceNames.includes(name) || existing.some(e => e.name === name)) {
+    return { valid: false, error: `A service named ${name} already exists` };
+  }
+
+  const url = validateUrl(endpoint.url);
+  if (!url.isValid) {
+    return { valid: false, error: `Invalid URL: ${url.errors.join(', ')}` };
+  }
+
+  return { valid: true, endpoint: { name, url: url.normalizedUrl ?? endpoint.url.trim() } };
+}
+
+/**
+ * Describes a custom endpoint like a registry service
+ */
+export function toCustomPingService(endpoint: CustomEndpoint): PingService {
+  return {
+    name: endpoint.name,
+    method: 'xmlrpc',
+    category: CUSTOM_ENDPOINT_CATEGORY,
+    description: `Custom endpoint (${endpoint.url})`,
+    reachesServices: [],
+    timeout: CUSTOM_ENDPOINT_TIMEOUT,
+    enabled: true
+  };
+}
@@ -75,4 +75,32 @@ export function isRetryableError(error: unknown): boolean {
   return false;
 }
 
+/**
+ * Reads when a rate-limited (429) request may be retried, from its Retry-After header
+ * Returns an epoch timestamp in milliseconds, or undefined if the header is missing
+ */
+export function getRetryAt(response: Response): number | undefined {
+  const retryAfter = response.headers.get('retry-after');
+  if (!retryAfter) return undefined;
+
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return Date.now() + seconds * 1000;
+  }
+
+  // Retry-After may also be an HTTP date
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : date;
+}
+
+/**
+ * Returns the retry time recorded on a rate limit error, if any
+ */
+export function getErrorRetryAt(error: unknown): number | undefined {
+  if (error instanceof AppError && typeof error.metadata.retryAt === 'number') {
+    return error.metadata.retryAt;
+  }
+  return undefined;
+}
+
 export { AppError, ErrorSeverity };
\ No newline at end of file
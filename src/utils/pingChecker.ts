@@ -2,18 +2,20 @@
  * Ping Checker - Real API Integration
  *
  * Calls the /api/ping backend endpoint to perform actual pings
- * to search engines and blog services.
+ * to search engines and blog services, either as a single JSON
+ * response or as a stream of per-result events.
  *
  * In development mode (npm run dev), returns mock responses since
  * Netlify functions are not available locally.
  */
 
-import type { PingService, PingResponse, ApiPingResponse, ApiPingResult } from '../types/ping';
+import type { PingService, PingResponse, ApiPingResponse, ApiPingResult, ApiPingStreamEvent, CustomEndpoint } from '../types/ping';
 import { validateUrl } from './urlUtils';
 import { logger } from './logger';
-import { AppError, ErrorSeverity } from './errorHandler';
-import { REQUEST_TIMEOUT } from '../constants';
-import { PING_SERVICES } from '../services/pingServices';
+import { AppError, ErrorSeverity, getRetryAt } from './errorHandler';
+import { ERROR_MESSAGES, REQUEST_TIMEOUT } from '../constants';
+import { loadPingServices } from '../services/pingServices';
+import { toCustomPingService } from './customEndpoints';
 
 /**
  * Check if we're running in development mode
@@ -33,6 +35,15 @@ const MOCK_DELAY_MAX = 1500;
  */
 const MOCK_SUCCESS_RATE = 0.9;
 
+/**
+ * Outcomes simulated for failed mock pings, one of each kind
+ */
+const MOCK_FAILURES: Pick<ApiPingResult, 'outcome' | 'reason' | 'retryAfter'>[] = [
+  { outcome: 'throttled', reason: 'rate_limited', retryAfter: 60 },
+  { outcome: 'rejected', reason: 'refused' },
+  { outcome: 'unreachable', reason: 'timeout' }
+];
+
 /**
  * Custom error class for ping operations
  */
@@ -45,6 +56,7 @@ export class PingError extends AppError {
       severity?: ErrorSeverity;
       retryable?: boolean;
       details?: string;
+      retryAt?: number;
     } = {}
   ) {
     super(message, code, {
@@ -52,7 +64,8 @@ export class PingError extends AppError {
       retryable: options.retryable ?? true,
       context: {
         service,
-        details: options.details
+        details: options.details,
+        retryAt: options.retryAt
       }
     });
     this.name = 'PingError';
@@ -61,17 +74,31 @@ export class PingError extends AppError {
 
 /**
  * Cache for API responses to avoid duplicate calls
- * Key: comma-separated sorted URLs
+ * Key: comma-separated sorted URLs, selected services and custom endpoints
  * Value: API response with timestamp
  */
 const responseCache = new Map<string, { response: ApiPingResponse; timestamp: number }>();
 const CACHE_TTL = 30000; // 30 seconds
 
 /**
- * Generates a cache key from URLs
+ * Generates a cache key from URLs and the service selection
  */
-function getCacheKey(urls: string[]): string {
-  return [...urls].sort().join(',');
+function getCacheKey(urls: string[], services?: string[], customEndpoints: CustomEndpoint[] = []): string {
+  let key = [...urls].sort().join(',');
+  if (services) {
+    key = `${key}|${[...services].sort().join(',')}`;
+  }
+  if (customEndpoints.length > 0) {
+    key = `${key}|${customEndpoints.map(endpoint => `${endpoint.name}=${endpoint.url}`).sort().join(',')}`;
+  }
+  return key;
+}
+
+/**
+ * Builds the /api/ping request body
+ */
+function buildRequestBody(urls: string[], services?: string[], customEndpoints: CustomEndpoint[] = []): string {
+  return JSON.stringify({ urls, services, ...(customEndpoints.length > 0 && { customEndpoints }) });
 }
 
 /**
@@ -96,8 +123,16 @@ function getRandomDelay(): number {
 /**
  * Generates mock ping responses for development mode
  * Simulates realistic responses with varying success/failure states
+ *
+ * When onResult is given, each result is reported after its simulated
+ * response time, mimicking the streaming endpoint.
  */
-async function generateMockResponse(urls: string[]): Promise<ApiPingResponse> {
+async function generateMockResponse(
+  urls: string[],
+  onResult?: (result: ApiPingResult) => void | Promise<void>,
+  selectedServices?: string[],
+  customEndpoints: CustomEndpoint[] = []
+): Promise<ApiPingResponse> {
   const startTime = Date.now();
 
   logger.info('[MOCK MODE] Generating mock ping responses', { urls });
@@ -105,21 +140,43 @@ async function generateMockResponse(urls: string[]): Promise<ApiPingResponse> {
   // Simulate network delay
   await new Promise(resolve => setTimeout(resolve, getRandomDelay()));
 
-  const results: ApiPingResult[] = PING_SERVICES.map(service => {
+  const registry = await loadPingServices();
+  const selected = selectedServices
+    ? registry.filter(service => selectedServices.includes(service.name))
+    : registry;
+  const skippedServices = registry
+    .filter(service => !selected.includes(service))
+    .map(service => service.name);
+  const services = [...selected, ...customEndpoints.map(toCustomPingService)];
+
+  const results: ApiPingResult[] = urls.flatMap(url => services.map(service => {
     const success = Math.random() < MOCK_SUCCESS_RATE;
     const responseTime = getRandomDelay();
+    const failure = MOCK_FAILURES[Math.floor(Math.random() * MOCK_FAILURES.length)];
 
     return {
       service: service.name,
+      url,
       success,
       message: success
         ? `[MOCK] Successfully pinged ${service.name}`
         : `[MOCK] Failed to ping ${service.name}`,
-      method: service.method as 'websub' | 'xmlrpc',
+      method: service.method,
+      ...(success ? { outcome: 'accepted' as const, reason: 'processed' as const } : failure),
       responseTime,
       error: success ? undefined : '[MOCK] Simulated failure for testing'
     };
-  });
+  }));
+
+  if (onResult) {
+    const byArrival = [...results].sort((a, b) => a.responseTime - b.responseTime);
+    let elapsed = 0;
+    for (const result of byArrival) {
+      await new Promise(resolve => setTimeout(resolve, result.responseTime - elapsed));
+      elapsed = result.responseTime;
+      await onResult(result);
+    }
+  }
 
   const totalTime = Date.now() - startTime;
 
@@ -127,7 +184,8 @@ async function generateMockResponse(urls: string[]): Promise<ApiPingResponse> {
     success: results.some(r => r.success),
     results,
     totalTime,
-    feedUrl: `[MOCK] http://localhost/api/feed?urls=${encodeURIComponent(urls.join(','))}`
+    feedUrl: '[MOCK] http://localhost/api/feed/0000000000000000',
+    skippedServices
   };
 }
 
@@ -155,6 +213,172 @@ function validateUrls(urls: string[]): { valid: boolean; errors: string[] } {
   return { valid: errors.length === 0, errors };
 }
 
+/**
+ * Throws a PingError if any of the URLs is invalid
+ */
+function assertValidUrls(urls: string[]): void {
+  const validation = validateUrls(urls);
+  if (!validation.valid) {
+    throw new PingError(
+      'Invalid URLs',
+      'VALIDATION_ERROR',
+      'API',
+      {
+        severity: ErrorSeverity.HIGH,
+        retryable: false,
+        details: validation.errors.join('; ')
+      }
+    );
+  }
+}
+
+/**
+ * Combines a timeout signal with an optional external signal
+ * The request will abort on EITHER timeout OR external cancellation
+ */
+function combineSignals(timeoutSignal: AbortSignal, signal?: AbortSignal): AbortSignal {
+  if (!signal) {
+    // No external signal, just use timeout signal
+    return timeoutSignal;
+  }
+
+  // Use AbortSignal.any() if available (modern browsers)
+  // Falls back to manual listener-based combination for older browsers
+  if (typeof AbortSignal.any === 'function') {
+    return AbortSignal.any([timeoutSignal, signal]);
+  }
+
+  // Fallback: create a new controller that aborts when either signal fires
+  const combinedController = new AbortController();
+
+  const abortHandler = () => combinedController.abort();
+  timeoutSignal.addEventListener('abort', abortHandler);
+  signal.addEventListener('abort', abortHandler);
+
+  // Check if either signal is already aborted
+  if (timeoutSignal.aborted || signal.aborted) {
+    combinedController.abort();
+  }
+
+  return combinedController.signal;
+}
+
+/**
+ * Builds a PingError from a non-OK API response
+ */
+async function toServerError(response: Response): Promise<PingError> {
+  if (response.status === 429) {
+    return new PingError(
+      ERROR_MESSAGES.RATE_LIMITED,
+      'RATE_LIMITED',
+      'API',
+      {
+        severity: ErrorSeverity.MEDIUM,
+        retryable: true,
+        retryAt: getRetryAt(response)
+      }
+    );
+  }
+
+  let errorMessage = `Server error: ${response.status}`;
+  try {
+    const errorData = await response.json();
+    if (errorData.error) {
+      errorMessage = errorData.error;
+    }
+  } catch {
+    // Use default error message
+  }
+
+  return new PingError(
+    errorMessage,
+    'SERVER_ERROR',
+    'API',
+    {
+      severity: ErrorSeverity.HIGH,
+      retryable: response.status >= 500
+    }
+  );
+}
+
+/**
+ * Normalises any error thrown while calling the API into a PingError
+ */
+function toPingError(error: unknown): PingError {
+  if (error instanceof PingError) {
+    return error;
+  }
+
+  if (error instanceof Error) {
+    if (error.name === 'AbortError') {
+      return new PingError(
+        'Request timed out or was cancelled',
+        'TIMEOUT_ERROR',
+        'API',
+        {
+          severity: ErrorSeverity.MEDIUM,
+          retryable: true
+        }
+      );
+    }
+
+    return new PingError(
+      `Network error: ${error.message}`,
+      'NETWORK_ERROR',
+      'API',
+      {
+        severity: ErrorSeverity.HIGH,
+        retryable: true
+      }
+    );
+  }
+
+  return new PingError(
+    'Unknown error occurred',
+    'UNKNOWN_ERROR',
+    'API',
+    {
+      severity: ErrorSeverity.HIGH,
+      retryable: true
+    }
+  );
+}
+
+/**
+ * Reads a newline-delimited JSON stream, invoking onEvent for each line
+ * Reading waits for onEvent to settle before consuming the next line
+ */
+async function readNdjsonStream<T>(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: T) => void | Promise<void>
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let newlineIndex = buffer.indexOf('\n');
+    while (newlineIndex >= 0) {
+      const line = buffer.slice(0, newlineIndex).trim();
+      buffer = buffer.slice(newlineIndex + 1);
+      if (line) {
+        await onEvent(JSON.parse(line) as T);
+      }
+      newlineIndex = buffer.indexOf('\n');
+    }
+  }
+
+  const rest = (buffer + decoder.decode()).trim();
+  if (rest) {
+    await onEvent(JSON.parse(rest) as T);
+  }
+}
+
 /**
  * Calls the /api/ping backend endpoint
  *
@@ -163,17 +387,21 @@ function validateUrls(urls: string[]): { valid: boolean; errors: string[] } {
  *
  * @param urls - Array of URLs to ping (max 5)
  * @param signal - Optional AbortSignal for cancellation
+ * @param services - Names of the services to ping (defaults to every enabled service)
+ * @param customEndpoints - The user's own XML-RPC endpoints, pinged in addition
  * @returns Promise resolving to the API response
  */
 export async function pingAllServices(
   urls: string[],
-  signal?: AbortSignal
+  signal?: AbortSignal,
+  services?: string[],
+  customEndpoints: CustomEndpoint[] = []
 ): Promise<ApiPingResponse> {
   // Clear expired cache entries
   clearExpiredCache();
 
   // Check cache first
-  const cacheKey = getCacheKey(urls);
+  const cacheKey = getCacheKey(urls, services, customEndpoints);
   const cached = responseCache.get(cacheKey);
   if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
     logger.debug('Returning cached ping response', { urls });
@@ -181,24 +409,12 @@ export async function pingAllServices(
   }
 
   // Validate URLs
-  const validation = validateUrls(urls);
-  if (!validation.valid) {
-    throw new PingError(
-      'Invalid URLs',
-      'VALIDATION_ERROR',
-      'API',
-      {
-        severity: ErrorSeverity.HIGH,
-        retryable: false,
-        details: validation.errors.join('; ')
-      }
-    );
-  }
+  assertValidUrls(urls);
 
   // In development mode, use mock responses since backend is not available
   if (IS_DEV_MODE) {
     logger.warn('[MOCK MODE] Using mock responses - backend not available in development');
-    const mockResponse = await generateMockResponse(urls);
+    const mockResponse = await generateMockResponse(urls, undefined, services, customEndpoints);
 
     // Cache the mock response
     responseCache.set(cacheKey, { response: mockResponse, timestamp: Date.now() });
@@ -214,66 +430,19 @@ export async function pingAllServices(
     const timeoutId = setTimeout(() => timeoutController.abort(), REQUEST_TIMEOUT);
 
     try {
-      // Combine timeout signal with external signal (if provided)
-      // Request will abort on EITHER timeout OR external cancellation
-      let combinedSignal: AbortSignal;
-
-      if (signal) {
-        // Use AbortSignal.any() if available (modern browsers)
-        // Falls back to manual listener-based combination for older browsers
-        if (typeof AbortSignal.any === 'function') {
-          combinedSignal = AbortSignal.any([timeoutController.signal, signal]);
-        } else {
-          // Fallback: create a new controller that aborts when either signal fires
-          const combinedController = new AbortController();
-
-          const abortHandler = () => combinedController.abort();
-          timeoutController.signal.addEventListener('abort', abortHandler);
-          signal.addEventListener('abort', abortHandler);
-
-          // Check if either signal is already aborted
-          if (timeoutController.signal.aborted || signal.aborted) {
-            combinedController.abort();
-          }
-
-          combinedSignal = combinedController.signal;
-        }
-      } else {
-        // No external signal, just use timeout signal
-        combinedSignal = timeoutController.signal;
-      }
-
       const response = await fetch('/api/ping', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify({ urls }),
-        signal: combinedSignal
+        body: buildRequestBody(urls, services, customEndpoints),
+        signal: combineSignals(timeoutController.signal, signal)
       });
 
       clearTimeout(timeoutId);
 
       if (!response.ok) {
-        let errorMessage = `Server error: ${response.status}`;
-        try {
-          const errorData = await response.json();
-          if (errorData.error) {
-            errorMessage = errorData.error;
-          }
-        } catch {
-          // Use default error message
-        }
-
-        throw new PingError(
-          errorMessage,
-          'SERVER_ERROR',
-          'API',
-          {
-            severity: ErrorSeverity.HIGH,
-            retryable: response.status >= 500
-          }
-        );
+        throw await toServerError(response);
       }
 
       const data: ApiPingResponse = await response.json();
@@ -294,58 +463,173 @@ export async function pingAllServices(
     }
 
   } catch (error) {
-    if (error instanceof PingError) {
-      throw error;
+    throw toPingError(error);
+  }
+}
+
+/**
+ * Calls the streaming variant of the /api/ping backend endpoint
+ *
+ * The backend emits one NDJSON event per URL × service pair as soon as that
+ * ping completes, so onResult sees real progress rather than a single final
+ * response. Reading waits for onResult to settle, which lets callers pause
+ * consumption of the stream.
+ *
+ * @param urls - Array of URLs to ping (max 5)
+ * @param onResult - Invoked for each result as it arrives
+ * @param signal - Optional AbortSignal for cancellation
+ * @param services - Names of the services to ping (defaults to every enabled service)
+ * @param customEndpoints - The user's own XML-RPC endpoints, pinged in addition
+ * @returns Promise resolving to the assembled API response once the stream ends
+ */
+export async function streamPingAllServices(
+  urls: string[],
+  onResult: (result: ApiPingResult) => void | Promise<void>,
+  signal?: AbortSignal,
+  services?: string[],
+  customEndpoints: CustomEndpoint[] = []
+): Promise<ApiPingResponse> {
+  // Clear expired cache entries
+  clearExpiredCache();
+
+  // Replay cached results so callers see the same sequence of events
+  const cacheKey = getCacheKey(urls, services, customEndpoints);
+  const cached = responseCache.get(cacheKey);
+  if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+    logger.debug('Replaying cached ping response', { urls });
+    for (const result of cached.response.results) {
+      await onResult(result);
     }
+    return cached.response;
+  }
+
+  // Validate URLs
+  assertValidUrls(urls);
 
-    if (error instanceof Error) {
-      if (error.name === 'AbortError') {
+  // In development mode, use mock responses since backend is not available
+  if (IS_DEV_MODE) {
+    logger.warn('[MOCK MODE] Using mock responses - backend not available in development');
+    const mockResponse = await generateMockResponse(urls, onResult, services, customEndpoints);
+
+    // Cache the mock response
+    responseCache.set(cacheKey, { response: mockResponse, timestamp: Date.now() });
+
+    return mockResponse;
+  }
+
+  logger.info('Calling streaming ping API', { urls, urlCount: urls.length });
+
+  try {
+    // The timeout only guards the initial connection; once the stream is open
+    // the backend closes it within its own execution limit, and pausing the
+    // reader must not count against the timeout
+    const timeoutController = new AbortController();
+    const timeoutId = setTimeout(() => timeoutController.abort(), REQUEST_TIMEOUT);
+
+    try {
+      const response = await fetch('/api/ping', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/x-ndjson'
+        },
+        body: buildRequestBody(urls, services, customEndpoints),
+        signal: combineSignals(timeoutController.signal, signal)
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        throw await toServerError(response);
+      }
+
+      if (!response.body) {
         throw new PingError(
-          'Request timed out or was cancelled',
-          'TIMEOUT_ERROR',
+          'Streaming responses are not supported',
+          'STREAM_ERROR',
           'API',
           {
-            severity: ErrorSeverity.MEDIUM,
-            retryable: true
+            severity: ErrorSeverity.HIGH,
+            retryable: false
           }
         );
       }
 
-      throw new PingError(
-        `Network error: ${error.message}`,
-        'NETWORK_ERROR',
-        'API',
-        {
-          severity: ErrorSeverity.HIGH,
-          retryable: true
+      const results: ApiPingResult[] = [];
+      // Assigned inside the callback, so declared without null-narrowing
+      let summary = null as Extract<ApiPingStreamEvent, { type: 'summary' }> | null;
+
+      await readNdjsonStream<ApiPingStreamEvent>(response.body, async event => {
+        switch (event.type) {
+          case 'result':
+            results.push(event.result);
+            await onResult(event.result);
+            break;
+          case 'summary':
+            summary = event;
+            break;
+          case 'error':
+            throw new PingError(
+              event.error,
+              'SERVER_ERROR',
+              'API',
+              {
+                severity: ErrorSeverity.HIGH,
+                retryable: true
+              }
+            );
         }
-      );
-    }
+      });
 
-    throw new PingError(
-      'Unknown error occurred',
-      'UNKNOWN_ERROR',
-      'API',
-      {
-        severity: ErrorSeverity.HIGH,
-        retryable: true
+      if (!summary) {
+        throw new PingError(
+          'Ping stream ended unexpectedly',
+          'STREAM_ERROR',
+          'API',
+          {
+            severity: ErrorSeverity.HIGH,
+            retryable: true
+          }
+        );
       }
-    );
+
+      const { success, totalTime, feedUrl, skippedServices } = summary;
+      const data: ApiPingResponse = { success, results, totalTime, feedUrl, skippedServices };
+
+      // Cache the assembled response
+      responseCache.set(cacheKey, { response: data, timestamp: Date.now() });
+
+      logger.info('Ping API stream completed', {
+        success: data.success,
+        resultCount: data.results.length,
+        totalTime: data.totalTime
+      });
+
+      return data;
+
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+  } catch (error) {
+    throw toPingError(error);
   }
 }
 
 /**
- * Gets the result for a specific service from the API response
+ * Gets the result for a specific URL × service pair from the API response
  *
  * @param apiResponse - The full API response
  * @param serviceName - Name of the service to get result for
+ * @param url - The submitted URL to get the result for
  * @returns The service result or undefined if not found
  */
 export function getServiceResult(
   apiResponse: ApiPingResponse,
-  serviceName: string
+  serviceName: string,
+  url: string
 ): ApiPingResult | undefined {
-  return apiResponse.results.find(r => r.service === serviceName);
+  return apiResponse.results.find(r => r.service === serviceName && r.url === url);
 }
 
 /**
@@ -379,8 +663,8 @@ export async function pingService(
   }
 
   try {
-    const apiResponse = await pingAllServices([url], signal);
-    const serviceResult = getServiceResult(apiResponse, service.name);
+    const apiResponse = await pingAllServices([url], signal, [service.name]);
+    const serviceResult = getServiceResult(apiResponse, service.name, url);
 
     if (!serviceResult) {
       // Service not found in response - this shouldn't happen with proper configuration
@@ -1,139 +1,38 @@
-import { logger } from './logger';
+import type { UrlErrorCode } from '../shared/urlValidation';
+import { checkUrl } from '../shared/urlValidation';
 
-const MAX_URL_LENGTH = 2048;
-const RESTRICTED_CHARS = /[<>"{}|\\^`]/;
-const VALID_PROTOCOLS = ['http:', 'https:'];
+export { formatUrlForDisplay } from '../shared/urlValidation';
 
 export interface URLValidationResult {
   isValid: boolean;
   errors: string[];
-  normalizedUrl?: string;
+  errorCodes?: UrlErrorCode[];
+  normalizedUrl?: string; // The URL as pinged: Punycode host, percent-encoded path
 }
 
+/**
+ * Validates a URL with the rules the backend applies (see shared/urlValidation)
+ */
 export function validateUrl(url: string): URLValidationResult {
-  const errors: string[] = [];
-
-  // Basic checks
-  if (!url || typeof url !== 'string') {
-    return { isValid: false, errors: ['URL must be a non-empty string'] };
-  }
-
-  const trimmedUrl = url.trim();
-
-  // Length check
-  if (trimmedUrl.length > MAX_URL_LENGTH) {
-    errors.push(`URL exceeds maximum length of ${MAX_URL_LENGTH} characters`);
-  }
-
-  // Check for restricted characters
-  if (RESTRICTED_CHARS.test(trimmedUrl)) {
-    errors.push('URL contains invalid characters');
-  }
-
-  try {
-    // Add protocol if missing
-    let urlWithProtocol = trimmedUrl;
-    if (!trimmedUrl.match(/^[a-z]+:\/\//i)) {
-      urlWithProtocol = 'https://' + trimmedUrl;
-    }
-
-    const urlObject = new URL(urlWithProtocol);
-
-    // Protocol validation
-    if (!VALID_PROTOCOLS.includes(urlObject.protocol)) {
-      errors.push('URL must use HTTP or HTTPS protocol');
-    }
-
-    // Domain validation
-    const domain = urlObject.hostname;
-    const domainParts = domain.split('.');
-
-    if (domainParts.length < 2) {
-      errors.push('Invalid domain format');
-    }
-
-    // Validate each domain part
-    for (const part of domainParts) {
-      if (!part || !/^[a-z0-9]([a-z0-9-]*[a-z0-9])?$/i.test(part)) {
-        errors.push('Invalid domain name format');
-        break;
-      }
-      if (part.length > 63) {
-        errors.push('Domain part exceeds maximum length');
-        break;
-      }
-    }
-
-    // TLD validation
-    const tld = domainParts[domainParts.length - 1];
-    if (tld && tld.length < 2) {
-      errors.push('Invalid top-level domain');
-    }
-
-    if (errors.length === 0) {
-      const normalizedUrl = normalizeUrl(urlWithProtocol);
-      return { isValid: true, errors: [], normalizedUrl };
-    }
-  } catch (error) {
-    logger.debug('URL validation error', {
-      url: trimmedUrl,
-      error: error instanceof Error ? error.message : String(error)
-    });
-    errors.push('Invalid URL format');
+  const result = checkUrl(url);
+
+  if (!result.valid) {
+    return {
+      isValid: false,
+      errors: result.errors.map(error => error.message),
+      errorCodes: result.errors.map(error => error.code)
+    };
   }
 
-  return { isValid: false, errors };
+  return { isValid: true, errors: [], normalizedUrl: result.url };
 }
 
 export function normalizeUrl(url: string): string {
-  try {
-    let normalizedUrl = url.trim().toLowerCase();
-
-    // Empty URL is invalid
-    if (!normalizedUrl) {
-      throw new Error('URL cannot be empty');
-    }
-
-    if (!normalizedUrl.match(/^[a-z]+:\/\//)) {
-      normalizedUrl = 'https://' + normalizedUrl;
-    }
-
-    const urlObject = new URL(normalizedUrl);
-
-    // Validate that hostname has at least one dot (valid domain)
-    // This catches cases like 'not-a-url' which URL constructor accepts
-    const hostname = urlObject.hostname;
-    if (!hostname.includes('.') || hostname.split('.').some(part => part.length === 0)) {
-      throw new Error('Invalid domain format');
-    }
-
-    // Validate TLD exists and has at least 2 chars
-    const parts = hostname.split('.');
-    const tld = parts[parts.length - 1];
-    if (!tld || tld.length < 2) {
-      throw new Error('Invalid top-level domain');
-    }
-
-    // Clean up hostname
-    const cleanHostname = hostname
-      .replace(/^www\./, '')
-      .replace(/\.+/g, '.')
-      .replace(/\.$/, '');
-
-    urlObject.hostname = cleanHostname;
-
-    // Remove default ports
-    if ((urlObject.protocol === 'http:' && urlObject.port === '80') ||
-        (urlObject.protocol === 'https:' && urlObject.port === '443')) {
-      urlObject.port = '';
-    }
-
-    // Remove trailing slashes
-    const finalUrl = urlObject.toString();
-    return finalUrl.replace(/\/+$/, '');
-  } catch (error) {
-    throw new Error(`Invalid URL format: ${error instanceof Error ? error.message : String(error)}`);
+  const result = checkUrl(url);
+  if (!result.valid) {
+    throw new Error(`Invalid URL format: ${result.errors[0].message}`);
   }
+  return result.url;
 }
 
 export function extractDomain(url: string): string {
@@ -144,4 +43,4 @@ export function extractDomain(url: string): string {
   } catch {
     throw new Error('Invalid URL: Cannot extract domain');
   }
-}
\ No newline at end of file
+}
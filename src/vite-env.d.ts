@@ -2,6 +2,7 @@
 
 interface ImportMetaEnv {
   readonly VITE_BASE_URL: string
+  readonly VITE_PING_MODE?: 'stream' | 'job'
   readonly NODE_ENV: 'development' | 'production'
 }
 